@@ -1,9 +1,47 @@
 import { db } from '../db/database';
 import { PersonRole, WorkClass, ProjectType } from '../types';
-import type { ActualHoursSummary } from '../types';
-import { getProjectParent } from './projectUtils';
-import type { MonthFilter } from '../utils/monthRange';
-import { resolveMonths, toDbMonths, fromDbMonth } from '../utils/monthRange';
+import type { ActualHoursSummary, Project, TeamMember, WeeklyCategoryTotals } from '../types';
+import { buildProjectHierarchy } from './projectUtils';
+import type { ProjectHierarchy } from './projectUtils';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { resolveMonths, toDbMonths, fromDbMonth, filterToWeeks, weekFilterMonths } from '../utils/monthRange';
+import { weekKeyOf } from '../utils/weekDates';
+import { loadDailyRollups, loadMonthlyRollups, loadTeamMembers } from './teamScope';
+
+/**
+ * Work class and project type for an R#, from the Projects config table.
+ * Unconfigured R#s count as planned sustaining work.
+ */
+export function classifyProject(project: Project | undefined): Pick<ActualHoursSummary, 'work_class' | 'project_type'> {
+  return {
+    work_class: project?.work_class ?? WorkClass.Planned,
+    project_type: project?.type ?? ProjectType.Sustaining,
+  };
+}
+
+/**
+ * Keep the rows the engineer-hours aggregations count: people classified as
+ * Engineers, optionally limited to one project (with sub-projects) and one engineer.
+ * Works on rollups and raw timesheet rows alike.
+ */
+export function filterEngineerRows<T extends { full_name: string; r_number: string }>(
+  rows: T[],
+  teamMembers: TeamMember[],
+  hierarchy: ProjectHierarchy,
+  projectFilter?: string,
+  engineerFilter?: string
+): T[] {
+  const engineers = new Set(
+    teamMembers
+      .filter(m => m.role === PersonRole.Engineer)
+      .map(m => m.full_name)
+  );
+  return rows.filter(t =>
+    engineers.has(t.full_name) &&
+    (!projectFilter || hierarchy.isWithin(t.r_number, projectFilter)) &&
+    (!engineerFilter || t.full_name === engineerFilter)
+  );
+}
 
 /**
  * Aggregate raw timesheet entries into the Actual_Hours summary.
@@ -19,43 +57,37 @@ import { resolveMonths, toDbMonths, fromDbMonth } from '../utils/monthRange';
  * @param monthFilter - Optional: limit to specific month(s) (YYYY-MM or array)
  * @param projectFilter - Optional: limit to a specific project (parent R# code).
  *   When set, includes sub-projects (e.g. "R1337" matches R1337, R1337.1, R1337.1A).
+ * @param team - Optional: LP team to scope to; defaults to the active team ('' = all teams).
+ * @param weeks - Optional: keep only hours logged in these weeks (of the months in monthFilter).
  */
 export async function computeActualHours(
   monthFilter?: MonthFilter,
   projectFilter?: string,
-  engineerFilter?: string
+  engineerFilter?: string,
+  team?: string,
+  weeks?: WeekFilter
 ): Promise<ActualHoursSummary[]> {
-  const teamMembers = await db.teamMembers.toArray();
+  const teamMembers = await loadTeamMembers(team);
   const projects = await db.projects.toArray();
 
-  const engineers = new Set(
-    teamMembers
-      .filter(m => m.role === PersonRole.Engineer)
-      .map(m => m.full_name)
-  );
-
   const projectMap = new Map(projects.map(p => [p.project_id, p]));
+  const hierarchy = buildProjectHierarchy(projects);
 
   // Apply month filter if provided (supports single or multi-month)
   const csvMonths = monthFilter ? toDbMonths(resolveMonths(monthFilter)) : null;
 
-  const timesheets = csvMonths
-    ? await db.timesheets.where('month').anyOf(csvMonths).toArray()
-    : await db.timesheets.toArray();
+  const timesheets = weeks
+    ? filterToWeeks(await loadDailyRollups(csvMonths, team), weeks)
+    : await loadMonthlyRollups(csvMonths, team);
 
   // Filter to engineers only, and optionally by project (including sub-projects)
-  const engineerEntries = timesheets.filter(t =>
-    engineers.has(t.full_name) &&
-    (!projectFilter || getProjectParent(t.r_number) === projectFilter || t.r_number === projectFilter) &&
-    (!engineerFilter || t.full_name === engineerFilter)
-  );
+  const engineerEntries = filterEngineerRows(timesheets, teamMembers, hierarchy, projectFilter, engineerFilter);
 
   // Group by (month, project_id/r_number, engineer)
   const groups = new Map<string, ActualHoursSummary>();
 
   for (const entry of engineerEntries) {
     const month = fromDbMonth(entry.month);
-    const project = projectMap.get(entry.r_number);
     const key = `${month}|${entry.r_number}|${entry.full_name}`;
 
     if (!groups.has(key)) {
@@ -63,8 +95,7 @@ export async function computeActualHours(
         month,
         project_id: entry.r_number,
         engineer: entry.full_name,
-        work_class: project?.work_class ?? WorkClass.Planned,
-        project_type: project?.type ?? ProjectType.Sustaining,
+        ...classifyProject(projectMap.get(entry.r_number)),
         actual_hours: 0,
       });
     }
@@ -73,3 +104,37 @@ export async function computeActualHours(
 
   return [...groups.values()];
 }
+
+/**
+ * Actual engineer hours per week by category, split the way
+ * computeMonthlyCategoryTotals splits monthly actuals. Every selected week
+ * gets a row, with zeros when nothing was logged.
+ */
+export async function computeWeeklyCategoryTotals(
+  weeks: WeekFilter,
+  projectFilter?: string,
+  engineerFilter?: string,
+  team?: string
+): Promise<WeeklyCategoryTotals[]> {
+  const teamMembers = await loadTeamMembers(team);
+  const projects = await db.projects.toArray();
+  const projectMap = new Map(projects.map(p => [p.project_id, p]));
+  const hierarchy = buildProjectHierarchy(projects);
+
+  const rollups = filterToWeeks(await loadDailyRollups(toDbMonths(weekFilterMonths(weeks)), team), weeks);
+  const engineerEntries = filterEngineerRows(rollups, teamMembers, hierarchy, projectFilter, engineerFilter);
+
+  const totals = new Map<string, WeeklyCategoryTotals>(weeks.weeks.map(week => [week, {
+    week, actual_npd: 0, actual_sustaining: 0, actual_sprint: 0, actual_firefighting: 0,
+  }]));
+  for (const entry of engineerEntries) {
+    const row = totals.get(weekKeyOf(entry.date, weeks.convention))!;
+    const { work_class, project_type } = classifyProject(projectMap.get(entry.r_number));
+    if (project_type === ProjectType.NPD) row.actual_npd += entry.hours;
+    else if (project_type === ProjectType.Sustaining) row.actual_sustaining += entry.hours;
+    else if (project_type === ProjectType.Sprint) row.actual_sprint += entry.hours;
+    if (work_class === WorkClass.UnplannedFirefighting) row.actual_firefighting += entry.hours;
+  }
+
+  return [...totals.values()];
+}
@@ -0,0 +1,124 @@
+import Dexie from 'dexie';
+import { db } from '../db/database';
+import type { AggregationArgs, AggregationName, AggregationResult } from './aggregationRegistry';
+import type { AggregationWorkerRequest, AggregationWorkerResponse } from './aggregationWorker';
+
+/** Cached results kept before the oldest are evicted. */
+const MAX_CACHE_ENTRIES = 100;
+
+const cache = new Map<string, Promise<unknown>>();
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+const listeners = new Set<() => void>();
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+let version = 0;
+
+/**
+ * Run an aggregation in the aggregation worker, reusing a cached result for
+ * the same (function, arguments) while the data it reads is unchanged.
+ *
+ * The cache is cleared whenever any Dexie table except `config` is written —
+ * from this page, the import worker or another tab. Config rows also hold UI
+ * selections that change on every filter switch, so only the config values
+ * aggregations actually read (team scope, team name, capacity, KPI cards) are
+ * part of the key.
+ */
+export async function runAggregation<N extends AggregationName>(
+  name: N,
+  ...args: AggregationArgs<N>
+): Promise<AggregationResult<N>> {
+  const config = await db.config.get(1);
+  const key = JSON.stringify([
+    name,
+    args,
+    config?.selected_team ?? '',
+    config?.team_name,
+    config?.std_monthly_capacity_hours,
+    config?.hours_per_day,
+    config?.over_utilization_threshold_pct,
+    config?.kpi_cards,
+  ]);
+
+  let result = cache.get(key);
+  if (result) {
+    // Refresh recency for eviction
+    cache.delete(key);
+  } else {
+    result = execute(name, args);
+    result.catch(() => cache.delete(key));
+  }
+  cache.set(key, result);
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return result as Promise<AggregationResult<N>>;
+}
+
+/**
+ * Bumped each time cached results are invalidated. Include it in the deps of a
+ * useLiveQuery that calls runAggregation so the query re-runs on new data.
+ */
+export function getAggregationVersion(): number {
+  return version;
+}
+
+/** Subscribe to cache invalidations; returns the unsubscribe function. */
+export function subscribeToAggregations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+Dexie.on('storagemutated', (parts) => {
+  const prefix = `idb://${db.name}/`;
+  const dataChanged = Object.keys(parts).some(part =>
+    part.startsWith(prefix) && part.slice(prefix.length).split('/')[0] !== 'config'
+  );
+  if (!dataChanged) return;
+
+  cache.clear();
+  version++;
+  for (const listener of listeners) listener();
+});
+
+async function execute<N extends AggregationName>(name: N, args: AggregationArgs<N>): Promise<unknown> {
+  if (typeof Worker === 'undefined') {
+    const { callAggregation } = await import('./aggregationRegistry');
+    return callAggregation(name, args);
+  }
+
+  const target = getWorker();
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    target.postMessage({ type: 'run', id, name, args } as AggregationWorkerRequest);
+  });
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./aggregationWorker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<AggregationWorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === 'result') request.resolve(message.value);
+    else request.reject(new Error(message.message));
+  };
+
+  worker.onerror = (event) => {
+    // A crashed worker is replaced on the next call; fail everything in flight
+    const error = new Error(event.message || 'aggregation worker crashed');
+    for (const request of pending.values()) request.reject(error);
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+}
@@ -0,0 +1,57 @@
+import { computeActualHours, computeWeeklyCategoryTotals } from './actualHours';
+import { computeLabTechHours } from './labTechHours';
+import { computePlannedUtilization } from './utilization';
+import {
+  computeMonthlyCategoryTotals,
+  computeNPDProjectComparison,
+  computeProjectTimeline,
+} from './plannedVsActual';
+import { computeTechAffinity } from './techAffinity';
+import { computeFocusScore } from './focusScore';
+import { computeBusFactorRisk } from './busFactor';
+import { computeMeetingTax } from './meetingTax';
+import { computeAnomalies } from './anomalies';
+import { generateNarrativeSummary } from './narrative';
+import { computeAllKPIs, computeWeeklyKPIs } from './kpiEngine';
+import { computeCapacityForecast } from './capacityForecast';
+import { computeBaselineVariance } from './planBaselines';
+import { computeKPIDrillDown } from './kpiDrillDown';
+
+/**
+ * Aggregations callable through the aggregation worker (see aggregationClient.ts).
+ * Arguments and results must survive structured cloning.
+ */
+export const AGGREGATIONS = {
+  computeActualHours,
+  computeWeeklyCategoryTotals,
+  computeLabTechHours,
+  computePlannedUtilization,
+  computeMonthlyCategoryTotals,
+  computeNPDProjectComparison,
+  computeProjectTimeline,
+  computeTechAffinity,
+  computeFocusScore,
+  computeBusFactorRisk,
+  computeMeetingTax,
+  computeAnomalies,
+  generateNarrativeSummary,
+  computeAllKPIs,
+  computeWeeklyKPIs,
+  computeCapacityForecast,
+  computeBaselineVariance,
+  computeKPIDrillDown,
+};
+
+export type AggregationName = keyof typeof AGGREGATIONS;
+export type AggregationArgs<N extends AggregationName> = Parameters<(typeof AGGREGATIONS)[N]>;
+export type AggregationResult<N extends AggregationName> = Awaited<ReturnType<(typeof AGGREGATIONS)[N]>>;
+
+/** Call a registered aggregation by name. */
+export function callAggregation<N extends AggregationName>(
+  name: N,
+  args: AggregationArgs<N>
+): Promise<AggregationResult<N>> {
+  // TypeScript cannot correlate the name with the entry's signature
+  const fn = AGGREGATIONS[name] as unknown as (...a: AggregationArgs<N>) => Promise<AggregationResult<N>>;
+  return fn(...args);
+}
@@ -0,0 +1,28 @@
+/**
+ * Aggregation worker — runs dashboard aggregations off the main thread.
+ * Dexie works inside workers and reads the same IndexedDB as the page.
+ * Stateless: caching and invalidation live in aggregationClient.ts.
+ */
+import { callAggregation } from './aggregationRegistry';
+import type { AggregationArgs, AggregationName } from './aggregationRegistry';
+
+/** Messages the page sends to the worker. */
+export type AggregationWorkerRequest = {
+  [N in AggregationName]: { type: 'run'; id: number; name: N; args: AggregationArgs<N> }
+}[AggregationName];
+
+/** Messages the worker sends back to the page. */
+export type AggregationWorkerResponse =
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; message: string };
+
+self.onmessage = async (event: MessageEvent<AggregationWorkerRequest>) => {
+  const { id, name, args } = event.data;
+  try {
+    const value = await callAggregation(name, args);
+    self.postMessage({ type: 'result', id, value } satisfies AggregationWorkerResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    self.postMessage({ type: 'error', id, message } satisfies AggregationWorkerResponse);
+  }
+};
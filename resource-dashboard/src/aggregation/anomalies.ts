@@ -7,9 +7,14 @@ import {
   getRuleSeverity,
   isCustomValue,
 } from './anomalyRules';
-import { getProjectParent } from './projectUtils';
-import type { MonthFilter } from '../utils/monthRange';
-import { resolveMonths, toDbMonths } from '../utils/monthRange';
+import { loadProjectHierarchy } from './projectUtils';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { filterToWeeks, resolveMonths, toDbMonths } from '../utils/monthRange';
+import { getActiveTeam, loadDailyRollups, loadMonthlyRollups, loadTeamMembers, scopeAllocations } from './teamScope';
+import { DEFAULT_KPI_CARDS, ENGINEER_KPI_CARDS, getKPIDefinition } from './kpiRegistry';
+import { formatTargetValue } from './kpiTargets';
+import { computeIMRChart, describeViolations } from './spc';
+import { formatMonth } from '../utils/format';
 
 export type AnomalySeverity = 'alert' | 'warning' | 'info';
 export type AnomalyType =
@@ -20,7 +25,8 @@ export type AnomalyType =
   | 'project-over-burn'
   | 'project-under-burn'
   | 'firefighting-spike'
-  | 'new-person';
+  | 'new-person'
+  | 'spc-signal';
 
 export interface Anomaly {
   type: AnomalyType;
@@ -29,6 +35,7 @@ export interface Anomaly {
   detail: string;
   person?: string;
   projectId?: string;
+  kpiKey?: string;
   ruleId: string;
   thresholdComparison?: string;
   isCustomThreshold?: boolean;
@@ -37,19 +44,31 @@ export interface Anomaly {
 
 /**
  * Generate a stable composite ID for an anomaly.
- * Format: "ruleId::subject" where subject is person or projectId.
+ * Format: "ruleId::subject" where subject is person or projectId,
+ * plus "::kpiKey" for anomalies about a KPI.
  */
 export function generateAnomalyId(anomaly: Anomaly): string {
   const subject = anomaly.person || anomaly.projectId || 'global';
-  return `${anomaly.ruleId}::${subject}`;
+  return anomaly.kpiKey ? `${anomaly.ruleId}::${subject}::${anomaly.kpiKey}` : `${anomaly.ruleId}::${subject}`;
 }
 
 /**
  * Detects anomalies across timesheet data for a given month.
  * Reads user-configured thresholds from Dexie; falls back to ANOMALY_RULES defaults.
+ * Scoped to `team` when given, otherwise to the active team.
+ * With `weeks`, looks only at days in those weeks; rules that compare against
+ * monthly plans or monthly KPI snapshots are skipped.
  * Returns a severity-sorted list of alerts.
  */
-export async function computeAnomalies(month?: MonthFilter, projectFilter?: string, engineerFilter?: string): Promise<Anomaly[]> {
+export async function computeAnomalies(
+  month?: MonthFilter,
+  projectFilter?: string,
+  engineerFilter?: string,
+  team?: string,
+  weeks?: WeekFilter
+): Promise<Anomaly[]> {
+  const scope = team ?? await getActiveTeam();
+
   // Load configurable thresholds
   const storedThresholds = await db.anomalyThresholds.toArray();
   const thresholdMap: Map<string, AnomalyThreshold> = new Map(
@@ -57,13 +76,13 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
   );
 
   const csvMonths = month ? toDbMonths(resolveMonths(month)) : null;
-  let timesheets = csvMonths
-    ? await db.timesheets.where('month').anyOf(csvMonths).toArray()
-    : await db.timesheets.toArray();
+  const monthRows = await loadDailyRollups(csvMonths, scope);
+  let timesheets = weeks ? filterToWeeks(monthRows, weeks) : monthRows;
+  const hierarchy = await loadProjectHierarchy();
 
   if (projectFilter) {
     timesheets = timesheets.filter(t =>
-      getProjectParent(t.r_number) === projectFilter || t.r_number === projectFilter
+      hierarchy.isWithin(t.r_number, projectFilter)
     );
   }
 
@@ -73,7 +92,7 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
 
   if (timesheets.length === 0) return [];
 
-  const teamMembers = await db.teamMembers.toArray();
+  const teamMembers = await loadTeamMembers(scope);
   const memberSet = new Set(teamMembers.map(m => m.full_name));
   const projects = await db.projects.toArray();
   const projectMap = new Map(projects.map(p => [p.project_id, p]));
@@ -106,9 +125,7 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
       if (e.r_number) dateProjects.add(e.r_number);
       byDate.set(e.date, dateProjects);
 
-      if (e.task?.toLowerCase().includes('meeting')) {
-        meetingHours += e.hours;
-      }
+      meetingHours += e.meeting_hours;
 
       const proj = projectMap.get(e.r_number);
       if (proj?.work_class === 'Unplanned/Firefighting') {
@@ -275,7 +292,7 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
   }
 
   // ── Rules: project over/under burn (driven by PlannedAllocations) ──
-  if (month) {
+  if (month && !weeks) {
     const plannedFilterMonths = resolveMonths(month);
     let allocations = await db.plannedAllocations
       .where('month')
@@ -284,7 +301,7 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
 
     if (projectFilter) {
       allocations = allocations.filter(a =>
-        a.project_id === projectFilter || getProjectParent(a.project_id) === projectFilter
+        hierarchy.isWithin(a.project_id, projectFilter)
       );
     }
 
@@ -292,6 +309,8 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
       allocations = allocations.filter(a => a.engineer === engineerFilter);
     }
 
+    allocations = await scopeAllocations(allocations, scope);
+
     // Aggregate planned hours by project_id
     const plannedByProject = new Map<string, number>();
     for (const a of allocations) {
@@ -350,19 +369,26 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
   // ── Rule: new-person ──
   if (isRuleEnabled(thresholdMap, 'new-person') && csvMonths) {
     const csvMonthSet = new Set(csvMonths);
-    const allTimesheets = await db.timesheets.toArray();
+    const allTimesheets = await loadMonthlyRollups(null, scope);
     const priorPeople = new Set<string>();
     for (const t of allTimesheets) {
       if (!csvMonthSet.has(t.month)) {
         priorPeople.add(t.full_name);
       }
     }
+    // Days of the selected months outside the selected weeks count as before too
+    if (weeks) {
+      const selected = new Set(filterToWeeks(monthRows, weeks));
+      for (const t of monthRows) {
+        if (!selected.has(t)) priorPeople.add(t.full_name);
+      }
+    }
     for (const person of byPerson.keys()) {
       if (!priorPeople.has(person) && memberSet.has(person)) {
         anomalies.push({
           type: 'new-person',
           severity: getRuleSeverity(thresholdMap, 'new-person'),
-          title: `${person} is new this month`,
+          title: `${person} is new this ${weeks ? 'week' : 'month'}`,
           detail: 'First time appearing in timesheet data.',
           person,
           ruleId: 'new-person',
@@ -371,9 +397,89 @@ export async function computeAnomalies(month?: MonthFilter, projectFilter?: stri
     }
   }
 
+  // ── Rule: spc-signal (control chart of each KPI's history) ──
+  if (isRuleEnabled(thresholdMap, 'spc-signal') && !weeks) {
+    // The team series plus one per member, like the per-person rules above
+    const subjects = engineerFilter
+      ? [engineerFilter]
+      : ['', ...[...byPerson.keys()].filter(p => memberSet.has(p))];
+    for (const engineer of subjects) {
+      anomalies.push(...await detectKPISignals(thresholdMap, month, projectFilter, scope, engineer));
+    }
+  }
+
   // Sort: alert → warning → info
   const severityOrder: Record<string, number> = { alert: 0, warning: 1, info: 2 };
   anomalies.sort((a, b) => (severityOrder[a.severity] ?? 2) - (severityOrder[b.severity] ?? 2));
 
   return anomalies;
 }
+
+/**
+ * KPIs whose I-MR chart (built from KPI history up to the checked months)
+ * breaks a Western Electric rule in one of those months. Checks the latest
+ * snapshot when no month is given. `engineer` is "" for the team series.
+ */
+async function detectKPISignals(
+  thresholdMap: Map<string, AnomalyThreshold>,
+  month: MonthFilter | undefined,
+  projectFilter: string | undefined,
+  team: string,
+  engineer: string
+): Promise<Anomaly[]> {
+  const minMonths = getThreshold(thresholdMap, 'spc-signal', 'minHistoryMonths');
+  const runRules = getThreshold(thresholdMap, 'spc-signal', 'runRules') === 1;
+
+  const history = await db.kpiHistory
+    .where('[project_filter+team_filter+engineer_filter]')
+    .equals([projectFilter ?? '', team, engineer])
+    .sortBy('month');
+  const checked = month ? resolveMonths(month) : history.slice(-1).map(s => s.month);
+  if (checked.length === 0) return [];
+
+  const checkedSet = new Set(checked);
+  const lastChecked = checked[checked.length - 1];
+  const series = history.filter(s => s.month <= lastChecked);
+  if (series.length < minMonths) return [];
+
+  const config = await db.config.get(1);
+  const customKPIs = await db.customKPIs.toArray();
+  const settings = await db.kpiSettings.toArray();
+  const cards = engineer ? ENGINEER_KPI_CARDS : config?.kpi_cards ?? DEFAULT_KPI_CARDS;
+  const hasCustom = isCustomValue(thresholdMap, 'spc-signal', 'minHistoryMonths')
+    || isCustomValue(thresholdMap, 'spc-signal', 'runRules');
+
+  const anomalies: Anomaly[] = [];
+  for (const key of cards) {
+    const def = getKPIDefinition(key, customKPIs, settings);
+    if (!def) continue;
+    if (projectFilter && !engineer && !def.applicableToSingleProject) continue;
+
+    const chart = computeIMRChart(series.map(s => ({ month: s.month, value: def.getValue(s.results) })));
+    if (!chart) continue;
+
+    // Latest checked month that breaks an enabled rule
+    const signal = chart.points
+      .filter(p => checkedSet.has(p.month))
+      .map(p => ({ point: p, violations: p.violations.filter(r => runRules || r === 1) }))
+      .filter(p => p.violations.length > 0)
+      .pop();
+    if (!signal) continue;
+
+    const { point, violations } = signal;
+    const fmt = (v: number) => formatTargetValue(v, def);
+    anomalies.push({
+      type: 'spc-signal',
+      severity: getRuleSeverity(thresholdMap, 'spc-signal'),
+      title: `${engineer ? `${engineer}'s ` : ''}${def.label} out of control in ${formatMonth(point.month)}`,
+      detail: `${fmt(point.value)} vs a mean of ${fmt(chart.mean)} (limits ${fmt(chart.lcl)} to ${fmt(chart.ucl)}); breaks ${describeViolations(violations)}.`,
+      person: engineer || undefined,
+      kpiKey: key,
+      ruleId: 'spc-signal',
+      thresholdComparison: `${def.shortLabel} (${fmt(point.value)}) checked against ${chart.points.length} months of history, ${runRules ? 'rules 1-4' : 'rule 1 only'}`,
+      isCustomThreshold: hasCustom,
+      customThresholdLabel: hasCustom ? `min ${minMonths} months${runRules ? '' : ', 3σ only'}` : undefined,
+    });
+  }
+  return anomalies;
+}
@@ -1,10 +1,12 @@
 import { db } from '../db/database';
 import { computeAnomalies, generateAnomalyId } from './anomalies';
 import { isRuleEnabled } from './anomalyRules';
+import { ALL_TEAMS, getActiveTeam, listTeams } from './teamScope';
 import type { StoredAnomaly, AnomalyWithStatus, AnomalyThreshold } from '../types';
 
 /**
- * Refresh the anomaly history snapshot for a given month/project filter.
+ * Refresh the anomaly history snapshots for a given month/project filter —
+ * one per team plus the all-teams roll-up.
  * Computes current anomalies, converts to StoredAnomaly with stable IDs, and upserts.
  */
 export async function refreshAnomalyHistory(
@@ -12,7 +14,22 @@ export async function refreshAnomalyHistory(
   projectFilter?: string
 ): Promise<void> {
   const filter = projectFilter ?? '';
-  const anomalies = await computeAnomalies(month, filter || undefined);
+  const scopes = [ALL_TEAMS, ...await listTeams()];
+
+  for (const team of scopes) {
+    await refreshTeamAnomalyHistory(month, filter, team);
+  }
+
+  const scopeSet = new Set(scopes);
+  await db.anomalyHistory
+    .where('month')
+    .equals(month)
+    .filter(s => s.project_filter === filter && !scopeSet.has(s.team_filter))
+    .delete();
+}
+
+async function refreshTeamAnomalyHistory(month: string, filter: string, team: string): Promise<void> {
+  const anomalies = await computeAnomalies(month, filter || undefined, undefined, team);
 
   const stored: StoredAnomaly[] = anomalies.map(a => ({
     anomaly_id: generateAnomalyId(a),
@@ -29,8 +46,8 @@ export async function refreshAnomalyHistory(
 
   // Check for existing snapshot
   const existing = await db.anomalyHistory
-    .where('[month+project_filter]')
-    .equals([month, filter])
+    .where('[month+project_filter+team_filter]')
+    .equals([month, filter, team])
     .first();
 
   if (existing && existing.id != null) {
@@ -42,6 +59,7 @@ export async function refreshAnomalyHistory(
     await db.anomalyHistory.add({
       month,
       project_filter: filter,
+      team_filter: team,
       computed_at: now,
       anomalies: stored,
     });
@@ -50,23 +68,24 @@ export async function refreshAnomalyHistory(
 
 /**
  * Get anomalies for a month enriched with cross-month status (new/recurring/resolved).
- * Compares current month's snapshot against the previous month.
+ * Compares current month's snapshot against the previous month, for the active team.
  */
 export async function getAnomaliesWithStatus(
   month: string,
   projectFilter?: string
 ): Promise<AnomalyWithStatus[]> {
   const filter = projectFilter ?? '';
+  const team = await getActiveTeam();
 
   // Get current month snapshot
   const currentSnapshot = await db.anomalyHistory
-    .where('[month+project_filter]')
-    .equals([month, filter])
+    .where('[month+project_filter+team_filter]')
+    .equals([month, filter, team])
     .first();
 
   if (!currentSnapshot) {
     // No snapshot yet — compute live and treat all as new
-    const live = await computeAnomalies(month, filter || undefined);
+    const live = await computeAnomalies(month, filter || undefined, undefined, team);
     return live.map(a => ({
       anomaly_id: generateAnomalyId(a),
       type: a.type,
@@ -82,8 +101,8 @@ export async function getAnomaliesWithStatus(
 
   // Get all prior snapshots for this filter, sorted by month descending
   const allSnapshots = await db.anomalyHistory
-    .where('project_filter')
-    .equals(filter)
+    .where('[project_filter+team_filter]')
+    .equals([filter, team])
     .sortBy('month');
 
   const priorSnapshots = allSnapshots.filter(s => s.month < month);
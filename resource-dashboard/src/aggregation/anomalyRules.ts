@@ -221,6 +221,39 @@ export const ANOMALY_RULES: AnomalyRuleDefinition[] = [
     rationale: 'Awareness of team composition changes. New members may need onboarding time that affects project velocity.',
     parameters: [],
   },
+  {
+    ruleId: 'spc-signal',
+    name: 'KPI Out of Statistical Control',
+    description: "Flags KPIs whose month breaks a Western Electric rule on the KPI's individuals control chart.",
+    category: 'risk',
+    defaultSeverity: 'warning',
+    defaultEnabled: true,
+    rationale: 'Every KPI moves a little from month to month. Control limits separate that noise from a real shift in the process, so attention goes to changes that have a cause worth finding.',
+    parameters: [
+      {
+        key: 'minHistoryMonths',
+        label: 'Minimum months of history',
+        description: 'Only check KPIs with at least this many monthly snapshots; shorter series give unreliable limits.',
+        type: 'number',
+        defaultValue: 8,
+        min: 5,
+        max: 24,
+        step: 1,
+        unit: 'months',
+      },
+      {
+        key: 'runRules',
+        label: 'Include run rules',
+        description: 'When set to 1, runs and trends (rules 2-4) also trigger. Set to 0 to flag only points beyond the 3σ limits.',
+        type: 'number',
+        defaultValue: 1,
+        min: 0,
+        max: 1,
+        step: 1,
+        unit: '',
+      },
+    ],
+  },
 ];
 
 // ── Helper functions ──
@@ -1,9 +1,10 @@
 import { db } from '../db/database';
 import { ProjectType } from '../types';
 import type { ProjectType as ProjectTypeType } from '../types';
-import { getProjectParent } from './projectUtils';
+import { buildProjectHierarchy } from './projectUtils';
 import type { MonthFilter } from '../utils/monthRange';
 import { resolveMonths, toDbMonths } from '../utils/monthRange';
+import { loadMonthlyRollups } from './teamScope';
 
 export interface BusFactorResult {
   projectId: string;
@@ -25,15 +26,14 @@ export interface BusFactorResult {
 export async function computeBusFactorRisk(month?: MonthFilter, projectFilter?: string, engineerFilter?: string): Promise<BusFactorResult[]> {
   const projects = await db.projects.toArray();
   const projectMap = new Map(projects.map(p => [p.project_id, p]));
+  const hierarchy = buildProjectHierarchy(projects);
 
   const csvMonths = month ? toDbMonths(resolveMonths(month)) : null;
-  let timesheets = csvMonths
-    ? await db.timesheets.where('month').anyOf(csvMonths).toArray()
-    : await db.timesheets.toArray();
+  let timesheets = await loadMonthlyRollups(csvMonths);
 
   if (projectFilter) {
     timesheets = timesheets.filter(t =>
-      getProjectParent(t.r_number) === projectFilter || t.r_number === projectFilter
+      hierarchy.isWithin(t.r_number, projectFilter)
     );
   }
 
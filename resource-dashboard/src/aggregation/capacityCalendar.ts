@@ -0,0 +1,112 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { db } from '../db/database';
+import type { PlannedLeave, TeamMember } from '../types';
+import { getCapacityFactor, getHoursPerDay, getWorkingDates, isEmployedInMonth } from '../utils/capacity';
+
+/**
+ * Per-person, per-month capacity derived from the capacity calendar:
+ * (weekdays − company holidays − the person's planned leave) × hours per day,
+ * scaled by the person's part-time factor (capacity override in force that
+ * month ÷ standard). Days before a member's start date or after their end
+ * date don't count.
+ */
+export interface CapacityCalendar {
+  hoursPerDay: number;
+  /** Working days in a YYYY-MM month before anyone's leave */
+  workingDays(month: string): number;
+  /** Working days `engineer` has booked as leave in a YYYY-MM month */
+  leaveDays(engineer: string, month: string): number;
+  /** Capacity hours for `engineer` in a YYYY-MM month; unknown names work full time */
+  capacityFor(engineer: string, month: string): number;
+  /** Working days of a YYYY-MM month that fall between two YYYY-MM-DD dates (inclusive) */
+  workingDaysBetween(month: string, start: string, end: string): number;
+  /** Capacity hours for `engineer` on the days of a YYYY-MM month between two YYYY-MM-DD dates */
+  capacityBetween(engineer: string, month: string, start: string, end: string): number;
+  /** Whether `engineer` is employed at any point in a YYYY-MM month; unknown names always are */
+  isEmployed(engineer: string, month: string): boolean;
+}
+
+/**
+ * Build a capacity calendar from the holidays, planned leave and team members
+ * in the database. Load once per aggregation and query it per person/month.
+ */
+export async function loadCapacityCalendar(): Promise<CapacityCalendar> {
+  const [holidays, leave, members, config] = await Promise.all([
+    db.holidays.toArray(),
+    db.plannedLeave.toArray(),
+    db.teamMembers.toArray(),
+    db.config.get(1),
+  ]);
+  const stdCapacity = config?.std_monthly_capacity_hours ?? 140;
+  return buildCapacityCalendar(
+    new Set(holidays.map(h => h.date)),
+    leave,
+    members,
+    stdCapacity,
+    getHoursPerDay(config?.hours_per_day, stdCapacity),
+  );
+}
+
+function buildCapacityCalendar(
+  holidays: Set<string>,
+  leave: PlannedLeave[],
+  members: TeamMember[],
+  stdCapacity: number,
+  hoursPerDay: number,
+): CapacityCalendar {
+  const memberMap = new Map(members.map(m => [m.full_name, m]));
+
+  // engineer → every date covered by their leave (weekends and holidays are
+  // filtered out when counting against a month's working dates)
+  const leaveDates = new Map<string, Set<string>>();
+  for (const l of leave) {
+    if (!l.start_date || !l.end_date || l.end_date < l.start_date) continue;
+    const dates = leaveDates.get(l.engineer) ?? new Set<string>();
+    for (const d of eachDayOfInterval({ start: parseISO(l.start_date), end: parseISO(l.end_date) })) {
+      dates.add(format(d, 'yyyy-MM-dd'));
+    }
+    leaveDates.set(l.engineer, dates);
+  }
+
+  const workingDatesByMonth = new Map<string, string[]>();
+  const workingDatesOf = (month: string) => {
+    let dates = workingDatesByMonth.get(month);
+    if (!dates) {
+      dates = getWorkingDates(month, holidays);
+      workingDatesByMonth.set(month, dates);
+    }
+    return dates;
+  };
+
+  const leaveDays = (engineer: string, month: string) => {
+    const dates = leaveDates.get(engineer);
+    if (!dates) return 0;
+    return workingDatesOf(month).filter(d => dates.has(d)).length;
+  };
+
+  const isEmployed = (engineer: string, month: string) => {
+    const member = memberMap.get(engineer);
+    return !member || isEmployedInMonth(member, month);
+  };
+
+  const capacityOn = (engineer: string, month: string, dates: string[]) => {
+    if (!isEmployed(engineer, month)) return 0;
+    const member = memberMap.get(engineer);
+    const start = member?.start_date || '';
+    const end = member?.end_date || '9999-12-31';
+    const onLeave = leaveDates.get(engineer);
+    const days = dates.filter(d => d >= start && d <= end && !onLeave?.has(d)).length;
+    return days * hoursPerDay * getCapacityFactor(member, stdCapacity, month);
+  };
+
+  return {
+    hoursPerDay,
+    workingDays: month => workingDatesOf(month).length,
+    leaveDays,
+    isEmployed,
+    capacityFor: (engineer, month) => capacityOn(engineer, month, workingDatesOf(month)),
+    workingDaysBetween: (month, start, end) => workingDatesOf(month).filter(d => d >= start && d <= end).length,
+    capacityBetween: (engineer, month, start, end) =>
+      capacityOn(engineer, month, workingDatesOf(month).filter(d => d >= start && d <= end)),
+  };
+}
@@ -1,7 +1,9 @@
 import { db } from '../db/database';
 import { PersonRole } from '../types';
 import type { CapacityForecastEntry, CapacityForecastSummary, PlannedAllocation } from '../types';
-import { getEngineerCapacity } from '../utils/capacity';
+import { loadCapacityCalendar } from './capacityCalendar';
+import { loadTeamMembers, scopeAllocations } from './teamScope';
+import { buildProjectHierarchy } from './projectUtils';
 
 /**
  * Compute forward-looking capacity forecast from planned allocations.
@@ -17,10 +19,10 @@ export async function computeCapacityForecast(
 ): Promise<{ entries: CapacityForecastEntry[]; summaries: CapacityForecastSummary[] }> {
   if (months.length === 0) return { entries: [], summaries: [] };
 
-  const [stored, teamMembers, config, projects] = await Promise.all([
-    db.plannedAllocations.toArray(),
-    db.teamMembers.toArray(),
-    db.config.get(1),
+  const [stored, teamMembers, calendar, projects] = await Promise.all([
+    db.plannedAllocations.toArray().then(a => scopeAllocations(a)),
+    loadTeamMembers(),
+    loadCapacityCalendar(),
     db.projects.toArray(),
   ]);
 
@@ -30,15 +32,15 @@ export async function computeCapacityForecast(
     ? [...stored, ...overlayAllocations]
     : stored;
 
-  const stdCapacity = config?.std_monthly_capacity_hours ?? 140;
   const monthSet = new Set(months);
 
-  // Build capacity lookup per engineer
-  const capacityMap = new Map<string, number>();
+  // Engineers counted toward capacity, skipping anyone not employed in the window
   const engineerSet = new Set<string>();
   for (const m of teamMembers) {
-    if (m.role === PersonRole.Engineer && !m.exclude_from_capacity) {
-      capacityMap.set(m.full_name, getEngineerCapacity(m, stdCapacity));
+    if (
+      m.role === PersonRole.Engineer && !m.exclude_from_capacity &&
+      months.some(month => calendar.isEmployed(m.full_name, month))
+    ) {
       engineerSet.add(m.full_name);
     }
   }
@@ -46,7 +48,8 @@ export async function computeCapacityForecast(
   // Filter allocations to requested months (and optional project filter)
   let filtered = allocations.filter(a => monthSet.has(a.month));
   if (projectFilter) {
-    filtered = filtered.filter(a => a.project_id === projectFilter || a.project_id.startsWith(projectFilter + '.'));
+    const hierarchy = buildProjectHierarchy(projects);
+    filtered = filtered.filter(a => hierarchy.isWithin(a.project_id, projectFilter));
   }
 
   // Aggregate per engineer|month, tracking per-project breakdown
@@ -60,11 +63,9 @@ export async function computeCapacityForecast(
   }
 
   // Also collect engineers who appear in allocations but aren't in teamMembers
+  // (the calendar gives them a full-time schedule)
   for (const a of filtered) {
-    if (!engineerSet.has(a.engineer)) {
-      engineerSet.add(a.engineer);
-      capacityMap.set(a.engineer, stdCapacity);
-    }
+    if (calendar.isEmployed(a.engineer, a.month)) engineerSet.add(a.engineer);
   }
 
   const entries: CapacityForecastEntry[] = [];
@@ -86,9 +87,10 @@ export async function computeCapacityForecast(
   const engineers = [...engineerSet].sort();
 
   for (const engineer of engineers) {
-    const capacity = capacityMap.get(engineer) ?? stdCapacity;
-
     for (const month of months) {
+      // Months before a start date or after an end date are left out
+      if (!calendar.isEmployed(engineer, month)) continue;
+      const capacity = calendar.capacityFor(engineer, month);
       const key = `${engineer}|${month}`;
       const projMap = allocBreakdown.get(key) ?? new Map<string, number>();
 
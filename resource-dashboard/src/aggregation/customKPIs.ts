@@ -0,0 +1,258 @@
+import { db } from '../db/database';
+import type { CustomKPI, CustomKPIKey, CustomKPITerm, KPIResults, PersonRole, Project, TimesheetRollup } from '../types';
+import { buildProjectHierarchy } from './projectUtils';
+import type { ProjectHierarchy } from './projectUtils';
+
+/**
+ * User-defined KPIs.
+ *
+ * A custom KPI is a formula such as `lab / npd` whose names are either its own
+ * terms (a filtered sum or count over the monthly rollups) or built-in KPI
+ * values. Formulas are parsed by a small arithmetic grammar — numbers, names,
+ * + - * / and parentheses — never evaluated as code. Division by zero yields 0,
+ * like the built-in ratios.
+ */
+
+/** Built-in KPIResults values a formula may reference by name */
+export const FORMULA_BUILTINS: (keyof Omit<KPIResults, 'custom'>)[] = [
+  'teamUtilization', 'npdFocus', 'firefightingLoad', 'activeEngineers', 'totalHoursLogged',
+  'projectsTouched', 'busFactorRisk', 'focusScore', 'meetingTaxHours', 'labUtilization',
+  'taskCompletionRate', 'adminOverhead', 'sustainingLoad', 'unplannedSustainingPct',
+  'avgHoursPerEngineer', 'loadSpread', 'deepWorkRatio', 'sprintLoad',
+  'plannedHoursTotal', 'npdHours', 'sustainingHours', 'sprintHours', 'firefightingHours',
+];
+
+// ── Formula parsing ──
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'name'; name: string }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|([-+*/()]))/y;
+
+function tokenize(formula: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < formula.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(formula);
+    if (!match) {
+      const rest = formula.slice(start);
+      if (rest.trim() === '') break;
+      const position = start + rest.length - rest.trimStart().length + 1;
+      throw new Error(`Unexpected "${rest.trim()[0]}" at position ${position}`);
+    }
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+/**
+ * Parse a formula into a syntax tree. Throws an Error describing the first problem.
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenize(formula);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  // expression := term (('+' | '-') term)*
+  const expression = (): FormulaNode => {
+    let node = term();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++] as '+' | '-';
+      node = { type: 'binary', op, left: node, right: term() };
+    }
+    return node;
+  };
+
+  // term := factor (('*' | '/') factor)*
+  const term = (): FormulaNode => {
+    let node = factor();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[pos++] as '*' | '/';
+      node = { type: 'binary', op, left: node, right: factor() };
+    }
+    return node;
+  };
+
+  // factor := number | name | '-' factor | '(' expression ')'
+  const factor = (): FormulaNode => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Formula ends unexpectedly');
+    if (token === '-') return { type: 'negate', operand: factor() };
+    if (token === '(') {
+      const node = expression();
+      if (tokens[pos++] !== ')') throw new Error('Missing closing parenthesis');
+      return node;
+    }
+    if (/^[\d.]/.test(token)) return { type: 'number', value: parseFloat(token) };
+    if (/^[A-Za-z_]/.test(token)) return { type: 'name', name: token };
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  if (tokens.length === 0) throw new Error('Formula is empty');
+  const tree = expression();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return tree;
+}
+
+/** Every name a formula references */
+export function formulaNames(node: FormulaNode): string[] {
+  switch (node.type) {
+    case 'number': return [];
+    case 'name': return [node.name];
+    case 'negate': return formulaNames(node.operand);
+    case 'binary': return [...formulaNames(node.left), ...formulaNames(node.right)];
+  }
+}
+
+/**
+ * Evaluate a parsed formula. Unknown names count as 0; division by zero yields 0.
+ */
+export function evaluateFormula(node: FormulaNode, values: Record<string, number>): number {
+  switch (node.type) {
+    case 'number': return node.value;
+    case 'name': return values[node.name] ?? 0;
+    case 'negate': return -evaluateFormula(node.operand, values);
+    case 'binary': {
+      const left = evaluateFormula(node.left, values);
+      const right = evaluateFormula(node.right, values);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right !== 0 ? left / right : 0;
+      }
+    }
+  }
+}
+
+/**
+ * Check a custom KPI definition. Returns a message describing the first problem, or null.
+ */
+export function validateCustomKPI(kpi: Pick<CustomKPI, 'label' | 'formula' | 'terms'>): string | null {
+  if (!kpi.label.trim()) return 'Name is required';
+
+  const termNames = new Set<string>();
+  for (const term of kpi.terms) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(term.name)) {
+      return `"${term.name}" is not a valid term name — use letters, digits and underscores`;
+    }
+    if ((FORMULA_BUILTINS as string[]).includes(term.name)) {
+      return `"${term.name}" is a built-in KPI name — pick another term name`;
+    }
+    if (termNames.has(term.name)) return `Term "${term.name}" is defined twice`;
+    termNames.add(term.name);
+  }
+
+  let tree: FormulaNode;
+  try {
+    tree = parseFormula(kpi.formula);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  const unknown = formulaNames(tree).find(n => !termNames.has(n) && !(FORMULA_BUILTINS as string[]).includes(n));
+  return unknown ? `Unknown name "${unknown}" — define it as a term or use a built-in KPI` : null;
+}
+
+// ── Computation ──
+
+/** Everything needed to compute custom KPIs, loaded once per aggregation */
+export interface CustomKPIContext {
+  kpis: { key: CustomKPIKey; tree: FormulaNode; terms: CustomKPITerm[] }[];
+  projects: Map<string, Project>;
+  hierarchy: ProjectHierarchy;
+  roles: Map<string, PersonRole>;
+}
+
+/**
+ * Load custom KPI definitions with the lookups their terms filter on.
+ * Returns null when none are defined; definitions that don't parse are skipped.
+ */
+export async function loadCustomKPIContext(): Promise<CustomKPIContext | null> {
+  const definitions = await db.customKPIs.toArray();
+  if (definitions.length === 0) return null;
+
+  const kpis: CustomKPIContext['kpis'] = [];
+  for (const kpi of definitions) {
+    try {
+      kpis.push({ key: kpi.key, tree: parseFormula(kpi.formula), terms: kpi.terms });
+    } catch {
+      // Invalid formula: the card shows 0 until it is fixed
+    }
+  }
+
+  const [projects, members] = await Promise.all([db.projects.toArray(), db.teamMembers.toArray()]);
+  return {
+    kpis,
+    projects: new Map(projects.map(p => [p.project_id, p])),
+    hierarchy: buildProjectHierarchy(projects),
+    roles: new Map(members.map(m => [m.full_name, m.role])),
+  };
+}
+
+/** Whether a rollup or timesheet row passes every filter on a term */
+export function termMatches(
+  term: CustomKPITerm,
+  row: Pick<TimesheetRollup, 'r_number' | 'activity' | 'full_name'>,
+  ctx: CustomKPIContext,
+): boolean {
+  const project = ctx.projects.get(row.r_number);
+  if (term.project_types?.length && !(project && term.project_types.includes(project.type))) return false;
+  if (term.work_classes?.length && !(project && term.work_classes.includes(project.work_class))) return false;
+  if (term.r_numbers?.length && !term.r_numbers.some(r => ctx.hierarchy.isWithin(row.r_number, r))) return false;
+  if (term.activities?.length && !term.activities.includes(row.activity)) return false;
+  if (term.roles?.length) {
+    const role = ctx.roles.get(row.full_name);
+    if (!role || !term.roles.includes(role)) return false;
+  }
+  return true;
+}
+
+function measureTerm(term: CustomKPITerm, rows: TimesheetRollup[], ctx: CustomKPIContext): number {
+  const matching = rows.filter(r => termMatches(term, r, ctx));
+  switch (term.measure) {
+    case 'hours':
+      return matching.reduce((sum, r) => sum + r.hours, 0);
+    case 'meeting_hours':
+      return matching.reduce((sum, r) => sum + r.meeting_hours, 0);
+    case 'people':
+      return new Set(matching.filter(r => r.hours > 0).map(r => r.full_name)).size;
+    case 'projects':
+      return new Set(matching.filter(r => r.hours > 0).map(r => r.r_number)).size;
+    case 'tasks':
+    case 'completed_tasks': {
+      const tasks = new Set<string>();
+      for (const r of matching) {
+        for (const [taskId, [, doneRows]] of Object.entries(r.tasks ?? {})) {
+          if (term.measure === 'tasks' || doneRows > 0) tasks.add(taskId);
+        }
+      }
+      return tasks.size;
+    }
+  }
+}
+
+/**
+ * Compute every custom KPI over the rollups behind one set of built-in results
+ * (same months, team, project and engineer filters).
+ */
+export function computeCustomKPIs(
+  ctx: CustomKPIContext,
+  rollups: TimesheetRollup[],
+  builtins: KPIResults,
+): Record<CustomKPIKey, number> {
+  const values: Record<CustomKPIKey, number> = {};
+  for (const kpi of ctx.kpis) {
+    const scope: Record<string, number> = {};
+    for (const name of FORMULA_BUILTINS) scope[name] = builtins[name];
+    for (const term of kpi.terms) scope[term.name] = measureTerm(term, rollups, ctx);
+
+    const value = evaluateFormula(kpi.tree, scope);
+    values[kpi.key] = Number.isFinite(value) ? value : 0;
+  }
+  return values;
+}
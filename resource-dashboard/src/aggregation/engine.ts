@@ -2,7 +2,7 @@
  * Master aggregation engine - central export point for all aggregations.
  */
 
-export { computeActualHours } from './actualHours';
+export { computeActualHours, computeWeeklyCategoryTotals } from './actualHours';
 export { computeLabTechHours } from './labTechHours';
 export { computePlannedUtilization } from './utilization';
 export {
@@ -17,6 +17,11 @@ export { computeBusFactorRisk } from './busFactor';
 export { computeMeetingTax } from './meetingTax';
 export { computeAnomalies } from './anomalies';
 export { generateNarrativeSummary } from './narrative';
-export { computeAllKPIs } from './kpiEngine';
+export { computeAllKPIs, computeWeeklyKPIs } from './kpiEngine';
 export { computeCapacityForecast } from './capacityForecast';
+export { computeBaselineVariance } from './planBaselines';
+export { computeKPIDrillDown } from './kpiDrillDown';
 export { computeWeeklyAutoSummary, formatAutoSummary } from './weeklyAutoSummary';
+
+// Panels call aggregations through the worker-backed, cached client
+export { runAggregation, getAggregationVersion, subscribeToAggregations } from './aggregationClient';
@@ -1,8 +1,8 @@
-import { db } from '../db/database';
 import type { PersonRole as PersonRoleType } from '../types';
-import { getProjectParent } from './projectUtils';
-import type { MonthFilter } from '../utils/monthRange';
-import { resolveMonths, toDbMonths } from '../utils/monthRange';
+import { loadProjectHierarchy } from './projectUtils';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { filterToWeeks, resolveMonths, toDbMonths } from '../utils/monthRange';
+import { loadDailyRollups, loadTeamMembers } from './teamScope';
 
 export interface FocusScoreResult {
   person: string;
@@ -20,20 +20,21 @@ export interface FocusScoreResult {
 /**
  * Measures how fragmented each person's attention is across projects.
  * Focus Score = 100 / avg projects per day. Higher = more focused.
+ * With `weeks`, only days in those weeks count.
  */
-export async function computeFocusScore(month?: MonthFilter, projectFilter?: string, engineerFilter?: string): Promise<FocusScoreResult[]> {
-  const teamMembers = await db.teamMembers.toArray();
+export async function computeFocusScore(month?: MonthFilter, projectFilter?: string, engineerFilter?: string, weeks?: WeekFilter): Promise<FocusScoreResult[]> {
+  const teamMembers = await loadTeamMembers();
   const memberMap = new Map(teamMembers.map(m => [m.full_name, m]));
 
   const csvMonths = month ? toDbMonths(resolveMonths(month)) : null;
-  let timesheets = csvMonths
-    ? await db.timesheets.where('month').anyOf(csvMonths).toArray()
-    : await db.timesheets.toArray();
+  let timesheets = await loadDailyRollups(csvMonths);
+  if (weeks) timesheets = filterToWeeks(timesheets, weeks);
+  const hierarchy = await loadProjectHierarchy();
 
   if (projectFilter) {
     const projectPeople = new Set(
       timesheets
-        .filter(t => getProjectParent(t.r_number) === projectFilter || t.r_number === projectFilter)
+        .filter(t => hierarchy.isWithin(t.r_number, projectFilter))
         .map(t => t.full_name)
     );
     timesheets = timesheets.filter(t => projectPeople.has(t.full_name));
@@ -0,0 +1,454 @@
+import { db } from '../db/database';
+import { ActivityType, PersonRole, ProjectType, WorkClass } from '../types';
+import type { CustomKPIMeasure, KPICardKey, KPICardSelection, TimesheetEntry } from '../types';
+import { classifyProject, filterEngineerRows } from './actualHours';
+import { countsTowardTaskCompletion, isAdminOverhead, isProductiveType, isProjectWork } from './kpiEngine';
+import { loadCustomKPIContext, termMatches } from './customKPIs';
+import { loadCapacityCalendar } from './capacityCalendar';
+import { buildProjectHierarchy } from './projectUtils';
+import { rollupKey } from '../db/rollups';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { filterToWeeks, resolveMonths, toDbMonths, weekWindow } from '../utils/monthRange';
+import { getActiveTeam, loadDailyRollups, loadMonthlyRollups, loadTeamMembers, loadTimesheets, scopeAllocations } from './teamScope';
+
+/**
+ * KPI drill-down: the rows behind a KPI card.
+ *
+ * Every KPI is described as weighted components — a numerator and, for ratios,
+ * a denominator — over the same rows computeAllKPIs reads: timesheet rows scoped
+ * by team and project, kept to engineers by filterEngineerRows, classified by
+ * classifyProject and the row rules exported from kpiEngine. Component totals
+ * therefore reconcile with the card; custom KPI count terms total distinct
+ * people, R#s or tasks rather than summing rows. Planned utilization is built
+ * from planned allocations and capacity instead, so it has no timesheet rows.
+ */
+
+export type KPIBreakdownDimension = 'engineer' | 'r_number' | 'task' | 'day';
+
+export interface KPIDrillDownEntry {
+  timesheet_entry_id: number;
+  date: string;
+  full_name: string;
+  r_number: string;
+  task: string;
+  activity: string;
+  hours: number;
+  is_done: boolean;
+  note: string;
+  values: number[];             // Contribution to each component
+}
+
+export interface KPIBreakdownGroup {
+  key: string;
+  label: string;
+  values: number[];             // Per component, same order as KPIDrillDown.components
+  people: number;               // Distinct people among the contributing rows
+  entryIds: number[];
+}
+
+export interface KPIDrillDown {
+  /** Totals are hours, or distinct people/R#s/tasks when `isCount` */
+  components: { label: string; total: number; isCount?: boolean }[];
+  /** The component values combine as a ratio (first ÷ second) */
+  isRatio: boolean;
+  /** How the value follows from the rows when it is not a plain sum or ratio */
+  note?: string;
+  breakdowns: Record<KPIBreakdownDimension, KPIBreakdownGroup[]>;
+  entries: KPIDrillDownEntry[];
+}
+
+/** A scoped timesheet row with the classification the KPI engine gives it */
+interface ClassifiedRow {
+  entry: TimesheetEntry;
+  fullName: string;             // As on the row's rollup, which the engine matches on
+  isEngineer: boolean;
+  projectType: ProjectType;
+  workClass: WorkClass;
+}
+
+interface ComponentSpec {
+  label: string;
+  weigh: (row: ClassifiedRow) => number;
+  /** For count components: the person, R# or task a row counts toward; totals are distinct keys, not sums */
+  countOf?: (row: ClassifiedRow) => string | undefined;
+}
+
+// ── Component building blocks ──
+
+const hoursWhere = (match: (row: ClassifiedRow) => boolean) =>
+  (row: ClassifiedRow) => (row.isEngineer && match(row) ? row.entry.hours : 0);
+
+const productive = hoursWhere(r => isProductiveType(r.projectType));
+const admin = hoursWhere(r => isAdminOverhead(r.entry.r_number));
+const PRODUCTIVE: ComponentSpec = { label: 'Productive hours (NPD + Sustaining + Sprint)', weigh: productive };
+const PRODUCTIVE_AND_ADMIN: ComponentSpec = { label: 'Productive + admin hours', weigh: r => productive(r) + admin(r) };
+const PROJECT_WORK: ComponentSpec = { label: 'Project hours (excl. admin and OOO)', weigh: hoursWhere(r => isProjectWork(r.projectType)) };
+const ALL_HOURS: ComponentSpec = { label: 'Engineer hours', weigh: hoursWhere(() => true) };
+const NPD: ComponentSpec = { label: 'NPD hours', weigh: hoursWhere(r => r.projectType === ProjectType.NPD) };
+const SUSTAINING: ComponentSpec = { label: 'Sustaining hours', weigh: hoursWhere(r => r.projectType === ProjectType.Sustaining) };
+const SPRINT: ComponentSpec = { label: 'Sprint hours', weigh: hoursWhere(r => r.projectType === ProjectType.Sprint) };
+const FIREFIGHTING: ComponentSpec = {
+  label: 'Unplanned/firefighting hours',
+  weigh: hoursWhere(r => r.workClass === WorkClass.UnplannedFirefighting),
+};
+
+/** Components per built-in KPI; ratios list the numerator first */
+const KPI_COMPONENTS: Record<Exclude<KPICardKey, 'teamUtilization'>, ComponentSpec[]> = {
+  npdFocus: [NPD, PRODUCTIVE],
+  firefightingLoad: [FIREFIGHTING, PRODUCTIVE],
+  activeEngineers: [ALL_HOURS],
+  totalHoursLogged: [PRODUCTIVE],
+  projectsTouched: [PROJECT_WORK],
+  busFactorRisk: [PROJECT_WORK],
+  focusScore: [PROJECT_WORK],
+  meetingTaxHours: [{
+    label: 'Meeting hours (task name contains "meeting")',
+    weigh: hoursWhere(r => !!r.entry.task?.toLowerCase().includes('meeting')),
+  }],
+  labUtilization: [
+    { label: 'Lab testing hours', weigh: hoursWhere(r => r.entry.activity === ActivityType.LabTesting) },
+    {
+      label: 'Engineering + lab testing hours',
+      weigh: hoursWhere(r => r.entry.activity === ActivityType.LabTesting || r.entry.activity === ActivityType.Engineering),
+    },
+  ],
+  taskCompletionRate: [
+    { label: 'Hours on tasks', weigh: hoursWhere(r => countsTowardTaskCompletion(r.entry.r_number) && !!r.entry.task_id) },
+  ],
+  adminOverhead: [{ label: 'Admin hours (R0996, R0997)', weigh: admin }, PRODUCTIVE_AND_ADMIN],
+  sustainingLoad: [SUSTAINING, PRODUCTIVE],
+  unplannedSustainingPct: [FIREFIGHTING, SUSTAINING],
+  avgHoursPerEngineer: [PRODUCTIVE],
+  loadSpread: [PROJECT_WORK],
+  deepWorkRatio: [PRODUCTIVE, PRODUCTIVE_AND_ADMIN],
+  sprintLoad: [SPRINT, PRODUCTIVE],
+};
+
+const COUNT_LABELS: Record<Exclude<CustomKPIMeasure, 'hours' | 'meeting_hours'>, string> = {
+  people: 'distinct people',
+  projects: 'distinct R#s',
+  tasks: 'distinct tasks',
+  completed_tasks: 'distinct tasks marked done',
+};
+
+const RATIO_KPIS = new Set<KPICardSelection>([
+  'npdFocus', 'firefightingLoad', 'labUtilization', 'adminOverhead', 'sustainingLoad',
+  'unplannedSustainingPct', 'deepWorkRatio', 'sprintLoad', 'teamUtilization',
+]);
+
+/**
+ * Break a KPI down by engineer, R#, task and day for a month selection,
+ * narrowed to `weeks` when given. Scoped to `team` when given, otherwise to
+ * the active team.
+ */
+export async function computeKPIDrillDown(
+  kpiKey: KPICardSelection,
+  month: MonthFilter,
+  projectFilter?: string,
+  team?: string,
+  weeks?: WeekFilter
+): Promise<KPIDrillDown> {
+  const scope = team ?? await getActiveTeam();
+  if (kpiKey === 'teamUtilization') {
+    return computeUtilizationDrillDown(month, projectFilter, scope, weeks);
+  }
+
+  const csvMonths = toDbMonths(resolveMonths(month));
+  const [entries, rollups, teamMembers, projects] = await Promise.all([
+    loadTimesheets(csvMonths, scope).then(rows => weeks ? filterToWeeks(rows, weeks) : rows),
+    loadMonthlyRollups(csvMonths, scope),
+    loadTeamMembers(scope),
+    db.projects.toArray(),
+  ]);
+  const projectMap = new Map(projects.map(p => [p.project_id, p]));
+  const hierarchy = buildProjectHierarchy(projects);
+
+  // Rollups carry the latest name logged for a person; the engine filters on it
+  const rollupNames = new Map(rollups.map(r => [r.key, r.full_name]));
+  const named = entries.map(entry => ({
+    entry,
+    full_name: rollupNames.get(rollupKey(entry, false)) ?? entry.full_name,
+    r_number: entry.r_number,
+  }));
+  const scoped = projectFilter ? named.filter(r => hierarchy.isWithin(r.r_number, projectFilter)) : named;
+  const engineerRows = new Set(filterEngineerRows(scoped, teamMembers, hierarchy, projectFilter));
+
+  const rows: ClassifiedRow[] = scoped.map(r => {
+    const { project_type, work_class } = classifyProject(projectMap.get(r.r_number));
+    return {
+      entry: r.entry,
+      fullName: r.full_name,
+      isEngineer: engineerRows.has(r),
+      projectType: project_type,
+      workClass: work_class,
+    };
+  });
+
+  let components: ComponentSpec[];
+  if (kpiKey in KPI_COMPONENTS) {
+    components = KPI_COMPONENTS[kpiKey as keyof typeof KPI_COMPONENTS];
+  } else {
+    // Custom KPI: one component per term, over every person in scope like the engine
+    const ctx = await loadCustomKPIContext();
+    const kpi = ctx?.kpis.find(k => k.key === kpiKey);
+    components = kpi && ctx
+      ? kpi.terms.map((term): ComponentSpec => {
+        const matches = (row: ClassifiedRow) =>
+          termMatches(term, { r_number: row.entry.r_number, activity: row.entry.activity, full_name: row.fullName }, ctx);
+        switch (term.measure) {
+          case 'hours':
+            return { label: `${term.name} (hours)`, weigh: row => (matches(row) ? row.entry.hours : 0) };
+          case 'meeting_hours':
+            return {
+              label: `${term.name} (meeting hours)`,
+              weigh: row => (matches(row) && row.entry.task?.toLowerCase().includes('meeting') ? row.entry.hours : 0),
+            };
+          default: {
+            // Counted as the engine does: people and R#s with hours, tasks worked or marked done
+            const countOf = (row: ClassifiedRow): string | undefined => {
+              if (!matches(row)) return undefined;
+              switch (term.measure) {
+                case 'people': return row.entry.hours > 0 ? row.fullName : undefined;
+                case 'projects': return row.entry.hours > 0 ? row.entry.r_number : undefined;
+                case 'tasks': return row.entry.task_id ? String(row.entry.task_id) : undefined;
+                default: return row.entry.task_id && row.entry.is_done ? String(row.entry.task_id) : undefined;
+              }
+            };
+            return { label: `${term.name} (${COUNT_LABELS[term.measure]})`, weigh: row => (countOf(row) ? 1 : 0), countOf };
+          }
+        }
+      })
+      : [];
+  }
+
+  const contributing: KPIDrillDownEntry[] = [];
+  const countKeys = new Map<number, (string | undefined)[]>();
+  const rowsById = new Map<number, ClassifiedRow>();
+  for (const row of rows) {
+    const values = components.map(c => c.weigh(row));
+    if (values.every(v => v === 0)) continue;
+    rowsById.set(row.entry.timesheet_entry_id, row);
+    countKeys.set(row.entry.timesheet_entry_id, components.map(c => c.countOf?.(row)));
+    contributing.push({
+      timesheet_entry_id: row.entry.timesheet_entry_id,
+      date: row.entry.date,
+      full_name: row.fullName,
+      r_number: row.entry.r_number,
+      task: row.entry.task,
+      activity: row.entry.activity,
+      hours: row.entry.hours,
+      is_done: row.entry.is_done,
+      note: row.entry.timesheet_entry_note,
+      values,
+    });
+  }
+  contributing.sort((a, b) => a.date.localeCompare(b.date) || a.full_name.localeCompare(b.full_name));
+
+  const projectName = (rNumber: string) => {
+    const name = projectMap.get(rNumber)?.project_name;
+    return name ? `${rNumber} — ${name}` : rNumber;
+  };
+
+  const counting: CountKeys = {
+    counted: components.map(c => !!c.countOf),
+    keysOf: e => countKeys.get(e.timesheet_entry_id)!,
+  };
+
+  return {
+    components: components.map((c, i) => ({
+      label: c.label,
+      isCount: !!c.countOf || undefined,
+      total: c.countOf
+        ? new Set(contributing.map(e => counting.keysOf(e)[i]).filter(Boolean)).size
+        : roundHours(contributing.reduce((sum, e) => sum + e.values[i], 0)),
+    })),
+    isRatio: RATIO_KPIS.has(kpiKey),
+    note: components.some(c => c.countOf)
+      ? 'Count terms count distinct people, R#s or tasks, so a breakdown\'s groups can add up to more than the total.'
+      : describeCountKPI(kpiKey, rows, contributing),
+    breakdowns: {
+      engineer: groupEntries(contributing, e => e.full_name, e => e.full_name, counting),
+      r_number: groupEntries(contributing, e => e.r_number, e => projectName(e.r_number), counting),
+      task: groupEntries(
+        contributing,
+        e => String(rowsById.get(e.timesheet_entry_id)!.entry.task_id || e.task),
+        e => `${e.task || '(no task)'} · ${e.r_number}`,
+        counting,
+      ),
+      day: groupEntries(contributing, e => e.date, e => e.date, counting).sort((a, b) => a.key.localeCompare(b.key)),
+    },
+    entries: contributing,
+  };
+}
+
+/**
+ * Explain KPIs whose value counts or compares things across the rows,
+ * with the counts recomputed here so they can be checked against the card.
+ */
+function describeCountKPI(
+  kpiKey: KPICardSelection,
+  rows: ClassifiedRow[],
+  contributing: KPIDrillDownEntry[],
+): string | undefined {
+  const engineerNames = new Set(rows.filter(r => r.isEngineer).map(r => r.fullName));
+  switch (kpiKey) {
+    case 'activeEngineers':
+      return `Counts the ${engineerNames.size} engineers with timesheet rows in the period.`;
+    case 'avgHoursPerEngineer':
+      return `Productive hours divided by the ${engineerNames.size} engineers with timesheet rows in the period.`;
+    case 'projectsTouched':
+      return `Counts the ${new Set(contributing.map(e => e.r_number)).size} R#s with project hours — see the R# breakdown.`;
+    case 'busFactorRisk':
+      return 'Share of R#s with more than 10 project hours that have a single contributor — see People in the R# breakdown.';
+    case 'focusScore':
+      return 'Average number of distinct R#s each engineer logged project hours on — see the engineer breakdown.';
+    case 'loadSpread':
+      return 'Highest minus lowest engineer total of project hours — see the engineer breakdown.';
+    case 'taskCompletionRate': {
+      const worked = new Set<number>();
+      const completed = new Set<number>();
+      for (const { entry, isEngineer } of rows) {
+        if (!isEngineer || !entry.task_id || !countsTowardTaskCompletion(entry.r_number)) continue;
+        worked.add(entry.task_id);
+        if (entry.is_done) completed.add(entry.task_id);
+      }
+      return `${completed.size} of ${worked.size} tasks worked had a row marked done — see the task breakdown.`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Which components count distinct keys, and each entry's key per component */
+interface CountKeys {
+  counted: boolean[];
+  keysOf: (e: KPIDrillDownEntry) => (string | undefined)[];
+}
+
+function groupEntries(
+  entries: KPIDrillDownEntry[],
+  keyOf: (e: KPIDrillDownEntry) => string,
+  labelOf: (e: KPIDrillDownEntry) => string,
+  counting?: CountKeys,
+): KPIBreakdownGroup[] {
+  const groups = new Map<string, KPIBreakdownGroup & { names: Set<string>; counts: Set<string>[] }>();
+  for (const e of entries) {
+    const key = keyOf(e);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key, label: labelOf(e), values: e.values.map(() => 0), people: 0, entryIds: [], names: new Set(),
+        counts: e.values.map(() => new Set<string>()),
+      };
+      groups.set(key, group);
+    }
+    e.values.forEach((v, i) => { group.values[i] += v; });
+    counting?.keysOf(e).forEach((k, i) => { if (k) group.counts[i].add(k); });
+    group.names.add(e.full_name);
+    group.entryIds.push(e.timesheet_entry_id);
+  }
+  return [...groups.values()]
+    .map(g => ({
+      key: g.key,
+      label: g.label,
+      values: g.values.map((v, i) => (counting?.counted[i] ? g.counts[i].size : roundHours(v))),
+      people: g.names.size,
+      entryIds: g.entryIds,
+    }))
+    .sort((a, b) => b.values[0] - a.values[0]);
+}
+
+/**
+ * Planned utilization: planned allocation hours ÷ calendar capacity of the
+ * engineers who logged time, as computeAllKPIs builds it (prorated to the
+ * working days of `weeks` when given).
+ */
+async function computeUtilizationDrillDown(
+  month: MonthFilter,
+  projectFilter: string | undefined,
+  scope: string,
+  weeks: WeekFilter | undefined,
+): Promise<KPIDrillDown> {
+  const months = resolveMonths(month);
+  const [rollups, teamMembers, projects, calendar] = await Promise.all([
+    weeks
+      ? loadDailyRollups(toDbMonths(months), scope).then(rows => filterToWeeks(rows, weeks))
+      : loadMonthlyRollups(toDbMonths(months), scope),
+    loadTeamMembers(scope),
+    db.projects.toArray(),
+    loadCapacityCalendar(),
+  ]);
+  const hierarchy = buildProjectHierarchy(projects);
+  const projectMap = new Map(projects.map(p => [p.project_id, p]));
+
+  let allocations = await scopeAllocations(await db.plannedAllocations.where('month').anyOf(months).toArray(), scope);
+  if (projectFilter) {
+    allocations = allocations.filter(a => hierarchy.isWithin(a.project_id, projectFilter));
+  }
+  const window = weeks ? weekWindow(weeks) : null;
+  if (window) {
+    allocations = allocations.map(a => ({
+      ...a,
+      planned_hours: a.planned_hours * calendar.workingDaysBetween(a.month, window.start, window.end) / (calendar.workingDays(a.month) || 1),
+    }));
+  }
+
+  const activeEngineers = new Set(filterEngineerRows(rollups, teamMembers, hierarchy, projectFilter).map(r => r.full_name));
+  const capacityBy = new Map<string, number>();
+  for (const m of teamMembers) {
+    if (m.role !== PersonRole.Engineer || m.exclude_from_capacity || !activeEngineers.has(m.full_name)) continue;
+    capacityBy.set(m.full_name, months.reduce((sum, mo) => sum + (window
+      ? calendar.capacityBetween(m.full_name, mo, window.start, window.end)
+      : calendar.capacityFor(m.full_name, mo)), 0));
+  }
+
+  const byEngineer = new Map<string, KPIBreakdownGroup>();
+  const byProject = new Map<string, KPIBreakdownGroup>();
+  const engineerGroup = (name: string) => {
+    let group = byEngineer.get(name);
+    if (!group) {
+      group = { key: name, label: name, values: [0, capacityBy.get(name) ?? 0], people: 1, entryIds: [] };
+      byEngineer.set(name, group);
+    }
+    return group;
+  };
+  for (const name of capacityBy.keys()) engineerGroup(name);
+  for (const a of allocations) {
+    engineerGroup(a.engineer).values[0] += a.planned_hours;
+    let group = byProject.get(a.project_id);
+    if (!group) {
+      const name = projectMap.get(a.project_id)?.project_name;
+      group = { key: a.project_id, label: name ? `${a.project_id} — ${name}` : a.project_id, values: [0, 0], people: 0, entryIds: [] };
+      byProject.set(a.project_id, group);
+    }
+    group.values[0] += a.planned_hours;
+  }
+  for (const group of byProject.values()) {
+    group.people = new Set(allocations.filter(a => a.project_id === group.key).map(a => a.engineer)).size;
+  }
+
+  const sortGroups = (groups: Iterable<KPIBreakdownGroup>) =>
+    [...groups]
+      .map(g => ({ ...g, values: g.values.map(roundHours) }))
+      .sort((a, b) => b.values[0] - a.values[0]);
+
+  return {
+    components: [
+      { label: 'Planned hours (resource allocations)', total: roundHours(allocations.reduce((sum, a) => sum + a.planned_hours, 0)) },
+      { label: 'Capacity of engineers who logged time', total: roundHours([...capacityBy.values()].reduce((sum, c) => sum + c, 0)) },
+    ],
+    isRatio: true,
+    note: 'Built from resource allocations and the capacity calendar, so there are no timesheet rows; tasks and days do not apply.',
+    breakdowns: {
+      engineer: sortGroups(byEngineer.values()),
+      r_number: sortGroups(byProject.values()),
+      task: [],
+      day: [],
+    },
+    entries: [],
+  };
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
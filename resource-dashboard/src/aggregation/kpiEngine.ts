@@ -1,33 +1,85 @@
 import { db } from '../db/database';
-import { ProjectType, PersonRole, ActivityType } from '../types';
-import type { KPIResults, ActualHoursSummary, MonthlyCategoryTotals, TeamMember } from '../types';
+import { ProjectType, PersonRole, ActivityType, WorkClass } from '../types';
+import type { KPIResults, ActualHoursSummary, MonthlyCategoryTotals, TeamMember, TimesheetRollup } from '../types';
 import { computeActualHours } from './actualHours';
 import { computeMonthlyCategoryTotals } from './plannedVsActual';
-import { getProjectParent } from './projectUtils';
-import type { MonthFilter } from '../utils/monthRange';
-import { resolveMonths, toDbMonths, fromDbMonth } from '../utils/monthRange';
-import { getEngineerCapacity } from '../utils/capacity';
+import { loadProjectHierarchy } from './projectUtils';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { resolveMonths, toDbMonths, fromDbMonth, filterToWeeks, weekFilterMonths, weekWindow } from '../utils/monthRange';
+import { loadCapacityCalendar } from './capacityCalendar';
+import { computeCustomKPIs, loadCustomKPIContext } from './customKPIs';
+import { withTaskTallies } from '../db/rollups';
+import { getActiveTeam, loadDailyRollups, loadMonthlyRollups, loadTeamMembers, loadTimesheets, scopeAllocations } from './teamScope';
+
+// ── Row rules shared with the KPI drill-down ──
+
+/** Project types whose hours make up totalHoursLogged */
+export function isProductiveType(type: ProjectType): boolean {
+  return type === ProjectType.NPD || type === ProjectType.Sustaining || type === ProjectType.Sprint;
+}
+
+/** Project types counted as project work (bus factor, focus, load spread, projects touched) */
+export function isProjectWork(type: ProjectType): boolean {
+  return type !== ProjectType.Admin && type !== ProjectType.OutOfOffice;
+}
+
+/** R#s booked as admin overhead */
+export function isAdminOverhead(rNumber: string): boolean {
+  return rNumber === 'R0996' || rNumber === 'R0997';
+}
+
+/** Admin and out-of-office R#s have no deliverable tasks */
+export function countsTowardTaskCompletion(rNumber: string): boolean {
+  return !isAdminOverhead(rNumber) && rNumber !== 'R0999';
+}
+
+/** The actual category hours the work-mix KPIs are built from */
+type CategoryHours = Pick<MonthlyCategoryTotals, 'actual_npd' | 'actual_sustaining' | 'actual_sprint' | 'actual_firefighting'>;
+
+/**
+ * Category hours of a set of Actual_Hours rows, split the way
+ * computeMonthlyCategoryTotals splits them. Used for a single engineer,
+ * whose share the team-wide monthly totals don't carry.
+ */
+function categoryHoursOf(actualHours: ActualHoursSummary[]): CategoryHours {
+  const totals: CategoryHours = { actual_npd: 0, actual_sustaining: 0, actual_sprint: 0, actual_firefighting: 0 };
+  for (const a of actualHours) {
+    if (a.project_type === ProjectType.NPD) totals.actual_npd += a.actual_hours;
+    else if (a.project_type === ProjectType.Sustaining) totals.actual_sustaining += a.actual_hours;
+    else if (a.project_type === ProjectType.Sprint) totals.actual_sprint += a.actual_hours;
+    if (a.work_class === WorkClass.UnplannedFirefighting) totals.actual_firefighting += a.actual_hours;
+  }
+  return totals;
+}
 
 /**
  * Single source of truth for all KPI values.
  * Both KPISummaryPanel and narrative.ts consume from this.
+ * Scoped to `team` when given, otherwise to the active team.
+ * With `weeks`, only hours logged in those weeks count, and capacity and
+ * planned hours are the share of each month's working days inside them.
  */
 export async function computeAllKPIs(
   month: MonthFilter,
   projectFilter?: string,
-  engineerFilter?: string
+  engineerFilter?: string,
+  team?: string,
+  weeks?: WeekFilter
 ): Promise<KPIResults> {
   const months = resolveMonths(month);
+  const scope = team ?? await getActiveTeam();
 
   // ── Core data: one call each ──
-  const actualHours = await computeActualHours(month, projectFilter, engineerFilter);
-  const allCategoryTotals = await computeMonthlyCategoryTotals(projectFilter);
-  // For multi-month, aggregate across all matching months
-  const matchingTotals = allCategoryTotals.filter(t => months.includes(t.month));
+  const actualHours = await computeActualHours(month, projectFilter, engineerFilter, scope, weeks);
+  // For multi-month, aggregate across all matching months; one engineer's (or a
+  // week's) come from the hours themselves, which the monthly totals don't split
+  const matchingTotals: CategoryHours[] = engineerFilter || weeks
+    ? [categoryHoursOf(actualHours)]
+    : (await computeMonthlyCategoryTotals(projectFilter, scope)).filter(t => months.includes(t.month));
 
-  const teamMembers = await db.teamMembers.toArray();
-  const config = await db.config.get(1);
-  const defaultCapacity = config?.std_monthly_capacity_hours ?? 140;
+  const teamMembers = await loadTeamMembers(scope);
+  const calendar = await loadCapacityCalendar();
+  const hierarchy = await loadProjectHierarchy();
 
   // ── Current 6 KPIs (matching existing KPISummaryPanel logic) ──
   const npdHours = matchingTotals.reduce((sum, t) => sum + t.actual_npd, 0);
@@ -41,28 +93,37 @@ export async function computeAllKPIs(
 
   const projectsTouched = new Set(
     actualHours
-      .filter(a => a.project_type !== ProjectType.Admin && a.project_type !== ProjectType.OutOfOffice)
+      .filter(a => isProjectWork(a.project_type))
       .map(a => a.project_id)
   ).size;
 
-  // Per-engineer capacity (respects overrides), scaled by month count
-  const monthCount = months.length;
+  // Per-engineer capacity from the capacity calendar, summed over the months
+  const window = weeks ? weekWindow(weeks) : null;
+  const capacityIn = (engineer: string, m: string) => window
+    ? calendar.capacityBetween(engineer, m, window.start, window.end)
+    : calendar.capacityFor(engineer, m);
   const totalCapacity = teamMembers
     .filter(m => m.role === PersonRole.Engineer && !m.exclude_from_capacity && activeEngineerNames.has(m.full_name))
-    .reduce((sum, m) => sum + getEngineerCapacity(m, defaultCapacity), 0)
-    * monthCount;
+    .reduce((sum, m) => sum + months.reduce((s, month) => s + capacityIn(m.full_name, month), 0), 0);
 
   // ── Planned utilization (from PlannedAllocations) ──
-  let allAllocations = await db.plannedAllocations.where('month').anyOf(months).toArray();
+  let allAllocations = await scopeAllocations(
+    await db.plannedAllocations.where('month').anyOf(months).toArray(),
+    scope
+  );
   if (projectFilter) {
     allAllocations = allAllocations.filter(a =>
-      a.project_id === projectFilter || getProjectParent(a.project_id) === projectFilter
+      hierarchy.isWithin(a.project_id, projectFilter)
     );
   }
   if (engineerFilter) {
     allAllocations = allAllocations.filter(a => a.engineer === engineerFilter);
   }
-  const plannedHoursTotal = allAllocations.reduce((sum, a) => sum + a.planned_hours, 0);
+  // Monthly plans are spread evenly over the month's working days
+  const planShare = (m: string) => window
+    ? calendar.workingDaysBetween(m, window.start, window.end) / (calendar.workingDays(m) || 1)
+    : 1;
+  const plannedHoursTotal = allAllocations.reduce((sum, a) => sum + a.planned_hours * planShare(a.month), 0);
   const teamUtilization = totalCapacity > 0 ? plannedHoursTotal / totalCapacity : 0;
 
   const npdFocus = totalHoursLogged > 0 ? npdHours / totalHoursLogged : 0;
@@ -74,7 +135,7 @@ export async function computeAllKPIs(
   const projectGroups = new Map<string, Set<string>>();
   const projectHourTotals = new Map<string, number>();
   for (const a of actualHours) {
-    if (a.project_type === ProjectType.Admin || a.project_type === ProjectType.OutOfOffice) continue;
+    if (!isProjectWork(a.project_type)) continue;
     const contributors = projectGroups.get(a.project_id) ?? new Set();
     contributors.add(a.engineer);
     projectGroups.set(a.project_id, contributors);
@@ -94,7 +155,7 @@ export async function computeAllKPIs(
   // Focus Score: avg distinct project count per engineer
   const engineerProjectCounts = new Map<string, Set<string>>();
   for (const a of actualHours) {
-    if (a.project_type === ProjectType.Admin || a.project_type === ProjectType.OutOfOffice) continue;
+    if (!isProjectWork(a.project_type)) continue;
     const projects = engineerProjectCounts.get(a.engineer) ?? new Set();
     projects.add(a.project_id);
     engineerProjectCounts.set(a.engineer, projects);
@@ -105,12 +166,18 @@ export async function computeAllKPIs(
   }
   const focusScore = engineerProjectCounts.size > 0 ? totalProjectCounts / engineerProjectCounts.size : 0;
 
-  // ── Raw timesheet queries for extended KPIs ──
+  // ── Monthly rollups for extended KPIs (daily ones for a week selection) ──
   const csvMonths = toDbMonths(months);
-  let timesheets = await db.timesheets.where('month').anyOf(csvMonths).toArray();
+  // Daily rollups carry no task tallies, so a week's are counted from its rows
+  let timesheets = weeks
+    ? withTaskTallies(
+        filterToWeeks(await loadDailyRollups(csvMonths, scope), weeks),
+        filterToWeeks(await loadTimesheets(csvMonths, scope), weeks)
+      )
+    : await loadMonthlyRollups(csvMonths, scope);
   if (projectFilter) {
     timesheets = timesheets.filter(t =>
-      t.r_number === projectFilter || getProjectParent(t.r_number) === projectFilter
+      hierarchy.isWithin(t.r_number, projectFilter)
     );
   }
   if (engineerFilter) {
@@ -124,9 +191,7 @@ export async function computeAllKPIs(
   // Meeting Tax Hours: hours where task name contains "meeting"
   let meetingTaxHours = 0;
   for (const t of engineerTimesheets) {
-    if (t.task?.toLowerCase().includes('meeting')) {
-      meetingTaxHours += t.hours;
-    }
+    meetingTaxHours += t.meeting_hours;
   }
 
   // Lab Utilization: lab testing hours / (engineering + lab testing hours)
@@ -142,10 +207,10 @@ export async function computeAllKPIs(
   const workedTasks = new Set<number>();
   const completedTasks = new Set<number>();
   for (const t of engineerTimesheets) {
-    if (t.r_number === 'R0996' || t.r_number === 'R0997' || t.r_number === 'R0999') continue;
-    if (t.task_id) {
-      workedTasks.add(t.task_id);
-      if (t.is_done) completedTasks.add(t.task_id);
+    if (!countsTowardTaskCompletion(t.r_number)) continue;
+    for (const [taskId, [, doneRows]] of Object.entries(t.tasks ?? {})) {
+      workedTasks.add(Number(taskId));
+      if (doneRows > 0) completedTasks.add(Number(taskId));
     }
   }
   const taskCompletionRate = workedTasks.size > 0 ? completedTasks.size / workedTasks.size : 0;
@@ -153,7 +218,7 @@ export async function computeAllKPIs(
   // Admin Overhead: admin hours / (productive + admin)
   let adminHours = 0;
   for (const t of engineerTimesheets) {
-    if (t.r_number === 'R0996' || t.r_number === 'R0997') {
+    if (isAdminOverhead(t.r_number)) {
       adminHours += t.hours;
     }
   }
@@ -171,7 +236,7 @@ export async function computeAllKPIs(
   // Load Spread: max engineer hours - min engineer hours
   const engineerHourTotals = new Map<string, number>();
   for (const a of actualHours) {
-    if (a.project_type === ProjectType.Admin || a.project_type === ProjectType.OutOfOffice) continue;
+    if (!isProjectWork(a.project_type)) continue;
     engineerHourTotals.set(a.engineer, (engineerHourTotals.get(a.engineer) ?? 0) + a.actual_hours);
   }
   const hourValues = [...engineerHourTotals.values()];
@@ -184,7 +249,7 @@ export async function computeAllKPIs(
     ? totalHoursLogged / (totalHoursLogged + adminHours)
     : 0;
 
-  return {
+  const results: KPIResults = {
     teamUtilization,
     npdFocus,
     firefightingLoad,
@@ -209,6 +274,28 @@ export async function computeAllKPIs(
     sprintHours,
     firefightingHours,
   };
+
+  const customContext = await loadCustomKPIContext();
+  if (customContext) {
+    results.custom = computeCustomKPIs(customContext, timesheets, results);
+  }
+  return results;
+}
+
+/**
+ * KPIs of each week in a week filter, for plotting KPI trends by week.
+ */
+export async function computeWeeklyKPIs(
+  weeks: WeekFilter,
+  projectFilter?: string,
+  engineerFilter?: string
+): Promise<{ week: string; results: KPIResults }[]> {
+  const series: { week: string; results: KPIResults }[] = [];
+  for (const week of weeks.weeks) {
+    const single: WeekFilter = { convention: weeks.convention, weeks: [week] };
+    series.push({ week, results: await computeAllKPIs(weekFilterMonths(single), projectFilter, engineerFilter, undefined, single) });
+  }
+  return series;
 }
 
 /**
@@ -219,30 +306,32 @@ export async function computeAllKPIs(
 export async function computeAllKPIsBatch(
   months: string[],
   projectFilter?: string,
-  _engineerFilter?: string
+  _engineerFilter?: string,
+  team?: string
 ): Promise<Map<string, KPIResults>> {
   if (months.length === 0) return new Map();
+  const scope = team ?? await getActiveTeam();
 
   // ── Load all shared data once ──
-  const allCategoryTotals = await computeMonthlyCategoryTotals(projectFilter);
-  const allActualHours = await computeActualHours(undefined, projectFilter);
-  const teamMembers = await db.teamMembers.toArray();
-  const config = await db.config.get(1);
-  const defaultCapacity = config?.std_monthly_capacity_hours ?? 140;
-
-  // Load all timesheets once and partition by month
-  let allTimesheets = await db.timesheets.toArray();
+  const allCategoryTotals = await computeMonthlyCategoryTotals(projectFilter, scope);
+  const allActualHours = await computeActualHours(undefined, projectFilter, undefined, scope);
+  const teamMembers = await loadTeamMembers(scope);
+  const calendar = await loadCapacityCalendar();
+  const hierarchy = await loadProjectHierarchy();
+
+  // Load all monthly rollups once and partition by month
+  let allTimesheets = await loadMonthlyRollups(null, scope);
   if (projectFilter) {
     allTimesheets = allTimesheets.filter(t =>
-      t.r_number === projectFilter || getProjectParent(t.r_number) === projectFilter
+      hierarchy.isWithin(t.r_number, projectFilter)
     );
   }
 
   // Load planned allocations for utilization calculation
-  let allAllocations = await db.plannedAllocations.toArray();
+  let allAllocations = await scopeAllocations(await db.plannedAllocations.toArray(), scope);
   if (projectFilter) {
     allAllocations = allAllocations.filter(a =>
-      a.project_id === projectFilter || getProjectParent(a.project_id) === projectFilter
+      hierarchy.isWithin(a.project_id, projectFilter)
     );
   }
 
@@ -278,6 +367,7 @@ export async function computeAllKPIsBatch(
   }
 
   // ── Compute KPIs per month ──
+  const customContext = await loadCustomKPIContext();
   const results = new Map<string, KPIResults>();
 
   for (const month of months) {
@@ -286,15 +376,98 @@ export async function computeAllKPIsBatch(
     const timesheets = timesheetsByMonth.get(month) ?? [];
     const monthPlannedHours = plannedByMonth.get(month) ?? 0;
 
-    results.set(month, computeKPIsFromData(
+    const monthResults = computeKPIsFromData(
       categoryTotals,
       actualHours,
       timesheets,
       teamMembers,
       engineerSet,
-      defaultCapacity,
+      engineer => calendar.capacityFor(engineer, month),
       monthPlannedHours
-    ));
+    );
+    if (customContext) {
+      monthResults.custom = computeCustomKPIs(customContext, timesheets, monthResults);
+    }
+    results.set(month, monthResults);
+  }
+
+  return results;
+}
+
+/**
+ * Batch-compute each engineer's KPIs for the months they logged time in,
+ * loading the data once for the whole team. Results match computeAllKPIs
+ * with that engineer as the engineer filter.
+ *
+ * @returns engineer full_name → month → results
+ */
+export async function computeEngineerKPIsBatch(
+  projectFilter?: string,
+  team?: string
+): Promise<Map<string, Map<string, KPIResults>>> {
+  const scope = team ?? await getActiveTeam();
+
+  const allActualHours = await computeActualHours(undefined, projectFilter, undefined, scope);
+  const teamMembers = await loadTeamMembers(scope);
+  const calendar = await loadCapacityCalendar();
+  const hierarchy = await loadProjectHierarchy();
+
+  let allTimesheets = await loadMonthlyRollups(null, scope);
+  let allAllocations = await scopeAllocations(await db.plannedAllocations.toArray(), scope);
+  if (projectFilter) {
+    allTimesheets = allTimesheets.filter(t => hierarchy.isWithin(t.r_number, projectFilter));
+    allAllocations = allAllocations.filter(a => hierarchy.isWithin(a.project_id, projectFilter));
+  }
+
+  const engineerSet = new Set(
+    teamMembers.filter(m => m.role === PersonRole.Engineer).map(m => m.full_name)
+  );
+
+  // Partition everything by "engineer|month"
+  const partition = <T>(rows: T[], keyOf: (row: T) => string) => {
+    const groups = new Map<string, T[]>();
+    for (const row of rows) {
+      const key = keyOf(row);
+      const group = groups.get(key) ?? [];
+      group.push(row);
+      groups.set(key, group);
+    }
+    return groups;
+  };
+  const actualsByKey = partition(allActualHours, a => `${a.engineer}|${a.month}`);
+  const timesheetsByKey = partition(
+    allTimesheets.filter(t => engineerSet.has(t.full_name)),
+    t => `${t.full_name}|${fromDbMonth(t.month)}`
+  );
+  const plannedByKey = new Map<string, number>();
+  for (const a of allAllocations) {
+    const key = `${a.engineer}|${a.month}`;
+    plannedByKey.set(key, (plannedByKey.get(key) ?? 0) + a.planned_hours);
+  }
+
+  const customContext = await loadCustomKPIContext();
+  const results = new Map<string, Map<string, KPIResults>>();
+
+  for (const [key, timesheets] of timesheetsByKey) {
+    const [engineer, month] = key.split('|');
+    const actualHours = actualsByKey.get(key) ?? [];
+
+    const monthResults = computeKPIsFromData(
+      categoryHoursOf(actualHours),
+      actualHours,
+      timesheets,
+      teamMembers,
+      engineerSet,
+      name => calendar.capacityFor(name, month),
+      plannedByKey.get(key) ?? 0
+    );
+    if (customContext) {
+      monthResults.custom = computeCustomKPIs(customContext, timesheets, monthResults);
+    }
+
+    const series = results.get(engineer) ?? new Map<string, KPIResults>();
+    series.set(month, monthResults);
+    results.set(engineer, series);
   }
 
   return results;
@@ -305,12 +478,12 @@ export async function computeAllKPIsBatch(
  * Shared by both single-month and batch paths.
  */
 function computeKPIsFromData(
-  categoryTotals: MonthlyCategoryTotals | undefined,
+  categoryTotals: CategoryHours | undefined,
   actualHours: ActualHoursSummary[],
-  timesheets: { full_name: string; hours: number; task?: string; activity: string; r_number: string; task_id: number; is_done: boolean }[],
+  timesheets: TimesheetRollup[],
   teamMembers: TeamMember[],
   engineerSet: Set<string>,
-  defaultCapacity: number,
+  capacityFor: (engineer: string) => number,
   plannedHoursTotal: number = 0,
 ): KPIResults {
   // ── Core 6 KPIs ──
@@ -325,13 +498,13 @@ function computeKPIsFromData(
 
   const projectsTouched = new Set(
     actualHours
-      .filter(a => a.project_type !== ProjectType.Admin && a.project_type !== ProjectType.OutOfOffice)
+      .filter(a => isProjectWork(a.project_type))
       .map(a => a.project_id)
   ).size;
 
   const totalCapacity = teamMembers
-    .filter(m => m.role === PersonRole.Engineer && activeEngineerNames.has(m.full_name))
-    .reduce((sum, m) => sum + getEngineerCapacity(m, defaultCapacity), 0);
+    .filter(m => m.role === PersonRole.Engineer && !m.exclude_from_capacity && activeEngineerNames.has(m.full_name))
+    .reduce((sum, m) => sum + capacityFor(m.full_name), 0);
 
   const teamUtilization = totalCapacity > 0 ? plannedHoursTotal / totalCapacity : 0;
   const npdFocus = totalHoursLogged > 0 ? npdHours / totalHoursLogged : 0;
@@ -341,7 +514,7 @@ function computeKPIsFromData(
   const projectGroups = new Map<string, Set<string>>();
   const projectHourTotals = new Map<string, number>();
   for (const a of actualHours) {
-    if (a.project_type === ProjectType.Admin || a.project_type === ProjectType.OutOfOffice) continue;
+    if (!isProjectWork(a.project_type)) continue;
     const contributors = projectGroups.get(a.project_id) ?? new Set();
     contributors.add(a.engineer);
     projectGroups.set(a.project_id, contributors);
@@ -361,7 +534,7 @@ function computeKPIsFromData(
   // ── Focus Score ──
   const engineerProjectCounts = new Map<string, Set<string>>();
   for (const a of actualHours) {
-    if (a.project_type === ProjectType.Admin || a.project_type === ProjectType.OutOfOffice) continue;
+    if (!isProjectWork(a.project_type)) continue;
     const projects = engineerProjectCounts.get(a.engineer) ?? new Set();
     projects.add(a.project_id);
     engineerProjectCounts.set(a.engineer, projects);
@@ -372,14 +545,12 @@ function computeKPIsFromData(
   }
   const focusScore = engineerProjectCounts.size > 0 ? totalProjectCounts / engineerProjectCounts.size : 0;
 
-  // ── Extended KPIs from raw timesheets ──
+  // ── Extended KPIs from monthly rollups ──
   const engineerTimesheets = timesheets.filter(t => engineerSet.has(t.full_name));
 
   let meetingTaxHours = 0;
   for (const t of engineerTimesheets) {
-    if (t.task?.toLowerCase().includes('meeting')) {
-      meetingTaxHours += t.hours;
-    }
+    meetingTaxHours += t.meeting_hours;
   }
 
   let labHours = 0;
@@ -393,17 +564,17 @@ function computeKPIsFromData(
   const workedTasks = new Set<number>();
   const completedTasks = new Set<number>();
   for (const t of engineerTimesheets) {
-    if (t.r_number === 'R0996' || t.r_number === 'R0997' || t.r_number === 'R0999') continue;
-    if (t.task_id) {
-      workedTasks.add(t.task_id);
-      if (t.is_done) completedTasks.add(t.task_id);
+    if (!countsTowardTaskCompletion(t.r_number)) continue;
+    for (const [taskId, [, doneRows]] of Object.entries(t.tasks ?? {})) {
+      workedTasks.add(Number(taskId));
+      if (doneRows > 0) completedTasks.add(Number(taskId));
     }
   }
   const taskCompletionRate = workedTasks.size > 0 ? completedTasks.size / workedTasks.size : 0;
 
   let adminHours = 0;
   for (const t of engineerTimesheets) {
-    if (t.r_number === 'R0996' || t.r_number === 'R0997') {
+    if (isAdminOverhead(t.r_number)) {
       adminHours += t.hours;
     }
   }
@@ -415,7 +586,7 @@ function computeKPIsFromData(
 
   const engineerHourTotals = new Map<string, number>();
   for (const a of actualHours) {
-    if (a.project_type === ProjectType.Admin || a.project_type === ProjectType.OutOfOffice) continue;
+    if (!isProjectWork(a.project_type)) continue;
     engineerHourTotals.set(a.engineer, (engineerHourTotals.get(a.engineer) ?? 0) + a.actual_hours);
   }
   const hourValues = [...engineerHourTotals.values()];
@@ -1,51 +1,98 @@
 import { db } from '../db/database';
-import { computeAllKPIsBatch } from './kpiEngine';
+import { computeAllKPIsBatch, computeEngineerKPIsBatch } from './kpiEngine';
+import { ALL_TEAMS, listTeams, loadMonthlyRollups } from './teamScope';
 import { fromDbMonth } from '../utils/monthRange';
+import type { KPIResults } from '../types';
 
 /**
  * Refresh the KPI history table for all months that have timesheet data.
- * Upserts snapshots for each [month, project_filter] pair and cleans up stale entries.
+ * Keeps one series per team plus the all-teams roll-up, so switching the
+ * active team never needs a recompute, and one series per engineer within each.
+ * Series for teams with no data left are removed.
  * Idempotent — running twice produces the same results.
  */
 export async function refreshKPIHistory(projectFilter?: string): Promise<void> {
   const filter = projectFilter ?? '';
+  const scopes = [ALL_TEAMS, ...await listTeams()];
 
-  // Get all distinct months from timesheets
-  const sheets = await db.timesheets.toArray();
+  for (const team of scopes) {
+    await refreshTeamKPIHistory(filter, team);
+  }
+
+  const scopeSet = new Set(scopes);
+  await db.kpiHistory
+    .filter(s => s.project_filter === filter && !scopeSet.has(s.team_filter))
+    .delete();
+}
+
+/**
+ * Refresh the team series and the per-engineer series of one
+ * [project_filter, team_filter] scope.
+ */
+async function refreshTeamKPIHistory(filter: string, team: string): Promise<void> {
+  // Get all distinct months from this team's timesheets
+  const sheets = await loadMonthlyRollups(null, team);
   const monthSet = new Set(sheets.map(s => fromDbMonth(s.month)));
   const months = [...monthSet].sort();
 
-  if (months.length === 0) return;
+  if (months.length === 0) {
+    // Nothing left to snapshot (e.g. the only import was rolled back)
+    await db.kpiHistory.where('[project_filter+team_filter]').equals([filter, team]).delete();
+    return;
+  }
 
   // Batch-compute KPIs for all months in a single pass
-  const batchResults = await computeAllKPIsBatch(months, projectFilter);
+  const batchResults = await computeAllKPIsBatch(months, filter || undefined, undefined, team);
+  await writeKPISeries(filter, team, '', batchResults);
 
-  // Get existing snapshots for this project filter
+  const engineerResults = await computeEngineerKPIsBatch(filter || undefined, team);
+  for (const [engineer, results] of engineerResults) {
+    await writeKPISeries(filter, team, engineer, results);
+  }
+
+  // Engineers who no longer log time in this scope (or were reclassified)
+  await db.kpiHistory
+    .where('[project_filter+team_filter]')
+    .equals([filter, team])
+    .filter(s => s.engineer_filter !== '' && !engineerResults.has(s.engineer_filter))
+    .delete();
+}
+
+/**
+ * Upsert snapshots for each month of one [project_filter, team_filter, engineer_filter]
+ * series and clean up months that no longer have data.
+ */
+async function writeKPISeries(
+  filter: string,
+  team: string,
+  engineer: string,
+  batchResults: Map<string, KPIResults>
+): Promise<void> {
+  // Get existing snapshots for this series
   const existing = await db.kpiHistory
-    .where('project_filter')
-    .equals(filter)
+    .where('[project_filter+team_filter+engineer_filter]')
+    .equals([filter, team, engineer])
     .toArray();
 
   const existingByMonth = new Map(existing.map(s => [s.month, s]));
   const now = new Date().toISOString();
 
   // Upsert each month
-  const toAdd: { month: string; project_filter: string; computed_at: string; results: typeof batchResults extends Map<string, infer V> ? V : never }[] = [];
-  const toUpdate: { id: number; changes: { computed_at: string; results: typeof batchResults extends Map<string, infer V> ? V : never } }[] = [];
+  const toAdd: { month: string; project_filter: string; team_filter: string; engineer_filter: string; computed_at: string; results: KPIResults }[] = [];
+  const toUpdate: { id: number; changes: { computed_at: string; results: KPIResults } }[] = [];
 
   for (const [month, results] of batchResults) {
     const snapshot = existingByMonth.get(month);
     if (snapshot && snapshot.id != null) {
       toUpdate.push({ id: snapshot.id, changes: { computed_at: now, results } });
     } else {
-      toAdd.push({ month, project_filter: filter, computed_at: now, results });
+      toAdd.push({ month, project_filter: filter, team_filter: team, engineer_filter: engineer, computed_at: now, results });
     }
   }
 
   // Delete snapshots for months no longer in timesheets
-  const validMonths = new Set(months);
   const toDelete = existing
-    .filter(s => !validMonths.has(s.month))
+    .filter(s => !batchResults.has(s.month))
     .map(s => s.id!)
     .filter(id => id != null);
 
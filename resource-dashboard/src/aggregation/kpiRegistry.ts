@@ -1,9 +1,9 @@
-import type { KPICardKey, KPIResults } from '../types';
+import type { CustomKPI, KPICardKey, KPICardSelection, KPIFormat, KPIResults, KPISetting } from '../types';
 
-export type KPIFormat = 'percent' | 'hours' | 'count' | 'decimal';
+export type { KPIFormat };
 
 export interface KPIDefinition {
-  key: KPICardKey;
+  key: KPICardSelection;
   label: string;
   shortLabel: string;
   format: KPIFormat;
@@ -13,7 +13,7 @@ export interface KPIDefinition {
     invertColor?: boolean;
   };
   description: string;
-  category: 'utilization' | 'workMix' | 'teamHealth' | 'throughput';
+  category: 'utilization' | 'workMix' | 'teamHealth' | 'throughput' | 'custom';
   getValue: (results: KPIResults) => number;
   applicableToSingleProject: boolean;
 }
@@ -236,6 +236,12 @@ export const KPI_PRESETS: Record<string, { label: string; cards: KPICardKey[] }>
 
 export const DEFAULT_KPI_CARDS: KPICardKey[] = KPI_PRESETS.executive.cards;
 
+/** Cards on the Engineer Profile — team-shape KPIs (head count, bus factor, load spread) don't apply to one person */
+export const ENGINEER_KPI_CARDS: KPICardKey[] = [
+  'totalHoursLogged', 'teamUtilization', 'npdFocus', 'firefightingLoad',
+  'focusScore', 'meetingTaxHours', 'adminOverhead', 'taskCompletionRate',
+];
+
 export const KPI_CATEGORIES = [
   { id: 'utilization', label: 'Utilization' },
   { id: 'workMix', label: 'Work Mix' },
@@ -243,6 +249,47 @@ export const KPI_CATEGORIES = [
   { id: 'throughput', label: 'Throughput' },
 ] as const;
 
+/**
+ * Registry-shaped definition for a user-defined KPI. Its value is read from
+ * KPIResults.custom, so it works on live results and stored history alike.
+ */
+export function customKPIDefinition(kpi: CustomKPI): KPIDefinition {
+  return {
+    key: kpi.key,
+    label: kpi.label,
+    shortLabel: kpi.label,
+    format: kpi.format,
+    thresholds: kpi.thresholds,
+    description: kpi.description || kpi.formula,
+    category: 'custom',
+    getValue: r => r.custom?.[kpi.key] ?? 0,
+    applicableToSingleProject: true,
+  };
+}
+
+/**
+ * Look up a built-in or custom KPI card, with the team's threshold override
+ * applied when `settings` has one. Undefined for custom KPIs that were deleted.
+ */
+export function getKPIDefinition(
+  key: KPICardSelection,
+  customKPIs: CustomKPI[],
+  settings: KPISetting[] = [],
+): KPIDefinition | undefined {
+  let def: KPIDefinition | undefined;
+  if (key in KPI_REGISTRY) {
+    def = KPI_REGISTRY[key as KPICardKey];
+  } else {
+    const custom = customKPIs.find(k => k.key === key);
+    def = custom ? customKPIDefinition(custom) : undefined;
+  }
+
+  const override = settings.find(s => s.key === key)?.thresholds;
+  return def && override
+    ? { ...def, thresholds: { ...def.thresholds, green: override.green, yellow: override.yellow } }
+    : def;
+}
+
 /**
  * Format a KPI value for display.
  */
@@ -259,6 +306,17 @@ export function formatKPIValue(value: number, format: KPIFormat): string {
   }
 }
 
+/** Size of a change in a KPI, without sign: "3pp", "12h", "2", "0.4" */
+export function formatKPIDelta(delta: number, format: KPIFormat): string {
+  const size = Math.abs(delta);
+  switch (format) {
+    case 'percent': return `${Math.round(size * 100)}pp`;
+    case 'hours': return `${size.toFixed(0)}h`;
+    case 'count': return String(Math.round(size));
+    case 'decimal': return size.toFixed(1);
+  }
+}
+
 /**
  * Get the color for a KPI value based on its thresholds.
  */
@@ -269,13 +327,13 @@ export function getKPIColor(
   // "No color coding" sentinel: both thresholds at absurd values
   if (thresholds.green >= 999 && thresholds.yellow >= 999) return 'neutral';
 
-  if (thresholds.invertColor) {
-    // Lower is better (e.g., firefighting)
-    if (value <= thresholds.green) return 'green';
-    if (value <= thresholds.yellow) return 'yellow';
+  if (thresholds.green > thresholds.yellow) {
+    // Higher is better (e.g., NPD focus ≥0.6 = green)
+    if (value >= thresholds.green) return 'green';
+    if (value >= thresholds.yellow) return 'yellow';
     return 'red';
   } else {
-    // Higher is better (e.g., utilization ≤0.85 = green)
+    // Lower is better (e.g., utilization ≤0.85 = green, firefighting ≤0.1 = green)
     if (value <= thresholds.green) return 'green';
     if (value <= thresholds.yellow) return 'yellow';
     return 'red';
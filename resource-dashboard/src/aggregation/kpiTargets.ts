@@ -0,0 +1,107 @@
+import { formatKPIDelta } from './kpiRegistry';
+import type { KPIDefinition } from './kpiRegistry';
+import type { KPISetting, KPITarget, KPITargetMode } from '../types';
+import { resolveMonths } from '../utils/monthRange';
+import type { MonthFilter } from '../utils/monthRange';
+
+/**
+ * KPI targets.
+ *
+ * A target belongs to a month ("2026-07") or a quarter ("2026-Q3"). A month is
+ * judged against its own target, else its quarter's; a range covering exactly
+ * one quarter is judged against that quarter's target. Other ranges have none.
+ */
+
+/** "2026-07" → "2026-Q3" */
+export function quarterOf(month: string): string {
+  const [year, mm] = month.split('-');
+  return `${year}-Q${Math.ceil(parseInt(mm, 10) / 3)}`;
+}
+
+/** "2026-Q3" → "Q3 2026"; months are left for formatMonth */
+export function formatTargetPeriod(period: string): string {
+  const match = period.match(/^(\d{4})-(Q[1-4])$/);
+  return match ? `${match[2]} ${match[1]}` : period;
+}
+
+/**
+ * The target that applies to a month selection, if any.
+ */
+export function getKPITarget(setting: KPISetting | undefined, monthFilter: MonthFilter): KPITarget | undefined {
+  if (!setting?.targets.length) return undefined;
+  const months = resolveMonths(monthFilter);
+  if (months.length === 0) return undefined;
+
+  if (months.length === 1) {
+    return setting.targets.find(t => t.period === months[0])
+      ?? setting.targets.find(t => t.period === quarterOf(months[0]));
+  }
+
+  const quarter = quarterOf(months[0]);
+  const isWholeQuarter = months.length === 3 && months.every(m => quarterOf(m) === quarter);
+  return isWholeQuarter ? setting.targets.find(t => t.period === quarter) : undefined;
+}
+
+/**
+ * How a KPI meets its target. Without an explicit mode, follows the color
+ * thresholds: green above yellow means higher is better.
+ */
+export function getTargetMode(def: KPIDefinition, setting: KPISetting | undefined): KPITargetMode {
+  if (setting?.target_mode) return setting.target_mode;
+  const { green, yellow, invertColor } = def.thresholds;
+  if (green >= 999 && yellow >= 999) return invertColor ? 'at_most' : 'at_least';
+  return green > yellow ? 'at_least' : 'at_most';
+}
+
+export interface TargetComparison {
+  target: number;
+  period: string;
+  diff: number;     // value − target
+  met: boolean;
+}
+
+/**
+ * Compare a KPI value with the target for a month selection. Null when no target applies.
+ */
+export function compareToTarget(
+  value: number,
+  def: KPIDefinition,
+  setting: KPISetting | undefined,
+  monthFilter: MonthFilter,
+): TargetComparison | null {
+  const target = getKPITarget(setting, monthFilter);
+  if (!target) return null;
+  const diff = value - target.value;
+  const met = getTargetMode(def, setting) === 'at_least' ? diff >= 0 : diff <= 0;
+  return { target: target.value, period: target.period, diff, met };
+}
+
+/**
+ * Short "vs target" text, e.g. "↓ 3pp vs 85% target" or "✓ 40h target".
+ */
+export function formatTargetGap(comparison: TargetComparison, def: KPIDefinition): string {
+  const target = formatTargetValue(comparison.target, def);
+  if (Math.abs(comparison.diff) < 0.0005) return `✓ ${target} target`;
+  const arrow = comparison.diff > 0 ? '↑' : '↓';
+  return `${arrow} ${formatKPIDelta(comparison.diff, def.format)} vs ${target} target`;
+}
+
+/**
+ * Plain-text attainment for reports, e.g. "Target 85%: met (2pp above)".
+ */
+export function formatTargetAttainment(comparison: TargetComparison, def: KPIDefinition): string {
+  const target = `Target ${formatTargetValue(comparison.target, def)}`;
+  if (Math.abs(comparison.diff) < 0.0005) return `${target}: met`;
+  const gap = `${formatKPIDelta(comparison.diff, def.format)} ${comparison.diff > 0 ? 'above' : 'below'}`;
+  return comparison.met ? `${target}: met (${gap})` : `${target}: missed (${gap})`;
+}
+
+/** A target value with its unit, e.g. "85%" or "40h" */
+export function formatTargetValue(value: number, def: KPIDefinition): string {
+  switch (def.format) {
+    case 'percent': return `${Math.round(value * 100)}%`;
+    case 'hours': return `${value % 1 === 0 ? value : value.toFixed(1)}h`;
+    case 'count': return String(Math.round(value));
+    case 'decimal': return value.toFixed(1);
+  }
+}
@@ -1,9 +1,9 @@
-import { db } from '../db/database';
 import { PersonRole, ActivityType } from '../types';
 import type { LabTechHoursSummary } from '../types';
-import { getProjectParent } from './projectUtils';
+import { loadProjectHierarchy } from './projectUtils';
 import type { MonthFilter } from '../utils/monthRange';
 import { resolveMonths, toDbMonths, fromDbMonth } from '../utils/monthRange';
+import { loadMonthlyRollups, loadTeamMembers } from './teamScope';
 
 /**
  * Compute how many hours each engineer spent on "Lab - Testing" activity.
@@ -11,13 +11,15 @@ import { resolveMonths, toDbMonths, fromDbMonth } from '../utils/monthRange';
  *
  * @param monthFilter - Optional: limit to specific month(s) (YYYY-MM or array)
  * @param projectFilter - Optional: limit to a specific project (parent R# code).
+ * @param team - Optional: LP team to scope to; defaults to the active team.
  */
 export async function computeLabTechHours(
   monthFilter?: MonthFilter,
   projectFilter?: string,
-  engineerFilter?: string
+  engineerFilter?: string,
+  team?: string
 ): Promise<LabTechHoursSummary[]> {
-  const teamMembers = await db.teamMembers.toArray();
+  const teamMembers = await loadTeamMembers(team);
 
   const engineers = new Set(
     teamMembers
@@ -28,15 +30,14 @@ export async function computeLabTechHours(
   // Apply month filter if provided (supports single or multi-month)
   const csvMonths = monthFilter ? toDbMonths(resolveMonths(monthFilter)) : null;
 
-  const timesheets = csvMonths
-    ? await db.timesheets.where('month').anyOf(csvMonths).toArray()
-    : await db.timesheets.toArray();
+  const timesheets = await loadMonthlyRollups(csvMonths, team);
+  const hierarchy = await loadProjectHierarchy();
 
   // Filter to engineers doing lab testing, optionally by project
   const labEntries = timesheets.filter(
     t => engineers.has(t.full_name) &&
       t.activity === ActivityType.LabTesting &&
-      (!projectFilter || getProjectParent(t.r_number) === projectFilter || t.r_number === projectFilter) &&
+      (!projectFilter || hierarchy.isWithin(t.r_number, projectFilter)) &&
       (!engineerFilter || t.full_name === engineerFilter)
   );
 
@@ -1,8 +1,8 @@
-import { db } from '../db/database';
 import type { PersonRole as PersonRoleType } from '../types';
-import { getProjectParent } from './projectUtils';
-import type { MonthFilter } from '../utils/monthRange';
-import { resolveMonths, toDbMonths } from '../utils/monthRange';
+import { loadProjectHierarchy } from './projectUtils';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { filterToWeeks, resolveMonths, toDbMonths } from '../utils/monthRange';
+import { loadDailyRollups, loadMonthlyRollups, loadTeamMembers } from './teamScope';
 
 export interface MeetingTaxResult {
   person: string;
@@ -18,20 +18,22 @@ export interface MeetingTaxResult {
 /**
  * Breaks out meeting hours as a separate category from general admin.
  * Meeting tasks are identified by "meeting" in the task name (case-insensitive).
+ * With `weeks`, only hours logged in those weeks count.
  */
-export async function computeMeetingTax(month?: MonthFilter, projectFilter?: string, engineerFilter?: string): Promise<MeetingTaxResult[]> {
-  const teamMembers = await db.teamMembers.toArray();
+export async function computeMeetingTax(month?: MonthFilter, projectFilter?: string, engineerFilter?: string, weeks?: WeekFilter): Promise<MeetingTaxResult[]> {
+  const teamMembers = await loadTeamMembers();
   const memberMap = new Map(teamMembers.map(m => [m.full_name, m]));
 
   const csvMonths = month ? toDbMonths(resolveMonths(month)) : null;
-  let timesheets = csvMonths
-    ? await db.timesheets.where('month').anyOf(csvMonths).toArray()
-    : await db.timesheets.toArray();
+  let timesheets = weeks
+    ? filterToWeeks(await loadDailyRollups(csvMonths), weeks)
+    : await loadMonthlyRollups(csvMonths);
+  const hierarchy = await loadProjectHierarchy();
 
   if (projectFilter) {
     const projectPeople = new Set(
       timesheets
-        .filter(t => getProjectParent(t.r_number) === projectFilter || t.r_number === projectFilter)
+        .filter(t => hierarchy.isWithin(t.r_number, projectFilter))
         .map(t => t.full_name)
     );
     timesheets = timesheets.filter(t => projectPeople.has(t.full_name));
@@ -64,14 +66,14 @@ export async function computeMeetingTax(month?: MonthFilter, projectFilter?: str
 
     for (const e of entries) {
       totalHours += e.hours;
-      const isMeeting = e.task?.toLowerCase().includes('meeting') ?? false;
+      meetingHours += e.meeting_hours;
 
-      if (isMeeting) {
-        meetingHours += e.hours;
-      } else if (e.r_number === 'R0999') {
-        oooHours += e.hours;
+      // Meeting tasks count as meetings even when booked to admin/OOO
+      const nonMeetingHours = e.hours - e.meeting_hours;
+      if (e.r_number === 'R0999') {
+        oooHours += nonMeetingHours;
       } else if (e.r_number === 'R0996') {
-        adminHours += e.hours;
+        adminHours += nonMeetingHours;
       }
     }
 
@@ -4,7 +4,7 @@ import type {
   NarrativeConfig,
   NarrativeObservationKey,
   KPIResults,
-  TimesheetEntry,
+  TimesheetRollup,
   Project,
   TeamMember,
   DashboardConfig,
@@ -16,10 +16,11 @@ import { computeNPDProjectComparison } from './plannedVsActual';
 import { getEngineerCapacity } from '../utils/capacity';
 import { DEFAULT_NARRATIVE_CONFIG, NARRATIVE_OBSERVATIONS } from './narrativeObservations';
 import type { NarrativeMode } from './narrativeObservations';
-import { getProjectParent } from './projectUtils';
+import { buildProjectHierarchy, loadProjectHierarchy } from './projectUtils';
 import { computeAllKPIs } from './kpiEngine';
 import { toDbMonth, toDbMonths, resolveMonths } from '../utils/monthRange';
 import type { MonthFilter } from '../utils/monthRange';
+import { loadDailyRollups, loadMonthlyRollups, loadTeamMembers } from './teamScope';
 
 export interface NarrativeSummary {
   paragraph: string;
@@ -39,7 +40,7 @@ interface TriggeredObservation {
 
 interface NarrativeData {
   kpi: KPIResults;
-  timesheets: TimesheetEntry[];
+  timesheets: TimesheetRollup[];   // Daily rollups for one month, monthly rollups for a range
   projects: Map<string, Project>;
   teamMembers: TeamMember[];
   engineerSet: Set<string>;
@@ -60,30 +61,41 @@ interface NarrativeData {
  *
  * When called with a multi-month range, aggregates data across all months
  * and adjusts language to describe the full period.
+ *
+ * When a comparison period is given, trends are described against it instead
+ * of the previous month, and the summary says how hours moved between the two.
  */
 export async function generateNarrativeSummary(
   month: MonthFilter,
   projectFilter?: string,
-  engineerFilter?: string
+  engineerFilter?: string,
+  comparison?: MonthFilter
 ): Promise<NarrativeSummary> {
   // For single-month calls, normalize to string for backward compat
   const months = resolveMonths(month);
   const isRange = months.length > 1;
   const primaryMonth = months[months.length - 1]; // most recent month
+  const comparisonMonths = comparison ? resolveMonths(comparison) : undefined;
 
   if (engineerFilter) {
-    return isRange
-      ? generateEngineerRangeNarrative(months, engineerFilter)
-      : generateEngineerNarrative(primaryMonth, engineerFilter);
+    const summary = isRange
+      ? await generateEngineerRangeNarrative(months, engineerFilter)
+      : await generateEngineerNarrative(primaryMonth, engineerFilter);
+    return comparisonMonths
+      ? appendHoursComparison(summary, months, comparisonMonths, t => t.full_name === engineerFilter)
+      : summary;
   }
   if (projectFilter) {
-    return isRange
-      ? generateProjectRangeNarrative(months, projectFilter)
-      : generateProjectNarrative(primaryMonth, projectFilter);
+    const summary = isRange
+      ? await generateProjectRangeNarrative(months, projectFilter)
+      : await generateProjectNarrative(primaryMonth, projectFilter);
+    if (!comparisonMonths) return summary;
+    const hierarchy = await loadProjectHierarchy();
+    return appendHoursComparison(summary, months, comparisonMonths, t => hierarchy.isWithin(t.r_number, projectFilter));
   }
   return isRange
-    ? generateTeamRangeNarrative(months)
-    : generateTeamNarrative(primaryMonth);
+    ? generateTeamRangeNarrative(months, comparisonMonths)
+    : generateTeamNarrative(primaryMonth, comparisonMonths);
 }
 
 // ── Shared data loader ──
@@ -100,15 +112,16 @@ async function loadNarrativeData(
   const capacity = dashConfig?.std_monthly_capacity_hours ?? 140;
 
   const csvMonth = toDbMonth(month);
-  let timesheets = await db.timesheets.where('month').equals(csvMonth).toArray();
+  let timesheets = await loadDailyRollups([csvMonth]);
+  const hierarchy = await loadProjectHierarchy();
 
   if (projectFilter) {
     timesheets = timesheets.filter(t =>
-      t.r_number === projectFilter || getProjectParent(t.r_number) === projectFilter
+      hierarchy.isWithin(t.r_number, projectFilter)
     );
   }
 
-  const teamMembers = await db.teamMembers.toArray();
+  const teamMembers = await loadTeamMembers();
   const engineerSet = new Set(
     teamMembers.filter(m => m.role === PersonRole.Engineer).map(m => m.full_name)
   );
@@ -149,18 +162,16 @@ async function loadRangeNarrativeData(
   const capacity = dashConfig?.std_monthly_capacity_hours ?? 140;
 
   const csvMonths = toDbMonths(months);
-  let timesheets = await db.timesheets
-    .where('month')
-    .anyOf(csvMonths)
-    .toArray();
+  let timesheets = await loadMonthlyRollups(csvMonths);
+  const hierarchy = await loadProjectHierarchy();
 
   if (projectFilter) {
     timesheets = timesheets.filter(t =>
-      t.r_number === projectFilter || getProjectParent(t.r_number) === projectFilter
+      hierarchy.isWithin(t.r_number, projectFilter)
     );
   }
 
-  const teamMembers = await db.teamMembers.toArray();
+  const teamMembers = await loadTeamMembers();
   const engineerSet = new Set(
     teamMembers.filter(m => m.role === PersonRole.Engineer).map(m => m.full_name)
   );
@@ -220,7 +231,7 @@ async function generateEngineerNarrative(
 // Team Narrative ("All Projects" mode)
 // ══════════════════════════════════════════════════════════════
 
-async function generateTeamNarrative(month: string): Promise<NarrativeSummary> {
+async function generateTeamNarrative(month: string, comparisonMonths?: string[]): Promise<NarrativeSummary> {
   const data = await loadNarrativeData(month);
 
   if (data.timesheets.length === 0) {
@@ -256,19 +267,19 @@ async function generateTeamNarrative(month: string): Promise<NarrativeSummary> {
   const underloaded: string[] = [];
   for (const [person, hours] of personHours) {
     const memberObj = teamMemberMap.get(person);
-    const memberCap = memberObj ? getEngineerCapacity(memberObj, capacity) : capacity;
+    const memberCap = memberObj ? getEngineerCapacity(memberObj, capacity, month) : capacity;
     if (hours > memberCap * 1.15) overloaded.push(person);
     else if (hours < memberCap * 0.6) underloaded.push(person);
   }
 
-  // ── Previous month data for trend comparisons ──
+  // ── Previous month (or comparison period) data for trend comparisons ──
   let prevFirefightingPct: number | null = null;
   let prevMeetingPctAvg: number | null = null;
+  const trendAgainst = comparisonMonths ? `in ${formatRangeLabel(comparisonMonths)}` : 'last month';
 
   if (includeTrendComparisons) {
-    const prevMonth = computePreviousMonth(month);
-    const prevCsvMonth = toDbMonth(prevMonth);
-    const prevTimesheets = await db.timesheets.where('month').equals(prevCsvMonth).toArray();
+    const prevMonths = comparisonMonths ?? [computePreviousMonth(month)];
+    const prevTimesheets = await loadMonthlyRollups(toDbMonths(prevMonths));
 
     if (prevTimesheets.length > 0) {
       let prevTotal = 0;
@@ -282,7 +293,7 @@ async function generateTeamNarrative(month: string): Promise<NarrativeSummary> {
           prevTotal += t.hours;
           if (proj?.work_class === 'Unplanned/Firefighting') prevFF += t.hours;
         }
-        if (t.task?.toLowerCase().includes('meeting')) prevMeetings += t.hours;
+        prevMeetings += t.meeting_hours;
       }
 
       if (prevTotal > 0) {
@@ -301,7 +312,7 @@ async function generateTeamNarrative(month: string): Promise<NarrativeSummary> {
     const trend = addTrendLanguage(
       ffPct,
       prevFirefightingPct !== null ? Math.round(prevFirefightingPct * 100) : null,
-      includeTrendComparisons, '%'
+      includeTrendComparisons, '%', trendAgainst
     );
     let sentence: string;
     if (includeSpecificNumbers) {
@@ -408,7 +419,7 @@ async function generateTeamNarrative(month: string): Promise<NarrativeSummary> {
       const trend = addTrendLanguage(
         Math.round(top.meetingPct * 100),
         prevMeetingPctAvg !== null ? Math.round(prevMeetingPctAvg * 100) : null,
-        includeTrendComparisons, '%'
+        includeTrendComparisons, '%', trendAgainst
       );
       let sentence: string;
       if (nameIndividuals && includeSpecificNumbers) {
@@ -556,6 +567,11 @@ async function generateTeamNarrative(month: string): Promise<NarrativeSummary> {
     highlights.push('No slack capacity');
   }
 
+  // Comparison period — described whether or not trend comparisons are on
+  if (comparisonMonths) {
+    await pushTeamComparison(kpi, comparisonMonths, sentences, highlights);
+  }
+
   // Custom closing
   if (narrativeConfig.customClosing.trim()) {
     sentences.push(narrativeConfig.customClosing.trim());
@@ -564,6 +580,29 @@ async function generateTeamNarrative(month: string): Promise<NarrativeSummary> {
   return { paragraph: sentences.join(' '), highlights };
 }
 
+/** Team sentence and highlight for how hours and firefighting moved against a comparison period */
+async function pushTeamComparison(
+  kpi: KPIResults,
+  comparisonMonths: string[],
+  sentences: string[],
+  highlights: string[]
+): Promise<void> {
+  const prev = await computeAllKPIs(comparisonMonths);
+  const comparisonLabel = formatRangeLabel(comparisonMonths);
+  if (prev.totalHoursLogged > 0) {
+    const hoursChange = (kpi.totalHoursLogged - prev.totalHoursLogged) / prev.totalHoursLogged;
+    const ffTrend = addTrendLanguage(
+      Math.round(kpi.firefightingLoad * 100), Math.round(prev.firefightingLoad * 100), true, '%', `in ${comparisonLabel}`
+    );
+    sentences.push(
+      `Compared with ${comparisonLabel}, logged hours were ${describeChange(hoursChange)} and firefighting stood at ${Math.round(kpi.firefightingLoad * 100)}% of project hours${ffTrend}.`
+    );
+    highlights.push(`Hours ${formatSignedPct(hoursChange)} vs ${comparisonLabel}`);
+  } else {
+    sentences.push(`No hours were logged in ${comparisonLabel} to compare against.`);
+  }
+}
+
 // ══════════════════════════════════════════════════════════════
 // Project Narrative (Single Project mode)
 // ══════════════════════════════════════════════════════════════
@@ -579,6 +618,7 @@ async function generateProjectNarrative(
   const projectDef = projectMap.get(projectId);
   const projectName = projectDef?.project_name ?? projectId;
   const projectType = projectDef?.type ?? ProjectType.Admin;
+  const hierarchy = buildProjectHierarchy([...projectMap.values()]);
   const projectWorkClass = projectDef?.work_class ?? 'Planned';
 
   // ── No activity case ──
@@ -644,9 +684,8 @@ async function generateProjectNarrative(
 
   // ── Comparison to plan ──
   const npdComps = await computeNPDProjectComparison(month);
-  const comp = npdComps.find(c =>
-    c.project_id === projectId || c.project_id === getProjectParent(projectId)
-  );
+  // NPD comparisons are grouped by top-level project
+  const comp = npdComps.find(c => c.project_id === hierarchy.rootOf(projectId));
 
   if (comp && comp.planned_hours > 0) {
     const pctOfPlan = Math.round((comp.actual_hours / comp.planned_hours) * 100);
@@ -668,7 +707,7 @@ async function generateProjectNarrative(
   if (narrativeConfig.observations.busFactorRisks && projectModeKeys.has('busFactorRisks')) {
     const busResults = await computeBusFactorRisk(month, projectId);
     const thisProject = busResults.find(r =>
-      r.projectId === projectId || getProjectParent(r.projectId) === projectId
+      hierarchy.isWithin(r.projectId, projectId)
     );
     if (thisProject && (thisProject.riskLevel === 'critical' || thisProject.riskLevel === 'high')) {
       const topName = thisProject.topContributor;
@@ -756,7 +795,7 @@ async function generateProjectNarrative(
 // Range Narrative Generators
 // ══════════════════════════════════════════════════════════════
 
-async function generateTeamRangeNarrative(months: string[]): Promise<NarrativeSummary> {
+async function generateTeamRangeNarrative(months: string[], comparisonMonths?: string[]): Promise<NarrativeSummary> {
   const data = await loadRangeNarrativeData(months);
 
   if (data.timesheets.length === 0) {
@@ -813,6 +852,11 @@ async function generateTeamRangeNarrative(months: string[]): Promise<NarrativeSu
     highlights.push(`Lab tech support: ${Math.round(labTechTotalHours)} hrs`);
   }
 
+  // Comparison period
+  if (comparisonMonths) {
+    await pushTeamComparison(kpi, comparisonMonths, sentences, highlights);
+  }
+
   highlights.push(`${months.length} months`, `${projectSet.size} projects`);
 
   return { paragraph: sentences.join(' '), highlights };
@@ -1004,11 +1048,59 @@ function addTrendLanguage(
   current: number,
   previous: number | null,
   enabled: boolean,
-  unit: string
+  unit: string,
+  against = 'last month'
 ): string {
   if (!enabled || previous === null) return '';
   const delta = current - previous;
   if (Math.abs(delta) < 1) return '';
-  if (delta > 0) return `, up from ${previous}${unit} last month`;
-  return `, down from ${previous}${unit} last month`;
+  if (delta > 0) return `, up from ${previous}${unit} ${against}`;
+  return `, down from ${previous}${unit} ${against}`;
+}
+
+/**
+ * "up 12%", "down 4%", "about the same"
+ */
+function describeChange(change: number): string {
+  if (Math.abs(change) < 0.01) return 'about the same';
+  return `${change > 0 ? 'up' : 'down'} ${Math.abs(Math.round(change * 100))}%`;
+}
+
+/**
+ * "+12%", "-4%"
+ */
+function formatSignedPct(change: number): string {
+  const pct = Math.round(change * 100);
+  return `${pct > 0 ? '+' : ''}${pct}%`;
+}
+
+/**
+ * Add a sentence comparing hours on the matching monthly rollups between the
+ * selected and comparison months. Used by the engineer and project narratives.
+ */
+async function appendHoursComparison(
+  summary: NarrativeSummary,
+  months: string[],
+  comparisonMonths: string[],
+  matches: (t: TimesheetRollup) => boolean
+): Promise<NarrativeSummary> {
+  const [current, previous] = await Promise.all([
+    loadMonthlyRollups(toDbMonths(months)),
+    loadMonthlyRollups(toDbMonths(comparisonMonths)),
+  ]);
+  const currentHours = current.filter(matches).reduce((sum, t) => sum + t.hours, 0);
+  const previousHours = previous.filter(matches).reduce((sum, t) => sum + t.hours, 0);
+  const comparisonLabel = formatRangeLabel(comparisonMonths);
+
+  if (previousHours === 0) {
+    return {
+      paragraph: `${summary.paragraph} No hours were logged in ${comparisonLabel} to compare against.`,
+      highlights: summary.highlights,
+    };
+  }
+  const change = (currentHours - previousHours) / previousHours;
+  return {
+    paragraph: `${summary.paragraph} Compared with ${comparisonLabel} (${Math.round(previousHours)} hours), hours were ${describeChange(change)}.`,
+    highlights: [...summary.highlights, `Hours ${formatSignedPct(change)} vs ${comparisonLabel}`],
+  };
 }
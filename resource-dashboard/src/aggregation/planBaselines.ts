@@ -0,0 +1,67 @@
+import { db } from '../db/database';
+import type { BaselineVariance, PlannedAllocation } from '../types';
+import { buildProjectHierarchy } from './projectUtils';
+import { getActiveTeam, scopeAllocations } from './teamScope';
+import type { MonthFilter } from '../utils/monthRange';
+import { resolveMonths } from '../utils/monthRange';
+
+/**
+ * Planned allocations from a frozen baseline, or the live plan when
+ * `baselineId` is unset. A deleted baseline falls back to the live plan.
+ */
+export async function loadPlannedAllocations(baselineId?: number): Promise<PlannedAllocation[]> {
+  if (baselineId !== undefined) {
+    const baseline = await db.planBaselines.get(baselineId);
+    if (baseline) return baseline.allocations;
+  }
+  return db.plannedAllocations.toArray();
+}
+
+/**
+ * Planned hours per top-level project in two versions of the plan.
+ * Either side may be the live plan (undefined).
+ *
+ * @param month - Optional: limit to these months; all planned months otherwise.
+ * @param team - Optional: LP team to scope to; defaults to the active team.
+ */
+export async function computeBaselineVariance(
+  fromBaselineId: number | undefined,
+  toBaselineId: number | undefined,
+  month?: MonthFilter,
+  team?: string
+): Promise<BaselineVariance[]> {
+  const scope = team ?? await getActiveTeam();
+  const months = month ? new Set(resolveMonths(month)) : null;
+  const projects = await db.projects.toArray();
+  const projectMap = new Map(projects.map(p => [p.project_id, p]));
+  const hierarchy = buildProjectHierarchy(projects);
+
+  const totalsByRoot = async (baselineId: number | undefined) => {
+    const allocations = await scopeAllocations(await loadPlannedAllocations(baselineId), scope);
+    const totals = new Map<string, number>();
+    for (const a of allocations) {
+      if (months && !months.has(a.month)) continue;
+      const root = hierarchy.rootOf(a.project_id);
+      totals.set(root, (totals.get(root) ?? 0) + a.planned_hours);
+    }
+    return totals;
+  };
+
+  const [from, to] = await Promise.all([totalsByRoot(fromBaselineId), totalsByRoot(toBaselineId)]);
+
+  const result: BaselineVariance[] = [];
+  for (const projectId of new Set([...from.keys(), ...to.keys()])) {
+    const fromHours = from.get(projectId) ?? 0;
+    const toHours = to.get(projectId) ?? 0;
+    result.push({
+      project_id: projectId,
+      project_name: projectMap.get(projectId)?.project_name ?? projectId,
+      from_hours: fromHours,
+      to_hours: toHours,
+      delta: toHours - fromHours,
+      delta_pct: fromHours > 0 ? (toHours - fromHours) / fromHours : 0,
+    });
+  }
+
+  return result.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.project_id.localeCompare(b.project_id));
+}
@@ -3,7 +3,9 @@ import { ProjectType } from '../types';
 import type { MonthlyCategoryTotals, NPDProjectComparison, ProjectTimeline } from '../types';
 import { computeActualHours } from './actualHours';
 import { computeLabTechHours } from './labTechHours';
-import { getProjectParent } from './projectUtils';
+import { getProjectParent, buildProjectHierarchy } from './projectUtils';
+import { getActiveTeam, scopeAllocations } from './teamScope';
+import { loadPlannedAllocations } from './planBaselines';
 import type { MonthFilter } from '../utils/monthRange';
 import { resolveMonths } from '../utils/monthRange';
 
@@ -14,22 +16,26 @@ export { getProjectParent };
  * Compute monthly category totals for planned vs actual comparison.
  *
  * @param projectFilter - Optional: limit to a specific project (parent R# code).
+ * @param team - Optional: LP team to scope to; defaults to the active team.
+ * @param baselineId - Optional: plan baseline to compare against; defaults to the current plan.
  */
 export async function computeMonthlyCategoryTotals(
-  projectFilter?: string
+  projectFilter?: string,
+  team?: string,
+  baselineId?: number
 ): Promise<MonthlyCategoryTotals[]> {
-  const allocations = await db.plannedAllocations.toArray();
+  const scope = team ?? await getActiveTeam();
+  const allocations = await scopeAllocations(await loadPlannedAllocations(baselineId), scope);
   const projects = await db.projects.toArray();
-  const actualHours = await computeActualHours(undefined, projectFilter);
-  const labTechHours = await computeLabTechHours(undefined, projectFilter);
+  const actualHours = await computeActualHours(undefined, projectFilter, undefined, scope);
+  const labTechHours = await computeLabTechHours(undefined, projectFilter, undefined, scope);
 
   const projectMap = new Map(projects.map(p => [p.project_id, p]));
+  const hierarchy = buildProjectHierarchy(projects);
 
-  // Optionally filter planned data by project
+  // Optionally filter planned data by project (including its sub-projects)
   const filteredPlanned = projectFilter
-    ? allocations.filter(a =>
-        getProjectParent(a.project_id) === projectFilter || a.project_id === projectFilter
-      )
+    ? allocations.filter(a => hierarchy.isWithin(a.project_id, projectFilter))
     : allocations;
 
   // Get all unique months
@@ -97,28 +103,32 @@ export async function computeMonthlyCategoryTotals(
 
 /**
  * Compute NPD project planned vs actual comparison for a specific month.
- * Groups sub-projects under parent codes.
+ * Groups sub-projects under their top-level project in the hierarchy.
+ * Planned hours come from `baselineId` when given, else the current plan.
  */
 export async function computeNPDProjectComparison(
-  month: MonthFilter
+  month: MonthFilter,
+  baselineId?: number
 ): Promise<NPDProjectComparison[]> {
-  const months = resolveMonths(month);
-  const projects = await db.projects.where('type').equals(ProjectType.NPD).toArray();
-  const allocations = await db.plannedAllocations
-    .where('month')
-    .anyOf(months)
-    .toArray();
+  const months = new Set(resolveMonths(month));
+  const allProjects = await db.projects.toArray();
+  const projects = allProjects.filter(p => p.type === ProjectType.NPD);
+  const projectMap = new Map(allProjects.map(p => [p.project_id, p]));
+  const hierarchy = buildProjectHierarchy(allProjects);
+  const allocations = await scopeAllocations(
+    (await loadPlannedAllocations(baselineId)).filter(a => months.has(a.month))
+  );
   const actualHours = await computeActualHours(month);
 
-  // Group by parent project ID
+  // Group by top-level project ID
   const groups = new Map<string, NPDProjectComparison>();
 
   for (const project of projects) {
-    const parent = getProjectParent(project.project_id);
+    const parent = hierarchy.rootOf(project.project_id);
 
     if (!groups.has(parent)) {
       // Find the display name - prefer the parent code's name if it exists
-      const parentProject = projects.find(p => p.project_id === parent);
+      const parentProject = projectMap.get(parent);
       const name = parentProject?.project_name ?? project.project_name;
 
       groups.set(parent, {
@@ -155,24 +165,26 @@ export async function computeNPDProjectComparison(
 }
 
 /**
- * Compute project timeline (planned vs actual over time) for a specific project.
+ * Compute project timeline (planned vs actual over time) for a specific project,
+ * rolled up over its sub-projects. Planned hours come from `baselineId` when given.
  */
 export async function computeProjectTimeline(
-  projectId: string
+  projectId: string,
+  baselineId?: number
 ): Promise<ProjectTimeline[]> {
-  const project = await db.projects.get(projectId);
-  if (!project) return [];
+  const projects = await db.projects.toArray();
+  if (!projects.some(p => p.project_id === projectId)) return [];
+  const hierarchy = buildProjectHierarchy(projects);
 
-  const allocations = await db.plannedAllocations
-    .where('project_id')
-    .equals(projectId)
-    .toArray();
-  const actualHours = await computeActualHours();
+  const allocations = await scopeAllocations(
+    (await loadPlannedAllocations(baselineId)).filter(a => hierarchy.isWithin(a.project_id, projectId))
+  );
+  const actualHours = await computeActualHours(undefined, projectId);
 
   // Get all months where this project has data
   const months = new Set([
     ...allocations.map(a => a.month),
-    ...actualHours.filter(a => a.project_id === projectId).map(a => a.month),
+    ...actualHours.map(a => a.month),
   ]);
 
   const result: ProjectTimeline[] = [];
@@ -183,7 +195,7 @@ export async function computeProjectTimeline(
       .filter(a => a.month === month)
       .reduce((sum, a) => sum + a.planned_hours, 0);
     const actual = actualHours
-      .filter(a => a.month === month && a.project_id === projectId)
+      .filter(a => a.month === month)
       .reduce((sum, a) => sum + a.actual_hours, 0);
 
     result.push({
@@ -1,9 +1,107 @@
+import { db } from '../db/database';
+import type { Project } from '../types';
+
 /**
  * Get the parent project ID from a sub-project code.
  * Examples: R1337.1 → R1337, R1430.1A → R1430, S0062 → S0062
+ *
+ * This is only the default — an explicit `parent_id` on the project wins
+ * (see buildProjectHierarchy).
  */
 export function getProjectParent(projectId: string): string {
   const dotIndex = projectId.indexOf('.');
   if (dotIndex === -1) return projectId;
   return projectId.substring(0, dotIndex);
 }
+
+/**
+ * Parent/child project tree used for roll-ups and the project filter.
+ */
+export interface ProjectHierarchy {
+  /** Direct parent, or null for a top-level project */
+  parentOf(projectId: string): string | null;
+  /** Top-level ancestor (the project itself when it is top-level) */
+  rootOf(projectId: string): string;
+  /** True when projectId is ancestorId or sits anywhere beneath it */
+  isWithin(projectId: string, ancestorId: string): boolean;
+  /** Known projects in tree order (parents before their children) with their depth */
+  ordered(projects: Project[]): { project: Project; depth: number }[];
+}
+
+/**
+ * Build the project tree. A project's `parent_id` wins when set ('' = top level);
+ * otherwise the dot-suffix convention applies (R1337.1 → R1337).
+ * Codes with no project record (e.g. a bare timesheet R#) also use the dot rule.
+ */
+export function buildProjectHierarchy(projects: Pick<Project, 'project_id' | 'parent_id'>[]): ProjectHierarchy {
+  const explicit = new Map<string, string>();
+  for (const p of projects) {
+    if (p.parent_id !== undefined) explicit.set(p.project_id, p.parent_id);
+  }
+
+  const parentOf = (projectId: string): string | null => {
+    const parent = explicit.has(projectId) ? explicit.get(projectId)! : getProjectParent(projectId);
+    return parent && parent !== projectId ? parent : null;
+  };
+
+  // Walk towards the root; the visited set stops a hand-edited cycle from looping forever
+  const ancestry = (projectId: string): string[] => {
+    const chain = [projectId];
+    const seen = new Set(chain);
+    let parent = parentOf(projectId);
+    while (parent && !seen.has(parent)) {
+      chain.push(parent);
+      seen.add(parent);
+      parent = parentOf(parent);
+    }
+    return chain;
+  };
+
+  return {
+    parentOf,
+    rootOf: (projectId) => {
+      const chain = ancestry(projectId);
+      return chain[chain.length - 1];
+    },
+    isWithin: (projectId, ancestorId) => projectId === ancestorId || ancestry(projectId).includes(ancestorId),
+    ordered: (list) => {
+      const known = new Set(list.map(p => p.project_id));
+      const children = new Map<string | null, Project[]>();
+      for (const p of list) {
+        // Parents with no project record can't be shown, so their children sit at the top level
+        const parent = parentOf(p.project_id);
+        const key = parent && known.has(parent) ? parent : null;
+        children.set(key, [...(children.get(key) ?? []), p]);
+      }
+
+      const result: { project: Project; depth: number }[] = [];
+      const placed = new Set<string>();
+      const visit = (parent: string | null, depth: number) => {
+        const kids = (children.get(parent) ?? []).sort((a, b) => a.project_id.localeCompare(b.project_id));
+        for (const p of kids) {
+          if (placed.has(p.project_id)) continue;
+          placed.add(p.project_id);
+          result.push({ project: p, depth });
+          visit(p.project_id, depth + 1);
+        }
+      };
+      visit(null, 0);
+      // Members of a cycle are unreachable from the top level — list them flat at the end
+      for (const p of list) {
+        if (placed.has(p.project_id)) continue;
+        placed.add(p.project_id);
+        result.push({ project: p, depth: 0 });
+        visit(p.project_id, 1);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Load the project tree. Reading inside a useLiveQuery makes the query
+ * re-run when a parent assignment changes.
+ */
+export async function loadProjectHierarchy(): Promise<ProjectHierarchy> {
+  return buildProjectHierarchy(await db.projects.toArray());
+}
@@ -1,7 +1,8 @@
 import { db } from '../db/database';
 import { PersonRole } from '../types';
 import { computeCompatibilityScores } from './skillMatching';
-import { getEngineerCapacity } from '../utils/capacity';
+import { loadCapacityCalendar } from './capacityCalendar';
+import { loadTeamMembers } from './teamScope';
 
 export interface EngineerFitResult {
   engineer: string;
@@ -30,19 +31,19 @@ export async function rankEngineersForScenario(
 ): Promise<EngineerFitResult[]> {
   if (months.length === 0) return [];
 
-  const [requirements, skills, teamMembers, config, allocations] = await Promise.all([
+  const [requirements, skills, teamMembers, calendar, allocations] = await Promise.all([
     db.projectSkillRequirements.where('project_id').equals(projectId).toArray(),
     db.skills.toArray(),
-    db.teamMembers.toArray(),
-    db.config.get(1),
+    loadTeamMembers(),
+    loadCapacityCalendar(),
     db.plannedAllocations.where('month').anyOf(months).toArray(),
   ]);
 
-  const stdCapacity = config?.std_monthly_capacity_hours ?? 140;
   const excluded = new Set(excludeEngineers);
 
   const engineers = teamMembers.filter(
-    m => m.role === PersonRole.Engineer && !excluded.has(m.full_name),
+    m => m.role === PersonRole.Engineer && !excluded.has(m.full_name) &&
+      months.some(month => calendar.isEmployed(m.full_name, month)),
   );
   if (engineers.length === 0) return [];
 
@@ -66,14 +67,14 @@ export async function rankEngineersForScenario(
 
   // Score each engineer
   const results: EngineerFitResult[] = engineers.map(member => {
-    const capacity = getEngineerCapacity(member, stdCapacity);
     const skill_score = hasRequirements ? (skillScoreMap.get(member.full_name) ?? 0) : 0;
 
     // Average free-capacity fraction across scenario months
     let totalFree = 0;
     for (const month of months) {
+      const capacity = calendar.capacityFor(member.full_name, month);
       const allocated = allocMap.get(`${member.full_name}|${month}`) ?? 0;
-      const free = Math.max(0, (capacity - allocated) / capacity);
+      const free = capacity > 0 ? Math.max(0, (capacity - allocated) / capacity) : 0;
       totalFree += free;
     }
     const availability_pct = totalFree / months.length;
@@ -1,8 +1,9 @@
 import { db } from '../db/database';
 import { PersonRole } from '../types';
 import type { ScenarioAllocation } from '../types';
-import { getEngineerCapacity } from '../utils/capacity';
+import { loadCapacityCalendar } from './capacityCalendar';
 import { computeCapacityForecast } from './capacityForecast';
+import { loadTeamMembers } from './teamScope';
 
 export interface CandidateRanking {
   engineer: string;
@@ -13,7 +14,7 @@ export interface CandidateRanking {
     rating: number;              // engineer's rating (0–5)
     max_rating: number;          // always 5
   }[];
-  capacity_hours: number;        // monthly capacity
+  capacity_hours: number;        // capacity in start month (holidays and leave deducted)
   current_allocated_hours: number; // already allocated in start month
   available_hours: number;       // capacity - current_allocated
   availability_pct: number;      // 0–1
@@ -27,24 +28,24 @@ export interface CandidateRanking {
  * Availability: from computeCapacityForecast for start_month
  * Composite: (skill_fit_pct × 0.6) + (availability_pct × 100 × 0.4)
  *
- * Engineers with exclude_from_capacity === true are excluded.
+ * Engineers with exclude_from_capacity === true, or not employed in
+ * start_month, are excluded.
  */
 export async function rankCandidatesForScenario(
   skillTags: string[],
   startMonth: string,
 ): Promise<CandidateRanking[]> {
-  const [teamMembers, allSkills, config, forecast] = await Promise.all([
-    db.teamMembers.toArray(),
+  const [teamMembers, allSkills, calendar, forecast] = await Promise.all([
+    loadTeamMembers(),
     db.skills.toArray(),
-    db.config.get(1),
+    loadCapacityCalendar(),
     computeCapacityForecast([startMonth]),
   ]);
 
-  const stdCapacity = config?.std_monthly_capacity_hours ?? 140;
-
-  // Filter: engineers only, not excluded from capacity
+  // Filter: engineers only, not excluded from capacity, employed in the start month
   const eligible = teamMembers.filter(
-    m => m.role === PersonRole.Engineer && !m.exclude_from_capacity,
+    m => m.role === PersonRole.Engineer && !m.exclude_from_capacity &&
+      calendar.isEmployed(m.full_name, startMonth),
   );
 
   // Build skills lookup: engineer → Map<skill, rating>
@@ -67,7 +68,7 @@ export async function rankCandidatesForScenario(
   const results: CandidateRanking[] = [];
 
   for (const member of eligible) {
-    const capacity = getEngineerCapacity(member, stdCapacity);
+    const capacity = calendar.capacityFor(member.full_name, startMonth);
     const currentAllocated = forecastMap.get(member.full_name) ?? 0;
     const availableHours = Math.max(0, capacity - currentAllocated);
     const availabilityPct = capacity > 0 ? availableHours / capacity : 0;
@@ -0,0 +1,94 @@
+/**
+ * Statistical process control for monthly KPI series: an individuals /
+ * moving-range (I-MR) chart with Western Electric run rules.
+ */
+
+export type WesternElectricRule = 1 | 2 | 3 | 4;
+
+export const WESTERN_ELECTRIC_RULES: Record<WesternElectricRule, string> = {
+  1: 'one point beyond the 3σ limits',
+  2: '2 of 3 points beyond 2σ on one side',
+  3: '4 of 5 points beyond 1σ on one side',
+  4: '8 points in a row on one side of the mean',
+};
+
+/** Fewest months before control limits mean anything */
+export const SPC_MIN_POINTS = 5;
+
+/** d2 for subgroups of two — turns the average moving range into σ */
+const D2 = 1.128;
+/** D4 for subgroups of two — upper limit of the moving-range chart */
+const D4 = 3.267;
+
+export interface SPCPoint {
+  month: string;
+  value: number;
+  movingRange: number | null;  // |value − previous value|; null for the first point
+  violations: WesternElectricRule[];
+}
+
+export interface SPCChart {
+  points: SPCPoint[];
+  mean: number;
+  sigma: number;
+  ucl: number;
+  lcl: number;
+  mrMean: number;
+  mrUcl: number;
+}
+
+/**
+ * Build an I-MR chart for a month-sorted series. σ is estimated from the
+ * average moving range, so a single spike doesn't widen its own limits much.
+ * A point is flagged for a run rule when it completes the pattern.
+ * Null with fewer than SPC_MIN_POINTS points.
+ */
+export function computeIMRChart(series: { month: string; value: number }[]): SPCChart | null {
+  if (series.length < SPC_MIN_POINTS) return null;
+
+  const values = series.map(s => s.value);
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const ranges = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+  const mrMean = ranges.reduce((a, b) => a + b, 0) / ranges.length;
+  const sigma = mrMean / D2;
+
+  // Side of the mean beyond `k`σ: 1 above, −1 below, 0 inside (or no spread at all)
+  const zone = (v: number, k: number): number =>
+    sigma > 0 && Math.abs(v - mean) > k * sigma ? Math.sign(v - mean) : 0;
+
+  // At least `count` of the last `window` points (ending at i) beyond kσ on `side`
+  const beyond = (i: number, window: number, count: number, k: number, side: number): boolean =>
+    i >= window - 1 && values.slice(i - window + 1, i + 1).filter(v => zone(v, k) === side).length >= count;
+
+  const points = series.map((s, i): SPCPoint => {
+    const violations: WesternElectricRule[] = [];
+    const side = Math.sign(s.value - mean);
+
+    if (zone(s.value, 3) !== 0) violations.push(1);
+    if (side !== 0 && zone(s.value, 2) === side && beyond(i, 3, 2, 2, side)) violations.push(2);
+    if (side !== 0 && zone(s.value, 1) === side && beyond(i, 5, 4, 1, side)) violations.push(3);
+    if (side !== 0 && i >= 7 && values.slice(i - 7, i + 1).every(v => Math.sign(v - mean) === side)) {
+      violations.push(4);
+    }
+
+    return { month: s.month, value: s.value, movingRange: i > 0 ? ranges[i - 1] : null, violations };
+  });
+
+  return {
+    points,
+    mean,
+    sigma,
+    ucl: mean + 3 * sigma,
+    lcl: mean - 3 * sigma,
+    mrMean,
+    mrUcl: D4 * mrMean,
+  };
+}
+
+/** "rules 1 and 4: one point beyond the 3σ limits; 8 points in a row …" */
+export function describeViolations(violations: WesternElectricRule[]): string {
+  const rules = violations.length === 1
+    ? `rule ${violations[0]}`
+    : `rules ${violations.slice(0, -1).join(', ')} and ${violations[violations.length - 1]}`;
+  return `${rules}: ${violations.map(r => WESTERN_ELECTRIC_RULES[r]).join('; ')}`;
+}
@@ -0,0 +1,92 @@
+import { db } from '../db/database';
+import type { TeamMember, TimesheetEntry, TimesheetRollup } from '../types';
+
+/** Team scope value for the combined roll-up across every imported team. */
+export const ALL_TEAMS = '';
+
+/**
+ * The team the dashboard is currently scoped to ('' = all teams).
+ * Reading config inside a useLiveQuery makes the query re-run when the team changes.
+ */
+export async function getActiveTeam(): Promise<string> {
+  const config = await db.config.get(1);
+  return config?.selected_team ?? ALL_TEAMS;
+}
+
+/**
+ * Every LP team that has timesheet rows, sorted by name.
+ */
+export async function listTeams(): Promise<string[]> {
+  const keys = await db.timesheets.orderBy('team').uniqueKeys();
+  return (keys as string[]).filter(Boolean);
+}
+
+/**
+ * Load timesheet rows for the given DB months (YYYY/MM, or all months when omitted),
+ * limited to one team. `team` defaults to the active team; pass ALL_TEAMS for the roll-up.
+ */
+export async function loadTimesheets(csvMonths?: string[] | null, team?: string): Promise<TimesheetEntry[]> {
+  const scope = team ?? await getActiveTeam();
+
+  if (csvMonths) {
+    const rows = await db.timesheets.where('month').anyOf(csvMonths).toArray();
+    return scope ? rows.filter(t => t.team === scope) : rows;
+  }
+  return scope
+    ? db.timesheets.where('team').equals(scope).toArray()
+    : db.timesheets.toArray();
+}
+
+/**
+ * Load per person × R# × activity × month rollups, scoped like loadTimesheets.
+ * Prefer these over raw rows whenever task-level detail isn't needed.
+ */
+export async function loadMonthlyRollups(csvMonths?: string[] | null, team?: string): Promise<TimesheetRollup[]> {
+  return loadRollups(db.monthlyRollups, csvMonths, team);
+}
+
+/**
+ * Load per person × R# × activity × day rollups, scoped like loadTimesheets.
+ */
+export async function loadDailyRollups(csvMonths?: string[] | null, team?: string): Promise<TimesheetRollup[]> {
+  return loadRollups(db.dailyRollups, csvMonths, team);
+}
+
+async function loadRollups(
+  table: typeof db.monthlyRollups,
+  csvMonths: string[] | null | undefined,
+  team: string | undefined
+): Promise<TimesheetRollup[]> {
+  const scope = team ?? await getActiveTeam();
+
+  if (csvMonths) {
+    return scope
+      ? table.where('[team+month]').anyOf(csvMonths.map(m => [scope, m])).toArray()
+      : table.where('month').anyOf(csvMonths).toArray();
+  }
+  return scope
+    ? table.where('team').equals(scope).toArray()
+    : table.toArray();
+}
+
+/**
+ * Load the team members belonging to one team (defaults to the active team).
+ * Members are tagged with every team they have logged time under.
+ */
+export async function loadTeamMembers(team?: string): Promise<TeamMember[]> {
+  const scope = team ?? await getActiveTeam();
+  return scope
+    ? db.teamMembers.where('teams').equals(scope).toArray()
+    : db.teamMembers.toArray();
+}
+
+/**
+ * Keep only planned allocations for engineers on one team (defaults to the active team).
+ * Allocations are keyed by engineer name, so they follow the engineer's team membership.
+ */
+export async function scopeAllocations<T extends { engineer: string }>(allocations: T[], team?: string): Promise<T[]> {
+  const scope = team ?? await getActiveTeam();
+  if (!scope) return allocations;
+  const members = new Set((await loadTeamMembers(scope)).map(m => m.full_name));
+  return allocations.filter(a => members.has(a.engineer));
+}
@@ -1,9 +1,9 @@
-import { db } from '../db/database';
 import { PersonRole } from '../types';
 import type { TechAffinityResult } from '../types';
-import { getProjectParent } from './projectUtils';
+import { loadProjectHierarchy } from './projectUtils';
 import type { MonthFilter } from '../utils/monthRange';
 import { resolveMonths, toDbMonths, fromDbMonth } from '../utils/monthRange';
+import { loadMonthlyRollups, loadTeamMembers } from './teamScope';
 
 /**
  * Compute which lab technicians each engineer most frequently works alongside.
@@ -17,7 +17,7 @@ export async function computeTechAffinity(
   projectFilter?: string,
   engineerFilter?: string
 ): Promise<TechAffinityResult[]> {
-  const teamMembers = await db.teamMembers.toArray();
+  const teamMembers = await loadTeamMembers();
 
   const engineers = new Set(
     teamMembers
@@ -34,13 +34,12 @@ export async function computeTechAffinity(
   // Apply month filter if provided (supports single or multi-month)
   const csvMonths = monthFilter ? toDbMonths(resolveMonths(monthFilter)) : null;
 
-  const timesheets = csvMonths
-    ? await db.timesheets.where('month').anyOf(csvMonths).toArray()
-    : await db.timesheets.toArray();
+  const timesheets = await loadMonthlyRollups(csvMonths);
+  const hierarchy = await loadProjectHierarchy();
 
   // Optionally filter by project
   const filteredTimesheets = projectFilter
-    ? timesheets.filter(t => getProjectParent(t.r_number) === projectFilter || t.r_number === projectFilter)
+    ? timesheets.filter(t => hierarchy.isWithin(t.r_number, projectFilter))
     : timesheets;
 
   // Group entries by (month, r_number) to find co-workers
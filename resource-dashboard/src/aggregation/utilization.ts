@@ -1,22 +1,24 @@
 import { db } from '../db/database';
 import { PersonRole } from '../types';
 import type { UtilizationCell } from '../types';
-import { getProjectParent } from './projectUtils';
-import { getEngineerCapacity } from '../utils/capacity';
+import { loadProjectHierarchy } from './projectUtils';
+import { loadCapacityCalendar } from './capacityCalendar';
+import { loadTeamMembers } from './teamScope';
 
 /**
  * Compute planned utilization heatmap for engineers.
- * For each engineer × month, calculate: total_planned_hours / capacity.
+ * For each engineer × month, calculate: total_planned_hours / capacity,
+ * with capacity taken from the capacity calendar (holidays and leave deducted).
  *
  * @param projectFilter - Optional: when set, show only engineers who have
  *   allocations for this project. Their full utilization is shown (all projects)
  *   so you can see their overall load, scoped to relevant people.
  */
 export async function computePlannedUtilization(projectFilter?: string): Promise<UtilizationCell[]> {
-  const members = await db.teamMembers.where('role').equals(PersonRole.Engineer).toArray();
-  const config = await db.config.get(1);
+  const members = (await loadTeamMembers()).filter(m => m.role === PersonRole.Engineer);
+  const calendar = await loadCapacityCalendar();
   const allocations = await db.plannedAllocations.toArray();
-  const defaultCapacity = config?.std_monthly_capacity_hours ?? 140;
+  const hierarchy = await loadProjectHierarchy();
 
   // When a project is selected, only show engineers allocated to that project
   let relevantMembers = members;
@@ -24,8 +26,7 @@ export async function computePlannedUtilization(projectFilter?: string): Promise
     const engineersOnProject = new Set(
       allocations
         .filter(a =>
-          a.project_id === projectFilter ||
-          getProjectParent(a.project_id) === projectFilter
+          hierarchy.isWithin(a.project_id, projectFilter)
         )
         .map(a => a.engineer)
     );
@@ -38,9 +39,9 @@ export async function computePlannedUtilization(projectFilter?: string): Promise
   const result: UtilizationCell[] = [];
 
   for (const member of relevantMembers) {
-    const capacity = getEngineerCapacity(member, defaultCapacity);
-
     for (const month of months) {
+      if (!calendar.isEmployed(member.full_name, month)) continue;
+      const capacity = calendar.capacityFor(member.full_name, month);
       // Show full utilization (all projects) for the filtered engineers
       const monthAllocations = allocations.filter(
         a => a.month === month && a.engineer === member.full_name
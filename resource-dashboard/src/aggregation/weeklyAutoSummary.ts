@@ -1,7 +1,7 @@
 import { db } from '../db/database';
 import { PersonRole } from '../types';
 import type { WeeklyAutoSummary, TaskSummary } from '../types';
-import { getProjectParent } from './projectUtils';
+import { loadProjectHierarchy } from './projectUtils';
 import { getWeekRange } from '../utils/weekDates';
 
 /**
@@ -14,7 +14,8 @@ export async function computeWeeklyAutoSummary(
   projectId: string,
   weekEnding: string
 ): Promise<WeeklyAutoSummary> {
-  const parentId = getProjectParent(projectId);
+  const hierarchy = await loadProjectHierarchy();
+  const rootId = hierarchy.rootOf(projectId);
   const { start, end } = getWeekRange(weekEnding);
 
   // Load timesheets in the date range
@@ -23,11 +24,8 @@ export async function computeWeeklyAutoSummary(
     .between(start, end, true, true)
     .toArray();
 
-  // Filter to matching project (including sub-projects)
-  const projectEntries = entries.filter(entry => {
-    return entry.r_number === projectId
-      || getProjectParent(entry.r_number) === parentId;
-  });
+  // Filter to matching project (its whole tree, including sub-projects)
+  const projectEntries = entries.filter(entry => hierarchy.rootOf(entry.r_number) === rootId);
 
   // Load team members for role classification
   const teamMembers = await db.teamMembers.toArray();
@@ -8,6 +8,13 @@ interface KPICardProps {
   };
   color?: 'neutral' | 'green' | 'yellow' | 'red';
   tooltip?: string;
+  /** "vs target" line, e.g. "↓ 3pp vs 85% target" */
+  target?: {
+    label: string;
+    met: boolean;
+  };
+  /** Makes the card a button, e.g. to open its drill-down */
+  onClick?: () => void;
 }
 
 const COLOR_MAP = {
@@ -33,7 +40,7 @@ const COLOR_MAP = {
   },
 };
 
-export function KPICard({ label, value, format = 'number', trend, color = 'neutral', tooltip }: KPICardProps) {
+export function KPICard({ label, value, format = 'number', trend, color = 'neutral', tooltip, target, onClick }: KPICardProps) {
   const styles = COLOR_MAP[color];
 
   const formatSuffix = format === 'percent' ? '%' : format === 'hours' ? ' hrs' : '';
@@ -48,7 +55,7 @@ export function KPICard({ label, value, format = 'number', trend, color = 'neutr
 
   return (
     <div
-      className="rounded-lg border-l-[3px] px-4 py-3"
+      className={`rounded-lg border-l-[3px] px-4 py-3 ${onClick ? 'cursor-pointer transition-shadow hover:shadow-md focus:outline-none focus:ring-2 focus:ring-[var(--accent-focus-ring)]' : ''}`}
       style={{
         backgroundColor: styles.bg,
         borderLeftColor: styles.value,
@@ -57,6 +64,15 @@ export function KPICard({ label, value, format = 'number', trend, color = 'neutr
         borderBottom: `1px solid ${styles.border}`,
       }}
       title={tooltip}
+      role={onClick ? 'button' : undefined}
+      tabIndex={onClick ? 0 : undefined}
+      onClick={onClick}
+      onKeyDown={onClick ? (e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onClick();
+        }
+      } : undefined}
     >
       <p
         className="text-[11px] font-semibold uppercase tracking-[0.08em]"
@@ -75,6 +91,14 @@ export function KPICard({ label, value, format = 'number', trend, color = 'neutr
           {trendIcon} {trend.label}
         </p>
       )}
+      {target && (
+        <p
+          className="text-[11px] font-medium mt-1"
+          style={{ color: target.met ? 'var(--status-good)' : 'var(--status-danger)' }}
+        >
+          {target.label}
+        </p>
+      )}
     </div>
   );
 }
@@ -1,14 +1,16 @@
 import {
   ResponsiveContainer,
   Area,
-  AreaChart,
+  ComposedChart,
+  Line,
   Tooltip,
 } from 'recharts';
 import type { KPIFormat } from '../aggregation/kpiRegistry';
 import { formatKPIValue } from '../aggregation/kpiRegistry';
 
 interface SparklineProps {
-  data: { month: string; value: number }[];
+  /** `target` draws a dashed step line; leave it undefined for months without one */
+  data: { month: string; value: number; target?: number }[];
   color: string;
   height?: number;
   width?: number;
@@ -33,9 +35,11 @@ export function Sparkline({ data, color, height = 40, format }: SparklineProps)
     );
   }
 
+  const hasTargets = data.some(d => d.target !== undefined);
+
   return (
     <ResponsiveContainer width="100%" height={height}>
-      <AreaChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+      <ComposedChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
         <defs>
           <linearGradient id={`sparkGrad-${color.replace('#', '')}`} x1="0" y1="0" x2="0" y2="1">
             <stop offset="0%" stopColor={color} stopOpacity={0.2} />
@@ -51,22 +55,38 @@ export function Sparkline({ data, color, height = 40, format }: SparklineProps)
           dot={false}
           isAnimationActive={false}
         />
+        {hasTargets && (
+          <Line
+            type="stepAfter"
+            dataKey="target"
+            stroke="#64748b"
+            strokeWidth={1}
+            strokeDasharray="3 3"
+            dot={false}
+            isAnimationActive={false}
+          />
+        )}
         <Tooltip
           content={({ active, payload }) => {
             if (!active || !payload?.length) return null;
-            const entry = payload[0].payload as { month: string; value: number };
+            const entry = payload[0].payload as { month: string; value: number; target?: number };
             return (
               <div className="bg-[var(--bg-panel)] border border-[var(--border-default)] rounded px-2 py-1 shadow-sm text-[11px]">
                 <span className="text-[var(--text-muted)]">{entry.month}</span>
                 <span className="ml-2 font-semibold" style={{ color }}>
                   {formatTooltipValue(entry.value, format)}
                 </span>
+                {entry.target !== undefined && (
+                  <span className="ml-2 text-[var(--text-muted)]">
+                    target {formatTooltipValue(entry.target, format)}
+                  </span>
+                )}
               </div>
             );
           }}
           cursor={{ stroke: color, strokeWidth: 1, strokeDasharray: '3 3' }}
         />
-      </AreaChart>
+      </ComposedChart>
     </ResponsiveContainer>
   );
 }
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { db } from '../db/database';
+import type { ColumnMap, TimesheetEntry } from '../types';
+import {
+  MAPPABLE_FIELDS,
+  REQUIRED_FIELDS,
+  findMissingRequired,
+  type ColumnMappingSelection,
+} from '../import/columnMapping';
+
+interface Props {
+  filename: string;
+  headers: string[];
+  suggestion: ColumnMappingSelection;
+  onCancel: () => void;
+  onConfirm: (mapping: { columnMap: ColumnMap; profileName: string }) => void;
+}
+
+/**
+ * Shown mid-import when no saved profile maps every required field.
+ * Starts from the closest profile; the result can be saved as a new profile.
+ */
+export function ColumnMappingModal({ filename, headers, suggestion, onCancel, onConfirm }: Props) {
+  const [mapping, setMapping] = useState<Record<string, keyof TimesheetEntry | ''>>(
+    () => Object.fromEntries(headers.map(h => [h, suggestion.columnMap[h] ?? '']))
+  );
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const columnMap: ColumnMap = Object.fromEntries(
+    Object.entries(mapping).filter((pair): pair is [string, keyof TimesheetEntry] => pair[1] !== '')
+  );
+  const missing = findMissingRequired(columnMap);
+  const usedFields = new Set(Object.values(columnMap));
+  const trimmedName = profileName.trim();
+  const canConfirm = missing.length === 0 && (!saveProfile || trimmedName.length > 0);
+
+  const handleConfirm = async () => {
+    if (!saveProfile) {
+      onConfirm({ columnMap, profileName: 'Custom mapping (not saved)' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const now = new Date().toISOString();
+      const existing = await db.columnMappingProfiles.where('name').equals(trimmedName).first();
+      if (existing) {
+        if (!confirm(`A profile named "${trimmedName}" already exists. Replace its mappings?`)) return;
+        await db.columnMappingProfiles.update(existing.id!, { mappings: columnMap, updated_at: now });
+      } else {
+        await db.columnMappingProfiles.add({ name: trimmedName, mappings: columnMap, created_at: now, updated_at: now });
+      }
+      onConfirm({ columnMap, profileName: trimmedName });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-[var(--bg-panel)] rounded-lg shadow-xl border border-[var(--border-default)] w-full max-w-[640px] max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--border-subtle)]">
+          <h2 className="text-[15px] font-bold text-[var(--text-primary)]">Map CSV Columns</h2>
+          <button
+            onClick={onCancel}
+            className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Scrollable body */}
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          <div className="text-[12px] space-y-1 text-[var(--text-secondary)]">
+            <p><span className="font-medium text-[var(--text-muted)]">File:</span> {filename}</p>
+            <p>
+              <span className="font-medium text-[var(--text-muted)]">Closest profile:</span> {suggestion.profileName}
+              {' '}({Math.round(suggestion.score * 100)}% header match)
+            </p>
+          </div>
+
+          {missing.length > 0 ? (
+            <div className="border rounded-lg p-3 bg-[var(--status-warn-bg)] border-[var(--status-warn-border)]">
+              <p className="text-[12px] font-medium text-[var(--status-warn)]">
+                Map a column to each required field: {missing.join(', ')}
+              </p>
+            </div>
+          ) : (
+            <div className="border rounded-lg p-3 bg-[var(--status-good-bg)] border-[var(--status-good-border)]">
+              <p className="text-[12px] font-medium text-[var(--status-good)]">All required fields are mapped.</p>
+            </div>
+          )}
+
+          <div className="border border-[var(--border-default)] rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-[var(--border-subtle)]">
+              <thead className="bg-[var(--bg-table-header)]">
+                <tr>
+                  <th className="px-3 py-2 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
+                    CSV Column
+                  </th>
+                  <th className="px-3 py-2 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
+                    Dashboard Field
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--border-subtle)]">
+                {headers.map(header => (
+                  <tr key={header}>
+                    <td className="px-3 py-1.5 text-[12px] text-[var(--text-primary)]">{header}</td>
+                    <td className="px-3 py-1.5">
+                      <select
+                        value={mapping[header]}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [header]: e.target.value as keyof TimesheetEntry | '' }))}
+                        className="w-full px-2 py-1 text-[12px] border border-[var(--border-input)] rounded-md bg-[var(--bg-panel)] text-[var(--text-primary)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+                      >
+                        <option value="">— ignore —</option>
+                        {MAPPABLE_FIELDS.map(field => (
+                          <option
+                            key={field}
+                            value={field}
+                            disabled={usedFields.has(field) && mapping[header] !== field}
+                          >
+                            {field}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={saveProfile}
+                onChange={(e) => setSaveProfile(e.target.checked)}
+                className="rounded border-[var(--border-input)] text-[var(--accent)] focus:ring-[var(--accent-focus-ring)]"
+              />
+              <span className="text-[13px] text-[var(--text-primary)]">Save as a mapping profile for future imports</span>
+            </label>
+            {saveProfile && (
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name, e.g. Fire Protection LP workspace"
+                className="w-full px-3 py-1.5 text-[13px] border border-[var(--border-input)] rounded-md bg-[var(--bg-panel)] text-[var(--text-primary)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 px-5 py-4 border-t border-[var(--border-subtle)]">
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-4 py-2 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors disabled:opacity-50"
+          >
+            Skip File
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSaving || !canConfirm}
+            className="px-4 py-2 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+          >
+            Import with this Mapping
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,11 @@ const TABLE_DISPLAY: { key: string; label: string; group: string }[] = [
   { key: 'config', label: 'General Settings', group: 'Settings' },
   { key: 'anomalyThresholds', label: 'Alert Rules', group: 'Settings' },
   { key: 'narrativeConfig', label: 'Narrative Summary', group: 'Settings' },
+  { key: 'customKPIs', label: 'Custom KPIs', group: 'Settings' },
+  { key: 'kpiSettings', label: 'KPI Targets', group: 'Settings' },
+  { key: 'classificationRules', label: 'Classification Rules', group: 'Settings' },
+  { key: 'columnMappingProfiles', label: 'Column Mappings', group: 'Settings' },
+  { key: 'holidays', label: 'Holidays', group: 'Settings' },
   { key: 'teamMembers', label: 'Team Members', group: 'Team & Project Data' },
   { key: 'projects', label: 'Projects', group: 'Team & Project Data' },
   { key: 'skillCategories', label: 'Skill Categories', group: 'Team & Project Data' },
@@ -27,6 +32,7 @@ const TABLE_DISPLAY: { key: string; label: string; group: string }[] = [
   { key: 'milestones', label: 'Milestones', group: 'Team & Project Data' },
   { key: 'plannedAllocations', label: 'Resource Allocations', group: 'Planning Data' },
   { key: 'plannedProjectMonths', label: 'Planned Project Hours', group: 'Planning Data' },
+  { key: 'plannedLeave', label: 'Planned Leave', group: 'Planning Data' },
   { key: 'weeklyUpdates', label: 'Weekly Updates', group: 'Planning Data' },
   { key: 'planningScenarios', label: 'Planning Scenarios', group: 'Planning Data' },
 ];
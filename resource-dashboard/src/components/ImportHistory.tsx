@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import { db } from '../db/database';
+import { rollbackImport } from '../import/importEngine';
+import type { ImportLog } from '../types';
+
+export function ImportHistory() {
+  const logs = useLiveQuery(() => db.importLogs.orderBy('imported_at').reverse().toArray());
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ kind: 'good' | 'error'; text: string } | null>(null);
+
+  const handleRollback = async (log: ImportLog) => {
+    if (log.id == null) return;
+    // Reconciled rows keep the batch of the import that first stored them
+    const notes: string[] = [];
+    if (log.updated_rows) {
+      notes.push(
+        `The ${log.updated_rows.toLocaleString()} existing rows it updated keep their new values; ` +
+        `they are only removed by rolling back the import that first added them.`
+      );
+    }
+    if (logs?.some(l => l.imported_at > log.imported_at && l.updated_rows)) {
+      notes.push('Rows it added that a later reconcile import updated are deleted too, corrections included.');
+    }
+    if (!confirm(
+      `Roll back "${log.filename}"?\n\n` +
+      `This deletes the ${log.new_rows.toLocaleString()} rows it added, plus any people or projects ` +
+      `that only this import discovered. KPI and anomaly history will be recalculated.` +
+      notes.map(note => `\n\n${note}`).join('')
+    )) return;
+
+    setRollingBackId(log.id);
+    setMessage(null);
+    try {
+      const result = await rollbackImport(log.id);
+      const extras: string[] = [];
+      if (result.peopleRemoved.length > 0) extras.push(`${result.peopleRemoved.length} people`);
+      if (result.projectsRemoved.length > 0) extras.push(`${result.projectsRemoved.length} projects`);
+      setMessage({
+        kind: 'good',
+        text: `Removed ${result.rowsRemoved.toLocaleString()} rows ` +
+          `(${result.hoursRemoved.toLocaleString('en-US', { maximumFractionDigits: 1 })} hrs)` +
+          (extras.length > 0 ? ` and ${extras.join(', ')}` : '') + '.',
+      });
+      window.dispatchEvent(new Event('data-imported'));
+    } catch (error) {
+      setMessage({
+        kind: 'error',
+        text: `Rollback failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const formatDateTime = (dateStr: string) => {
+    try {
+      return format(new Date(dateStr), 'MMM d, yyyy h:mm a');
+    } catch {
+      return dateStr;
+    }
+  };
+
+  if (!logs || logs.length === 0) return null;
+
+  return (
+    <div className="bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-lg overflow-hidden">
+      <div className="px-4 py-2.5 border-b border-[var(--border-subtle)] bg-[var(--bg-table-header)]">
+        <h3 className="text-[11px] font-semibold uppercase tracking-[0.08em] text-[var(--text-muted)]">
+          Import History
+        </h3>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-2 text-[11px] border-b border-[var(--border-subtle)] ${
+            message.kind === 'good'
+              ? 'bg-[var(--status-good-bg)] text-[var(--status-good)]'
+              : 'bg-[var(--status-danger-bg)] text-[var(--status-danger)]'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <ul className="divide-y divide-[var(--border-subtle)]">
+        {logs.map(log => (
+          <li key={log.id} className="px-4 py-2.5 flex items-center justify-between gap-3 text-[11px]">
+            <div className="min-w-0">
+              <p className="font-medium text-[var(--text-primary)] truncate" title={log.filename}>
+                {log.filename}
+              </p>
+              <p className="text-[var(--text-muted)]">
+                {formatDateTime(log.imported_at)} · {log.new_rows.toLocaleString()} new rows ·{' '}
+                {log.total_hours.toLocaleString('en-US', { maximumFractionDigits: 1 })} hrs
+              </p>
+            </div>
+            {log.batch_id ? (
+              <button
+                onClick={() => handleRollback(log)}
+                disabled={rollingBackId !== null}
+                className="flex-shrink-0 px-2.5 py-1 rounded-md border border-[var(--border-default)] text-[var(--status-danger)] hover:bg-[var(--status-danger-bg)] disabled:opacity-50 transition-colors"
+              >
+                {rollingBackId === log.id ? 'Rolling back…' : 'Roll back this import'}
+              </button>
+            ) : (
+              <span
+                className="flex-shrink-0 text-[var(--text-muted)]"
+                title="Imported before batch tracking was added — rows can't be traced back to this file"
+              >
+                Rollback unavailable
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
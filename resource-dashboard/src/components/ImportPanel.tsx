@@ -1,12 +1,35 @@
 import { useState, useRef } from 'react';
-import { importMultipleCSVFiles } from '../import/importEngine';
-import type { AnyImportResult } from '../import/importEngine';
+import { importMultipleCSVFiles, isExcelFile } from '../import/importEngine';
+import type { AnyImportResult, ColumnMappingResolver, SheetResolver } from '../import/importEngine';
+import type { WorkbookSheet } from '../import/xlsxReader';
+import type { ColumnMappingSelection } from '../import/columnMapping';
+import { ColumnMappingModal } from './ColumnMappingModal';
+import { ImportPreview } from './ImportPreview';
+import { SheetPickerModal } from './SheetPickerModal';
 import type { FeedbackImportResult } from '../import/feedbackParser';
+import { ImportMode } from '../types';
+import type { ImportProgress, ImportResult, ColumnMap } from '../types';
 import { validateConfigFile } from '../configTransfer/importConfig';
-import type { ConfigExportFile } from '../configTransfer/configFileFormat';
+import { isEncryptedFile } from '../configTransfer/fileEncryption';
+import type { ConfigExportFile, EncryptedFileEnvelope } from '../configTransfer/configFileFormat';
 import { ConfigImportModal } from '../configTransfer/ConfigImportModal';
 import type { ConfigImportResult } from '../configTransfer/importConfig';
 
+/** A pending interactive column-mapping prompt; `resolve` resumes the import. */
+interface MappingRequest {
+  file: File;
+  headers: string[];
+  suggestion: ColumnMappingSelection;
+  resolve: (mapping: { columnMap: ColumnMap; profileName: string } | null) => void;
+}
+
+/** A pending worksheet choice for a multi-sheet Excel workbook. */
+interface SheetRequest {
+  file: File;
+  sheets: WorkbookSheet[];
+  resolve: (sheetName: string | null) => void;
+}
+
 function isFeedbackResult(result: AnyImportResult): result is FeedbackImportResult {
   return 'type' in result && result.type === 'feedback';
 }
@@ -19,10 +42,22 @@ export function ImportPanel() {
     total: number;
     filename: string;
   } | null>(null);
+  const [rowProgress, setRowProgress] = useState<ImportProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>(ImportMode.Reconcile);
   const [results, setResults] = useState<AnyImportResult[]>([]);
-  const [configImport, setConfigImport] = useState<{ file: ConfigExportFile; filename: string } | null>(null);
+  const [configImport, setConfigImport] = useState<{ file: ConfigExportFile | EncryptedFileEnvelope; filename: string } | null>(null);
   const [configResult, setConfigResult] = useState<ConfigImportResult | null>(null);
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(null);
+  const [sheetRequest, setSheetRequest] = useState<SheetRequest | null>(null);
+  const [previewFirst, setPreviewFirst] = useState(true);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<{ files: File[]; results: ImportResult[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Mappings and sheets chosen interactively during a preview, reused when it's confirmed
+  const mappingCacheRef = useRef(new Map<File, { columnMap: ColumnMap; profileName: string } | null>());
+  const sheetCacheRef = useRef(new Map<File, string | null>());
 
   const handleFiles = async (files: FileList | null) => {
     if (!files || files.length === 0) return;
@@ -35,9 +70,12 @@ export function ImportPanel() {
       try {
         const text = await jsonFile.text();
         const parsed = JSON.parse(text);
-        if (validateConfigFile(parsed)) {
-          setConfigImport({ file: parsed as ConfigExportFile, filename: jsonFile.name });
-          return; // Config import handled via modal
+        if (validateConfigFile(parsed) || isEncryptedFile(parsed, 'config')) {
+          setConfigImport({ file: parsed, filename: jsonFile.name });
+          return; // Config import handled via modal (prompts for a passphrase if encrypted)
+        } else if (isEncryptedFile(parsed, 'backup')) {
+          alert('This is an encrypted full backup. Restore it from Settings → Data Transfer → Export / Import.');
+          return;
         } else {
           alert('This JSON file is not a valid dashboard configuration export.');
           return;
@@ -48,36 +86,113 @@ export function ImportPanel() {
       }
     }
 
-    const csvFiles = allFiles.filter(f => f.name.endsWith('.csv'));
+    const csvFiles = allFiles.filter(f => f.name.endsWith('.csv') || isExcelFile(f));
 
     if (csvFiles.length === 0) {
-      alert('Please select CSV or JSON files');
+      alert('Please select CSV, Excel or JSON files');
       return;
     }
 
-    setIsImporting(true);
     setResults([]);
     setConfigResult(null);
+    setPreview(null);
+    mappingCacheRef.current.clear();
+    sheetCacheRef.current.clear();
+    await runImport(csvFiles, previewFirst);
+  };
+
+  const runImport = async (csvFiles: File[], dryRun: boolean) => {
+    setIsImporting(true);
+    setIsPreviewing(dryRun);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const resolveColumnMapping: ColumnMappingResolver = (file, headers, suggestion) => {
+      const cache = mappingCacheRef.current;
+      if (cache.has(file)) return Promise.resolve(cache.get(file)!);
+      return new Promise(resolve => setMappingRequest({
+        file,
+        headers,
+        suggestion,
+        resolve: (mapping) => {
+          cache.set(file, mapping);
+          resolve(mapping);
+        },
+      }));
+    };
+
+    const resolveSheet: SheetResolver = (file, sheets) => {
+      const cache = sheetCacheRef.current;
+      if (cache.has(file)) return Promise.resolve(cache.get(file)!);
+      return new Promise(resolve => setSheetRequest({
+        file,
+        sheets,
+        resolve: (sheetName) => {
+          cache.set(file, sheetName);
+          resolve(sheetName);
+        },
+      }));
+    };
 
     try {
       const importResults = await importMultipleCSVFiles(
         csvFiles,
         (current, total, filename) => {
           setImportProgress({ current, total, filename });
+          setRowProgress(null);
+        },
+        {
+          onRowProgress: setRowProgress,
+          signal: controller.signal,
+          mode: importMode,
+          resolveColumnMapping,
+          resolveSheet,
+          dryRun,
         }
       );
 
-      setResults(importResults);
-      window.dispatchEvent(new CustomEvent('data-imported'));
+      if (dryRun) {
+        if (!controller.signal.aborted) {
+          setPreview({ files: csvFiles, results: importResults as ImportResult[] });
+        }
+      } else {
+        setResults(importResults);
+        window.dispatchEvent(new CustomEvent('data-imported'));
+      }
     } catch (error) {
       console.error('Import error:', error);
       alert('Import failed: ' + (error instanceof Error ? error.message : String(error)));
     } finally {
+      abortRef.current = null;
       setIsImporting(false);
+      setIsPreviewing(false);
+      setIsCancelling(false);
       setImportProgress(null);
+      setRowProgress(null);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setIsCancelling(true);
+  };
+
+  const handleConfirmPreview = async () => {
+    if (!preview) return;
+    // Files whose preview failed outright would only fail again
+    const failed = new Set(preview.results.filter(r => !r.success).map(r => r.filename));
+    const files = preview.files.filter(f => !failed.has(f.name));
+    setPreview(null);
+    await runImport(files, false);
+  };
+
+  const handleCancelPreview = () => {
+    setPreview(null);
+    mappingCacheRef.current.clear();
+    sheetCacheRef.current.clear();
+  };
+
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -128,7 +243,7 @@ export function ImportPanel() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.json"
+          accept=".csv,.xlsx,.xls,.json"
           multiple
           onChange={handleFileSelect}
           className="hidden"
@@ -141,10 +256,51 @@ export function ImportPanel() {
           Drop files here, or <span className="text-[var(--accent)] underline">browse</span>
         </p>
         <p className="text-[11px] text-[var(--text-muted)] mt-1">
-          Accepts CSV (timesheet, feedback) and JSON (dashboard config) files
+          Accepts CSV or Excel (timesheet, feedback) and JSON (dashboard config) files
         </p>
       </div>
 
+      <label className="flex items-start gap-2 text-[12px] text-[var(--text-secondary)] cursor-pointer">
+        <input
+          type="checkbox"
+          checked={importMode === ImportMode.Reconcile}
+          onChange={(e) => setImportMode(e.target.checked ? ImportMode.Reconcile : ImportMode.SkipExisting)}
+          disabled={isImporting}
+          className="mt-0.5 accent-[var(--accent)]"
+        />
+        <span>
+          Update rows corrected in LiquidPlanner
+          <span className="block text-[11px] text-[var(--text-muted)]">
+            Re-imported rows are compared with stored values; rows missing from the export are flagged, not deleted.
+          </span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-[12px] text-[var(--text-secondary)] cursor-pointer">
+        <input
+          type="checkbox"
+          checked={previewFirst}
+          onChange={(e) => setPreviewFirst(e.target.checked)}
+          disabled={isImporting}
+          className="mt-0.5 accent-[var(--accent)]"
+        />
+        <span>
+          Preview timesheets before importing
+          <span className="block text-[11px] text-[var(--text-muted)]">
+            Validates every row and shows what would change; nothing is saved until you confirm.
+          </span>
+        </span>
+      </label>
+
+      {preview && (
+        <ImportPreview
+          results={preview.results}
+          unpreviewedCount={preview.files.length - preview.results.length}
+          onConfirm={handleConfirmPreview}
+          onCancel={handleCancelPreview}
+        />
+      )}
+
       {/* Progress Indicator */}
       {isImporting && importProgress && (
         <div className="border rounded-lg p-4 bg-[var(--accent-light)] border-[var(--accent)]">
@@ -157,16 +313,75 @@ export function ImportPanel() {
             </div>
             <div className="flex-1">
               <p className="font-medium text-[13px] text-[var(--accent)]">
-                Importing {importProgress.current} of {importProgress.total}...
+                {isPreviewing ? 'Checking' : 'Importing'} {importProgress.current} of {importProgress.total}...
               </p>
               <p className="text-[11px] text-[var(--text-secondary)]">
                 {importProgress.filename}
               </p>
             </div>
+            <button
+              onClick={handleCancel}
+              disabled={isCancelling}
+              className="ml-3 px-3 py-1 text-[12px] font-medium rounded-md border border-[var(--border-input)] bg-white text-[var(--text-secondary)] hover:bg-[var(--bg-table-header)] transition-colors disabled:opacity-50"
+            >
+              {isCancelling ? 'Cancelling…' : 'Cancel'}
+            </button>
           </div>
+          {rowProgress && (
+            <div className="mt-3">
+              <div className="h-1.5 rounded-full bg-white/70 overflow-hidden">
+                <div
+                  className="h-full bg-[var(--accent)] transition-[width] duration-150"
+                  style={{
+                    width: `${rowProgress.totalBytes > 0
+                      ? Math.round((rowProgress.bytesProcessed / rowProgress.totalBytes) * 100)
+                      : 0}%`,
+                  }}
+                />
+              </div>
+              <p className="mt-1 text-[11px] tabular-nums text-[var(--text-secondary)]">
+                {rowProgress.phase === 'finalizing'
+                  ? `${rowProgress.rowsProcessed.toLocaleString()} rows parsed — updating team, projects and history…`
+                  : `${rowProgress.rowsProcessed.toLocaleString()} rows processed`}
+              </p>
+            </div>
+          )}
         </div>
       )}
 
+      {/* Sheet Picker — shown for Excel workbooks with several non-empty sheets */}
+      {sheetRequest && (
+        <SheetPickerModal
+          filename={sheetRequest.file.name}
+          sheets={sheetRequest.sheets}
+          onCancel={() => {
+            sheetRequest.resolve(null);
+            setSheetRequest(null);
+          }}
+          onConfirm={(sheetName) => {
+            sheetRequest.resolve(sheetName);
+            setSheetRequest(null);
+          }}
+        />
+      )}
+
+      {/* Column Mapping Modal — shown when a timesheet's headers match no saved profile */}
+      {mappingRequest && (
+        <ColumnMappingModal
+          filename={mappingRequest.file.name}
+          headers={mappingRequest.headers}
+          suggestion={mappingRequest.suggestion}
+          onCancel={() => {
+            mappingRequest.resolve(null);
+            setMappingRequest(null);
+          }}
+          onConfirm={(mapping) => {
+            mappingRequest.resolve(mapping);
+            setMappingRequest(null);
+          }}
+        />
+      )}
+
       {/* Config Import Modal */}
       {configImport && (
         <ConfigImportModal
@@ -324,11 +539,15 @@ export function ImportPanel() {
                       {result.success && !isFeedback && (
                         <div className="mt-2 text-[11px] space-y-0.5 text-[var(--text-secondary)]">
                           <p><span className="font-medium">Team:</span> {result.team}</p>
+                          {result.columnProfile && (
+                            <p><span className="font-medium">Column Mapping:</span> {result.columnProfile}</p>
+                          )}
                           <p><span className="font-medium">Date Range:</span> {result.dateRangeStart} to {result.dateRangeEnd}</p>
                           <p>
                             <span className="font-medium">Rows:</span>{' '}
                             {result.newRowsInserted.toLocaleString()} new,{' '}
-                            {result.duplicateRowsSkipped.toLocaleString()} duplicate
+                            {result.rowsUpdated > 0 && `${result.rowsUpdated.toLocaleString()} updated, `}
+                            {result.duplicateRowsSkipped.toLocaleString()} unchanged
                             {' '}({result.totalRowsParsed.toLocaleString()} total)
                           </p>
                           <p>
@@ -344,6 +563,26 @@ export function ImportPanel() {
                         </div>
                       )}
 
+                      {!isFeedback && result.probableDeletions.length > 0 && (
+                        <div className="mt-2">
+                          <p className="text-[11px] font-medium text-[var(--status-warn)]">
+                            {result.probableDeletions.length.toLocaleString()} stored{' '}
+                            {result.probableDeletions.length === 1 ? 'row is' : 'rows are'} missing from this export
+                            {' '}(probably deleted in LiquidPlanner — kept for now):
+                          </p>
+                          <ul className="list-disc list-inside text-[11px] mt-0.5 text-[var(--status-warn)]">
+                            {result.probableDeletions.slice(0, 5).map((d) => (
+                              <li key={d.timesheet_entry_id}>
+                                {d.date} · {d.full_name} · {d.r_number || '—'} · {d.hours} hrs
+                              </li>
+                            ))}
+                            {result.probableDeletions.length > 5 && (
+                              <li>... and {result.probableDeletions.length - 5} more</li>
+                            )}
+                          </ul>
+                        </div>
+                      )}
+
                       {result.errors.length > 0 && (
                         <div className="mt-2">
                           <p className="text-[11px] font-medium text-[var(--status-danger)]">Errors:</p>
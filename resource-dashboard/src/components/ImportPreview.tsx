@@ -0,0 +1,148 @@
+import type { ImportResult, ValidationIssue } from '../types';
+import { hasValidationIssues } from '../import/importValidation';
+
+interface Props {
+  results: ImportResult[];
+  /** Files with no preview (feedback exports) that will still be imported on confirm */
+  unpreviewedCount: number;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Dry-run report shown before anything is written: per-file row counts,
+ * data-quality issues and the people/projects the import would discover.
+ */
+export function ImportPreview({ results, unpreviewedCount, onConfirm, onCancel }: Props) {
+  const importable = results.filter(r => r.success).length + unpreviewedCount;
+
+  return (
+    <div className="bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-lg overflow-hidden">
+      <div className="px-4 py-2.5 border-b border-[var(--border-subtle)] bg-[var(--bg-table-header)]">
+        <h3 className="text-[11px] font-semibold uppercase tracking-[0.08em] text-[var(--text-muted)]">
+          Import Preview — nothing has been saved yet
+        </h3>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {results.map((result, index) => (
+          <div key={index} className="border border-[var(--border-default)] rounded-lg p-4 text-[11px] text-[var(--text-secondary)]">
+            <p className="font-medium text-[13px] truncate text-[var(--text-primary)]">{result.filename}</p>
+
+            {result.success && result.validation ? (
+              <div className="mt-2 space-y-2">
+                <div className="space-y-0.5">
+                  {result.columnProfile && (
+                    <p><span className="font-medium">Column Mapping:</span> {result.columnProfile}</p>
+                  )}
+                  <p>
+                    <span className="font-medium">Rows:</span>{' '}
+                    {result.newRowsInserted.toLocaleString()} new,{' '}
+                    {result.rowsUpdated > 0 && `${result.rowsUpdated.toLocaleString()} changed, `}
+                    {result.duplicateRowsSkipped.toLocaleString()} duplicate
+                    {' '}({result.totalRowsParsed.toLocaleString()} total)
+                  </p>
+                  <p>
+                    <span className="font-medium">New Hours:</span>{' '}
+                    {result.totalHoursImported.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </p>
+                  {result.validation.newPeople.length > 0 && (
+                    <p><span className="font-medium">New People:</span> {result.validation.newPeople.join(', ')}</p>
+                  )}
+                  {result.validation.newProjects.length > 0 && (
+                    <p><span className="font-medium">New Projects:</span> {result.validation.newProjects.join(', ')}</p>
+                  )}
+                  {result.probableDeletions.length > 0 && (
+                    <p className="text-[var(--status-warn)]">
+                      {result.probableDeletions.length.toLocaleString()} stored rows in this range are missing from the file
+                    </p>
+                  )}
+                </div>
+
+                {hasValidationIssues(result.validation) ? (
+                  <div className="border rounded-md p-3 space-y-2 bg-[var(--status-warn-bg)] border-[var(--status-warn-border)]">
+                    {result.validation.unknownActivities.length > 0 && (
+                      <div>
+                        <p className="font-medium text-[var(--status-warn)]">Unrecognised activity values</p>
+                        <ul className="list-disc list-inside mt-0.5">
+                          {result.validation.unknownActivities.map(a => (
+                            <li key={a.value}>"{a.value}" — {a.count.toLocaleString()} rows</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <IssueList label="Rows with no R# (stored as UNKNOWN)" issue={result.validation.unknownRNumber} />
+                    <IssueList label="Rows with zero or negative hours" issue={result.validation.nonPositiveHours} />
+                    <IssueList
+                      label={`Rows dated outside ${result.dateRangeStart} – ${result.dateRangeEnd}`}
+                      issue={result.validation.outOfRangeDates}
+                    />
+                  </div>
+                ) : (
+                  <p className="text-[var(--status-good)] font-medium">No data-quality issues found.</p>
+                )}
+              </div>
+            ) : null}
+
+            {result.errors.length > 0 && (
+              <div className="mt-2">
+                <p className="font-medium text-[var(--status-danger)]">
+                  {result.success ? 'Warnings:' : 'Errors — this file will not be imported:'}
+                </p>
+                <ul className="list-disc list-inside mt-1 text-[var(--status-danger)]">
+                  {result.errors.slice(0, 5).map((error, i) => (
+                    <li key={i}>{error}</li>
+                  ))}
+                  {result.errors.length > 5 && (
+                    <li>... and {result.errors.length - 5} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {unpreviewedCount > 0 && (
+          <p className="text-[11px] text-[var(--text-muted)]">
+            {unpreviewedCount} feedback {unpreviewedCount === 1 ? 'file' : 'files'} will also be imported.
+          </p>
+        )}
+
+        <div className="flex items-center justify-end gap-3 pt-1">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={importable === 0}
+            className="px-4 py-2 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+          >
+            Confirm Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function IssueList({ label, issue }: { label: string; issue: ValidationIssue }) {
+  if (issue.count === 0) return null;
+  return (
+    <div>
+      <p className="font-medium text-[var(--status-warn)]">
+        {label}: {issue.count.toLocaleString()}
+      </p>
+      <ul className="list-disc list-inside mt-0.5">
+        {issue.samples.slice(0, 5).map(row => (
+          <li key={row.timesheet_entry_id}>
+            {row.date} · {row.full_name} · {row.r_number} · {row.activity} · {row.hours} hrs
+          </li>
+        ))}
+        {issue.count > 5 && <li>... and {issue.count - 5} more</li>}
+      </ul>
+    </div>
+  );
+}
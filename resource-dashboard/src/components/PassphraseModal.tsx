@@ -0,0 +1,91 @@
+import { useState } from 'react';
+
+interface Props {
+  title: string;
+  filename: string;
+  onCancel: () => void;
+  /** Throws to keep the modal open and show the error (e.g. wrong passphrase). */
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+/**
+ * Asks for the passphrase of an encrypted config export or backup.
+ */
+export function PassphraseModal({ title, filename, onCancel, onUnlock }: Props) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-[var(--bg-panel)] rounded-lg shadow-xl border border-[var(--border-default)] w-full max-w-[440px] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--border-subtle)]">
+          <h2 className="text-[15px] font-bold text-[var(--text-primary)]">{title}</h2>
+          <button
+            onClick={onCancel}
+            className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form
+          className="px-5 py-4 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (passphrase && !unlocking) handleUnlock();
+          }}
+        >
+          <p className="text-[12px] text-[var(--text-secondary)]">
+            <span className="font-medium text-[var(--text-muted)]">File:</span> {filename}
+          </p>
+          <p className="text-[12px] text-[var(--text-muted)]">
+            This file is encrypted. Enter the passphrase it was exported with.
+          </p>
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className="w-full px-3 py-2 text-[13px] border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none"
+          />
+          {error && (
+            <p className="text-[12px] font-medium text-[var(--status-danger)]">{error}</p>
+          )}
+        </form>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 px-5 py-4 border-t border-[var(--border-subtle)]">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleUnlock}
+            disabled={!passphrase || unlocking}
+            className="px-4 py-2 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+          >
+            {unlocking ? 'Decrypting...' : 'Decrypt'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import type { WorkbookSheet } from '../import/xlsxReader';
+
+interface Props {
+  filename: string;
+  sheets: WorkbookSheet[];
+  onCancel: () => void;
+  onConfirm: (sheetName: string) => void;
+}
+
+/**
+ * Asks which worksheet to import when an Excel workbook has more than one with data.
+ */
+export function SheetPickerModal({ filename, sheets, onCancel, onConfirm }: Props) {
+  const [selected, setSelected] = useState(
+    () => (sheets.find(s => s.looksLikeTimesheet && s.rowCount > 0) ?? sheets.find(s => s.rowCount > 0) ?? sheets[0]).name
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-[var(--bg-panel)] rounded-lg shadow-xl border border-[var(--border-default)] w-full max-w-[440px] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--border-subtle)]">
+          <h2 className="text-[15px] font-bold text-[var(--text-primary)]">Choose a Worksheet</h2>
+          <button
+            onClick={onCancel}
+            className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          <p className="text-[12px] text-[var(--text-secondary)]">
+            <span className="font-medium text-[var(--text-muted)]">Workbook:</span> {filename}
+          </p>
+          <div className="border border-[var(--border-default)] rounded-lg divide-y divide-[var(--border-subtle)]">
+            {sheets.map(sheet => (
+              <label
+                key={sheet.name}
+                className={`flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-[var(--bg-table-header)]/30 ${
+                  sheet.rowCount === 0 ? 'opacity-50' : ''
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="sheet"
+                  checked={selected === sheet.name}
+                  onChange={() => setSelected(sheet.name)}
+                  disabled={sheet.rowCount === 0}
+                  className="text-[var(--accent)] focus:ring-[var(--accent-focus-ring)]"
+                />
+                <span className="flex-1 text-[13px] text-[var(--text-primary)]">{sheet.name}</span>
+                {sheet.looksLikeTimesheet && (
+                  <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-[var(--accent)] text-white">
+                    Timesheet
+                  </span>
+                )}
+                <span className="text-[11px] text-[var(--text-muted)] tabular-nums">
+                  {sheet.rowCount.toLocaleString()} rows
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 px-5 py-4 border-t border-[var(--border-subtle)]">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors"
+          >
+            Skip File
+          </button>
+          <button
+            onClick={() => onConfirm(selected)}
+            className="px-4 py-2 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors"
+          >
+            Import Sheet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
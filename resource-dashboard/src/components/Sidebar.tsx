@@ -2,6 +2,7 @@ import { Link, useLocation } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
 import { useConfigCompleteness } from '../configTransfer/configCompleteness';
+import { listTeams } from '../aggregation/teamScope';
 
 const DASHBOARD_ICON = (
   <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -50,6 +51,7 @@ const NAV_ITEMS = [
 export function Sidebar() {
   const location = useLocation();
   const config = useLiveQuery(() => db.config.get(1));
+  const teams = useLiveQuery(() => listTeams()) ?? [];
   const lastImport = useLiveQuery(() =>
     db.importLogs.orderBy('imported_at').reverse().first()
   );
@@ -59,8 +61,8 @@ export function Sidebar() {
     return members.length;
   });
   const totalHours = useLiveQuery(async () => {
-    const sheets = await db.timesheets.toArray();
-    return sheets.reduce((sum, s) => sum + s.hours, 0);
+    const rollups = await db.monthlyRollups.toArray();
+    return rollups.reduce((sum, r) => sum + r.hours, 0);
   });
   const configCompleteness = useConfigCompleteness();
   const unconfiguredCount = configCompleteness
@@ -79,9 +81,28 @@ export function Sidebar() {
         <h1 className="text-[15px] font-semibold text-white">
           Resource Dashboard
         </h1>
-        <p className="text-[11px] mt-0.5" style={{ color: 'var(--text-on-dark-muted)' }}>
-          {config?.team_name || 'Engineering Team'}
-        </p>
+        {teams.length > 1 ? (
+          <select
+            value={config?.selected_team ?? ''}
+            onChange={(e) => db.config.update(1, { selected_team: e.target.value })}
+            aria-label="Active team"
+            className="mt-1 w-full text-[11px] rounded px-1.5 py-1 focus:outline-none"
+            style={{
+              color: 'var(--text-on-dark)',
+              backgroundColor: 'var(--bg-sidebar-hover)',
+              border: '1px solid rgba(255,255,255,0.12)',
+            }}
+          >
+            <option value="">All teams</option>
+            {teams.map(team => (
+              <option key={team} value={team}>{team}</option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-[11px] mt-0.5" style={{ color: 'var(--text-on-dark-muted)' }}>
+            {config?.team_name || 'Engineering Team'}
+          </p>
+        )}
       </div>
 
       {/* Navigation */}
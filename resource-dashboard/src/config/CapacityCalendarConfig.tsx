@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { eachDayOfInterval, format, isWeekend, parseISO } from 'date-fns';
+import { useConfig } from '../hooks/useConfig';
+import { useTeamMembers } from '../hooks/useTeamMembers';
+import { useCapacityCalendar } from '../hooks/useCapacityCalendar';
+import { refreshKPIHistory } from '../aggregation/kpiHistory';
+import { parseICSHolidays } from '../import/icsParser';
+import { getHoursPerDay, getWorkingDates } from '../utils/capacity';
+import { formatHours } from '../utils/format';
+import type { PlannedLeave } from '../types';
+
+const inputClass = 'w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none';
+const labelClass = 'block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5';
+const thClass = 'px-4 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]';
+
+export function CapacityCalendarConfig() {
+  const { config, updateConfig } = useConfig();
+  const { teamMembers } = useTeamMembers();
+  const { holidays, leave, loading, saveHolidays, deleteHoliday, addLeave, deleteLeave } = useCapacityCalendar();
+
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [importMessage, setImportMessage] = useState('');
+  const [leaveDraft, setLeaveDraft] = useState<Omit<PlannedLeave, 'id'>>({ engineer: '', start_date: '', end_date: '', note: '' });
+
+  if (loading || !config) {
+    return <div className="p-4 text-[var(--text-muted)]">Loading...</div>;
+  }
+
+  const stdCapacity = config.std_monthly_capacity_hours;
+  const hoursPerDay = getHoursPerDay(config.hours_per_day, stdCapacity);
+  const holidaySet = new Set(holidays.map(h => h.date));
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const currentWorkingDays = getWorkingDates(currentMonth, holidaySet).length;
+
+  const handleHoursPerDay = async (value: string) => {
+    const hours = parseFloat(value);
+    await updateConfig({ hours_per_day: hours > 0 ? hours : undefined });
+    refreshKPIHistory();
+  };
+
+  const handleAddHoliday = async () => {
+    if (!holidayDate) {
+      alert('Holiday date is required');
+      return;
+    }
+    await saveHolidays([{ date: holidayDate, name: holidayName.trim() || 'Holiday' }]);
+    setHolidayDate('');
+    setHolidayName('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportMessage('');
+    try {
+      const parsed = parseICSHolidays(await file.text());
+      if (parsed.length === 0) {
+        setImportMessage(`No events found in ${file.name}`);
+        return;
+      }
+      const added = await saveHolidays(parsed);
+      setImportMessage(`Imported ${parsed.length} day${parsed.length !== 1 ? 's' : ''} from ${file.name} (${added} new)`);
+    } catch (error) {
+      console.error('Holiday import failed:', error);
+      alert('Holiday import failed: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const handleAddLeave = async () => {
+    const { engineer, start_date, end_date } = leaveDraft;
+    if (!engineer || !start_date) {
+      alert('Person and start date are required');
+      return;
+    }
+    const end = end_date || start_date;
+    if (end < start_date) {
+      alert('End date must be on or after the start date');
+      return;
+    }
+    await addLeave({ ...leaveDraft, end_date: end, note: leaveDraft.note.trim() });
+    setLeaveDraft({ engineer, start_date: '', end_date: '', note: '' });
+  };
+
+  const handleDeleteLeave = async (entry: PlannedLeave) => {
+    if (!confirm(`Delete leave for ${entry.engineer} (${entry.start_date} – ${entry.end_date})?`)) return;
+    await deleteLeave(entry.id!);
+  };
+
+  // Working days a leave block takes out of capacity (weekends and holidays excluded)
+  const leaveWorkingDays = (entry: PlannedLeave) =>
+    eachDayOfInterval({ start: parseISO(entry.start_date), end: parseISO(entry.end_date) })
+      .filter(d => !isWeekend(d) && !holidaySet.has(format(d, 'yyyy-MM-dd')))
+      .length;
+
+  return (
+    <div className="space-y-6">
+      {/* ── Hours per day ── */}
+      <div className="max-w-xl">
+        <label className={labelClass}>Hours per Working Day</label>
+        <input
+          type="number"
+          defaultValue={config.hours_per_day ?? ''}
+          onBlur={(e) => handleHoursPerDay(e.target.value)}
+          placeholder={formatHours(hoursPerDay)}
+          className={inputClass}
+          min="0"
+          step="0.5"
+        />
+        <p className="text-[11px] text-[var(--text-muted)] mt-1.5">
+          Capacity is (weekdays − holidays − planned leave) × hours per day, scaled for part-time
+          capacity overrides. Leave blank to use {formatHours(stdCapacity)}h ÷ 20 days.
+          This month: {currentWorkingDays} working days = {formatHours(currentWorkingDays * hoursPerDay)}h full time.
+        </p>
+      </div>
+
+      {/* ── Company holidays ── */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-[var(--text-primary)]">Company Holidays</h3>
+          <label className="px-4 py-2 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors cursor-pointer">
+            Import .ics…
+            <input type="file" accept=".ics,text/calendar" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+        {importMessage && <p className="text-[12px] text-[var(--text-secondary)]">{importMessage}</p>}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className={labelClass}>Date</label>
+            <input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} className={inputClass} />
+          </div>
+          <div className="flex-1 min-w-[200px]">
+            <label className={labelClass}>Name</label>
+            <input
+              type="text"
+              value={holidayName}
+              onChange={(e) => setHolidayName(e.target.value)}
+              className={inputClass}
+              placeholder="e.g., Thanksgiving"
+            />
+          </div>
+          <button
+            onClick={handleAddHoliday}
+            className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+          >
+            Add Holiday
+          </button>
+        </div>
+
+        {holidays.length === 0 ? (
+          <div className="p-6 text-center text-[13px] text-[var(--text-muted)] border border-dashed border-[var(--border-default)] rounded-lg">
+            No holidays yet. Every weekday counts as a working day.
+          </div>
+        ) : (
+          <div className="rounded-lg border border-[var(--border-default)] overflow-hidden max-h-[320px] overflow-y-auto">
+            <table className="min-w-full divide-y divide-[var(--border-default)]">
+              <thead className="bg-[var(--bg-table-header)]">
+                <tr>
+                  <th className={thClass}>Date</th>
+                  <th className={thClass}>Holiday</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-[var(--border-subtle)]">
+                {holidays.map(h => (
+                  <tr key={h.date} className="hover:bg-[var(--bg-table-hover)]">
+                    <td className="px-4 py-2 text-[13px] text-[var(--text-secondary)]">{format(parseISO(h.date), 'EEE, MMM d, yyyy')}</td>
+                    <td className="px-4 py-2 text-[13px] text-[var(--text-primary)]">{h.name}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => deleteHoliday(h.date)}
+                        className="text-[12px] font-medium text-[var(--status-danger)] hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* ── Planned leave ── */}
+      <div className="space-y-3">
+        <h3 className="font-medium text-[var(--text-primary)]">Planned Leave</h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="min-w-[180px]">
+            <label className={labelClass}>Person</label>
+            <select
+              value={leaveDraft.engineer}
+              onChange={(e) => setLeaveDraft({ ...leaveDraft, engineer: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Select…</option>
+              {teamMembers.map(m => (
+                <option key={m.person_id} value={m.full_name}>{m.full_name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>From</label>
+            <input
+              type="date"
+              value={leaveDraft.start_date}
+              onChange={(e) => setLeaveDraft({ ...leaveDraft, start_date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>To</label>
+            <input
+              type="date"
+              value={leaveDraft.end_date}
+              min={leaveDraft.start_date || undefined}
+              onChange={(e) => setLeaveDraft({ ...leaveDraft, end_date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex-1 min-w-[160px]">
+            <label className={labelClass}>Note</label>
+            <input
+              type="text"
+              value={leaveDraft.note}
+              onChange={(e) => setLeaveDraft({ ...leaveDraft, note: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., Vacation"
+            />
+          </div>
+          <button
+            onClick={handleAddLeave}
+            className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+          >
+            Add Leave
+          </button>
+        </div>
+
+        {leave.length === 0 ? (
+          <div className="p-6 text-center text-[13px] text-[var(--text-muted)] border border-dashed border-[var(--border-default)] rounded-lg">
+            No planned leave.
+          </div>
+        ) : (
+          <div className="rounded-lg border border-[var(--border-default)] overflow-hidden">
+            <table className="min-w-full divide-y divide-[var(--border-default)]">
+              <thead className="bg-[var(--bg-table-header)]">
+                <tr>
+                  <th className={thClass}>Person</th>
+                  <th className={thClass}>Dates</th>
+                  <th className="px-4 py-3 text-right text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">Working Days</th>
+                  <th className={thClass}>Note</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-[var(--border-subtle)]">
+                {leave.map(entry => (
+                  <tr key={entry.id} className="hover:bg-[var(--bg-table-hover)]">
+                    <td className="px-4 py-2 text-[13px] font-medium text-[var(--text-primary)]">{entry.engineer}</td>
+                    <td className="px-4 py-2 text-[13px] text-[var(--text-secondary)]">
+                      {entry.start_date === entry.end_date ? entry.start_date : `${entry.start_date} – ${entry.end_date}`}
+                    </td>
+                    <td className="px-4 py-2 text-[13px] text-right text-[var(--text-secondary)]">{leaveWorkingDays(entry)}</td>
+                    <td className="px-4 py-2 text-[13px] text-[var(--text-muted)]">{entry.note}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleDeleteLeave(entry)}
+                        className="text-[12px] font-medium text-[var(--status-danger)] hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import { db } from '../db/database';
+import { AUDITED_TABLES, changedFields } from '../db/auditLog';
+import { revertAuditEntry } from '../db/operations';
+import type { AuditAction, AuditEntry } from '../types';
+
+const PAGE_SIZE = 100;
+
+const ACTION_STYLES: Record<AuditAction, { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-[var(--status-good-bg)] text-[var(--status-good)]' },
+  update: { label: 'Updated', className: 'bg-[var(--accent-light)] text-[var(--accent)]' },
+  delete: { label: 'Deleted', className: 'bg-[var(--status-danger-bg)] text-[var(--status-danger)]' },
+};
+
+export function ChangeHistoryConfig() {
+  const [tableFilter, setTableFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [entity, setEntity] = useState<{ table: string; key: string | number; label: string } | null>(null);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+
+  const entries = useLiveQuery(async () => {
+    if (entity) {
+      const rows = await db.auditLog.where('[table+entity_key]').equals([entity.table, entity.key]).toArray();
+      return rows.reverse();
+    }
+    const rows = tableFilter
+      ? await db.auditLog.where('table').equals(tableFilter).reverse().sortBy('timestamp')
+      : await db.auditLog.orderBy('timestamp').reverse().toArray();
+    const term = search.trim().toLowerCase();
+    if (!term) return rows;
+    return rows.filter(e =>
+      e.entity_label.toLowerCase().includes(term) ||
+      String(e.entity_key).toLowerCase().includes(term) ||
+      e.editor.toLowerCase().includes(term)
+    );
+  }, [tableFilter, search, entity]);
+
+  const handleRevert = async (entry: AuditEntry) => {
+    if (!confirm(`Revert this change to ${entry.entity_label}?\n\n${describeRevert(entry)}`)) return;
+    setRevertingId(entry.id!);
+    try {
+      await revertAuditEntry(entry);
+    } catch (error) {
+      alert('Revert failed: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const formatDateTime = (dateStr: string) => {
+    try {
+      return format(new Date(dateStr), 'MMM d, yyyy h:mm a');
+    } catch {
+      return dateStr;
+    }
+  };
+
+  const inputClass = 'text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={tableFilter}
+          onChange={(e) => { setTableFilter(e.target.value); setEntity(null); setLimit(PAGE_SIZE); }}
+          className={inputClass}
+        >
+          <option value="">All planning data</option>
+          {Object.entries(AUDITED_TABLES).map(([table, { label }]) => (
+            <option key={table} value={table}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setEntity(null); setLimit(PAGE_SIZE); }}
+          placeholder="Filter by R#, person, month or editor"
+          className={`${inputClass} flex-1 min-w-[220px]`}
+        />
+      </div>
+
+      {entity && (
+        <div className="flex items-center justify-between px-3 py-2 rounded-md bg-[var(--accent-light)] text-[13px]">
+          <span className="text-[var(--text-primary)]">
+            History of <span className="font-semibold">{AUDITED_TABLES[entity.table]?.label}: {entity.label}</span>
+          </span>
+          <button
+            onClick={() => setEntity(null)}
+            className="text-[12px] font-medium text-[var(--accent)] hover:underline"
+          >
+            Show all changes
+          </button>
+        </div>
+      )}
+
+      {!entries ? (
+        <div className="p-4 text-[var(--text-muted)]">Loading...</div>
+      ) : entries.length === 0 ? (
+        <div className="p-6 text-center text-[13px] text-[var(--text-muted)] border border-dashed border-[var(--border-default)] rounded-lg">
+          No changes recorded{tableFilter || search ? ' for this filter' : ' yet'}.
+        </div>
+      ) : (
+        <div className="border border-[var(--border-default)] rounded-lg overflow-hidden">
+          <ul className="divide-y divide-[var(--border-subtle)]">
+            {entries.slice(0, limit).map(entry => {
+              const action = ACTION_STYLES[entry.action];
+              return (
+                <li key={entry.id} className="px-4 py-3 flex items-start justify-between gap-3 text-[12px]">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide ${action.className}`}>
+                        {action.label}
+                      </span>
+                      <span className="text-[var(--text-muted)]">{AUDITED_TABLES[entry.table]?.label ?? entry.table}</span>
+                      <button
+                        onClick={() => setEntity({ table: entry.table, key: entry.entity_key, label: entry.entity_label })}
+                        className="font-medium text-[var(--text-primary)] hover:text-[var(--accent)] hover:underline truncate"
+                        title="Show this item's full history"
+                      >
+                        {entry.entity_label}
+                      </button>
+                    </div>
+                    <ChangeSummary entry={entry} />
+                    <p className="text-[11px] text-[var(--text-muted)]">
+                      {formatDateTime(entry.timestamp)} · {entry.editor || 'Unknown editor'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevert(entry)}
+                    disabled={revertingId !== null}
+                    className="flex-shrink-0 px-2.5 py-1 rounded-md border border-[var(--border-default)] text-[11px] text-[var(--text-secondary)] hover:bg-[var(--bg-table-header)] disabled:opacity-50 transition-colors"
+                  >
+                    {revertingId === entry.id ? 'Reverting…' : 'Revert'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {entries.length > limit && (
+            <button
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+              className="w-full px-4 py-2 text-[12px] font-medium text-[var(--accent)] bg-[var(--bg-table-header)] hover:bg-[var(--accent-light)] border-t border-[var(--border-subtle)]"
+            >
+              Show {Math.min(PAGE_SIZE, entries.length - limit)} more of {entries.length - limit} older changes
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Field-level before → after for updates; the whole row for creates and deletes. */
+function ChangeSummary({ entry }: { entry: AuditEntry }) {
+  if (entry.action === 'update') {
+    return (
+      <ul className="space-y-0.5">
+        {changedFields(entry.before!, entry.after!).map(field => (
+          <li key={field} className="text-[var(--text-secondary)]">
+            <span className="font-mono text-[11px] text-[var(--text-muted)]">{field}</span>{' '}
+            <span className="line-through text-[var(--status-danger)]">{formatValue(entry.before![field])}</span>
+            {' → '}
+            <span className="text-[var(--status-good)]">{formatValue(entry.after![field])}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  const row = (entry.action === 'create' ? entry.after : entry.before) ?? {};
+  return (
+    <p className="text-[var(--text-secondary)] break-words">
+      {Object.entries(row)
+        .filter(([field]) => field !== 'id')
+        .map(([field, value]) => `${field}: ${formatValue(value)}`)
+        .join(' · ')}
+    </p>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function describeRevert(entry: AuditEntry): string {
+  switch (entry.action) {
+    case 'create': return 'The item will be deleted.';
+    case 'delete': return 'The item will be restored as it was before it was deleted.';
+    case 'update': return `${changedFields(entry.before!, entry.after!).join(', ')} will be set back to the earlier values. Later changes to other fields are kept.`;
+  }
+}
@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+import { applyProjectReclassification, previewProjectReclassification } from '../db/operations';
+import { refreshKPIHistory } from '../aggregation/kpiHistory';
+import { validateRulePattern } from '../utils/classification';
+import { ProjectType, RuleMatchField, WorkClass } from '../types';
+import type { ClassificationRule, ProjectReclassification } from '../types';
+
+const MATCH_FIELD_LABELS: Record<RuleMatchField, string> = {
+  [RuleMatchField.RNumberPrefix]: 'R# starts with',
+  [RuleMatchField.RNumberRegex]: 'R# matches regex',
+  [RuleMatchField.InheritedTag]: 'Inherited tag is',
+  [RuleMatchField.FolderPath]: 'Folder path contains',
+  [RuleMatchField.Client]: 'Client is',
+};
+
+const inputClass = 'w-full px-2 py-1 text-[12px] border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none';
+const thClass = 'py-2 px-1.5 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]';
+
+export function ClassificationRulesConfig() {
+  const rules = useLiveQuery(() => db.classificationRules.orderBy('sort_order').toArray());
+  const [preview, setPreview] = useState<ProjectReclassification[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  if (!rules) {
+    return (
+      <div className="animate-pulse space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-10 bg-[var(--border-subtle)] rounded-lg"></div>
+        ))}
+      </div>
+    );
+  }
+
+  // Any rule edit makes an open preview stale
+  const saveRule = async (rule: ClassificationRule, changes: Partial<ClassificationRule>) => {
+    setPreview(null);
+    await db.classificationRules.update(rule.id!, changes);
+  };
+
+  const handleAdd = async () => {
+    setPreview(null);
+    const last = rules[rules.length - 1];
+    await db.classificationRules.add({
+      sort_order: (last?.sort_order ?? -1) + 1,
+      enabled: true,
+      match_field: RuleMatchField.RNumberPrefix,
+      pattern: '',
+    });
+  };
+
+  const handleDelete = async (rule: ClassificationRule) => {
+    if (!confirm(`Delete the rule "${MATCH_FIELD_LABELS[rule.match_field]} ${rule.pattern}"?`)) return;
+    setPreview(null);
+    await db.classificationRules.delete(rule.id!);
+  };
+
+  const handleMove = async (index: number, delta: -1 | 1) => {
+    const rule = rules[index];
+    const other = rules[index + delta];
+    if (!other) return;
+    setPreview(null);
+    await db.transaction('rw', db.classificationRules, async () => {
+      await db.classificationRules.update(rule.id!, { sort_order: other.sort_order });
+      await db.classificationRules.update(other.id!, { sort_order: rule.sort_order });
+    });
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      const changes = await previewProjectReclassification();
+      setPreview(changes);
+      setSelected(new Set(changes.map(c => c.project_id)));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    const chosen = preview.filter(c => selected.has(c.project_id));
+    setApplying(true);
+    try {
+      await applyProjectReclassification(chosen);
+      // Type and work class feed every KPI — names don't
+      if (chosen.some(c => c.current.type !== c.proposed.type || c.current.work_class !== c.proposed.work_class)) {
+        await refreshKPIHistory();
+      }
+      setPreview(null);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const toggleSelected = (projectId: string) => {
+    const next = new Set(selected);
+    if (next.has(projectId)) next.delete(projectId);
+    else next.add(projectId);
+    setSelected(next);
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-[13px] text-[var(--text-secondary)]">
+        When an import discovers a new R# code, these rules set its type, work class and display name.
+        Rules are checked top to bottom; for each attribute the first enabled matching rule that sets it wins.
+        Anything no rule sets falls back to Sustaining / Planned and the most common LiquidPlanner project name.
+      </p>
+
+      <div className="border border-[var(--border-default)] rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-[var(--border-subtle)]">
+          <thead className="bg-[var(--bg-table-header)]">
+            <tr>
+              <th className={thClass}>On</th>
+              <th className={thClass}>When</th>
+              <th className={thClass}>Pattern</th>
+              <th className={thClass}>Type</th>
+              <th className={thClass}>Work Class</th>
+              <th className={thClass}>Display Name</th>
+              <th className={thClass}>Note</th>
+              <th className="w-20"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[var(--border-subtle)]">
+            {rules.map((rule, index) => {
+              const patternError = validateRulePattern(rule);
+              return (
+                <tr key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                  <td className="py-1.5 px-1.5 text-center">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => saveRule(rule, { enabled: e.target.checked })}
+                      className="rounded text-[var(--accent)] focus:ring-[var(--accent-focus-ring)]"
+                    />
+                  </td>
+                  <td className="py-1.5 px-1.5">
+                    <select
+                      value={rule.match_field}
+                      onChange={(e) => saveRule(rule, { match_field: e.target.value as RuleMatchField })}
+                      className={inputClass}
+                    >
+                      {Object.values(RuleMatchField).map(field => (
+                        <option key={field} value={field}>{MATCH_FIELD_LABELS[field]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1.5 px-1.5 min-w-[140px]">
+                    <input
+                      type="text"
+                      defaultValue={rule.pattern}
+                      onBlur={(e) => e.target.value !== rule.pattern && saveRule(rule, { pattern: e.target.value })}
+                      title={patternError ?? undefined}
+                      className={`${inputClass} font-mono ${patternError ? 'border-[var(--status-danger)]' : ''}`}
+                    />
+                  </td>
+                  <td className="py-1.5 px-1.5">
+                    <select
+                      value={rule.assign_type ?? ''}
+                      onChange={(e) => saveRule(rule, { assign_type: (e.target.value || undefined) as ProjectType | undefined })}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {Object.values(ProjectType).map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1.5 px-1.5">
+                    <select
+                      value={rule.assign_work_class ?? ''}
+                      onChange={(e) => saveRule(rule, { assign_work_class: (e.target.value || undefined) as WorkClass | undefined })}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {Object.values(WorkClass).map(wc => (
+                        <option key={wc} value={wc}>{wc}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1.5 px-1.5 min-w-[180px]">
+                    <input
+                      type="text"
+                      defaultValue={rule.assign_name ?? ''}
+                      onBlur={(e) => e.target.value !== (rule.assign_name ?? '') && saveRule(rule, { assign_name: e.target.value || undefined })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-1.5 px-1.5 min-w-[160px]">
+                    <input
+                      type="text"
+                      defaultValue={rule.note ?? ''}
+                      onBlur={(e) => e.target.value !== (rule.note ?? '') && saveRule(rule, { note: e.target.value || undefined })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-1.5 px-1.5 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                      className="px-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === rules.length - 1}
+                      title="Move down"
+                      className="px-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      title="Delete rule"
+                      className="px-1 text-[var(--text-muted)] hover:text-[var(--status-danger)] transition-colors"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleAdd}
+          className="px-3 py-1.5 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors"
+        >
+          Add Rule
+        </button>
+        <button
+          onClick={handlePreview}
+          disabled={previewing}
+          className="px-3 py-1.5 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors disabled:opacity-50"
+        >
+          {previewing ? 'Checking…' : 'Re-apply Rules to Existing Projects…'}
+        </button>
+      </div>
+
+      {preview && (
+        <div className="bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-lg overflow-hidden">
+          <div className="px-4 py-2.5 border-b border-[var(--border-subtle)] bg-[var(--bg-table-header)]">
+            <h3 className="text-[11px] font-semibold uppercase tracking-[0.08em] text-[var(--text-muted)]">
+              Re-apply Preview — {preview.length} {preview.length === 1 ? 'project' : 'projects'} would change
+            </h3>
+          </div>
+
+          {preview.length === 0 ? (
+            <p className="p-4 text-[13px] text-[var(--status-good)] font-medium">
+              Every project already matches the current rules.
+            </p>
+          ) : (
+            <div className="p-4 space-y-3">
+              <p className="text-[12px] text-[var(--text-secondary)]">
+                Untick any project whose hand-edited classification you want to keep.
+              </p>
+              <table className="min-w-full divide-y divide-[var(--border-subtle)] text-[12px]">
+                <thead>
+                  <tr>
+                    <th className="w-8"></th>
+                    <th className={thClass}>R#</th>
+                    <th className={thClass}>Display Name</th>
+                    <th className={thClass}>Type</th>
+                    <th className={thClass}>Work Class</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--border-subtle)]">
+                  {preview.map(change => (
+                    <tr key={change.project_id}>
+                      <td className="py-1.5 text-center">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(change.project_id)}
+                          onChange={() => toggleSelected(change.project_id)}
+                          className="rounded text-[var(--accent)] focus:ring-[var(--accent-focus-ring)]"
+                        />
+                      </td>
+                      <td className="py-1.5 px-1.5 font-mono text-[var(--text-primary)]">{change.project_id}</td>
+                      <ChangeCell from={change.current.project_name} to={change.proposed.project_name} />
+                      <ChangeCell from={change.current.type} to={change.proposed.type} />
+                      <ChangeCell from={change.current.work_class} to={change.proposed.work_class} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-3 px-4 py-3 border-t border-[var(--border-subtle)]">
+            <button
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors"
+            >
+              {preview.length === 0 ? 'Close' : 'Cancel'}
+            </button>
+            {preview.length > 0 && (
+              <button
+                onClick={handleApply}
+                disabled={applying || selected.size === 0}
+                className="px-4 py-2 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+              >
+                {applying ? 'Applying…' : `Apply ${selected.size} ${selected.size === 1 ? 'Change' : 'Changes'}`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChangeCell({ from, to }: { from: string; to: string }) {
+  if (from === to) {
+    return <td className="py-1.5 px-1.5 text-[var(--text-muted)]">{from}</td>;
+  }
+  return (
+    <td className="py-1.5 px-1.5">
+      <span className="line-through text-[var(--text-muted)]">{from}</span>
+      <span className="mx-1 text-[var(--text-muted)]">→</span>
+      <span className="font-medium text-[var(--text-primary)]">{to}</span>
+    </td>
+  );
+}
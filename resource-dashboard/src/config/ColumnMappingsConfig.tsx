@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+import { BUILTIN_PROFILE_NAME, CSV_COLUMN_MAP, MAPPABLE_FIELDS, findMissingRequired } from '../import/columnMapping';
+import type { ColumnMap, ColumnMappingProfile, TimesheetEntry } from '../types';
+
+export function ColumnMappingsConfig() {
+  const profiles = useLiveQuery(() => db.columnMappingProfiles.orderBy('name').toArray());
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  if (!profiles) {
+    return (
+      <div className="animate-pulse space-y-4">
+        {[...Array(2)].map((_, i) => (
+          <div key={i} className="h-16 bg-[var(--border-subtle)] rounded-lg"></div>
+        ))}
+      </div>
+    );
+  }
+
+  const uniqueName = (base: string) => {
+    const names = new Set(profiles.map(p => p.name));
+    if (!names.has(base)) return base;
+    let n = 2;
+    while (names.has(`${base} ${n}`)) n++;
+    return `${base} ${n}`;
+  };
+
+  const handleCreate = async (mappings: ColumnMap) => {
+    const now = new Date().toISOString();
+    const id = await db.columnMappingProfiles.add({
+      name: uniqueName('New profile'),
+      mappings: { ...mappings },
+      created_at: now,
+      updated_at: now,
+    });
+    setExpandedId(id);
+  };
+
+  const saveMappings = async (profile: ColumnMappingProfile, mappings: ColumnMap) => {
+    await db.columnMappingProfiles.update(profile.id!, { mappings, updated_at: new Date().toISOString() });
+  };
+
+  const handleRename = async (profile: ColumnMappingProfile, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === profile.name) return;
+    if (trimmed === BUILTIN_PROFILE_NAME || profiles.some(p => p.name === trimmed)) {
+      alert(`A profile named "${trimmed}" already exists.`);
+      return;
+    }
+    await db.columnMappingProfiles.update(profile.id!, { name: trimmed, updated_at: new Date().toISOString() });
+  };
+
+  const handleDelete = async (profile: ColumnMappingProfile) => {
+    if (!confirm(`Delete the "${profile.name}" column mapping profile?`)) return;
+    await db.columnMappingProfiles.delete(profile.id!);
+  };
+
+  const handleHeaderRename = (profile: ColumnMappingProfile, oldHeader: string, newHeader: string) => {
+    const trimmed = newHeader.trim();
+    if (!trimmed || trimmed === oldHeader || trimmed in profile.mappings) return;
+    // Rebuild to keep column order stable
+    const mappings = Object.fromEntries(
+      Object.entries(profile.mappings).map(([h, f]) => [h === oldHeader ? trimmed : h, f])
+    );
+    saveMappings(profile, mappings);
+  };
+
+  const handleFieldChange = (profile: ColumnMappingProfile, header: string, field: keyof TimesheetEntry) => {
+    saveMappings(profile, { ...profile.mappings, [header]: field });
+  };
+
+  const handleRemoveColumn = (profile: ColumnMappingProfile, header: string) => {
+    const mappings = { ...profile.mappings };
+    delete mappings[header];
+    saveMappings(profile, mappings);
+  };
+
+  const handleAddColumn = (profile: ColumnMappingProfile) => {
+    const used = new Set(Object.values(profile.mappings));
+    const field = MAPPABLE_FIELDS.find(f => !used.has(f)) ?? MAPPABLE_FIELDS[0];
+    let header = 'New column';
+    for (let n = 2; header in profile.mappings; n++) header = `New column ${n}`;
+    saveMappings(profile, { ...profile.mappings, [header]: field });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-[13px] text-[var(--text-secondary)]">
+        When a timesheet CSV is imported, the profile whose column headers best match the file is used automatically.
+        If no profile covers the required fields, you'll be asked to map the columns by hand and can save the result here.
+      </p>
+
+      {/* Built-in profile */}
+      <div className="border border-[var(--border-default)] rounded-lg overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-3 bg-[var(--bg-table-header)]">
+          <span className="flex-1 text-[13px] font-semibold text-[var(--text-primary)]">
+            {BUILTIN_PROFILE_NAME}
+            <span className="ml-2 text-[11px] font-normal text-[var(--text-muted)]">
+              {Object.keys(CSV_COLUMN_MAP).length} columns · read-only
+            </span>
+          </span>
+          <button
+            onClick={() => handleCreate(CSV_COLUMN_MAP)}
+            className="text-[11px] text-[var(--accent)] hover:underline"
+          >
+            Duplicate as new profile
+          </button>
+        </div>
+      </div>
+
+      {/* Saved profiles */}
+      {profiles.map(profile => {
+        const isExpanded = expandedId === profile.id;
+        const entries = Object.entries(profile.mappings);
+        const missing = findMissingRequired(profile.mappings);
+
+        return (
+          <div key={profile.id} className="border border-[var(--border-default)] rounded-lg overflow-hidden">
+            <div className="flex items-center gap-3 px-4 py-3 bg-[var(--bg-table-header)]">
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : profile.id!)}
+                className="flex-1 text-left text-[13px] font-semibold text-[var(--text-primary)]"
+              >
+                {profile.name}
+                <span className="ml-2 text-[11px] font-normal text-[var(--text-muted)]">
+                  {entries.length} columns
+                </span>
+                {missing.length > 0 && (
+                  <span className="ml-2 text-[11px] font-normal text-[var(--status-warn)]">
+                    missing {missing.join(', ')}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => handleDelete(profile)}
+                className="text-[11px] text-[var(--status-danger)] hover:underline"
+              >
+                Delete
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="px-4 py-3 space-y-3">
+                <div className="flex items-center gap-3">
+                  <label className="text-[12px] font-medium text-[var(--text-secondary)] w-24">Profile name</label>
+                  <input
+                    type="text"
+                    defaultValue={profile.name}
+                    onBlur={(e) => handleRename(profile, e.target.value)}
+                    className="flex-1 px-2 py-1.5 text-[13px] border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none"
+                  />
+                </div>
+
+                <table className="min-w-full divide-y divide-[var(--border-subtle)]">
+                  <thead>
+                    <tr>
+                      <th className="py-2 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
+                        CSV Column Header
+                      </th>
+                      <th className="py-2 pl-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
+                        Dashboard Field
+                      </th>
+                      <th className="w-8"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--border-subtle)]">
+                    {entries.map(([header, field]) => (
+                      <tr key={header}>
+                        <td className="py-1.5">
+                          <input
+                            type="text"
+                            defaultValue={header}
+                            onBlur={(e) => handleHeaderRename(profile, header, e.target.value)}
+                            className="w-full px-2 py-1 text-[12px] border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none"
+                          />
+                        </td>
+                        <td className="py-1.5 pl-3">
+                          <select
+                            value={field}
+                            onChange={(e) => handleFieldChange(profile, header, e.target.value as keyof TimesheetEntry)}
+                            className="w-full px-2 py-1 text-[12px] border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none"
+                          >
+                            {MAPPABLE_FIELDS.map(f => (
+                              <option key={f} value={f}>{f}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-1.5 text-right">
+                          <button
+                            onClick={() => handleRemoveColumn(profile, header)}
+                            title="Remove column"
+                            className="text-[var(--text-muted)] hover:text-[var(--status-danger)] transition-colors"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <button
+                  onClick={() => handleAddColumn(profile)}
+                  className="text-[11px] text-[var(--accent)] hover:underline"
+                >
+                  + Add column
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => handleCreate({})}
+        className="px-3 py-1.5 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors"
+      >
+        New Blank Profile
+      </button>
+    </div>
+  );
+}
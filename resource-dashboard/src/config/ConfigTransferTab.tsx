@@ -1,6 +1,16 @@
 import { useState } from 'react';
 import { useConfigCompleteness, type CompletenessStatus } from '../configTransfer/configCompleteness';
 import { exportAllConfig, downloadConfigFile } from '../configTransfer/exportConfig';
+import {
+  createDatabaseBackup,
+  decryptDatabaseBackup,
+  downloadDatabaseBackup,
+  readDatabaseBackup,
+  restoreDatabaseBackup,
+} from '../configTransfer/databaseBackup';
+import type { DatabaseBackupFile, EncryptedFileEnvelope } from '../configTransfer/configFileFormat';
+import { isEncryptedFile } from '../configTransfer/fileEncryption';
+import { PassphraseModal } from '../components/PassphraseModal';
 
 function StatusIcon({ status }: { status: CompletenessStatus }) {
   if (status === 'configured') {
@@ -17,6 +27,11 @@ const TABLE_LABELS: Record<string, { label: string; group: string }> = {
   config: { label: 'General Settings', group: 'Settings' },
   anomalyThresholds: { label: 'Alert Rules', group: 'Settings' },
   narrativeConfig: { label: 'Narrative Summary', group: 'Settings' },
+  customKPIs: { label: 'Custom KPIs', group: 'Settings' },
+  kpiSettings: { label: 'KPI Targets', group: 'Settings' },
+  classificationRules: { label: 'Classification Rules', group: 'Settings' },
+  columnMappingProfiles: { label: 'Column Mappings', group: 'Settings' },
+  holidays: { label: 'Holidays', group: 'Settings' },
   skillCategories: { label: 'Skill Categories', group: 'Settings' },
   teamMembers: { label: 'Team Members', group: 'Team & Project Data' },
   projects: { label: 'Projects', group: 'Team & Project Data' },
@@ -24,6 +39,7 @@ const TABLE_LABELS: Record<string, { label: string; group: string }> = {
   milestones: { label: 'Milestones', group: 'Team & Project Data' },
   plannedAllocations: { label: 'Resource Allocations', group: 'Planning Data' },
   plannedProjectMonths: { label: 'Planned Project Hours', group: 'Planning Data' },
+  plannedLeave: { label: 'Planned Leave', group: 'Planning Data' },
   weeklyUpdates: { label: 'Weekly Updates', group: 'Planning Data' },
   planningScenarios: { label: 'Planning Scenarios', group: 'Planning Data' },
 };
@@ -34,14 +50,29 @@ export function ConfigTransferTab() {
   const completeness = useConfigCompleteness();
   const [exporting, setExporting] = useState(false);
   const [exportMessage, setExportMessage] = useState('');
+  const [backupBusy, setBackupBusy] = useState<'backup' | 'restore' | null>(null);
+  const [backupMessage, setBackupMessage] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [lockedBackup, setLockedBackup] = useState<{ envelope: EncryptedFileEnvelope; filename: string } | null>(null);
+
+  const passphraseError = !encrypt
+    ? ''
+    : passphrase.length < 8
+    ? 'Passphrase must be at least 8 characters'
+    : passphrase !== passphraseConfirm
+    ? 'Passphrases do not match'
+    : '';
+  const exportPassphrase = encrypt ? passphrase : undefined;
 
   const handleExport = async () => {
     setExporting(true);
     setExportMessage('');
     try {
       const data = await exportAllConfig();
-      downloadConfigFile(data);
-      setExportMessage('Configuration exported successfully');
+      await downloadConfigFile(data, exportPassphrase);
+      setExportMessage(`Configuration exported successfully${encrypt ? ' (encrypted)' : ''}`);
       setTimeout(() => setExportMessage(''), 3000);
     } catch (error) {
       console.error('Export failed:', error);
@@ -51,8 +82,113 @@ export function ConfigTransferTab() {
     }
   };
 
+  const handleBackup = async () => {
+    setBackupBusy('backup');
+    setBackupMessage('');
+    try {
+      const data = await createDatabaseBackup();
+      await downloadDatabaseBackup(data, exportPassphrase);
+      const rows = Object.values(data.table_counts).reduce((sum, n) => sum + n, 0);
+      setBackupMessage(`Backup created successfully (${rows.toLocaleString()} rows across ${Object.keys(data.tables).length} tables)`);
+    } catch (error) {
+      console.error('Backup failed:', error);
+      setBackupMessage('Backup failed — see console for details');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBackupMessage('');
+    try {
+      const backup = await readDatabaseBackup(file);
+      if (isEncryptedFile(backup)) {
+        setLockedBackup({ envelope: backup, filename: file.name });
+        return;
+      }
+      await confirmAndRestore(backup, file.name);
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert('Restore failed: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const confirmAndRestore = async (backup: DatabaseBackupFile, filename: string) => {
+    const rows = Object.values(backup.table_counts).reduce((sum, n) => sum + n, 0);
+    if (!confirm(
+      `Restore "${filename}"?\n\n` +
+      `Created ${new Date(backup.created_at).toLocaleString()} from "${backup.created_from}" ` +
+      `(schema v${backup.dashboard_schema_version}, ${rows.toLocaleString()} rows).\n\n` +
+      'This replaces ALL dashboard data in this browser, including timesheets. This cannot be undone.'
+    )) return;
+
+    setBackupBusy('restore');
+    try {
+      const result = await restoreDatabaseBackup(backup);
+      const restored = Object.values(result.table_counts).reduce((sum, n) => sum + n, 0);
+      setBackupMessage(
+        `Backup restored successfully (${restored.toLocaleString()} rows)` +
+        (result.upgraded_from !== undefined ? ` — upgraded from schema v${result.upgraded_from}` : '')
+      );
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert('Restore failed: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
   return (
     <div className="max-w-xl space-y-6">
+      {/* Encryption Section */}
+      <div>
+        <h3 className="text-[14px] font-semibold text-[var(--text-primary)] mb-1">
+          Passphrase Protection
+        </h3>
+        <p className="text-[12px] text-[var(--text-muted)] mb-3 leading-relaxed">
+          Exports contain skill ratings, capacity overrides and allocation plans for named people.
+          Encrypt them before sharing; the passphrase is needed to import or restore and cannot be recovered.
+        </p>
+        <label className="flex items-center gap-2 cursor-pointer mb-3">
+          <input
+            type="checkbox"
+            checked={encrypt}
+            onChange={(e) => setEncrypt(e.target.checked)}
+            className="rounded border-[var(--border-input)] text-[var(--accent)] focus:ring-[var(--accent-focus-ring)]"
+          />
+          <span className="text-[13px] text-[var(--text-primary)]">Encrypt exported files with a passphrase</span>
+        </label>
+        {encrypt && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoComplete="new-password"
+                className="flex-1 px-3 py-2 text-[13px] border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none"
+              />
+              <input
+                type="password"
+                value={passphraseConfirm}
+                onChange={(e) => setPassphraseConfirm(e.target.value)}
+                placeholder="Confirm passphrase"
+                autoComplete="new-password"
+                className="flex-1 px-3 py-2 text-[13px] border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none"
+              />
+            </div>
+            {passphraseError && (passphrase || passphraseConfirm) && (
+              <p className="text-[11px] text-[var(--status-danger)]">{passphraseError}</p>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Export Section */}
       <div>
         <h3 className="text-[14px] font-semibold text-[var(--text-primary)] mb-1">
@@ -111,7 +247,7 @@ export function ConfigTransferTab() {
         {/* Export Button */}
         <button
           onClick={handleExport}
-          disabled={exporting}
+          disabled={exporting || !!passphraseError}
           className="px-4 py-2 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50 flex items-center gap-2"
         >
           {exporting && (
@@ -125,7 +261,7 @@ export function ConfigTransferTab() {
 
         {completeness?.details.config && (
           <p className="text-[11px] text-[var(--text-muted)] mt-2">
-            Exports as: <span className="font-medium">RD_Config_{(completeness.details.config || 'Dashboard').replace(/[^a-zA-Z0-9]/g, '_')}_{new Date().toISOString().slice(0, 10)}.json</span>
+            Exports as: <span className="font-medium">RD_Config_{(completeness.details.config || 'Dashboard').replace(/[^a-zA-Z0-9]/g, '_')}_{new Date().toISOString().slice(0, 10)}{encrypt ? '.enc' : ''}.json</span>
           </p>
         )}
 
@@ -135,6 +271,58 @@ export function ConfigTransferTab() {
           </div>
         )}
       </div>
+
+      {/* Full Backup Section */}
+      <div className="pt-6 border-t border-[var(--border-subtle)]">
+        <h3 className="text-[14px] font-semibold text-[var(--text-primary)] mb-1">
+          Full Backup
+        </h3>
+        <p className="text-[12px] text-[var(--text-muted)] mb-4 leading-relaxed">
+          Back up the entire database — every table, including imported timesheets, import
+          history and KPI history — as a compressed file. Restoring replaces all data in this
+          browser; backups from older dashboard versions are upgraded as they are restored.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleBackup}
+            disabled={backupBusy !== null || !!passphraseError}
+            className="px-4 py-2 text-[13px] font-medium text-white bg-[var(--accent)] rounded-md hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+          >
+            {backupBusy === 'backup' ? 'Creating Backup...' : 'Download Full Backup'}
+          </button>
+          <label
+            className={`px-4 py-2 text-[13px] font-medium text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-table-header)] transition-colors ${backupBusy !== null ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+          >
+            {backupBusy === 'restore' ? 'Restoring...' : 'Restore from Backup…'}
+            <input
+              type="file"
+              accept=".gz,.json,application/gzip,application/json"
+              onChange={handleRestore}
+              className="hidden"
+            />
+          </label>
+        </div>
+
+        {backupMessage && (
+          <div className={`mt-3 text-[13px] font-medium ${backupMessage.includes('success') ? 'text-[var(--status-good)]' : 'text-[var(--status-danger)]'}`}>
+            {backupMessage}
+          </div>
+        )}
+      </div>
+
+      {lockedBackup && (
+        <PassphraseModal
+          title="Encrypted Backup"
+          filename={lockedBackup.filename}
+          onCancel={() => setLockedBackup(null)}
+          onUnlock={async (pass) => {
+            const backup = await decryptDatabaseBackup(lockedBackup.envelope, pass);
+            setLockedBackup(null);
+            await confirmAndRestore(backup, lockedBackup.filename);
+          }}
+        />
+      )}
     </div>
   );
 }
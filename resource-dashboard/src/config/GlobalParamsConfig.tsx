@@ -44,6 +44,23 @@ export function GlobalParamsConfig() {
         </p>
       </div>
 
+      <div>
+        <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+          Your Name
+        </label>
+        <input
+          type="text"
+          value={config.editor_name ?? ''}
+          onChange={(e) => handleChange('editor_name', e.target.value)}
+          onBlur={(e) => handleChange('editor_name', e.target.value)}
+          className="w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-focus-ring)]"
+          placeholder="e.g., Jordan Lee"
+        />
+        <p className="text-[11px] text-[var(--text-muted)] mt-1.5">
+          Recorded as the editor on planning changes in Change History
+        </p>
+      </div>
+
       <div>
         <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
           Standard Monthly Capacity (hours)
@@ -58,7 +75,8 @@ export function GlobalParamsConfig() {
           step="1"
         />
         <p className="text-[11px] text-[var(--text-muted)] mt-1.5">
-          Base working hours per person per month (used to calculate utilization)
+          Full-time hours in a typical month. Capacity overrides are scaled against it; the
+          Capacity Calendar derives each month's actual capacity from working days
         </p>
       </div>
 
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
 import {
@@ -6,13 +6,65 @@ import {
   KPI_CATEGORIES,
   KPI_PRESETS,
   DEFAULT_KPI_CARDS,
+  getKPIDefinition,
 } from '../aggregation/kpiRegistry';
-import type { KPICardKey } from '../types';
+import type { KPIDefinition } from '../aggregation/kpiRegistry';
+import { FORMULA_BUILTINS, validateCustomKPI } from '../aggregation/customKPIs';
+import { formatTargetPeriod, formatTargetValue, getTargetMode } from '../aggregation/kpiTargets';
+import { useCustomKPIs } from '../hooks/useCustomKPIs';
+import { useKPISettings } from '../hooks/useKPISettings';
+import { formatMonth } from '../utils/format';
+import { ActivityType, PersonRole, ProjectType, WorkClass } from '../types';
+import type {
+  CustomKPI,
+  CustomKPIKey,
+  CustomKPIMeasure,
+  CustomKPITerm,
+  KPICardKey,
+  KPICardSelection,
+  KPIFormat,
+  KPISetting,
+  KPITargetMode,
+} from '../types';
+
+type CustomKPIDraft = Omit<CustomKPI, 'key'> & { key?: CustomKPIKey };
+
+const EMPTY_DRAFT: CustomKPIDraft = {
+  label: '',
+  description: '',
+  format: 'decimal',
+  formula: '',
+  terms: [],
+  thresholds: { green: 999, yellow: 999 },
+};
+
+const MEASURE_LABELS: Record<CustomKPIMeasure, string> = {
+  hours: 'Hours',
+  meeting_hours: 'Meeting hours',
+  people: 'People with hours',
+  projects: 'Projects with hours',
+  tasks: 'Tasks worked',
+  completed_tasks: 'Tasks completed',
+};
+
+const FORMAT_LABELS: Record<KPIFormat, string> = {
+  percent: 'Percent (0.25 → 25%)',
+  hours: 'Hours',
+  count: 'Count',
+  decimal: 'Decimal',
+};
+
+const inputClass = 'w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none';
+const labelClass = 'block text-[12px] font-medium text-[var(--text-secondary)] mb-1';
 
 export function KPICardsConfig() {
   const config = useLiveQuery(() => db.config.get(1));
-  const [draggedKey, setDraggedKey] = useState<KPICardKey | null>(null);
+  const { customKPIs, saveCustomKPI, deleteCustomKPI } = useCustomKPIs();
+  const { settingFor, saveKPISetting } = useKPISettings();
+  const [settingsKey, setSettingsKey] = useState<KPICardSelection | null>(null);
+  const [draggedKey, setDraggedKey] = useState<KPICardSelection | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<CustomKPIDraft | null>(null);
 
   if (!config) {
     return (
@@ -24,14 +76,14 @@ export function KPICardsConfig() {
     );
   }
 
-  const selectedCards: KPICardKey[] = config.kpi_cards ?? DEFAULT_KPI_CARDS;
+  const selectedCards: KPICardSelection[] = config.kpi_cards ?? DEFAULT_KPI_CARDS;
 
-  const save = async (cards: KPICardKey[]) => {
+  const save = async (cards: KPICardSelection[]) => {
     await db.config.update(1, { kpi_cards: cards });
   };
 
   // ── Toggle a card on/off ──
-  const handleToggle = (key: KPICardKey) => {
+  const handleToggle = (key: KPICardSelection) => {
     if (selectedCards.includes(key)) {
       save(selectedCards.filter(k => k !== key));
     } else {
@@ -46,7 +98,7 @@ export function KPICardsConfig() {
   };
 
   // ── Drag-to-reorder within selected list ──
-  const handleDragStart = (key: KPICardKey) => {
+  const handleDragStart = (key: KPICardSelection) => {
     setDraggedKey(key);
   };
 
@@ -118,44 +170,75 @@ export function KPICardsConfig() {
         </h3>
         <p className="text-[12px] text-[var(--text-muted)] mb-2">
           Drag to reorder. These cards appear on the dashboard KPI summary panel.
+          Use Targets to override color thresholds and set monthly or quarterly targets.
         </p>
         <div className="space-y-1">
           {selectedCards.map((key, index) => {
-            const def = KPI_REGISTRY[key];
+            const def = getKPIDefinition(key, customKPIs);
             if (!def) return null;
+            const setting = settingFor(key);
             return (
-              <div
-                key={key}
-                draggable
-                onDragStart={() => handleDragStart(key)}
-                onDragOver={(e) => handleDragOver(e, index)}
-                onDrop={() => handleDrop(index)}
-                onDragEnd={handleDragEnd}
-                className={`flex items-center gap-3 px-3 py-2 rounded-md border transition-colors ${
-                  dragOverIndex === index
-                    ? 'border-[var(--accent)] bg-blue-50'
-                    : 'border-[var(--border-default)] bg-white'
-                } ${draggedKey === key ? 'opacity-40' : ''}`}
-              >
-                <span className="cursor-grab text-[var(--text-muted)] select-none" style={{ fontSize: '16px' }}>
-                  ⠿
-                </span>
-                <span className="text-[12px] font-medium text-[var(--text-muted)] w-5 text-right tabular-nums">
-                  {index + 1}
-                </span>
-                <span className="text-[13px] font-medium text-[var(--text-primary)] flex-1">
-                  {def.label}
-                </span>
-                <span className="text-[11px] text-[var(--text-muted)] px-1.5 py-0.5 bg-[var(--bg-table-header)] rounded">
-                  {def.category}
-                </span>
-                <button
-                  onClick={() => handleToggle(key)}
-                  className="text-[11px] text-red-500 hover:text-red-700 font-medium"
+              <Fragment key={key}>
+                <div
+                  draggable
+                  onDragStart={() => handleDragStart(key)}
+                  onDragOver={(e) => handleDragOver(e, index)}
+                  onDrop={() => handleDrop(index)}
+                  onDragEnd={handleDragEnd}
+                  className={`flex items-center gap-3 px-3 py-2 rounded-md border transition-colors ${
+                    dragOverIndex === index
+                      ? 'border-[var(--accent)] bg-blue-50'
+                      : 'border-[var(--border-default)] bg-white'
+                  } ${draggedKey === key ? 'opacity-40' : ''}`}
                 >
-                  Remove
-                </button>
-              </div>
+                  <span className="cursor-grab text-[var(--text-muted)] select-none" style={{ fontSize: '16px' }}>
+                    ⠿
+                  </span>
+                  <span className="text-[12px] font-medium text-[var(--text-muted)] w-5 text-right tabular-nums">
+                    {index + 1}
+                  </span>
+                  <span className="text-[13px] font-medium text-[var(--text-primary)] flex-1">
+                    {def.label}
+                  </span>
+                  {setting?.thresholds && (
+                    <span className="text-[11px] text-[var(--text-muted)]">custom colors</span>
+                  )}
+                  {setting && setting.targets.length > 0 && (
+                    <span className="text-[11px] text-[var(--text-muted)]">
+                      {setting.targets.length} target{setting.targets.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                  <span className="text-[11px] text-[var(--text-muted)] px-1.5 py-0.5 bg-[var(--bg-table-header)] rounded">
+                    {def.category}
+                  </span>
+                  <button
+                    onClick={() => setSettingsKey(settingsKey === key ? null : key)}
+                    className="text-[11px] text-[var(--accent)] hover:underline font-medium"
+                  >
+                    {settingsKey === key ? 'Hide' : 'Targets'}
+                  </button>
+                  <button
+                    onClick={() => handleToggle(key)}
+                    className="text-[11px] text-red-500 hover:text-red-700 font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {settingsKey === key && (
+                  <KPISettingsEditor
+                    def={def}
+                    setting={setting ?? { key, targets: [] }}
+                    onSave={async (next) => {
+                      try {
+                        await saveKPISetting(next);
+                      } catch (error) {
+                        console.error('Save KPI settings failed:', error);
+                        alert('Save KPI settings failed: ' + (error instanceof Error ? error.message : String(error)));
+                      }
+                    }}
+                  />
+                )}
+              </Fragment>
             );
           })}
           {selectedCards.length === 0 && (
@@ -214,6 +297,539 @@ export function KPICardsConfig() {
           );
         })}
       </div>
+
+      {/* Custom KPIs */}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-[13px] font-semibold text-[var(--text-primary)]">Custom KPIs</h3>
+          {!draft && (
+            <button
+              onClick={() => setDraft({ ...EMPTY_DRAFT, thresholds: { ...EMPTY_DRAFT.thresholds } })}
+              className="text-[12px] font-medium px-3 py-1.5 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+            >
+              New Custom KPI
+            </button>
+          )}
+        </div>
+        <p className="text-[12px] text-[var(--text-muted)] mb-2">
+          Define a KPI as a formula over filtered hour sums and counts, e.g. <code>lab / npd</code>.
+          Values are computed for each month like the built-in KPIs.
+        </p>
+
+        {draft && (
+          <CustomKPIBuilder
+            draft={draft}
+            onChange={setDraft}
+            onCancel={() => setDraft(null)}
+            onSave={async () => {
+              try {
+                const key = await saveCustomKPI(draft);
+                if (!draft.key && !selectedCards.includes(key)) await save([...selectedCards, key]);
+                setDraft(null);
+              } catch (error) {
+                console.error('Save custom KPI failed:', error);
+                alert('Save custom KPI failed: ' + (error instanceof Error ? error.message : String(error)));
+              }
+            }}
+          />
+        )}
+
+        <div className="space-y-1">
+          {customKPIs.map(kpi => {
+            const isSelected = selectedCards.includes(kpi.key);
+            return (
+              <div
+                key={kpi.key}
+                className={`flex items-center gap-3 px-3 py-2 rounded-md border transition-colors ${
+                  isSelected
+                    ? 'border-[var(--accent)] bg-blue-50/50'
+                    : 'border-[var(--border-subtle)] bg-white'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => handleToggle(kpi.key)}
+                  className="rounded border-[var(--border-input)] text-[var(--accent)] focus:ring-[var(--accent-focus-ring)]"
+                />
+                <div className="flex-1 min-w-0">
+                  <span className="text-[13px] font-medium text-[var(--text-primary)]">{kpi.label}</span>
+                  <p className="text-[11px] text-[var(--text-muted)] mt-0.5 truncate font-mono">{kpi.formula}</p>
+                </div>
+                <span className="text-[11px] text-[var(--text-muted)] whitespace-nowrap">{kpi.format}</span>
+                <button
+                  onClick={() => setDraft(structuredClone(kpi))}
+                  className="text-[11px] text-[var(--accent)] hover:underline font-medium"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Delete custom KPI "${kpi.label}"? It will be removed from the dashboard cards.`)) {
+                      deleteCustomKPI(kpi.key);
+                    }
+                  }}
+                  className="text-[11px] text-red-500 hover:text-red-700 font-medium"
+                >
+                  Delete
+                </button>
+              </div>
+            );
+          })}
+          {customKPIs.length === 0 && !draft && (
+            <p className="text-[12px] text-[var(--text-muted)] italic py-4 text-center">
+              No custom KPIs yet.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CustomKPIBuilderProps {
+  draft: CustomKPIDraft;
+  onChange: (draft: CustomKPIDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+/** Form for creating or editing one custom KPI */
+function CustomKPIBuilder({ draft, onChange, onSave, onCancel }: CustomKPIBuilderProps) {
+  const error = validateCustomKPI(draft);
+
+  const updateTerm = (index: number, changes: Partial<CustomKPITerm>) => {
+    onChange({ ...draft, terms: draft.terms.map((t, i) => (i === index ? { ...t, ...changes } : t)) });
+  };
+
+  const addTerm = () => {
+    onChange({ ...draft, terms: [...draft.terms, { name: `term${draft.terms.length + 1}`, measure: 'hours' }] });
+  };
+
+  const removeTerm = (index: number) => {
+    onChange({ ...draft, terms: draft.terms.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="mb-3 p-4 rounded-lg border border-[var(--accent)] bg-white space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input
+            type="text"
+            value={draft.label}
+            onChange={(e) => onChange({ ...draft, label: e.target.value })}
+            className={inputClass}
+            placeholder="e.g., Lab Hours per NPD Hour"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Format</label>
+          <select
+            value={draft.format}
+            onChange={(e) => onChange({ ...draft, format: e.target.value as KPIFormat })}
+            className={inputClass}
+          >
+            {(Object.keys(FORMAT_LABELS) as KPIFormat[]).map(f => (
+              <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-2">
+          <label className={labelClass}>Description</label>
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => onChange({ ...draft, description: e.target.value })}
+            className={inputClass}
+            placeholder="Shown under the card name; defaults to the formula"
+          />
+        </div>
+      </div>
+
+      {/* Terms */}
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <span className="text-[12px] font-semibold text-[var(--text-secondary)] uppercase tracking-wider">Terms</span>
+          <button onClick={addTerm} className="text-[12px] font-medium text-[var(--accent)] hover:underline">
+            + Add Term
+          </button>
+        </div>
+        <div className="space-y-2">
+          {draft.terms.map((term, index) => (
+            <div key={index} className="p-3 rounded-md border border-[var(--border-default)] space-y-2">
+              <div className="flex items-end gap-3">
+                <div className="w-40">
+                  <label className={labelClass}>Name in formula</label>
+                  <input
+                    type="text"
+                    value={term.name}
+                    onChange={(e) => updateTerm(index, { name: e.target.value.trim() })}
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+                <div className="w-48">
+                  <label className={labelClass}>Measure</label>
+                  <select
+                    value={term.measure}
+                    onChange={(e) => updateTerm(index, { measure: e.target.value as CustomKPIMeasure })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(MEASURE_LABELS) as CustomKPIMeasure[]).map(m => (
+                      <option key={m} value={m}>{MEASURE_LABELS[m]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex-1">
+                  <label className={labelClass}>R# (comma-separated, includes sub-projects)</label>
+                  <input
+                    type="text"
+                    defaultValue={term.r_numbers?.join(', ') ?? ''}
+                    onBlur={(e) => {
+                      const rNumbers = e.target.value.split(',').map(r => r.trim()).filter(Boolean);
+                      updateTerm(index, { r_numbers: rNumbers.length > 0 ? rNumbers : undefined });
+                    }}
+                    className={inputClass}
+                    placeholder="Any"
+                  />
+                </div>
+                <button
+                  onClick={() => removeTerm(index)}
+                  className="text-[11px] text-red-500 hover:text-red-700 font-medium pb-2"
+                >
+                  Remove
+                </button>
+              </div>
+              <FilterPills
+                label="Project type"
+                options={Object.values(ProjectType)}
+                selected={term.project_types}
+                onChange={(project_types) => updateTerm(index, { project_types })}
+              />
+              <FilterPills
+                label="Work class"
+                options={Object.values(WorkClass)}
+                selected={term.work_classes}
+                onChange={(work_classes) => updateTerm(index, { work_classes })}
+              />
+              <FilterPills
+                label="Activity"
+                options={Object.values(ActivityType)}
+                selected={term.activities}
+                onChange={(activities) => updateTerm(index, { activities })}
+              />
+              <FilterPills
+                label="Role"
+                options={Object.values(PersonRole)}
+                selected={term.roles}
+                onChange={(roles) => updateTerm(index, { roles })}
+              />
+            </div>
+          ))}
+          {draft.terms.length === 0 && (
+            <p className="text-[12px] text-[var(--text-muted)] italic">
+              No terms — the formula can still use built-in KPI values.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Formula */}
+      <div>
+        <label className={labelClass}>Formula</label>
+        <input
+          type="text"
+          value={draft.formula}
+          onChange={(e) => onChange({ ...draft, formula: e.target.value })}
+          className={`${inputClass} font-mono`}
+          placeholder="e.g., lab / npd"
+        />
+        <p className="text-[11px] text-[var(--text-muted)] mt-1">
+          Combine names with <code>+ - * /</code> and parentheses. Besides terms, these built-in values are available:{' '}
+          <span className="font-mono">{FORMULA_BUILTINS.join(', ')}</span>. Division by zero gives 0.
+        </p>
+      </div>
+
+      {/* Thresholds */}
+      <ThresholdFields
+        green={draft.thresholds.green}
+        yellow={draft.thresholds.yellow}
+        onChange={(green, yellow) => onChange({ ...draft, thresholds: { ...draft.thresholds, green, yellow } })}
+      >
+        <label className="flex items-center gap-2 text-[12px] text-[var(--text-secondary)] pb-2">
+          <input
+            type="checkbox"
+            checked={draft.thresholds.invertColor ?? false}
+            onChange={(e) => onChange({ ...draft, thresholds: { ...draft.thresholds, invertColor: e.target.checked || undefined } })}
+            className="rounded border-[var(--border-input)]"
+          />
+          Falling is good (trend arrows)
+        </label>
+      </ThresholdFields>
+
+      <div className="flex items-center justify-end gap-2 pt-1">
+        {error && <span className="text-[12px] text-[var(--status-danger)] mr-auto">{error}</span>}
+        <button
+          onClick={onCancel}
+          className="text-[13px] font-medium px-4 py-2 rounded-md border border-[var(--border-input)] text-[var(--text-secondary)] bg-white hover:bg-[var(--bg-table-header)]"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onSave}
+          disabled={error !== null}
+          className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)] disabled:opacity-50"
+        >
+          {draft.key ? 'Save KPI' : 'Create KPI'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface FilterPillsProps<T extends string> {
+  label: string;
+  options: T[];
+  selected: T[] | undefined;
+  onChange: (selected: T[] | undefined) => void;
+}
+
+/** Toggleable filter values; none selected means no filter */
+function FilterPills<T extends string>({ label, options, selected, onChange }: FilterPillsProps<T>) {
+  const toggle = (option: T) => {
+    const next = selected?.includes(option)
+      ? selected.filter(o => o !== option)
+      : [...(selected ?? []), option];
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-[11px] text-[var(--text-muted)] w-24">{label}</span>
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => toggle(option)}
+          className={`text-[11px] px-2 py-0.5 rounded-full border transition-colors ${
+            selected?.includes(option)
+              ? 'border-[var(--accent)] bg-[var(--accent)] text-white'
+              : 'border-[var(--border-input)] text-[var(--text-secondary)] bg-white hover:bg-[var(--bg-table-header)]'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+      {!selected?.length && <span className="text-[11px] text-[var(--text-muted)] italic">any</span>}
+    </div>
+  );
+}
+
+interface ThresholdFieldsProps {
+  green: number;
+  yellow: number;
+  onChange: (green: number, yellow: number) => void;
+  children?: React.ReactNode;
+}
+
+/** Green/yellow color threshold inputs with how they are read */
+function ThresholdFields({ green, yellow, onChange, children }: ThresholdFieldsProps) {
+  return (
+    <div>
+      <div className="flex items-end gap-3">
+        <div className="w-32">
+          <label className={labelClass}>Green at</label>
+          <input
+            type="number"
+            value={green}
+            onChange={(e) => onChange(parseFloat(e.target.value) || 0, yellow)}
+            className={inputClass}
+            step="any"
+          />
+        </div>
+        <div className="w-32">
+          <label className={labelClass}>Yellow at</label>
+          <input
+            type="number"
+            value={yellow}
+            onChange={(e) => onChange(green, parseFloat(e.target.value) || 0)}
+            className={inputClass}
+            step="any"
+          />
+        </div>
+        {children}
+      </div>
+      <p className="text-[11px] text-[var(--text-muted)] mt-1">
+        Green above yellow means higher is better (green at or above it); otherwise lower is better.
+        Compared against the raw value (0.25 for 25%). Set both to 999 for no color coding.
+      </p>
+    </div>
+  );
+}
+
+interface KPISettingsEditorProps {
+  def: KPIDefinition;
+  setting: KPISetting;
+  onSave: (setting: KPISetting) => void;
+}
+
+/** Threshold override and period targets for one active KPI card */
+function KPISettingsEditor({ def, setting, onSave }: KPISettingsEditorProps) {
+  const [thresholds, setThresholds] = useState(setting.thresholds ?? { green: def.thresholds.green, yellow: def.thresholds.yellow });
+  const [periodType, setPeriodType] = useState<'month' | 'quarter'>('month');
+  const [month, setMonth] = useState('');
+  const [quarter, setQuarter] = useState('');
+  const [targetValue, setTargetValue] = useState('');
+
+  const thresholdsChanged = thresholds.green !== (setting.thresholds ?? def.thresholds).green
+    || thresholds.yellow !== (setting.thresholds ?? def.thresholds).yellow;
+  const autoMode = getTargetMode(
+    { ...def, thresholds: { ...def.thresholds, ...setting.thresholds } },
+    { ...setting, target_mode: undefined },
+  );
+
+  const handleAddTarget = () => {
+    const period = periodType === 'month' ? month : quarter;
+    const value = parseFloat(targetValue);
+    if (!period || isNaN(value)) {
+      alert('Period and target value are required');
+      return;
+    }
+    const targets = [...setting.targets.filter(t => t.period !== period), { period, value }]
+      .sort((a, b) => a.period.localeCompare(b.period));
+    onSave({ ...setting, targets });
+    setTargetValue('');
+  };
+
+  // Quarters from last year through next year
+  const year = new Date().getFullYear();
+  const quarterOptions = [year - 1, year, year + 1].flatMap(y => [1, 2, 3, 4].map(q => `${y}-Q${q}`));
+
+  return (
+    <div className="ml-8 mb-2 p-3 rounded-md border border-[var(--border-default)] bg-[var(--bg-table-header)]/40 space-y-4">
+      {/* Threshold override */}
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <span className="text-[12px] font-semibold text-[var(--text-secondary)] uppercase tracking-wider">Color Thresholds</span>
+          <span className="text-[11px] text-[var(--text-muted)]">
+            Default: green {def.thresholds.green}, yellow {def.thresholds.yellow}
+          </span>
+        </div>
+        <ThresholdFields
+          green={thresholds.green}
+          yellow={thresholds.yellow}
+          onChange={(green, yellow) => setThresholds({ green, yellow })}
+        >
+          <button
+            onClick={() => onSave({ ...setting, thresholds })}
+            disabled={!thresholdsChanged}
+            className="text-[12px] font-medium px-3 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)] disabled:opacity-50"
+          >
+            Apply
+          </button>
+          {setting.thresholds && (
+            <button
+              onClick={() => {
+                setThresholds({ green: def.thresholds.green, yellow: def.thresholds.yellow });
+                onSave({ ...setting, thresholds: undefined });
+              }}
+              className="text-[12px] font-medium text-[var(--text-muted)] hover:underline pb-2"
+            >
+              Reset to default
+            </button>
+          )}
+        </ThresholdFields>
+      </div>
+
+      {/* Targets */}
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <span className="text-[12px] font-semibold text-[var(--text-secondary)] uppercase tracking-wider">Targets</span>
+          <label className="flex items-center gap-2 text-[11px] text-[var(--text-muted)]">
+            Met when the value is
+            <select
+              value={setting.target_mode ?? ''}
+              onChange={(e) => onSave({ ...setting, target_mode: (e.target.value || undefined) as KPITargetMode | undefined })}
+              className="text-[11px] px-2 py-1 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)]"
+            >
+              <option value="">{autoMode === 'at_least' ? 'at least' : 'at most'} the target (auto)</option>
+              <option value="at_least">at least the target</option>
+              <option value="at_most">at most the target</option>
+            </select>
+          </label>
+        </div>
+
+        {setting.targets.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {setting.targets.map(t => (
+              <span
+                key={t.period}
+                className="inline-flex items-center gap-1.5 text-[12px] px-2 py-1 rounded-md border border-[var(--border-default)] bg-white"
+              >
+                <span className="text-[var(--text-muted)]">
+                  {t.period.includes('Q') ? formatTargetPeriod(t.period) : formatMonth(t.period)}
+                </span>
+                <span className="font-medium text-[var(--text-primary)]">{formatTargetValue(t.value, def)}</span>
+                <button
+                  onClick={() => onSave({ ...setting, targets: setting.targets.filter(x => x.period !== t.period) })}
+                  className="text-[var(--text-muted)] hover:text-red-600"
+                  title="Remove target"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className={labelClass}>Period</label>
+            <select
+              value={periodType}
+              onChange={(e) => setPeriodType(e.target.value as 'month' | 'quarter')}
+              className={inputClass}
+            >
+              <option value="month">Month</option>
+              <option value="quarter">Quarter</option>
+            </select>
+          </div>
+          {periodType === 'month' ? (
+            <div>
+              <label className={labelClass}>Month</label>
+              <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClass} />
+            </div>
+          ) : (
+            <div>
+              <label className={labelClass}>Quarter</label>
+              <select value={quarter} onChange={(e) => setQuarter(e.target.value)} className={inputClass}>
+                <option value="">Select…</option>
+                {quarterOptions.map(q => (
+                  <option key={q} value={q}>{formatTargetPeriod(q)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="w-32">
+            <label className={labelClass}>Target{def.format === 'percent' ? ' (0–1)' : ''}</label>
+            <input
+              type="number"
+              value={targetValue}
+              onChange={(e) => setTargetValue(e.target.value)}
+              className={inputClass}
+              step="any"
+            />
+          </div>
+          <button
+            onClick={handleAddTarget}
+            className="text-[12px] font-medium px-3 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+          >
+            Set Target
+          </button>
+        </div>
+        <p className="text-[11px] text-[var(--text-muted)] mt-1">
+          A quarterly target applies to each month of the quarter unless the month has its own.
+        </p>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { usePlanBaselines } from '../hooks/usePlanBaselines';
+import { formatHours } from '../utils/format';
+import type { PlanBaseline } from '../types';
+
+export function PlanBaselinesConfig() {
+  const { baselines, loading, createBaseline, deleteBaseline } = usePlanBaselines();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      alert('Baseline name is required');
+      return;
+    }
+    if (baselines.some(b => b.name.toLowerCase() === trimmed.toLowerCase())) {
+      alert(`A baseline named "${trimmed}" already exists`);
+      return;
+    }
+    setSaving(true);
+    try {
+      await createBaseline(trimmed, description);
+      setName('');
+      setDescription('');
+    } catch (error) {
+      alert('Saving baseline failed: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (baseline: PlanBaseline) => {
+    if (!confirm(`Delete baseline "${baseline.name}"?\n\nViews comparing against it will switch to the current plan.`)) return;
+    await deleteBaseline(baseline.id!);
+  };
+
+  if (loading) {
+    return <div className="p-4 text-[var(--text-muted)]">Loading...</div>;
+  }
+
+  const inputClass = 'w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-focus-ring)] focus:outline-none';
+
+  return (
+    <div className="space-y-5">
+      <div className="bg-[var(--accent-light)] border border-[var(--border-default)] rounded-lg p-4 space-y-4">
+        <h3 className="font-medium text-[var(--text-primary)]">Freeze Current Plan</h3>
+        <p className="text-[13px] text-[var(--text-secondary)]">
+          Saves a copy of every resource allocation and planned project hour as they stand now.
+          Later edits to the plan don't change the baseline.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+              Name *
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              placeholder="e.g., FY26 Budget"
+            />
+          </div>
+          <div>
+            <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+              Description
+            </label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+              placeholder="e.g., Approved at the March planning review"
+            />
+          </div>
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={saving}
+          className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)] disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save Baseline'}
+        </button>
+      </div>
+
+      {baselines.length === 0 ? (
+        <div className="p-6 text-center text-[13px] text-[var(--text-muted)] border border-dashed border-[var(--border-default)] rounded-lg">
+          No baselines yet. Planned-vs-actual views compare against the current plan until one is saved.
+        </div>
+      ) : (
+        <div className="rounded-lg border border-[var(--border-default)] overflow-hidden">
+          <table className="min-w-full divide-y divide-[var(--border-default)]">
+            <thead className="bg-[var(--bg-table-header)]">
+              <tr>
+                <th className="px-4 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">Baseline</th>
+                <th className="px-4 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">Saved</th>
+                <th className="px-4 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">Months</th>
+                <th className="px-4 py-3 text-right text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">Allocations</th>
+                <th className="px-4 py-3 text-right text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">Planned Hours</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-[var(--border-subtle)]">
+              {baselines.map(baseline => {
+                const months = [...new Set(baseline.allocations.map(a => a.month))].sort();
+                const totalHours = baseline.allocations.reduce((sum, a) => sum + a.planned_hours, 0);
+                return (
+                  <tr key={baseline.id} className="hover:bg-[var(--bg-table-hover)]">
+                    <td className="px-4 py-3 text-[13px]">
+                      <p className="font-medium text-[var(--text-primary)]">{baseline.name}</p>
+                      {baseline.description && (
+                        <p className="text-[12px] text-[var(--text-muted)]">{baseline.description}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-[13px] text-[var(--text-secondary)]">
+                      {format(new Date(baseline.created_at), 'MMM d, yyyy')}
+                      {baseline.created_by && <span className="text-[var(--text-muted)]"> · {baseline.created_by}</span>}
+                    </td>
+                    <td className="px-4 py-3 text-[13px] text-[var(--text-secondary)]">
+                      {months.length === 0 ? '—' : months.length === 1 ? months[0] : `${months[0]} – ${months[months.length - 1]}`}
+                    </td>
+                    <td className="px-4 py-3 text-[13px] text-right text-[var(--text-secondary)]">
+                      {baseline.allocations.length.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-[13px] text-right text-[var(--text-secondary)]">
+                      {formatHours(totalHours)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleDelete(baseline)}
+                        className="text-[12px] font-medium text-[var(--status-danger)] hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
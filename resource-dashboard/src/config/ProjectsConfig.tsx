@@ -5,9 +5,15 @@ import { db } from '../db/database';
 import { ProjectType, WorkClass } from '../types';
 import type { ProjectSkillRequirement } from '../types';
 import { ProjectSkillTagEditor } from './ProjectSkillTagEditor';
+import { buildProjectHierarchy, getProjectParent } from '../aggregation/projectUtils';
+
+// Select value for "no explicit parent — use the dot rule"
+const AUTO_PARENT = '__auto__';
 
 export function ProjectsConfig() {
-  const { projects, updateProject, loading } = useProjects();
+  const { projects, updateProject, addProject, loading } = useProjects();
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newProgram, setNewProgram] = useState({ project_id: '', project_name: '', type: ProjectType.NPD as ProjectType });
   const teamMembers = useLiveQuery(() => db.teamMembers.toArray()) ?? [];
   const [typeFilter, setTypeFilter] = useState<Set<ProjectType>>(
     new Set([ProjectType.NPD, ProjectType.Sustaining, ProjectType.Admin, ProjectType.OutOfOffice, ProjectType.Sprint])
@@ -36,7 +42,33 @@ export function ProjectsConfig() {
     setTypeFilter(newFilter);
   };
 
-  const filteredProjects = projects.filter(p => typeFilter.has(p.type));
+  const hierarchy = buildProjectHierarchy(projects);
+  const filteredProjects = hierarchy.ordered(projects.filter(p => typeFilter.has(p.type)));
+
+  const handleParentChange = (projectId: string, value: string) => {
+    updateProject(projectId, { parent_id: value === AUTO_PARENT ? undefined : value });
+  };
+
+  const handleAddProgram = async () => {
+    const id = newProgram.project_id.trim();
+    if (!id || !newProgram.project_name.trim()) {
+      alert('Code and name are required');
+      return;
+    }
+    if (projects.some(p => p.project_id === id)) {
+      alert(`${id} already exists`);
+      return;
+    }
+    await addProject({
+      project_id: id,
+      project_name: newProgram.project_name.trim(),
+      type: newProgram.type,
+      work_class: WorkClass.Planned,
+      parent_id: '',
+    });
+    setNewProgram({ project_id: '', project_name: '', type: ProjectType.NPD });
+    setShowAddForm(false);
+  };
 
   if (loading) {
     return <div className="p-4 text-[var(--text-muted)]">Loading...</div>;
@@ -48,6 +80,70 @@ export function ProjectsConfig() {
 
   return (
     <div className="space-y-5">
+      <div className="flex items-center justify-end">
+        <button
+          onClick={() => setShowAddForm(!showAddForm)}
+          className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+        >
+          {showAddForm ? 'Cancel' : 'Add Program'}
+        </button>
+      </div>
+
+      {showAddForm && (
+        <div className="bg-[var(--accent-light)] border border-[var(--border-default)] rounded-lg p-4 space-y-4">
+          <h3 className="font-medium text-[var(--text-primary)]">Add Program</h3>
+          <p className="text-[13px] text-[var(--text-secondary)]">
+            A program groups unrelated R#s (e.g. R1527 and S0082) — set it as their parent below to roll them up together.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+                Code *
+              </label>
+              <input
+                type="text"
+                value={newProgram.project_id}
+                onChange={(e) => setNewProgram({ ...newProgram, project_id: e.target.value })}
+                className="w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)]"
+                placeholder="e.g., PRG-VORTEX"
+              />
+            </div>
+            <div>
+              <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+                Name *
+              </label>
+              <input
+                type="text"
+                value={newProgram.project_name}
+                onChange={(e) => setNewProgram({ ...newProgram, project_name: e.target.value })}
+                className="w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)]"
+                placeholder="e.g., Vortex Program"
+              />
+            </div>
+            <div>
+              <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+                Type
+              </label>
+              <select
+                value={newProgram.type}
+                onChange={(e) => setNewProgram({ ...newProgram, type: e.target.value as ProjectType })}
+                className="w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)]"
+              >
+                {Object.values(ProjectType).map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <button
+            onClick={handleAddProgram}
+            className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+          >
+            Add Program
+          </button>
+        </div>
+      )}
+
       {/* Type filter */}
       <div>
         <h3 className="text-[13px] font-medium text-[var(--text-secondary)] mb-3">Filter by Type</h3>
@@ -78,6 +174,9 @@ export function ProjectsConfig() {
               <th className="px-6 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
                 Project Name
               </th>
+              <th className="px-6 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
+                Parent
+              </th>
               <th className="px-6 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
                 Type
               </th>
@@ -90,13 +189,15 @@ export function ProjectsConfig() {
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-[var(--border-subtle)]">
-            {filteredProjects.map((project) => {
+            {filteredProjects.map(({ project, depth }) => {
               const reqs = requirementsByProject.get(project.project_id) ?? [];
+              const dotParent = getProjectParent(project.project_id);
               return (
                 <React.Fragment key={project.project_id}>
                 <tr className="hover:bg-[var(--bg-table-hover)]">
                   <td className="px-6 py-4 text-[13px] font-medium text-[var(--text-primary)]">
-                    <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-2" style={{ paddingLeft: depth * 16 }}>
+                      {depth > 0 && <span className="text-[var(--text-muted)]">↳</span>}
                       {project.project_id}
                       <button
                         onClick={() => setExpandedProjectId(
@@ -117,6 +218,25 @@ export function ProjectsConfig() {
                       className="w-full text-[13px] px-2 py-1 border border-[var(--border-input)] rounded bg-[var(--bg-input)] text-[var(--text-primary)]"
                     />
                   </td>
+                  <td className="px-6 py-4">
+                    <select
+                      value={project.parent_id ?? AUTO_PARENT}
+                      onChange={(e) => handleParentChange(project.project_id, e.target.value)}
+                      className="max-w-[180px] text-[13px] px-2 py-1 border border-[var(--border-input)] rounded bg-[var(--bg-input)] text-[var(--text-primary)]"
+                    >
+                      <option value={AUTO_PARENT}>
+                        Auto ({dotParent !== project.project_id ? dotParent : 'top level'})
+                      </option>
+                      <option value="">— Top level</option>
+                      {projects
+                        // A project can't sit under itself or its own descendants
+                        .filter(p => !hierarchy.isWithin(p.project_id, project.project_id))
+                        .sort((a, b) => a.project_id.localeCompare(b.project_id))
+                        .map(p => (
+                          <option key={p.project_id} value={p.project_id}>{p.project_id} - {p.project_name}</option>
+                        ))}
+                    </select>
+                  </td>
                   <td className="px-6 py-4">
                     <select
                       value={project.type}
@@ -179,7 +299,7 @@ export function ProjectsConfig() {
                 </tr>
                 {expandedProjectId === project.project_id && (
                   <tr className="bg-[var(--bg-table-header)]">
-                    <td colSpan={5} className="px-6 py-3">
+                    <td colSpan={6} className="px-6 py-3">
                       <div className="grid grid-cols-3 gap-4">
                         <div>
                           <label className="block text-[11px] font-medium text-[var(--text-muted)] uppercase mb-1">Product Category</label>
@@ -1,12 +1,19 @@
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useTeamMembers } from '../hooks/useTeamMembers';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
+import { findLikelyDuplicates, removePersonAlias } from '../db/personIdentity';
 import { PersonRole } from '../types';
+import type { CapacityChange, TeamMember } from '../types';
+import { getCapacityOverride } from '../utils/capacity';
 
 export function TeamMembersConfig() {
-  const { teamMembers, updateMember, addMember, loading } = useTeamMembers();
+  const { teamMembers, updateMember, addMember, mergeMember, loading } = useTeamMembers();
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showMergeForm, setShowMergeForm] = useState(false);
+  const [mergeFromId, setMergeFromId] = useState(0);
+  const [mergeIntoId, setMergeIntoId] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
   const [newMember, setNewMember] = useState({
     person_id: 0,
     person: '',
@@ -29,6 +36,9 @@ export function TeamMembersConfig() {
     return hoursMap;
   });
 
+  const duplicates = useLiveQuery(() => findLikelyDuplicates());
+  const aliases = useLiveQuery(() => db.personAliases.toCollection().sortBy('full_name'));
+
   const handleRoleChange = (personId: number, newRole: PersonRole) => {
     updateMember(personId, { role: newRole });
   };
@@ -67,13 +77,46 @@ export function TeamMembersConfig() {
     setShowAddForm(false);
   };
 
+  const handleMerge = async (from: TeamMember, into: TeamMember) => {
+    if (!confirm(
+      `Merge "${from.full_name}" into "${into.full_name}"?\n\n` +
+      `Timesheets, allocations, skill ratings, planned leave, scenario allocations and action items move to ${into.full_name}, ` +
+      `and ${from.full_name} is removed. Future imports of ${from.full_name}'s LP account are merged too. This cannot be undone.`
+    )) return;
+
+    try {
+      const result = await mergeMember(from.person_id, into.person_id);
+      alert(
+        `Merged ${from.full_name} into ${into.full_name}: ` +
+        `${result.timesheetRows.toLocaleString()} timesheet rows, ${result.allocations} allocations, ` +
+        `${result.skills} skill ratings, ${result.leave} leave entries, ${result.scenarioAllocations} scenario allocations, ` +
+        `${result.weeklyUpdates} weekly updates and ${result.projects} projects updated.`
+      );
+      setShowMergeForm(false);
+      setMergeFromId(0);
+      setMergeIntoId(0);
+    } catch (error) {
+      alert('Merge failed: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+  const mergeFrom = teamMembers.find(m => m.person_id === mergeFromId);
+  const mergeInto = teamMembers.find(m => m.person_id === mergeIntoId);
+
   if (loading) {
     return <div className="p-4 text-[var(--text-muted)]">Loading...</div>;
   }
 
   return (
     <div className="space-y-5">
-      <div className="flex items-center justify-end">
+      <div className="flex items-center justify-end gap-3">
+        <button
+          onClick={() => setShowMergeForm(!showMergeForm)}
+          className="text-[13px] font-medium px-4 py-2 rounded-md text-[var(--text-secondary)] bg-[var(--bg-panel)] border border-[var(--border-default)] hover:bg-[var(--bg-table-header)]"
+        >
+          {showMergeForm ? 'Cancel' : 'Merge People'}
+        </button>
         <button
           onClick={() => setShowAddForm(!showAddForm)}
           className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
@@ -142,6 +185,82 @@ export function TeamMembersConfig() {
         </div>
       )}
 
+      {showMergeForm && (
+        <div className="bg-[var(--accent-light)] border border-[var(--border-default)] rounded-lg p-4 space-y-4">
+          <h3 className="font-medium text-[var(--text-primary)]">Merge Two Identities</h3>
+          <p className="text-[13px] text-[var(--text-secondary)]">
+            Use this when one person appears twice — after a name change or a new LiquidPlanner account.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+                Merge (removed)
+              </label>
+              <select
+                value={mergeFromId}
+                onChange={(e) => setMergeFromId(Number(e.target.value))}
+                className="w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)]"
+              >
+                <option value={0}>Select a person...</option>
+                {teamMembers.map(m => (
+                  <option key={m.person_id} value={m.person_id}>{m.full_name} ({m.person})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1.5">
+                Into (kept)
+              </label>
+              <select
+                value={mergeIntoId}
+                onChange={(e) => setMergeIntoId(Number(e.target.value))}
+                className="w-full text-[13px] px-3 py-2 border border-[var(--border-input)] rounded-md bg-[var(--bg-input)] text-[var(--text-primary)]"
+              >
+                <option value={0}>Select a person...</option>
+                {teamMembers.filter(m => m.person_id !== mergeFromId).map(m => (
+                  <option key={m.person_id} value={m.person_id}>{m.full_name} ({m.person})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <button
+            onClick={() => mergeFrom && mergeInto && handleMerge(mergeFrom, mergeInto)}
+            disabled={!mergeFrom || !mergeInto || mergeFrom === mergeInto}
+            className="text-[13px] font-medium px-4 py-2 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)] disabled:opacity-50"
+          >
+            Merge
+          </button>
+        </div>
+      )}
+
+      {duplicates && duplicates.length > 0 && (
+        <div className="border rounded-lg p-4 space-y-2 bg-[var(--status-warn-bg)] border-[var(--status-warn-border)]">
+          <h3 className="text-[13px] font-medium text-[var(--status-warn)]">
+            Possible duplicates ({duplicates.length})
+          </h3>
+          <ul className="space-y-1.5">
+            {duplicates.map(d => (
+              <li key={`${d.keep.person_id}-${d.merge.person_id}`} className="flex items-center justify-between gap-3 text-[13px]">
+                <span className="text-[var(--text-primary)]">
+                  <span className="font-medium">{d.merge.full_name}</span>
+                  <span className="text-[var(--text-muted)]"> ({d.merge.person})</span>
+                  {' and '}
+                  <span className="font-medium">{d.keep.full_name}</span>
+                  <span className="text-[var(--text-muted)]"> ({d.keep.person})</span>
+                  <span className="text-[11px] text-[var(--text-muted)]"> — {d.reason}</span>
+                </span>
+                <button
+                  onClick={() => handleMerge(d.merge, d.keep)}
+                  className="shrink-0 text-[11px] text-[var(--accent)] hover:underline"
+                >
+                  Merge into {d.keep.full_name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="rounded-lg border border-[var(--border-default)] overflow-hidden">
         <table className="min-w-full divide-y divide-[var(--border-default)]">
           <thead className="bg-[var(--bg-table-header)]">
@@ -161,45 +280,74 @@ export function TeamMembersConfig() {
               <th className="px-6 py-3 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]">
                 Exclude from Capacity
               </th>
+              <th className="px-6 py-3" />
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-[var(--border-subtle)]">
             {teamMembers.map((member) => (
-              <tr key={member.person_id} className="hover:bg-[var(--bg-table-hover)]">
-                <td className="px-6 py-4 text-[13px] font-medium text-[var(--text-primary)]">
-                  {member.full_name}
-                </td>
-                <td className="px-6 py-4">
-                  <select
-                    value={member.role}
-                    onChange={(e) => handleRoleChange(member.person_id, e.target.value as PersonRole)}
-                    className="text-[13px] px-2 py-1 border border-[var(--border-input)] rounded bg-[var(--bg-input)] text-[var(--text-primary)]"
-                  >
-                    <option value={PersonRole.Engineer}>Engineer</option>
-                    <option value={PersonRole.LabTechnician}>Lab Technician</option>
-                  </select>
-                </td>
-                <td className="px-6 py-4">
-                  <input
-                    type="number"
-                    value={member.capacity_override_hours}
-                    onChange={(e) => handleCapacityChange(member.person_id, parseFloat(e.target.value))}
-                    className="w-24 text-[13px] px-2 py-1 border border-[var(--border-input)] rounded bg-[var(--bg-input)] text-[var(--text-primary)]"
-                    min="0"
-                  />
-                </td>
-                <td className="px-6 py-4 text-[13px] text-[var(--text-secondary)]">
-                  {personHours?.get(member.full_name)?.toFixed(1) ?? '0.0'}
-                </td>
-                <td className="px-6 py-4">
-                  <input
-                    type="checkbox"
-                    checked={!!member.exclude_from_capacity}
-                    onChange={(e) => handleExcludeToggle(member.person_id, e.target.checked)}
-                    className="rounded"
-                  />
-                </td>
-              </tr>
+              <Fragment key={member.person_id}>
+                <tr className="hover:bg-[var(--bg-table-hover)]">
+                  <td className="px-6 py-4 text-[13px] font-medium text-[var(--text-primary)]">
+                    {member.full_name}
+                    {member.end_date && member.end_date < today && (
+                      <span className="ml-2 text-[11px] font-normal text-[var(--text-muted)]">left {member.end_date}</span>
+                    )}
+                    {member.start_date && member.start_date > today && (
+                      <span className="ml-2 text-[11px] font-normal text-[var(--text-muted)]">starts {member.start_date}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member.person_id, e.target.value as PersonRole)}
+                      className="text-[13px] px-2 py-1 border border-[var(--border-input)] rounded bg-[var(--bg-input)] text-[var(--text-primary)]"
+                    >
+                      <option value={PersonRole.Engineer}>Engineer</option>
+                      <option value={PersonRole.LabTechnician}>Lab Technician</option>
+                    </select>
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      value={member.capacity_override_hours}
+                      onChange={(e) => handleCapacityChange(member.person_id, parseFloat(e.target.value))}
+                      className="w-24 text-[13px] px-2 py-1 border border-[var(--border-input)] rounded bg-[var(--bg-input)] text-[var(--text-primary)]"
+                      min="0"
+                    />
+                    {getCapacityOverride(member) !== member.capacity_override_hours && (
+                      <p className="text-[11px] text-[var(--text-muted)] mt-1">
+                        Now {formatOverride(getCapacityOverride(member))}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-[13px] text-[var(--text-secondary)]">
+                    {personHours?.get(member.full_name)?.toFixed(1) ?? '0.0'}
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="checkbox"
+                      checked={!!member.exclude_from_capacity}
+                      onChange={(e) => handleExcludeToggle(member.person_id, e.target.checked)}
+                      className="rounded"
+                    />
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => setExpandedId(expandedId === member.person_id ? null : member.person_id)}
+                      className="text-[12px] font-medium text-[var(--accent)] hover:underline whitespace-nowrap"
+                    >
+                      {expandedId === member.person_id ? 'Hide' : 'Dates & Changes'}
+                    </button>
+                  </td>
+                </tr>
+                {expandedId === member.person_id && (
+                  <tr className="bg-[var(--bg-table-header)]">
+                    <td colSpan={6} className="px-6 py-4">
+                      <MemberCapacityDetails member={member} onUpdate={(updates) => updateMember(member.person_id, updates)} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -211,6 +359,157 @@ export function TeamMembersConfig() {
           or add members manually.
         </div>
       )}
+
+      {aliases && aliases.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-[11px] font-semibold uppercase tracking-[0.08em] text-[var(--text-muted)]">
+            Merged Identities
+          </h3>
+          <p className="text-[13px] text-[var(--text-secondary)]">
+            Imported rows from these LiquidPlanner accounts are assigned to the person they were merged into.
+          </p>
+          <div className="rounded-lg border border-[var(--border-default)] divide-y divide-[var(--border-subtle)]">
+            {aliases.map(alias => (
+              <div key={alias.person_id} className="flex items-center justify-between gap-3 px-4 py-2 text-[13px]">
+                <span className="text-[var(--text-primary)]">
+                  {alias.full_name}
+                  <span className="text-[var(--text-muted)]"> ({alias.person})</span>
+                  <span className="mx-1.5 text-[var(--text-muted)]">→</span>
+                  {teamMembers.find(m => m.person_id === alias.target_person_id)?.full_name ?? 'Removed member'}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="text-[11px] text-[var(--text-muted)]">
+                    Merged {new Date(alias.merged_at).toLocaleDateString()}
+                  </span>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Stop merging imports from ${alias.full_name}'s account? Already merged data stays merged.`)) {
+                        removePersonAlias(alias.person_id);
+                      }
+                    }}
+                    className="text-[11px] text-[var(--text-muted)] hover:text-[var(--status-danger)] transition-colors"
+                  >
+                    Forget
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
+
+/**
+ * Employment dates and effective-dated capacity changes for one member.
+ * A change applies from its month onward, so earlier months keep their capacity.
+ */
+function MemberCapacityDetails({ member, onUpdate }: {
+  member: TeamMember;
+  onUpdate: (updates: Partial<TeamMember>) => void;
+}) {
+  const [changeMonth, setChangeMonth] = useState('');
+  const [changeHours, setChangeHours] = useState(0);
+  const changes = member.capacity_changes ?? [];
+
+  const handleAddChange = () => {
+    if (!changeMonth) {
+      alert('Effective month is required');
+      return;
+    }
+    const next: CapacityChange[] = [
+      ...changes.filter(c => c.effective_from !== changeMonth),
+      { effective_from: changeMonth, capacity_hours: changeHours },
+    ].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+    onUpdate({ capacity_changes: next });
+    setChangeMonth('');
+    setChangeHours(0);
+  };
+
+  const handleRemoveChange = (month: string) => {
+    const next = changes.filter(c => c.effective_from !== month);
+    onUpdate({ capacity_changes: next.length > 0 ? next : undefined });
+  };
+
+  const inputClass = 'text-[13px] px-2 py-1 border border-[var(--border-input)] rounded bg-[var(--bg-input)] text-[var(--text-primary)]';
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-2">
+        <h4 className="text-[11px] font-semibold uppercase tracking-[0.08em] text-[var(--text-muted)]">Employment</h4>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-[12px] text-[var(--text-secondary)]">
+            <span className="block mb-1">Start date</span>
+            <input
+              type="date"
+              value={member.start_date ?? ''}
+              onChange={(e) => onUpdate({ start_date: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-[12px] text-[var(--text-secondary)]">
+            <span className="block mb-1">End date</span>
+            <input
+              type="date"
+              value={member.end_date ?? ''}
+              min={member.start_date || undefined}
+              onChange={(e) => onUpdate({ end_date: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <p className="text-[11px] text-[var(--text-muted)]">
+          Capacity only counts working days between these dates. Members drop out of forecasts and
+          scenario rankings for months after they leave.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-[11px] font-semibold uppercase tracking-[0.08em] text-[var(--text-muted)]">Capacity Changes</h4>
+        <ul className="text-[13px] text-[var(--text-secondary)] space-y-1">
+          <li>
+            Before any change: {formatOverride(member.capacity_override_hours)}
+          </li>
+          {changes.map(c => (
+            <li key={c.effective_from} className="flex items-center gap-3">
+              <span>From {c.effective_from}: {formatOverride(c.capacity_hours)}</span>
+              <button
+                onClick={() => handleRemoveChange(c.effective_from)}
+                className="text-[11px] text-[var(--text-muted)] hover:text-[var(--status-danger)] transition-colors"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-[12px] text-[var(--text-secondary)]">
+            <span className="block mb-1">From month</span>
+            <input type="month" value={changeMonth} onChange={(e) => setChangeMonth(e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-[12px] text-[var(--text-secondary)]">
+            <span className="block mb-1">Hours (0 = default)</span>
+            <input
+              type="number"
+              value={changeHours}
+              onChange={(e) => setChangeHours(parseFloat(e.target.value) || 0)}
+              className={`w-24 ${inputClass}`}
+              min="0"
+            />
+          </label>
+          <button
+            onClick={handleAddChange}
+            className="text-[12px] font-medium px-3 py-1.5 rounded-md text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+          >
+            Add Change
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatOverride(hours: number): string {
+  return hours > 0 ? `${hours}h` : 'default';
+}
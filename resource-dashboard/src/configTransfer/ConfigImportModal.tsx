@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
 import { format } from 'date-fns';
-import type { ConfigExportFile } from './configFileFormat';
+import type { ConfigExportFile, EncryptedFileEnvelope } from './configFileFormat';
+import { isEncryptedFile } from './fileEncryption';
+import { PassphraseModal } from '../components/PassphraseModal';
 import {
+  decryptConfigFile,
   detectConflicts,
   importConfig,
   patchLastConfigImportFilename,
@@ -12,7 +15,7 @@ import {
 } from './importConfig';
 
 interface Props {
-  file: ConfigExportFile;
+  file: ConfigExportFile | EncryptedFileEnvelope;
   filename: string;
   onClose: () => void;
   onComplete: (result: ConfigImportResult) => void;
@@ -33,6 +36,11 @@ function getTableRows(file: ConfigExportFile): TableRow[] {
   return [
     { key: 'config', label: 'Global Settings', action: 'replaces current', count: tc.config ?? 1, defaultChecked: true, group: 'Settings' },
     { key: 'anomalyThresholds', label: 'Alert Rules', action: `replaces ${tc.anomalyThresholds ?? 8} rules`, count: tc.anomalyThresholds ?? 8, defaultChecked: true, group: 'Settings' },
+    { key: 'customKPIs', label: 'Custom KPIs', action: `upserts ${tc.customKPIs ?? 0} KPIs`, count: tc.customKPIs ?? 0, defaultChecked: true, group: 'Settings' },
+    { key: 'kpiSettings', label: 'KPI Targets', action: `upserts ${tc.kpiSettings ?? 0} KPIs`, count: tc.kpiSettings ?? 0, defaultChecked: true, group: 'Settings' },
+    { key: 'classificationRules', label: 'Classification Rules', action: `upserts ${tc.classificationRules ?? 0} rules`, count: tc.classificationRules ?? 0, defaultChecked: true, group: 'Settings' },
+    { key: 'columnMappingProfiles', label: 'Column Mappings', action: `upserts ${tc.columnMappingProfiles ?? 0} profiles`, count: tc.columnMappingProfiles ?? 0, defaultChecked: true, group: 'Settings' },
+    { key: 'holidays', label: 'Holidays', action: `upserts ${tc.holidays ?? 0} holidays`, count: tc.holidays ?? 0, defaultChecked: true, group: 'Settings' },
     { key: 'narrativeConfig', label: 'Narrative Settings', action: 'replaces current', count: tc.narrativeConfig ?? 1, defaultChecked: true, group: 'Settings' },
     { key: 'skillCategories', label: 'Skill Categories', action: `upserts ${tc.skillCategories ?? 0} skills`, count: tc.skillCategories ?? 0, defaultChecked: true, group: 'Settings' },
     { key: 'teamMembers', label: 'Team Members', action: `upserts ${tc.teamMembers ?? 0} members`, count: tc.teamMembers ?? 0, defaultChecked: true, group: 'Team & Projects' },
@@ -41,13 +49,36 @@ function getTableRows(file: ConfigExportFile): TableRow[] {
     { key: 'skills', label: 'Skills Matrix', action: `upserts ${tc.skills ?? 0} ratings`, count: tc.skills ?? 0, defaultChecked: true, group: 'Team & Projects' },
     { key: 'projectSkillRequirements', label: 'Project Skill Reqs', action: `upserts ${tc.projectSkillRequirements ?? 0} entries`, count: tc.projectSkillRequirements ?? 0, defaultChecked: true, group: 'Team & Projects' },
     { key: 'plannedAllocations', label: 'Resource Allocations', action: `upserts ${tc.plannedAllocations ?? 0} entries`, count: tc.plannedAllocations ?? 0, defaultChecked: true, group: 'Planning' },
+    { key: 'plannedLeave', label: 'Planned Leave', action: `upserts ${tc.plannedLeave ?? 0} entries`, count: tc.plannedLeave ?? 0, defaultChecked: true, group: 'Planning' },
     { key: 'plannedProjectMonths', label: 'Planned Project Hours', action: `upserts ${tc.plannedProjectMonths ?? 0} entries`, count: tc.plannedProjectMonths ?? 0, defaultChecked: true, group: 'Planning' },
     { key: 'weeklyUpdates', label: 'Weekly Updates', action: `upserts ${tc.weeklyUpdates ?? 0} updates`, count: tc.weeklyUpdates ?? 0, defaultChecked: false, group: 'Planning' },
     { key: 'planningScenarios', label: 'Planning Scenarios', action: `inserts ${tc.planningScenarios ?? 0} scenarios`, count: tc.planningScenarios ?? 0, defaultChecked: false, group: 'Planning' },
   ];
 }
 
+/**
+ * Config import dialog. Encrypted exports ask for their passphrase first.
+ */
 export function ConfigImportModal({ file, filename, onClose, onComplete }: Props) {
+  const [decrypted, setDecrypted] = useState<ConfigExportFile | null>(null);
+
+  if (decrypted) {
+    return <ConfigImportReview file={decrypted} filename={filename} onClose={onClose} onComplete={onComplete} />;
+  }
+  if (isEncryptedFile(file)) {
+    return (
+      <PassphraseModal
+        title="Encrypted Configuration"
+        filename={filename}
+        onCancel={onClose}
+        onUnlock={async (passphrase) => setDecrypted(await decryptConfigFile(file, passphrase))}
+      />
+    );
+  }
+  return <ConfigImportReview file={file} filename={filename} onClose={onClose} onComplete={onComplete} />;
+}
+
+function ConfigImportReview({ file, filename, onClose, onComplete }: Props & { file: ConfigExportFile }) {
   const tableRows = getTableRows(file);
   const [selected, setSelected] = useState<Set<string>>(
     () => new Set(tableRows.filter(r => r.defaultChecked).map(r => r.key))
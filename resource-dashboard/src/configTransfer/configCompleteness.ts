@@ -129,6 +129,44 @@ export async function computeConfigCompleteness(): Promise<ConfigCompletenessRes
     ? `${customizedCount} rule${customizedCount !== 1 ? 's' : ''} customized`
     : 'All defaults';
 
+  // customKPIs — optional, none is a valid setup
+  const customKPICount = await db.customKPIs.count();
+  status.customKPIs = 'configured';
+  details.customKPIs = customKPICount > 0
+    ? `${customKPICount} KPI${customKPICount !== 1 ? 's' : ''}`
+    : 'None defined';
+
+  // kpiSettings — optional; registry thresholds are valid without targets
+  const kpiSettings = await db.kpiSettings.toArray();
+  const targetCount = kpiSettings.reduce((sum, s) => sum + s.targets.length, 0);
+  const overrideCount = kpiSettings.filter(s => s.thresholds).length;
+  status.kpiSettings = 'configured';
+  details.kpiSettings = kpiSettings.length > 0
+    ? `${targetCount} target${targetCount !== 1 ? 's' : ''}, ${overrideCount} threshold override${overrideCount !== 1 ? 's' : ''}`
+    : 'Default thresholds, no targets';
+
+  // classificationRules — seeded on first run; none means everything falls back
+  const ruleCount = await db.classificationRules.filter(r => r.enabled).count();
+  status.classificationRules = ruleCount > 0 ? 'configured' : 'unconfigured';
+  details.classificationRules = ruleCount > 0
+    ? `${ruleCount} enabled rule${ruleCount !== 1 ? 's' : ''}`
+    : 'No enabled rules';
+
+  // columnMappingProfiles — optional; the built-in mapping covers LP exports
+  const profileCount = await db.columnMappingProfiles.count();
+  status.columnMappingProfiles = 'configured';
+  details.columnMappingProfiles = profileCount > 0
+    ? `${profileCount} profile${profileCount !== 1 ? 's' : ''}`
+    : 'Built-in mapping only';
+
+  // holidays / plannedLeave — optional capacity calendar entries
+  const holidayCount = await db.holidays.count();
+  status.holidays = 'configured';
+  details.holidays = holidayCount > 0 ? `${holidayCount} holiday${holidayCount !== 1 ? 's' : ''}` : 'None entered';
+  const leaveCount = await db.plannedLeave.count();
+  status.plannedLeave = 'configured';
+  details.plannedLeave = leaveCount > 0 ? `${leaveCount} leave entr${leaveCount !== 1 ? 'ies' : 'y'}` : 'None entered';
+
   // narrativeConfig — defaults are valid
   const nc = await db.narrativeConfig.get(1);
   status.narrativeConfig = 'configured';
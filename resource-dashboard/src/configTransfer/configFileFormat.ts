@@ -8,10 +8,16 @@ import type {
   SkillCategory,
   ProjectSkillRequirement,
   AnomalyThreshold,
+  CustomKPI,
+  KPISetting,
+  ClassificationRule,
+  ColumnMappingProfile,
+  Holiday,
+  PlannedLeave,
   NarrativeConfig,
   WeeklyUpdate,
   ScenarioAllocation,
-  KPICardKey,
+  KPICardSelection,
   PDFExportSections,
   PerViewExportSections,
 } from '../types';
@@ -33,6 +39,16 @@ export interface ConfigExportFile {
     anomalyThresholds: AnomalyThreshold[];
     narrativeConfig: NarrativeConfigExport;
     skillCategories: SkillCategory[];
+    /** Absent in exports from before custom KPIs */
+    customKPIs?: CustomKPI[];
+    /** Absent in exports from before KPI targets */
+    kpiSettings?: KPISetting[];
+    /** Absent in exports from before editable classification rules */
+    classificationRules?: Omit<ClassificationRule, 'id'>[];
+    /** Absent in exports from before column mapping profiles */
+    columnMappingProfiles?: Omit<ColumnMappingProfile, 'id'>[];
+    /** Absent in exports from before the capacity calendar */
+    holidays?: Holiday[];
 
     // Tier 1 — depend on Tier 0
     teamMembers: TeamMember[];
@@ -45,6 +61,8 @@ export interface ConfigExportFile {
     plannedProjectMonths: Omit<PlannedProjectMonth, 'id'>[];
     weeklyUpdates: Omit<WeeklyUpdate, 'id'>[];
     planningScenarios: PlanningScenarioExport[];
+    /** Absent in exports from before the capacity calendar */
+    plannedLeave?: Omit<PlannedLeave, 'id'>[];
 
     // Tier 3 — depend on Tier 1+2
     plannedAllocations: Omit<PlannedAllocation, 'id'>[];
@@ -63,7 +81,7 @@ export interface ConfigExportSingleton {
   team_name: string;
   std_monthly_capacity_hours: number;
   over_utilization_threshold_pct: number;
-  kpi_cards: KPICardKey[];
+  kpi_cards: KPICardSelection[];
   pdf_export_sections: PerViewExportSections | PDFExportSections;
 }
 
@@ -100,8 +118,46 @@ export interface ConfigImportLog {
   warnings: string[];
 }
 
+/**
+ * Full-fidelity database backup: every Dexie table verbatim, including
+ * timesheets, import logs and KPI/anomaly history. Written gzip-compressed.
+ */
+export interface DatabaseBackupFile {
+  __rd_database_backup: true;
+  version: 1;
+  created_at: string;
+  created_from: string;             // team_name at backup time
+  app_version: string;
+  dashboard_schema_version: number;
+  stores: Record<string, string>;   // Dexie store definitions at that schema version
+  table_counts: Record<string, number>;
+  tables: Record<string, unknown[]>;
+}
+
+/** Outcome of restoring a DatabaseBackupFile. */
+export interface BackupRestoreResult {
+  upgraded_from?: number;           // Set when the backup came from an older schema version
+  table_counts: Record<string, number>;
+}
+
+/**
+ * Passphrase-encrypted wrapper around a config export or full backup.
+ * The key is derived from the passphrase with PBKDF2; the payload is AES-GCM.
+ */
+export interface EncryptedFileEnvelope {
+  __rd_encrypted: true;
+  version: 1;
+  content: 'config' | 'backup';     // What the decrypted payload holds
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;                     // Base64 ciphertext
+}
+
 /** Current export file format version */
 export const CONFIG_FORMAT_VERSION = 1 as const;
 
+/** Current full backup file format version */
+export const BACKUP_FORMAT_VERSION = 1 as const;
+
 /** Current Dexie schema version */
-export const DASHBOARD_SCHEMA_VERSION = 14;
+export const DASHBOARD_SCHEMA_VERSION = 26;
@@ -0,0 +1,185 @@
+import Dexie from 'dexie';
+import { db, DashboardDB, initializeDatabase } from '../db/database';
+import type { BackupRestoreResult, DatabaseBackupFile, EncryptedFileEnvelope } from './configFileFormat';
+import { BACKUP_FORMAT_VERSION, DASHBOARD_SCHEMA_VERSION } from './configFileFormat';
+import { decryptFile, encryptFile, isEncryptedFile } from './fileEncryption';
+
+/** Scratch database used to run the schema upgrade chain over an older backup */
+const STAGING_DB_NAME = 'ResourceDashboard_RestoreStaging';
+
+/**
+ * Reads every Dexie table verbatim (including timesheets, import logs and
+ * KPI/anomaly history) and assembles a DatabaseBackupFile.
+ */
+export async function createDatabaseBackup(): Promise<DatabaseBackupFile> {
+  const tables: Record<string, unknown[]> = {};
+  const stores: Record<string, string> = {};
+  const table_counts: Record<string, number> = {};
+
+  await db.transaction('r', db.tables, async () => {
+    for (const table of db.tables) {
+      tables[table.name] = await table.toArray();
+      stores[table.name] = [table.schema.primKey.src, ...table.schema.indexes.map(i => i.src)].join(', ');
+      table_counts[table.name] = tables[table.name].length;
+    }
+  });
+
+  const configRow = await db.config.get(1);
+
+  return {
+    __rd_database_backup: true,
+    version: BACKUP_FORMAT_VERSION,
+    created_at: new Date().toISOString(),
+    created_from: configRow?.team_name || 'Unknown',
+    app_version: __APP_VERSION__,
+    dashboard_schema_version: DASHBOARD_SCHEMA_VERSION,
+    stores,
+    table_counts,
+    tables,
+  };
+}
+
+/**
+ * Triggers browser download of a backup as gzip-compressed JSON. With a
+ * passphrase the compressed bytes are wrapped in an encrypted JSON envelope.
+ */
+export async function downloadDatabaseBackup(data: DatabaseBackupFile, passphrase?: string): Promise<void> {
+  const json = JSON.stringify(data);
+  const compressed = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  const gzipped = new Uint8Array(await new Response(compressed).arrayBuffer());
+  const blob = passphrase
+    ? new Blob([JSON.stringify(await encryptFile(gzipped, passphrase, 'backup'))], { type: 'application/json' })
+    : new Blob([gzipped], { type: 'application/gzip' });
+  const url = URL.createObjectURL(blob);
+
+  const teamSlug = (data.created_from || 'Dashboard')
+    .replace(/[^a-zA-Z0-9_-]/g, '_')
+    .replace(/_+/g, '_');
+  const dateSlug = new Date().toISOString().slice(0, 10);
+  const filename = passphrase
+    ? `RD_Backup_${teamSlug}_${dateSlug}.enc.json`
+    : `RD_Backup_${teamSlug}_${dateSlug}.json.gz`;
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function validateBackupFile(data: unknown): data is DatabaseBackupFile {
+  if (!data || typeof data !== 'object') return false;
+  const obj = data as Record<string, unknown>;
+  return (
+    obj.__rd_database_backup === true &&
+    obj.version === BACKUP_FORMAT_VERSION &&
+    typeof obj.dashboard_schema_version === 'number' &&
+    !!obj.stores && typeof obj.stores === 'object' &&
+    !!obj.tables && typeof obj.tables === 'object'
+  );
+}
+
+/**
+ * Reads a backup file, gzip-compressed or plain JSON, and validates its header.
+ * Encrypted backups are returned as-is for decryptDatabaseBackup().
+ */
+export async function readDatabaseBackup(file: File): Promise<DatabaseBackupFile | EncryptedFileEnvelope> {
+  const parsed = await parseBackupBytes(new Uint8Array(await file.arrayBuffer()));
+  if (isEncryptedFile(parsed, 'backup')) return parsed;
+  return assertBackupFile(parsed);
+}
+
+/**
+ * Decrypts an encrypted backup and validates its header.
+ */
+export async function decryptDatabaseBackup(envelope: EncryptedFileEnvelope, passphrase: string): Promise<DatabaseBackupFile> {
+  return assertBackupFile(await parseBackupBytes(await decryptFile(envelope, passphrase)));
+}
+
+async function parseBackupBytes(bytes: Uint8Array<ArrayBuffer>): Promise<unknown> {
+  const isGzip = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+  const text = isGzip
+    ? await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : new TextDecoder().decode(bytes);
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+}
+
+function assertBackupFile(data: unknown): DatabaseBackupFile {
+  if (!validateBackupFile(data)) {
+    throw new Error('File is not a Resource Dashboard backup.');
+  }
+  return data;
+}
+
+/**
+ * Replaces the entire database with the contents of a backup.
+ *
+ * Backups from an older schema are first written to a scratch database at
+ * their own version and re-opened through DashboardDB, so the same upgrade()
+ * chain that migrates a user's browser data migrates the backup.
+ */
+export async function restoreDatabaseBackup(backup: DatabaseBackupFile): Promise<BackupRestoreResult> {
+  if (backup.dashboard_schema_version > DASHBOARD_SCHEMA_VERSION) {
+    throw new Error(
+      `Backup was created with schema version ${backup.dashboard_schema_version}, newer than this dashboard (${DASHBOARD_SCHEMA_VERSION}). Update the dashboard before restoring.`
+    );
+  }
+
+  const upgraded = backup.dashboard_schema_version < DASHBOARD_SCHEMA_VERSION;
+  const tables = upgraded ? await upgradeBackupTables(backup) : backup.tables;
+
+  const table_counts: Record<string, number> = {};
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      const rows = tables[table.name] ?? [];
+      await table.clear();
+      if (rows.length > 0) await table.bulkAdd(rows);
+      table_counts[table.name] = rows.length;
+    }
+  });
+
+  // Seed defaults for anything the backup left empty (e.g. tables it predates)
+  await initializeDatabase();
+
+  return {
+    upgraded_from: upgraded ? backup.dashboard_schema_version : undefined,
+    table_counts,
+  };
+}
+
+/** Stage the backup at its own schema version, then open it with the current schema. */
+async function upgradeBackupTables(backup: DatabaseBackupFile): Promise<Record<string, unknown[]>> {
+  await Dexie.delete(STAGING_DB_NAME);
+
+  try {
+    const staging = new Dexie(STAGING_DB_NAME);
+    staging.version(backup.dashboard_schema_version).stores(backup.stores);
+    await staging.open();
+    await staging.transaction('rw', staging.tables, async () => {
+      for (const table of staging.tables) {
+        const rows = backup.tables[table.name] ?? [];
+        if (rows.length > 0) await table.bulkAdd(rows);
+      }
+    });
+    staging.close();
+
+    const upgradedDb = new DashboardDB(STAGING_DB_NAME);
+    await upgradedDb.open();
+    const tables: Record<string, unknown[]> = {};
+    for (const table of upgradedDb.tables) {
+      tables[table.name] = await table.toArray();
+    }
+    upgradedDb.close();
+    return tables;
+  } finally {
+    await Dexie.delete(STAGING_DB_NAME);
+  }
+}
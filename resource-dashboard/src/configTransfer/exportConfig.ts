@@ -5,6 +5,14 @@ import type {
   PlanningScenarioExport,
 } from './configFileFormat';
 import { CONFIG_FORMAT_VERSION, DASHBOARD_SCHEMA_VERSION } from './configFileFormat';
+import { encryptFile } from './fileEncryption';
+
+/** Drop the auto-increment id; rows get fresh ids on import */
+function withoutId<T extends { id?: number }>(row: T): Omit<T, 'id'> {
+  const copy = { ...row };
+  delete copy.id;
+  return copy;
+}
 
 /**
  * Reads all config tables from Dexie and assembles a ConfigExportFile.
@@ -60,6 +68,15 @@ export async function exportAllConfig(): Promise<ConfigExportFile> {
       };
 
   const skillCategories = await db.skillCategories.toArray();
+  const customKPIs = await db.customKPIs.toArray();
+  const kpiSettings = await db.kpiSettings.toArray();
+  const holidays = await db.holidays.toArray();
+
+  const rulesRaw = await db.classificationRules.orderBy('sort_order').toArray();
+  const classificationRules = rulesRaw.map(withoutId);
+
+  const profilesRaw = await db.columnMappingProfiles.toArray();
+  const columnMappingProfiles = profilesRaw.map(withoutId);
 
   // ── Tier 1 ──
 
@@ -82,6 +99,9 @@ export async function exportAllConfig(): Promise<ConfigExportFile> {
   const wuRaw = await db.weeklyUpdates.toArray();
   const weeklyUpdates = wuRaw.map(({ id: _id, ...rest }) => rest);
 
+  const leaveRaw = await db.plannedLeave.toArray();
+  const plannedLeave = leaveRaw.map(withoutId);
+
   // Scenarios — bundle allocations inside each scenario
   const scenariosRaw = await db.planningScenarios.toArray();
   const planningScenarios: PlanningScenarioExport[] = [];
@@ -114,6 +134,11 @@ export async function exportAllConfig(): Promise<ConfigExportFile> {
     anomalyThresholds,
     narrativeConfig,
     skillCategories,
+    customKPIs,
+    kpiSettings,
+    classificationRules,
+    columnMappingProfiles,
+    holidays,
     teamMembers,
     projects,
     milestones,
@@ -122,6 +147,7 @@ export async function exportAllConfig(): Promise<ConfigExportFile> {
     plannedProjectMonths,
     weeklyUpdates,
     planningScenarios,
+    plannedLeave,
     plannedAllocations,
   };
 
@@ -130,6 +156,11 @@ export async function exportAllConfig(): Promise<ConfigExportFile> {
     anomalyThresholds: anomalyThresholds.length,
     narrativeConfig: 1,
     skillCategories: skillCategories.length,
+    customKPIs: customKPIs.length,
+    kpiSettings: kpiSettings.length,
+    classificationRules: classificationRules.length,
+    columnMappingProfiles: columnMappingProfiles.length,
+    holidays: holidays.length,
     teamMembers: teamMembers.length,
     projects: projects.length,
     milestones: milestones.length,
@@ -138,6 +169,7 @@ export async function exportAllConfig(): Promise<ConfigExportFile> {
     plannedProjectMonths: plannedProjectMonths.length,
     weeklyUpdates: weeklyUpdates.length,
     planningScenarios: planningScenarios.length,
+    plannedLeave: plannedLeave.length,
     plannedAllocations: plannedAllocations.length,
   };
 
@@ -159,10 +191,14 @@ export async function exportAllConfig(): Promise<ConfigExportFile> {
 }
 
 /**
- * Triggers browser download of the config export as a JSON file.
+ * Triggers browser download of the config export as a JSON file,
+ * encrypted when a passphrase is given.
  */
-export function downloadConfigFile(data: ConfigExportFile): void {
-  const json = JSON.stringify(data, null, 2);
+export async function downloadConfigFile(data: ConfigExportFile, passphrase?: string): Promise<void> {
+  let json = JSON.stringify(data, null, 2);
+  if (passphrase) {
+    json = JSON.stringify(await encryptFile(new TextEncoder().encode(json), passphrase, 'config'), null, 2);
+  }
   const blob = new Blob([json], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
 
@@ -170,7 +206,7 @@ export function downloadConfigFile(data: ConfigExportFile): void {
     .replace(/[^a-zA-Z0-9_-]/g, '_')
     .replace(/_+/g, '_');
   const dateSlug = new Date().toISOString().slice(0, 10);
-  const filename = `RD_Config_${teamSlug}_${dateSlug}.json`;
+  const filename = `RD_Config_${teamSlug}_${dateSlug}${passphrase ? '.enc' : ''}.json`;
 
   const a = document.createElement('a');
   a.href = url;
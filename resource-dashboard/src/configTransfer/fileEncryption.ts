@@ -0,0 +1,99 @@
+import type { EncryptedFileEnvelope } from './configFileFormat';
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * True when parsed JSON is an encrypted envelope (optionally of a given content kind).
+ */
+export function isEncryptedFile(
+  data: unknown,
+  content?: EncryptedFileEnvelope['content']
+): data is EncryptedFileEnvelope {
+  if (!data || typeof data !== 'object') return false;
+  const obj = data as Record<string, unknown>;
+  return (
+    obj.__rd_encrypted === true &&
+    obj.version === 1 &&
+    typeof obj.data === 'string' &&
+    (!content || obj.content === content)
+  );
+}
+
+/**
+ * Encrypts a payload with a key derived from `passphrase`.
+ */
+export async function encryptFile(
+  payload: Uint8Array<ArrayBuffer>,
+  passphrase: string,
+  content: EncryptedFileEnvelope['content']
+): Promise<EncryptedFileEnvelope> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, payload);
+
+  return {
+    __rd_encrypted: true,
+    version: 1,
+    content,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypts an envelope. AES-GCM authenticates the payload, so a wrong
+ * passphrase and a tampered file fail the same way.
+ */
+export async function decryptFile(
+  envelope: EncryptedFileEnvelope,
+  passphrase: string
+): Promise<Uint8Array<ArrayBuffer>> {
+  const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) },
+      key,
+      fromBase64(envelope.data)
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error('Incorrect passphrase, or the file is damaged.');
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Chunked so large backups don't overflow the argument limit of fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -1,8 +1,9 @@
 import { db, SKILL_CATEGORIES, SKILL_CATEGORY_ALIASES } from '../db/database';
 import { refreshKPIHistory } from '../aggregation/kpiHistory';
-import type { ConfigExportFile, ConfigImportLog } from './configFileFormat';
+import type { ConfigExportFile, ConfigImportLog, EncryptedFileEnvelope } from './configFileFormat';
 import type { TeamMember, Project } from '../types';
 import { DASHBOARD_SCHEMA_VERSION } from './configFileFormat';
+import { decryptFile } from './fileEncryption';
 
 /** Build a lookup from skill name → default category from SKILL_CATEGORIES + aliases. */
 const DEFAULT_CATEGORY_MAP = new Map<string, string>();
@@ -128,6 +129,23 @@ export function validateConfigFile(data: unknown): data is ConfigExportFile {
   );
 }
 
+/**
+ * Decrypts a passphrase-protected config export and validates the result.
+ */
+export async function decryptConfigFile(envelope: EncryptedFileEnvelope, passphrase: string): Promise<ConfigExportFile> {
+  const text = new TextDecoder().decode(await decryptFile(envelope, passphrase));
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Decrypted file is not valid JSON.');
+  }
+  if (!validateConfigFile(parsed)) {
+    throw new Error('Decrypted file is not a valid dashboard configuration export.');
+  }
+  return parsed;
+}
+
 /**
  * Import config tables into Dexie respecting the dependency graph.
  */
@@ -196,6 +214,105 @@ export async function importConfig(options: ConfigImportOptions): Promise<Config
       skip('anomalyThresholds');
     }
 
+    // customKPIs — referenced by key from config.kpi_cards
+    if (selected('customKPIs')) {
+      const customKPIs = t.customKPIs ?? [];
+      if (strategy === 'replace') {
+        await db.customKPIs.clear();
+        await db.customKPIs.bulkPut(customKPIs);
+      } else {
+        for (const row of customKPIs) {
+          await db.customKPIs.put(row);
+        }
+      }
+      result.imported_tables.push('customKPIs');
+      result.rows_imported.customKPIs = customKPIs.length;
+    } else {
+      skip('customKPIs');
+    }
+
+    // kpiSettings — threshold overrides and targets, keyed like config.kpi_cards
+    if (selected('kpiSettings')) {
+      const kpiSettings = t.kpiSettings ?? [];
+      if (strategy === 'replace') {
+        await db.kpiSettings.clear();
+        await db.kpiSettings.bulkPut(kpiSettings);
+      } else {
+        for (const row of kpiSettings) {
+          await db.kpiSettings.put(row);
+        }
+      }
+      result.imported_tables.push('kpiSettings');
+      result.rows_imported.kpiSettings = kpiSettings.length;
+    } else {
+      skip('kpiSettings');
+    }
+
+    // classificationRules (keyed by sort_order) — decide project types and work classes on import
+    if (selected('classificationRules')) {
+      const rules = t.classificationRules ?? [];
+      result.rows_updated.classificationRules = 0;
+      if (strategy === 'replace') {
+        await db.classificationRules.clear();
+        await db.classificationRules.bulkAdd(rules.map(r => ({ ...r, id: undefined })));
+        result.rows_imported.classificationRules = rules.length;
+      } else {
+        result.rows_imported.classificationRules = 0;
+        for (const row of rules) {
+          const existing = await db.classificationRules.where('sort_order').equals(row.sort_order).first();
+          if (existing) {
+            await db.classificationRules.put({ ...row, id: existing.id });
+            result.rows_updated.classificationRules++;
+          } else {
+            await db.classificationRules.add({ ...row, id: undefined });
+            result.rows_imported.classificationRules++;
+          }
+        }
+      }
+      result.imported_tables.push('classificationRules');
+    } else {
+      skip('classificationRules');
+    }
+
+    // columnMappingProfiles (unique name)
+    if (selected('columnMappingProfiles')) {
+      const profiles = t.columnMappingProfiles ?? [];
+      result.rows_updated.columnMappingProfiles = 0;
+      if (strategy === 'replace') {
+        await db.columnMappingProfiles.clear();
+        await db.columnMappingProfiles.bulkAdd(profiles.map(p => ({ ...p, id: undefined })));
+        result.rows_imported.columnMappingProfiles = profiles.length;
+      } else {
+        result.rows_imported.columnMappingProfiles = 0;
+        for (const row of profiles) {
+          const existing = await db.columnMappingProfiles.where('name').equals(row.name).first();
+          if (existing) {
+            await db.columnMappingProfiles.update(existing.id!, { mappings: row.mappings, updated_at: row.updated_at });
+            result.rows_updated.columnMappingProfiles++;
+          } else {
+            await db.columnMappingProfiles.add({ ...row, id: undefined });
+            result.rows_imported.columnMappingProfiles++;
+          }
+        }
+      }
+      result.imported_tables.push('columnMappingProfiles');
+    } else {
+      skip('columnMappingProfiles');
+    }
+
+    // holidays (keyed by date)
+    if (selected('holidays')) {
+      const holidays = t.holidays ?? [];
+      if (strategy === 'replace') {
+        await db.holidays.clear();
+      }
+      await db.holidays.bulkPut(holidays);
+      result.imported_tables.push('holidays');
+      result.rows_imported.holidays = holidays.length;
+    } else {
+      skip('holidays');
+    }
+
     // narrativeConfig singleton
     if (selected('narrativeConfig')) {
       await db.narrativeConfig.put({ id: 1, ...t.narrativeConfig });
@@ -452,6 +569,36 @@ export async function importConfig(options: ConfigImportOptions): Promise<Config
       skip('planningScenarios');
     }
 
+    // plannedLeave (matched on engineer + start/end date)
+    if (selected('plannedLeave')) {
+      const leave = t.plannedLeave ?? [];
+      result.rows_updated.plannedLeave = 0;
+      if (strategy === 'replace') {
+        await db.plannedLeave.clear();
+        await db.plannedLeave.bulkAdd(leave.map(l => ({ ...l, id: undefined })));
+        result.rows_imported.plannedLeave = leave.length;
+      } else {
+        result.rows_imported.plannedLeave = 0;
+        for (const row of leave) {
+          const existing = await db.plannedLeave
+            .where('engineer')
+            .equals(row.engineer)
+            .filter(l => l.start_date === row.start_date && l.end_date === row.end_date)
+            .first();
+          if (existing) {
+            await db.plannedLeave.update(existing.id!, { note: row.note });
+            result.rows_updated.plannedLeave++;
+          } else {
+            await db.plannedLeave.add({ ...row, id: undefined });
+            result.rows_imported.plannedLeave++;
+          }
+        }
+      }
+      result.imported_tables.push('plannedLeave');
+    } else {
+      skip('plannedLeave');
+    }
+
     // ── Tier 3: Depend on Tier 1+2 ──
 
     // plannedAllocations (compound key: [month+project_id+engineer])
@@ -1,7 +1,11 @@
-import { createContext, useCallback, useContext } from 'react';
+import { createContext, useCallback, useContext, useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
-import type { MonthFilter } from '../utils/monthRange';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { resolveMonths, weekFilterMonths } from '../utils/monthRange';
+import { addWeeks, computeWeekLabel } from '../utils/weekDates';
+import { addMonths, computeLabel } from '../dashboard/MonthRangePicker';
+import type { ComparisonSelection } from '../types';
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -14,6 +18,10 @@ export interface ViewFilters {
   project?: string;
   /** Engineer full name: "John Smith" */
   engineer?: string;
+  /** LP team name: "ENG_Fire Suppression" — undefined for the all-teams roll-up */
+  team?: string;
+  /** Plan baseline id for planned-vs-actual views — undefined for the current plan */
+  baseline?: number;
 }
 
 export interface ViewFilterContextValue {
@@ -21,11 +29,21 @@ export interface ViewFilterContextValue {
   setFilters: (updates: Partial<ViewFilters>) => void;
   /** Resolved MonthFilter passed to aggregation functions */
   monthFilter: MonthFilter | undefined;
+  /** Selected weeks when the picker is in week mode; monthFilter then holds the months they touch */
+  weekFilter: WeekFilter | undefined;
   /** Single selected month (display format), undefined when range or all-time */
   selectedMonth: string | undefined;
   selectedProject: string | undefined;
   selectedEngineer: string | undefined;
+  selectedTeam: string | undefined;
+  selectedBaseline: number | undefined;
   isRange: boolean;
+  /** Period the selection is compared against — undefined when comparison is off */
+  comparisonFilter: MonthFilter | undefined;
+  /** Weeks the selection is compared against — set only in week mode with a period comparison */
+  comparisonWeekFilter: WeekFilter | undefined;
+  /** Display label for the comparison period: "Jun '26", "Q2 2025" */
+  comparisonLabel: string | undefined;
 }
 
 // ── Context ────────────────────────────────────────────────────────────────
@@ -39,6 +57,36 @@ export function useFilters(): ViewFilterContextValue {
   return ctx;
 }
 
+// ── Comparison period ─────────────────────────────────────────────────────
+
+/**
+ * Months to compare a selection against. Previous period is the equally long
+ * run of months ending just before the selection; previous year shifts every
+ * month back twelve.
+ */
+function resolveComparison(monthFilter: MonthFilter, comparison: ComparisonSelection): string[] {
+  const months = resolveMonths(monthFilter);
+  switch (comparison.mode) {
+    case 'previous_period': return months.map(m => addMonths(m, -months.length));
+    case 'previous_year': return months.map(m => addMonths(m, -12));
+    case 'custom': return comparison.months ?? [];
+  }
+}
+
+/**
+ * Weeks to compare a week selection against, or null for custom comparisons
+ * (which are chosen in months). A year back is 52 weeks, so the comparison
+ * weeks keep their weekday alignment.
+ */
+function resolveWeekComparison(weekFilter: WeekFilter, comparison: ComparisonSelection): WeekFilter | null {
+  const { weeks, convention } = weekFilter;
+  switch (comparison.mode) {
+    case 'previous_period': return { convention, weeks: weeks.map(w => addWeeks(w, -weeks.length, convention)) };
+    case 'previous_year': return { convention, weeks: weeks.map(w => addWeeks(w, -52, convention)) };
+    case 'custom': return null;
+  }
+}
+
 // ── Dexie-backed Provider ─────────────────────────────────────────────────
 
 /**
@@ -51,6 +99,8 @@ export function DexieViewFilterProvider({ children }: { children: React.ReactNod
   const dateRange = config?.selected_date_range;
   const selectedMonth = config?.selected_month || undefined;
   const selectedProject = config?.selected_project || undefined;
+  const selectedTeam = config?.selected_team || undefined;
+  const selectedBaseline = config?.selected_baseline_id;
 
   let monthFilter: MonthFilter | undefined;
   let isRange = false;
@@ -66,10 +116,41 @@ export function DexieViewFilterProvider({ children }: { children: React.ReactNod
     monthFilter = selectedMonth;
   }
 
+  // Memoized so panels can use the weeks as live-query dependencies
+  const selectedWeeks = dateRange?.weeks;
+  const weekConvention = config?.week_convention ?? 'iso';
+  const weekFilter = useMemo<WeekFilter | undefined>(
+    () => selectedWeeks?.length ? { convention: weekConvention, weeks: selectedWeeks } : undefined,
+    [selectedWeeks, weekConvention]
+  );
+
+  // Memoized so panels can use the comparison months as live-query dependencies
+  const selectedComparison = config?.selected_comparison;
+  const { comparisonFilter, comparisonWeekFilter, comparisonLabel } = useMemo(() => {
+    const weeks = weekFilter && selectedComparison ? resolveWeekComparison(weekFilter, selectedComparison) : null;
+    if (weeks) {
+      const months = weekFilterMonths(weeks);
+      return {
+        comparisonFilter: months.length === 1 ? months[0] : months,
+        comparisonWeekFilter: weeks,
+        comparisonLabel: computeWeekLabel(weeks.weeks[0], weeks.weeks[weeks.weeks.length - 1], weeks.convention),
+      };
+    }
+    const months = monthFilter && selectedComparison ? resolveComparison(monthFilter, selectedComparison) : [];
+    if (months.length === 0) return { comparisonFilter: undefined, comparisonWeekFilter: undefined, comparisonLabel: undefined };
+    return {
+      comparisonFilter: months.length === 1 ? months[0] : months,
+      comparisonWeekFilter: undefined,
+      comparisonLabel: computeLabel(months[0], months[months.length - 1]),
+    };
+  }, [monthFilter, weekFilter, selectedComparison]);
+
   const setFilters = useCallback((updates: Partial<ViewFilters>) => {
     const dbUpdates: Partial<import('../types').DashboardConfig> = {};
     if ('month' in updates) dbUpdates.selected_month = updates.month ?? '';
     if ('project' in updates) dbUpdates.selected_project = updates.project ?? '';
+    if ('team' in updates) dbUpdates.selected_team = updates.team ?? '';
+    if ('baseline' in updates) dbUpdates.selected_baseline_id = updates.baseline;
     if (Object.keys(dbUpdates).length > 0) {
       db.config.update(1, dbUpdates).catch(console.error);
     }
@@ -81,13 +162,21 @@ export function DexieViewFilterProvider({ children }: { children: React.ReactNod
       dateRange: isRange ? (monthFilter as string[]) : undefined,
       project: selectedProject,
       engineer: undefined,
+      team: selectedTeam,
+      baseline: selectedBaseline,
     },
     setFilters,
     monthFilter,
+    weekFilter,
     selectedMonth,
     selectedProject,
     selectedEngineer: undefined,
+    selectedTeam,
+    selectedBaseline,
     isRange,
+    comparisonFilter,
+    comparisonWeekFilter,
+    comparisonLabel,
   };
 
   return (
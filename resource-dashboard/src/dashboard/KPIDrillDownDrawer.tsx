@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { runAggregation } from '../aggregation/engine';
+import { useAggregationVersion } from '../hooks/useAggregation';
+import type { KPIBreakdownDimension } from '../aggregation/kpiDrillDown';
+import type { KPICardSelection } from '../types';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
+import { resolveMonths } from '../utils/monthRange';
+import { formatDate, formatHours, formatMonth } from '../utils/format';
+import { computeWeekLabel } from '../utils/weekDates';
+
+const DIMENSIONS: { key: KPIBreakdownDimension; label: string }[] = [
+  { key: 'engineer', label: 'Engineer' },
+  { key: 'r_number', label: 'R#' },
+  { key: 'task', label: 'Task' },
+  { key: 'day', label: 'Day' },
+];
+
+/** Rows shown in the entries table before "Show all" */
+const ENTRY_PAGE = 200;
+
+const thClass = 'px-3 py-2 text-left text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]';
+const thRightClass = 'px-3 py-2 text-right text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-[0.05em]';
+
+interface KPIDrillDownDrawerProps {
+  kpiKey: KPICardSelection;
+  label: string;
+  value: string;
+  monthFilter: MonthFilter;
+  /** Narrows the breakdown to these weeks of monthFilter */
+  weeks?: WeekFilter;
+  projectFilter?: string;
+  onClose: () => void;
+}
+
+/**
+ * Side drawer listing the timesheet rows behind a KPI card, broken down by
+ * engineer, R#, task and day.
+ */
+export function KPIDrillDownDrawer({ kpiKey, label, value, monthFilter, weeks, projectFilter, onClose }: KPIDrillDownDrawerProps) {
+  const aggregationVersion = useAggregationVersion();
+  const [dimension, setDimension] = useState<KPIBreakdownDimension>('engineer');
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const drillDown = useLiveQuery(
+    () => runAggregation('computeKPIDrillDown', kpiKey, monthFilter, projectFilter, undefined, weeks),
+    [kpiKey, monthFilter, weeks, projectFilter, aggregationVersion]
+  );
+
+  const months = resolveMonths(monthFilter);
+  const period = weeks
+    ? computeWeekLabel(weeks.weeks[0], weeks.weeks[weeks.weeks.length - 1], weeks.convention)
+    : months.length > 1
+    ? `${formatMonth(months[0])} – ${formatMonth(months[months.length - 1])}`
+    : formatMonth(months[0]);
+
+  const groups = drillDown?.breakdowns[dimension] ?? [];
+  const group = groups.find(g => g.key === selectedGroup);
+  const groupIds = group ? new Set(group.entryIds) : null;
+  const entries = (drillDown?.entries ?? []).filter(e => !groupIds || groupIds.has(e.timesheet_entry_id));
+  const shownEntries = showAll ? entries : entries.slice(0, ENTRY_PAGE);
+  const components = drillDown?.components ?? [];
+
+  const selectDimension = (key: KPIBreakdownDimension) => {
+    setDimension(key);
+    setSelectedGroup(null);
+    setShowAll(false);
+  };
+
+  const toggleGroup = (key: string) => {
+    setSelectedGroup(selectedGroup === key ? null : key);
+    setShowAll(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-panel)] shadow-xl border-l border-[var(--border-default)] w-full max-w-[760px] h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between px-5 py-4 border-b border-[var(--border-subtle)]">
+          <div>
+            <h2 className="text-[15px] font-bold text-[var(--text-primary)]">{label}: {value}</h2>
+            <p className="text-[12px] text-[var(--text-muted)]">
+              {period}{projectFilter ? ` · ${projectFilter}` : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!drillDown ? (
+          <div className="p-5 text-[13px] text-[var(--text-muted)]">Loading...</div>
+        ) : (
+          <div className="flex-1 overflow-y-auto px-5 py-4 space-y-5">
+            {/* Components: what the value is made of */}
+            <div className="space-y-1.5">
+              {components.map((c, i) => (
+                <div key={c.label} className="flex items-baseline justify-between text-[13px]">
+                  <span className="text-[var(--text-secondary)]">
+                    {drillDown.isRatio ? (i === 0 ? 'Numerator' : 'Denominator') + ': ' : ''}{c.label}
+                  </span>
+                  <span className="font-semibold tabular-nums text-[var(--text-primary)]">
+                    {c.isCount ? c.total : `${formatHours(c.total)}h`}
+                  </span>
+                </div>
+              ))}
+              {drillDown.isRatio && components.length === 2 && (
+                <p className="text-[12px] text-[var(--text-muted)]">
+                  {formatHours(components[0].total)} ÷ {formatHours(components[1].total)} = {value}
+                </p>
+              )}
+              {drillDown.note && <p className="text-[12px] text-[var(--text-muted)]">{drillDown.note}</p>}
+            </div>
+
+            {/* Breakdown */}
+            <div className="space-y-2">
+              <div className="flex gap-1">
+                {DIMENSIONS.map(d => (
+                  <button
+                    key={d.key}
+                    onClick={() => selectDimension(d.key)}
+                    className={`text-[12px] font-medium px-3 py-1.5 rounded-md transition-colors ${
+                      dimension === d.key
+                        ? 'bg-[var(--accent)] text-white'
+                        : 'text-[var(--text-secondary)] hover:bg-[var(--bg-table-hover)]'
+                    }`}
+                  >
+                    {d.label}
+                  </button>
+                ))}
+              </div>
+
+              {groups.length === 0 ? (
+                <div className="p-4 text-center text-[13px] text-[var(--text-muted)] border border-dashed border-[var(--border-default)] rounded-lg">
+                  Nothing to break down by {DIMENSIONS.find(d => d.key === dimension)!.label.toLowerCase()}.
+                </div>
+              ) : (
+                <div className="rounded-lg border border-[var(--border-default)] overflow-hidden max-h-[300px] overflow-y-auto">
+                  <table className="min-w-full divide-y divide-[var(--border-default)]">
+                    <thead className="bg-[var(--bg-table-header)] sticky top-0">
+                      <tr>
+                        <th className={thClass}>{DIMENSIONS.find(d => d.key === dimension)!.label}</th>
+                        {components.map((c, i) => (
+                          <th key={c.label} className={thRightClass} title={c.label}>
+                            {drillDown.isRatio ? (i === 0 ? 'Num.' : 'Denom.') : c.isCount ? 'Count' : 'Hours'}
+                          </th>
+                        ))}
+                        <th className={thRightClass}>People</th>
+                        <th className={thRightClass}>Rows</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-[var(--border-subtle)]">
+                      {groups.map(g => (
+                        <tr
+                          key={g.key}
+                          onClick={g.entryIds.length ? () => toggleGroup(g.key) : undefined}
+                          className={`${g.entryIds.length ? 'cursor-pointer' : ''} ${
+                            selectedGroup === g.key ? 'bg-[var(--bg-table-hover)]' : 'hover:bg-[var(--bg-table-hover)]'
+                          }`}
+                        >
+                          <td className="px-3 py-1.5 text-[13px] text-[var(--text-primary)]">
+                            {dimension === 'day' ? formatDate(g.label) : g.label}
+                          </td>
+                          {g.values.map((v, i) => (
+                            <td key={i} className="px-3 py-1.5 text-[13px] text-right tabular-nums text-[var(--text-secondary)]">
+                              {components[i]?.isCount ? v : formatHours(v)}
+                            </td>
+                          ))}
+                          <td className="px-3 py-1.5 text-[13px] text-right tabular-nums text-[var(--text-secondary)]">{g.people}</td>
+                          <td className="px-3 py-1.5 text-[13px] text-right tabular-nums text-[var(--text-secondary)]">{g.entryIds.length}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Timesheet rows */}
+            {drillDown.entries.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-[13px] font-medium text-[var(--text-primary)]">
+                    Timesheet Rows{group ? ` — ${dimension === 'day' ? formatDate(group.label) : group.label}` : ''} ({entries.length})
+                  </h3>
+                  {group && (
+                    <button
+                      onClick={() => setSelectedGroup(null)}
+                      className="text-[12px] font-medium text-[var(--accent)] hover:underline"
+                    >
+                      Show all rows
+                    </button>
+                  )}
+                </div>
+                <div className="rounded-lg border border-[var(--border-default)] overflow-x-auto">
+                  <table className="min-w-full divide-y divide-[var(--border-default)]">
+                    <thead className="bg-[var(--bg-table-header)]">
+                      <tr>
+                        <th className={thClass}>Date</th>
+                        <th className={thClass}>Person</th>
+                        <th className={thClass}>R#</th>
+                        <th className={thClass}>Task</th>
+                        <th className={thClass}>Activity</th>
+                        <th className={thRightClass}>Hours</th>
+                        <th className={thClass}>Note</th>
+                        <th className={thRightClass}>Entry ID</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-[var(--border-subtle)]">
+                      {shownEntries.map(e => (
+                        <tr key={e.timesheet_entry_id} className="hover:bg-[var(--bg-table-hover)]">
+                          <td className="px-3 py-1.5 text-[12px] whitespace-nowrap text-[var(--text-secondary)]">{e.date}</td>
+                          <td className="px-3 py-1.5 text-[12px] whitespace-nowrap text-[var(--text-primary)]">{e.full_name}</td>
+                          <td className="px-3 py-1.5 text-[12px] text-[var(--text-secondary)]">{e.r_number}</td>
+                          <td className="px-3 py-1.5 text-[12px] text-[var(--text-secondary)]">
+                            {e.task}{e.is_done ? ' ✓' : ''}
+                          </td>
+                          <td className="px-3 py-1.5 text-[12px] text-[var(--text-secondary)]">{e.activity}</td>
+                          <td className="px-3 py-1.5 text-[12px] text-right tabular-nums text-[var(--text-primary)]">{formatHours(e.hours)}</td>
+                          <td className="px-3 py-1.5 text-[12px] text-[var(--text-muted)] max-w-[200px] truncate" title={e.note}>{e.note}</td>
+                          <td className="px-3 py-1.5 text-[12px] text-right tabular-nums text-[var(--text-muted)]">{e.timesheet_entry_id}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {entries.length > shownEntries.length && (
+                  <button
+                    onClick={() => setShowAll(true)}
+                    className="text-[12px] font-medium text-[var(--accent)] hover:underline"
+                  >
+                    Show all {entries.length} rows
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
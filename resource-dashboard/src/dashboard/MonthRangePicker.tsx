@@ -1,5 +1,8 @@
 import { useRef, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
 import { formatMonth } from '../utils/format';
+import { addWeeks, computeWeekLabel, formatWeekKey, weekKeyOf, weekKeyRange, weeksBetween } from '../utils/weekDates';
+import type { PeriodGranularity, WeekConvention } from '../types';
 
 // ── Module-level utilities (exported for ViewHeader) ─────────────────────────
 
@@ -63,6 +66,10 @@ export function computeLabel(from: string | null, to: string | null): string {
   return `${formatMonth(from)} — ${formatMonth(to)}`;
 }
 
+function currentWeek(convention: WeekConvention): string {
+  return weekKeyOf(format(new Date(), 'yyyy-MM-dd'), convention);
+}
+
 // ── Component ─────────────────────────────────────────────────────────────────
 
 const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -77,6 +84,18 @@ export interface MonthRangePickerProps {
   mode?: 'historical' | 'forward' | 'both';
   /** When true: single-month selection mode — one click closes picker, no From/To row, minimal shortcuts */
   singleMonth?: boolean;
+
+  // ── Week granularity (shown only when onGranularityChange is given) ──
+  granularity?: PeriodGranularity;
+  onGranularityChange?: (granularity: PeriodGranularity) => void;
+  weekConvention?: WeekConvention;
+  onWeekConventionChange?: (convention: WeekConvention) => void;
+  /** Selected week keys (see weekKeyOf) */
+  weekFrom?: string | null;
+  weekTo?: string | null;
+  /** Week keys with timesheet data */
+  availableWeeks?: string[];
+  onWeekChange?: (from: string | null, to: string | null) => void;
 }
 
 export function MonthRangePicker({
@@ -86,6 +105,14 @@ export function MonthRangePicker({
   availableMonths,
   mode = "historical",
   singleMonth = false,
+  granularity = "month",
+  onGranularityChange,
+  weekConvention = "iso",
+  onWeekConventionChange,
+  weekFrom = null,
+  weekTo = null,
+  availableWeeks = [],
+  onWeekChange,
 }: MonthRangePickerProps) {
   const [isOpen, setIsOpen] = useState(false);
   // 'from' | 'to' = waiting for that endpoint; null = idle (range complete)
@@ -97,6 +124,12 @@ export function MonthRangePicker({
   const now = currentYearMonth();
   const nowYear = Number(now.split("-")[0]);
 
+  // In week mode the same two-click flow picks week keys instead of months
+  const weekMode = granularity === "week";
+  const selFrom = weekMode ? weekFrom : from;
+  const selTo = weekMode ? weekTo : to;
+  const emit = (f: string | null, t: string | null) => (weekMode ? onWeekChange?.(f, t) : onChange(f, t));
+
   // Build the set of clickable months (includes future months in forward/both mode)
   const clickableSet = new Set(availableMonths);
   if (mode === "forward" || mode === "both") {
@@ -135,12 +168,12 @@ export function MonthRangePicker({
       setExplicitField(false);
       // If only from is set (mid-selection), continue waiting for to
       // Otherwise next click starts a fresh selection
-      setActivePicker(from && !to ? "to" : null);
+      setActivePicker(selFrom && !selTo ? "to" : null);
     }
   };
 
   const applyShortcut = (f: string | null, t: string | null) => {
-    onChange(f, t);
+    emit(f, t);
     setIsOpen(false);
     setActivePicker(null);
     setExplicitField(false);
@@ -151,11 +184,12 @@ export function MonthRangePicker({
     setExplicitField(true);
   };
 
+  // Month or week key — both sort chronologically as strings
   const handleMonthClick = (month: string) => {
-    if (!clickableSet.has(month)) return;
+    if (!(weekMode ? availableWeekSet : clickableSet).has(month)) return;
 
     // Single-month mode: one click selects and closes
-    if (singleMonth) {
+    if (singleMonth && !weekMode) {
       onChange(month, month);
       setIsOpen(false);
       setActivePicker(null);
@@ -164,18 +198,18 @@ export function MonthRangePicker({
 
     // User explicitly clicked a FROM/TO field label — target that field directly
     if (explicitField && activePicker === "from") {
-      onChange(month, to && month <= to ? to : null);
-      setActivePicker(to && month <= to ? null : "to");
+      emit(month, selTo && month <= selTo ? selTo : null);
+      setActivePicker(selTo && month <= selTo ? null : "to");
       setExplicitField(false);
       return;
     }
     if (explicitField && activePicker === "to") {
-      if (from && month >= from) {
-        onChange(from, month);
+      if (selFrom && month >= selFrom) {
+        emit(selFrom, month);
         setActivePicker(null);
       } else {
         // Before FROM → set as new FROM, wait for TO
-        onChange(month, null);
+        emit(month, null);
         setActivePicker("to");
       }
       setExplicitField(false);
@@ -183,25 +217,32 @@ export function MonthRangePicker({
     }
 
     // Normal two-click flow: click FROM, click TO
-    if (activePicker === "to" && from) {
+    if (activePicker === "to" && selFrom) {
       // Already have a FROM, this click is the TO
-      if (month === from) {
-        onChange(month, month);
+      if (month === selFrom) {
+        emit(month, month);
         setActivePicker(null);
-      } else if (month > from) {
-        onChange(from, month);
+      } else if (month > selFrom) {
+        emit(selFrom, month);
         setActivePicker(null);
       } else {
         // Before FROM → becomes the new FROM, keep waiting for TO
-        onChange(month, null);
+        emit(month, null);
       }
     } else {
       // First click (or restarting): set as FROM, clear TO
-      onChange(month, null);
+      emit(month, null);
       setActivePicker("to");
     }
   };
 
+  const switchGranularity = (g: PeriodGranularity) => {
+    if (g === granularity) return;
+    onGranularityChange?.(g);
+    setActivePicker(null);
+    setExplicitField(false);
+  };
+
   // ── Shortcuts ───────────────────────────────────────────────────────────────
   const [qStart, qEnd] = getQuarterRange(now);
   const ytdStart = `${nowYear}-01`;
@@ -232,7 +273,17 @@ export function MonthRangePicker({
     { label: "All Time", f: null, t: null },
   ];
 
-  const shortcuts = singleMonth
+  const nowWeek = currentWeek(weekConvention);
+  const weekShortcuts: Shortcut[] = [
+    { label: "This Week", f: nowWeek, t: nowWeek },
+    { label: "Last 4 Weeks", f: addWeeks(nowWeek, -3, weekConvention), t: nowWeek },
+    { label: "Last 13 Weeks", f: addWeeks(nowWeek, -12, weekConvention), t: nowWeek },
+    { label: "All Time", f: null, t: null },
+  ];
+
+  const shortcuts = weekMode
+    ? weekShortcuts
+    : singleMonth
     ? singleMonthShortcuts
     : mode === "forward"
     ? forwardShortcuts
@@ -249,6 +300,21 @@ export function MonthRangePicker({
 
   const availableSet = clickableSet;
 
+  // ── Week grid: every week from the first with data through this week, by month ──
+  const availableWeekSet = new Set(availableWeeks);
+  const weekGroups: { month: string; weeks: string[] }[] = [];
+  if (weekMode) {
+    const first = [...availableWeeks].sort()[0] ?? nowWeek;
+    for (const week of weeksBetween(first, nowWeek, weekConvention).reverse()) {
+      const month = weekKeyRange(week, weekConvention).end.slice(0, 7);
+      const last = weekGroups[weekGroups.length - 1];
+      if (last?.month === month) last.weeks.unshift(week);
+      else weekGroups.push({ month, weeks: [week] });
+    }
+  }
+  const formatField = (key: string | null) =>
+    key ? (weekMode ? formatWeekKey(key, weekConvention) : formatMonth(key)) : null;
+
   return (
     <div ref={containerRef} className="relative">
       {/* Trigger button */}
@@ -272,7 +338,7 @@ export function MonthRangePicker({
             d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
           />
         </svg>
-        <span>{computeLabel(from, to)}</span>
+        <span>{weekMode ? computeWeekLabel(weekFrom, weekTo, weekConvention) : computeLabel(from, to)}</span>
         <svg
           className="w-3.5 h-3.5 flex-shrink-0 text-[var(--text-muted)] transition-transform duration-150"
           style={{ transform: isOpen ? "rotate(180deg)" : undefined }}
@@ -295,10 +361,28 @@ export function MonthRangePicker({
           className="absolute top-full left-0 mt-1 z-50 rounded-xl shadow-xl border border-[var(--border-default)] bg-[var(--bg-panel)]"
           style={{ width: 360 }}
         >
+          {/* 0. Month / week toggle and week convention */}
+          {onGranularityChange && (
+            <div className="p-3 flex items-center justify-between gap-2 border-b border-[var(--border-subtle)]">
+              <SegmentedToggle
+                options={[{ value: "month", label: "Month" }, { value: "week", label: "Week" }]}
+                value={granularity}
+                onChange={switchGranularity}
+              />
+              {weekMode && (
+                <SegmentedToggle
+                  options={[{ value: "iso", label: "ISO" }, { value: "friday", label: "Friday-ending" }]}
+                  value={weekConvention}
+                  onChange={(c) => onWeekConventionChange?.(c)}
+                />
+              )}
+            </div>
+          )}
+
           {/* 1. Shortcut pills */}
           <div className="p-3 flex flex-wrap gap-1.5 border-b border-[var(--border-subtle)]">
             {shortcuts.map((sc) => {
-              const isActive = sc.f === from && sc.t === to;
+              const isActive = sc.f === selFrom && sc.t === selTo;
               return (
                 <button
                   key={sc.label}
@@ -325,11 +409,11 @@ export function MonthRangePicker({
           </div>
 
           {/* 2. From / To fields — hidden in single-month mode */}
-          {!singleMonth && (
+          {(!singleMonth || weekMode) && (
             <div className="p-3 flex items-center gap-2 border-b border-[var(--border-subtle)]">
               <PickerField
                 label="FROM"
-                value={from ? formatMonth(from) : null}
+                value={formatField(selFrom)}
                 active={activePicker === "from"}
                 onClick={() => handleFieldClick("from")}
               />
@@ -348,16 +432,29 @@ export function MonthRangePicker({
               </svg>
               <PickerField
                 label="TO"
-                value={to ? formatMonth(to) : null}
+                value={formatField(selTo)}
                 active={activePicker === "to"}
                 onClick={() => handleFieldClick("to")}
               />
             </div>
           )}
 
-          {/* 3. Month grid */}
+          {/* 3. Month grid (or week grid) */}
           <div className="overflow-y-auto" style={{ maxHeight: 260 }}>
-            {years.map((year) => (
+            {weekMode && weekGroups.map(({ month, weeks }) => (
+              <WeekGrid
+                key={month}
+                month={month}
+                weeks={weeks}
+                convention={weekConvention}
+                now={nowWeek}
+                from={weekFrom}
+                to={weekTo}
+                availableSet={availableWeekSet}
+                onWeekClick={handleMonthClick}
+              />
+            ))}
+            {!weekMode && years.map((year) => (
               <YearGrid
                 key={year}
                 year={year}
@@ -377,6 +474,89 @@ export function MonthRangePicker({
 
 // ── Sub-components ────────────────────────────────────────────────────────────
 
+function SegmentedToggle<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-[var(--border-default)] overflow-hidden text-[11px]">
+      {options.map((opt, i) => (
+        <button
+          key={opt.value}
+          onClick={() => onChange(opt.value)}
+          className={`px-3 py-1 font-medium transition-colors ${
+            value === opt.value
+              ? 'bg-[var(--accent)] text-white'
+              : 'text-[var(--text-muted)] hover:bg-[var(--bg-row-hover)]'
+          } ${i > 0 ? 'border-l border-[var(--border-default)]' : ''}`}
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** One month's weeks, grouped by the month each week ends in */
+function WeekGrid({
+  month,
+  weeks,
+  convention,
+  now,
+  from,
+  to,
+  availableSet,
+  onWeekClick,
+}: {
+  month: string;
+  weeks: string[];
+  convention: WeekConvention;
+  now: string;
+  from: string | null;
+  to: string | null;
+  availableSet: Set<string>;
+  onWeekClick: (week: string) => void;
+}) {
+  return (
+    <div className="px-3 pt-2.5 pb-2">
+      <p className="text-[10px] font-semibold uppercase tracking-wider text-[var(--text-muted)] mb-1.5">{formatMonth(month)}</p>
+      <div className="grid grid-cols-5 gap-1">
+        {weeks.map((week) => {
+          const isEndpoint = week === from || week === to;
+          const inRange = !!(from && to && week > from && week < to);
+          const isAvailable = availableSet.has(week);
+          const { start, end } = weekKeyRange(week, convention);
+
+          return (
+            <button
+              key={week}
+              onClick={() => onWeekClick(week)}
+              title={`${format(parseISO(start), 'MMM d')} – ${format(parseISO(end), 'MMM d, yyyy')}`}
+              className={`text-[11px] font-medium rounded py-1 text-center transition-colors${
+                isAvailable && !isEndpoint ? ' hover:bg-[var(--accent-light)] hover:text-[var(--accent)]' : ''
+              }`}
+              style={{
+                backgroundColor: isEndpoint ? 'var(--accent)' : inRange ? 'var(--accent-light)' : '#f3f4f6',
+                color: isEndpoint ? 'white' : inRange ? 'var(--accent)' : isAvailable ? 'var(--text-secondary)' : 'var(--text-muted)',
+                outline: week === now && !isEndpoint ? '1.5px dashed var(--accent)' : undefined,
+                opacity: !isAvailable && !isEndpoint && !inRange ? 0.4 : undefined,
+                cursor: isAvailable ? 'pointer' : 'default',
+              }}
+            >
+              {convention === 'iso' ? `W${week.split('-W')[1]}` : format(parseISO(week), 'MMM d')}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function PickerField({
   label,
   value,
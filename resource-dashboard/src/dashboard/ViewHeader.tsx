@@ -1,9 +1,12 @@
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
 import { useConfig } from '../hooks/useConfig';
-import { fromDbMonth } from '../utils/monthRange';
-import type { DateRange } from '../types';
-import { MonthRangePicker, monthsBetween, computeLabel } from './MonthRangePicker';
+import { fromDbMonth, weekFilterMonths, weekWindow } from '../utils/monthRange';
+import { computeWeekLabel, weekKeyOf, weeksBetween } from '../utils/weekDates';
+import { listTeams, loadTeamMembers, loadMonthlyRollups, loadDailyRollups } from '../aggregation/teamScope';
+import { buildProjectHierarchy } from '../aggregation/projectUtils';
+import type { ComparisonMode, DateRange, PeriodGranularity, WeekConvention } from '../types';
+import { MonthRangePicker, addMonths, monthsBetween, computeLabel } from './MonthRangePicker';
 
 
 interface ViewHeaderProps {
@@ -24,6 +27,9 @@ interface ViewHeaderProps {
 
   // ── Date picker mode ──
   pickerMode?: 'historical' | 'forward' | 'both';
+
+  /** When true, shows the plan baseline that planned-vs-actual panels compare against */
+  showBaselineFilter?: boolean;
 }
 
 export function ViewHeader({
@@ -34,18 +40,35 @@ export function ViewHeader({
   engineerValue,
   onEngineerChange,
   pickerMode = 'historical',
+  showBaselineFilter = false,
 }: ViewHeaderProps) {
   const { config, updateConfig } = useConfig();
 
-  const projects = useLiveQuery(() => db.projects.toArray()) ?? [];
+  // Sub-projects are listed (indented) under their parent, in the optgroup of their top-level project
+  const projectTree = useLiveQuery(async () => {
+    const projects = await db.projects.toArray();
+    const hierarchy = buildProjectHierarchy(projects);
+    let rootType = '';
+    return hierarchy
+      .ordered(projects.filter(p => p.type === 'NPD' || p.type === 'Sustaining'))
+      .map(entry => {
+        if (entry.depth === 0) rootType = entry.project.type;
+        return { ...entry, rootType };
+      });
+  }) ?? [];
+  const teams = useLiveQuery(() => listTeams()) ?? [];
+  const baselines = useLiveQuery(
+    () => showBaselineFilter ? db.planBaselines.orderBy('created_at').reverse().toArray() : [],
+    [showBaselineFilter]
+  ) ?? [];
   const engineers = useLiveQuery(async () => {
-    const members = await db.teamMembers.toArray();
+    const members = await loadTeamMembers();
     return members.map(m => m.full_name).sort();
   }) ?? [];
 
   const months = useLiveQuery(async () => {
     const [sheets, allocations] = await Promise.all([
-      db.timesheets.toArray(),
+      loadMonthlyRollups(),
       db.plannedAllocations.toArray(),
     ]);
     const monthSet = new Set<string>();
@@ -54,6 +77,13 @@ export function ViewHeader({
     return [...monthSet].sort().reverse();
   }) ?? [];
 
+  const weekConvention = config?.week_convention ?? 'iso';
+  const weeks = useLiveQuery(async () => {
+    if (pickerMode !== 'historical') return [];
+    const days = await loadDailyRollups();
+    return [...new Set(days.map(d => weekKeyOf(d.date, weekConvention)))].sort();
+  }, [pickerMode, weekConvention]) ?? [];
+
   // Derive picker from/to from persisted config
   const dateRange = config?.selected_date_range;
   const rawMonth = config?.selected_month || null;
@@ -85,6 +115,73 @@ export function ViewHeader({
     }
   };
 
+  // ── Week granularity: a week selection is a range over the months its weeks touch ──
+  const selectedWeeks = dateRange?.weeks ?? [];
+  const granularity: PeriodGranularity = selectedWeeks.length > 0 ? 'week' : 'month';
+
+  const selectWeeks = (keys: string[], convention: WeekConvention) => {
+    if (keys.length === 0) {
+      updateConfig({ selected_month: '', selected_date_range: undefined, week_convention: convention });
+      return;
+    }
+    const rangeMonths = weekFilterMonths({ convention, weeks: keys });
+    const label = computeWeekLabel(keys[0], keys[keys.length - 1], convention);
+    const range: DateRange = { type: 'range', months: rangeMonths, label, weeks: keys };
+    updateConfig({ selected_month: rangeMonths[rangeMonths.length - 1], selected_date_range: range, week_convention: convention });
+  };
+
+  const handleWeekChange = (newFrom: string | null, newTo: string | null) => {
+    if (!newFrom && !newTo) {
+      // "All Time" — every week from the first with data
+      selectWeeks(weeks.length > 0 ? weeksBetween(weeks[0], weeks[weeks.length - 1], weekConvention) : [], weekConvention);
+    } else {
+      const from = newFrom ?? newTo!;
+      selectWeeks(weeksBetween(from, newTo ?? from, weekConvention), weekConvention);
+    }
+  };
+
+  const handleGranularityChange = (next: PeriodGranularity) => {
+    if (next === 'week') {
+      // Start from the latest week with data
+      selectWeeks(weeks.slice(-1), weekConvention);
+    } else {
+      handlePickerChange(pickerTo, pickerTo);
+    }
+  };
+
+  // Re-key the selected weeks so the same stretch of days stays selected
+  const handleWeekConventionChange = (convention: WeekConvention) => {
+    if (selectedWeeks.length === 0) {
+      updateConfig({ week_convention: convention });
+      return;
+    }
+    const { start, end } = weekWindow({ convention: weekConvention, weeks: selectedWeeks });
+    selectWeeks(weeksBetween(weekKeyOf(start, convention), weekKeyOf(end, convention), convention), convention);
+  };
+
+  const comparison = config?.selected_comparison;
+  const comparisonMonths = comparison?.mode === 'custom' ? comparison.months ?? [] : [];
+
+  const handleComparisonMode = (mode: ComparisonMode | '') => {
+    if (!mode) {
+      updateConfig({ selected_comparison: undefined });
+    } else if (mode === 'custom') {
+      // Start from the same months a year earlier
+      const selected = dateRange?.months.length ? dateRange.months : rawMonth ? [rawMonth] : [];
+      updateConfig({ selected_comparison: { mode, months: selected.map(m => addMonths(m, -12)) } });
+    } else {
+      updateConfig({ selected_comparison: { mode } });
+    }
+  };
+
+  const handleComparisonRange = (newFrom: string | null, newTo: string | null) => {
+    const from = newFrom ?? newTo;
+    const to = newTo ?? newFrom;
+    updateConfig({
+      selected_comparison: { mode: 'custom', months: from && to ? monthsBetween(from, to) : [] },
+    });
+  };
+
   const handleProjectSelect = (id: string) => {
     if (onProjectChange) {
       onProjectChange(id); // caller handles Dexie + navigation
@@ -102,6 +199,20 @@ export function ViewHeader({
         <h1 className="text-lg font-bold text-[var(--text-primary)]">{title}</h1>
         <div className="h-5 w-px bg-[var(--border-default)]" />
 
+        {/* Team selector — only once more than one LP team has been imported */}
+        {teams.length > 1 && (
+          <select
+            value={config?.selected_team ?? ''}
+            onChange={(e) => updateConfig({ selected_team: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">All Teams</option>
+            {teams.map(team => (
+              <option key={team} value={team}>{team}</option>
+            ))}
+          </select>
+        )}
+
         {/* Date range picker */}
         <MonthRangePicker
           from={pickerFrom}
@@ -109,8 +220,40 @@ export function ViewHeader({
           onChange={handlePickerChange}
           availableMonths={months}
           mode={pickerMode}
+          {...(pickerMode === 'historical' && {
+            granularity,
+            onGranularityChange: handleGranularityChange,
+            weekConvention,
+            onWeekConventionChange: handleWeekConventionChange,
+            weekFrom: selectedWeeks[0] ?? null,
+            weekTo: selectedWeeks[selectedWeeks.length - 1] ?? null,
+            availableWeeks: weeks,
+            onWeekChange: handleWeekChange,
+          })}
         />
 
+        {/* Comparison period — drives KPI deltas, ghost series and narrative trends */}
+        {pickerFrom && (
+          <select
+            value={comparison?.mode ?? ''}
+            onChange={(e) => handleComparisonMode(e.target.value as ComparisonMode | '')}
+            className={selectClass}
+          >
+            <option value="">No comparison</option>
+            <option value="previous_period">vs previous period</option>
+            <option value="previous_year">vs same period last year</option>
+            <option value="custom">vs custom range…</option>
+          </select>
+        )}
+        {pickerFrom && comparison?.mode === 'custom' && (
+          <MonthRangePicker
+            from={comparisonMonths[0] ?? null}
+            to={comparisonMonths[comparisonMonths.length - 1] ?? null}
+            onChange={handleComparisonRange}
+            availableMonths={months}
+          />
+        )}
+
         {/* Project or engineer selector */}
         {showEngineerFilter ? (
           <select
@@ -130,24 +273,32 @@ export function ViewHeader({
             className={selectClass}
           >
             <option value="">All Projects</option>
-            <optgroup label="NPD">
-              {projects.filter(p => p.type === 'NPD').map(p => (
-                <option key={p.project_id} value={p.project_id}>
-                  {p.project_id} - {p.project_name}
-                </option>
-              ))}
-            </optgroup>
-            <optgroup label="Sustaining">
-              {projects.filter(p => p.type === 'Sustaining').map(p => (
-                <option key={p.project_id} value={p.project_id}>
-                  {p.project_id} - {p.project_name}
-                </option>
-              ))}
-            </optgroup>
+            {(['NPD', 'Sustaining'] as const).map(type => (
+              <optgroup key={type} label={type}>
+                {projectTree.filter(t => t.rootType === type).map(({ project: p, depth }) => (
+                  <option key={p.project_id} value={p.project_id}>
+                    {'\u00a0\u00a0\u00a0'.repeat(depth)}{p.project_id} - {p.project_name}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
           </select>
         )}
 
-
+        {/* Plan baseline selector — only once a baseline has been saved */}
+        {baselines.length > 0 && (
+          <select
+            value={config?.selected_baseline_id ?? ''}
+            onChange={(e) => updateConfig({ selected_baseline_id: e.target.value ? Number(e.target.value) : undefined })}
+            className={selectClass}
+            title="Plan that planned-vs-actual panels compare against"
+          >
+            <option value="">Plan: Current</option>
+            {baselines.map(b => (
+              <option key={b.id} value={b.id}>Plan: {b.name}</option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Right: actions */}
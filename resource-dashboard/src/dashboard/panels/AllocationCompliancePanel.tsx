@@ -1,8 +1,11 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db/database';
-import { computeActualHours } from '../../aggregation/engine';
-import { getProjectParent } from '../../aggregation/projectUtils';
+import { runAggregation } from '../../aggregation/engine';
+import { loadPlannedAllocations } from '../../aggregation/planBaselines';
+import { scopeAllocations } from '../../aggregation/teamScope';
+import { useAggregationVersion } from '../../hooks/useAggregation';
+import { loadProjectHierarchy } from '../../aggregation/projectUtils';
 import { formatHours } from '../../utils/format';
 import { useFilters } from '../../context/ViewFilterContext';
 import { resolveMonths } from '../../utils/monthRange';
@@ -17,7 +20,8 @@ interface ComplianceRow {
 }
 
 export function AllocationCompliancePanel() {
-  const { monthFilter, selectedProject, selectedEngineer } = useFilters();
+  const { monthFilter, selectedProject, selectedEngineer, selectedBaseline } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const complianceData = useLiveQuery(async () => {
     if (!monthFilter) return null;
@@ -25,15 +29,13 @@ export function AllocationCompliancePanel() {
     const months = resolveMonths(monthFilter);
 
     // ── Planned hours ────────────────────────────────────────────────────
-    let allocations = await db.plannedAllocations
-      .where('month')
-      .anyOf(months)
-      .toArray();
+    const monthSet = new Set(months);
+    let allocations = (await scopeAllocations(await loadPlannedAllocations(selectedBaseline)))
+      .filter(a => monthSet.has(a.month));
 
     if (selectedProject) {
-      allocations = allocations.filter(a =>
-        a.project_id === selectedProject || getProjectParent(a.project_id) === selectedProject
-      );
+      const hierarchy = await loadProjectHierarchy();
+      allocations = allocations.filter(a => hierarchy.isWithin(a.project_id, selectedProject));
     }
     if (selectedEngineer) {
       allocations = allocations.filter(a => a.engineer === selectedEngineer);
@@ -46,7 +48,7 @@ export function AllocationCompliancePanel() {
     }
 
     // ── Actual hours ─────────────────────────────────────────────────────
-    const actuals = await computeActualHours(monthFilter, selectedProject, selectedEngineer);
+    const actuals = await runAggregation('computeActualHours', monthFilter, selectedProject, selectedEngineer);
 
     // Sum actual hours per project (across all months in range)
     const actualMap = new Map<string, number>();
@@ -87,7 +89,7 @@ export function AllocationCompliancePanel() {
     // Sort by absolute delta descending (biggest deviations first)
     rows.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
     return rows;
-  }, [monthFilter, selectedProject, selectedEngineer]);
+  }, [monthFilter, selectedProject, selectedEngineer, selectedBaseline, aggregationVersion]);
 
   if (!monthFilter) {
     return (
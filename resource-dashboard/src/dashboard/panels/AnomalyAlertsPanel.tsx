@@ -3,9 +3,11 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { getAnomaliesWithStatus } from '../../aggregation/anomalyHistory';
-import { computeAnomalies } from '../../aggregation/anomalies';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { ANOMALY_RULES } from '../../aggregation/anomalyRules';
 import type { AnomalyWithStatus, AnomalyStatus } from '../../types';
+import { generateAnomalyId } from '../../aggregation/anomalies';
 import type { AnomalySeverity } from '../../aggregation/anomalies';
 import { useFilters } from '../../context/ViewFilterContext';
 
@@ -43,23 +45,29 @@ export function AnomalyAlertsPanel() {
   const [showAll, setShowAll] = useState(false);
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
   const [showResolved, setShowResolved] = useState(false);
-  const { monthFilter, selectedMonth, selectedProject, isRange, selectedEngineer } = useFilters();
+  const { monthFilter, weekFilter, selectedMonth, selectedProject, isRange, selectedEngineer } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const anomalies = useLiveQuery(async () => {
-    // Anomalies stay single-month for historical comparison
-    if (!selectedMonth || isRange) return null;
+    // Anomalies stay single-month (or single week run) for historical comparison
+    if (!selectedMonth || (isRange && !weekFilter)) return null;
 
-    // Try to get status-enriched anomalies from history
-    const withStatus = await getAnomaliesWithStatus(selectedMonth, selectedProject);
-    const filteredWithStatus = selectedEngineer
-      ? withStatus.filter(a => a.person === selectedEngineer)
-      : withStatus;
-    if (filteredWithStatus.length > 0) return filteredWithStatus;
+    // Anomaly history is kept per month, so weeks are always computed live
+    if (!weekFilter) {
+      // Try to get status-enriched anomalies from history
+      const withStatus = await getAnomaliesWithStatus(selectedMonth, selectedProject);
+      const filteredWithStatus = selectedEngineer
+        ? withStatus.filter(a => a.person === selectedEngineer)
+        : withStatus;
+      if (filteredWithStatus.length > 0) return filteredWithStatus;
+    }
 
     // Fallback: compute live (no history yet), all treated as new
-    const live = await computeAnomalies(selectedMonth, selectedProject, selectedEngineer);
+    const live = weekFilter
+      ? await runAggregation('computeAnomalies', monthFilter, selectedProject, selectedEngineer, undefined, weekFilter)
+      : await runAggregation('computeAnomalies', selectedMonth, selectedProject, selectedEngineer);
     return live.map(a => ({
-      anomaly_id: `${a.ruleId}::${a.person || a.projectId || 'global'}`,
+      anomaly_id: generateAnomalyId(a),
       type: a.type,
       severity: a.severity,
       title: a.title,
@@ -69,7 +77,7 @@ export function AnomalyAlertsPanel() {
       ruleId: a.ruleId,
       status: 'new' as AnomalyStatus,
     })) as AnomalyWithStatus[];
-  }, [selectedMonth, selectedProject, isRange, selectedEngineer]);
+  }, [monthFilter, weekFilter, selectedMonth, selectedProject, isRange, selectedEngineer, aggregationVersion]);
 
   if (!monthFilter) {
     return (
@@ -79,7 +87,7 @@ export function AnomalyAlertsPanel() {
     );
   }
 
-  if (isRange) {
+  if (isRange && !weekFilter) {
     return (
       <div className="text-center py-8 text-[var(--text-muted)]">
         Anomaly detection is available for individual months. Select a specific month to view.
@@ -103,7 +111,7 @@ export function AnomalyAlertsPanel() {
         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
         </svg>
-        <span className="text-[13px] font-medium">No anomalies detected this month</span>
+        <span className="text-[13px] font-medium">No anomalies detected this {weekFilter ? 'period' : 'month'}</span>
       </div>
     );
   }
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { ChartLoader } from '../../charts/ChartLoader';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
+import { usePlanBaselines } from '../../hooks/usePlanBaselines';
+import { loadProjectHierarchy } from '../../aggregation/projectUtils';
+import { useFilters } from '../../context/ViewFilterContext';
+import { formatHours } from '../../utils/format';
+
+// Select value for the live plan
+const CURRENT_PLAN = 'current';
+
+export function BaselineVariancePanel({ onProjectClick }: { onProjectClick?: (projectId: string) => void } = {}) {
+  const { monthFilter, selectedProject, selectedBaseline } = useFilters();
+  const aggregationVersion = useAggregationVersion();
+  const { baselines } = usePlanBaselines();
+
+  // Default: the header's baseline (or the oldest one) against the current plan
+  const [fromChoice, setFromChoice] = useState<string | null>(null);
+  const [toChoice, setToChoice] = useState(CURRENT_PLAN);
+  const defaultFrom = selectedBaseline ?? baselines[baselines.length - 1]?.id;
+  const from = fromChoice ?? (defaultFrom !== undefined ? String(defaultFrom) : CURRENT_PLAN);
+  const toId = (choice: string) => choice === CURRENT_PLAN ? undefined : Number(choice);
+
+  const variance = useLiveQuery(async () => {
+    let data = await runAggregation('computeBaselineVariance', toId(from), toId(toChoice), monthFilter);
+    if (selectedProject) {
+      const hierarchy = await loadProjectHierarchy();
+      data = data.filter(d =>
+        hierarchy.isWithin(d.project_id, selectedProject) || hierarchy.isWithin(selectedProject, d.project_id)
+      );
+    }
+    return data;
+  }, [from, toChoice, monthFilter, selectedProject, aggregationVersion]);
+
+  const selectClass = 'text-[12px] bg-white border border-[var(--border-input)] rounded-md px-2 py-1 text-[var(--text-secondary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-focus-ring)]';
+
+  const planOptions = (
+    <>
+      <option value={CURRENT_PLAN}>Current plan</option>
+      {baselines.map(b => (
+        <option key={b.id} value={String(b.id)}>{b.name}</option>
+      ))}
+    </>
+  );
+
+  const totalFrom = variance?.reduce((sum, v) => sum + v.from_hours, 0) ?? 0;
+  const totalTo = variance?.reduce((sum, v) => sum + v.to_hours, 0) ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-[12px] text-[var(--text-secondary)]">
+        <select value={from} onChange={(e) => setFromChoice(e.target.value)} className={selectClass}>
+          {planOptions}
+        </select>
+        <span>→</span>
+        <select value={toChoice} onChange={(e) => setToChoice(e.target.value)} className={selectClass}>
+          {planOptions}
+        </select>
+      </div>
+
+      {variance === undefined ? (
+        <ChartLoader />
+      ) : from === toChoice ? (
+        <div className="text-center py-12 text-[var(--text-muted)]">Pick two different plans to compare</div>
+      ) : variance.length === 0 ? (
+        <div className="text-center py-12 text-[var(--text-muted)]">Neither plan has allocations for this period</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-[12px]">
+            <thead>
+              <tr className="border-b border-[var(--border-default)] text-[11px] uppercase tracking-[0.05em] text-[var(--text-muted)]">
+                <th className="py-2 pr-3 text-left font-medium">Project</th>
+                <th className="py-2 px-3 text-right font-medium">From</th>
+                <th className="py-2 px-3 text-right font-medium">To</th>
+                <th className="py-2 pl-3 text-right font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--border-subtle)]">
+              {variance.map(v => (
+                <tr
+                  key={v.project_id}
+                  onClick={() => onProjectClick?.(v.project_id)}
+                  className={onProjectClick ? 'cursor-pointer hover:bg-[var(--bg-table-hover)]' : ''}
+                >
+                  <td className="py-1.5 pr-3">
+                    <span className="font-medium text-[var(--text-primary)]">{v.project_id}</span>
+                    {v.project_name !== v.project_id && (
+                      <span className="text-[var(--text-muted)]"> · {v.project_name}</span>
+                    )}
+                  </td>
+                  <td className="py-1.5 px-3 text-right text-[var(--text-secondary)]">{formatHours(v.from_hours)}</td>
+                  <td className="py-1.5 px-3 text-right text-[var(--text-secondary)]">{formatHours(v.to_hours)}</td>
+                  <td className={`py-1.5 pl-3 text-right font-medium ${deltaClass(v.delta)}`}>
+                    {formatDelta(v.delta)}
+                    {v.from_hours > 0 && (
+                      <span className="font-normal"> ({v.delta_pct >= 0 ? '+' : ''}{(v.delta_pct * 100).toFixed(0)}%)</span>
+                    )}
+                    {v.from_hours === 0 && <span className="font-normal"> (new)</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-[var(--border-default)] font-semibold text-[var(--text-primary)]">
+                <td className="py-2 pr-3">Total</td>
+                <td className="py-2 px-3 text-right">{formatHours(totalFrom)}</td>
+                <td className="py-2 px-3 text-right">{formatHours(totalTo)}</td>
+                <td className={`py-2 pl-3 text-right ${deltaClass(totalTo - totalFrom)}`}>{formatDelta(totalTo - totalFrom)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? '+' : ''}${formatHours(delta)}`;
+}
+
+function deltaClass(delta: number): string {
+  if (delta > 0) return 'text-[var(--status-danger)]';
+  if (delta < 0) return 'text-[var(--status-good)]';
+  return 'text-[var(--text-muted)]';
+}
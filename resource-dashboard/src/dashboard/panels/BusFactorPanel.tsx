@@ -1,7 +1,8 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeBusFactorRisk } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { ProjectType } from '../../types';
 import type { BusFactorResult } from '../../aggregation/busFactor';
@@ -16,11 +17,12 @@ const RISK_STYLES: Record<BusFactorResult['riskLevel'], { bg: string; text: stri
 export function BusFactorPanel({ onPersonClick }: { onPersonClick?: (name: string) => void } = {}) {
   const [npdOnly, setNpdOnly] = useState(false);
   const { monthFilter, selectedProject } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const busData = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    return await computeBusFactorRisk(monthFilter, selectedProject);
-  }, [monthFilter, selectedProject]);
+    return await runAggregation('computeBusFactorRisk', monthFilter, selectedProject);
+  }, [monthFilter, selectedProject, aggregationVersion]);
 
   if (!monthFilter) {
     return (
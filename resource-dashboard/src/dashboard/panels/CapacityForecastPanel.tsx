@@ -1,10 +1,12 @@
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db/database';
 import { useFilters } from '../../context/ViewFilterContext';
-import { computeCapacityForecast } from '../../aggregation/capacityForecast';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { Heatmap } from '../../charts/Heatmap';
 import { formatPercent, formatMonth } from '../../utils/format';
 import { fromDbMonth, resolveMonths } from '../../utils/monthRange';
+import { loadMonthlyRollups } from '../../aggregation/teamScope';
 
 /** Capacity-specific color scale: gray < 50%, blue 50-70%, green 70-100%, yellow 100-120%, red > 120% */
 function forecastColor(pct: number): string {
@@ -18,12 +20,13 @@ function forecastColor(pct: number): string {
 
 export function CapacityForecastPanel({ onPersonClick }: { onPersonClick?: (name: string) => void } = {}) {
   const { selectedProject, monthFilter } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   // Determine months to display: use selected date range if available, else all allocation months
   const forecastData = useLiveQuery(async () => {
     const [allocations, timesheets] = await Promise.all([
       db.plannedAllocations.toArray(),
-      db.timesheets.toArray(),
+      loadMonthlyRollups(),
     ]);
 
     // Months that have actual data
@@ -49,9 +52,9 @@ export function CapacityForecastPanel({ onPersonClick }: { onPersonClick?: (name
       hasActual: actualMonths.has(m),
     }));
 
-    const result = await computeCapacityForecast(months, selectedProject);
+    const result = await runAggregation('computeCapacityForecast', months, selectedProject);
     return { ...result, monthTags };
-  }, [selectedProject, monthFilter]);
+  }, [selectedProject, monthFilter, aggregationVersion]);
 
   if (!forecastData) {
     return (
@@ -1,6 +1,7 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeActualHours, computeLabTechHours } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { formatHours } from '../../utils/format';
 import { ProjectType } from '../../types';
@@ -21,12 +22,13 @@ const COLORS: Record<string, string> = {
 
 export function DisciplineDonutPanel() {
   const { monthFilter, selectedProject } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const data = useLiveQuery(async () => {
     if (!monthFilter) return null;
     const [actuals, labHours] = await Promise.all([
-      computeActualHours(monthFilter, selectedProject),
-      computeLabTechHours(monthFilter, selectedProject),
+      runAggregation('computeActualHours', monthFilter, selectedProject),
+      runAggregation('computeLabTechHours', monthFilter, selectedProject),
     ]);
 
     const totalActual = actuals.reduce((s, a) => s + a.actual_hours, 0);
@@ -49,7 +51,7 @@ export function DisciplineDonutPanel() {
       .sort((a, b) => b.hours - a.hours);
 
     return { slices, total: Math.round(total * 10) / 10 };
-  }, [monthFilter, selectedProject]);
+  }, [monthFilter, selectedProject, aggregationVersion]);
 
   if (!monthFilter) {
     return (
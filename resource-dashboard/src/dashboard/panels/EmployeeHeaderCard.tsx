@@ -4,6 +4,7 @@ import { useFilters } from '../../context/ViewFilterContext';
 import { resolveMonths, toDbMonths } from '../../utils/monthRange';
 import { formatHours, formatMonth } from '../../utils/format';
 import { getEngineerCapacity } from '../../utils/capacity';
+import { loadMonthlyRollups } from '../../aggregation/teamScope';
 
 function rangeLabel(months: string[]): string | undefined {
   if (months.length === 0) return undefined;
@@ -40,12 +41,8 @@ export function EmployeeHeaderCard() {
     const displayMonths = resolveMonths(monthFilter);
     const dbMonths = toDbMonths(displayMonths);
 
-    // Logged hours from timesheets
-    const entries = await db.timesheets
-      .where('month')
-      .anyOf(dbMonths)
-      .and(t => t.full_name === selectedEngineer)
-      .toArray();
+    // Logged hours from the monthly rollups
+    const entries = (await loadMonthlyRollups(dbMonths)).filter(t => t.full_name === selectedEngineer);
     const loggedHours = entries.reduce((sum, e) => sum + e.hours, 0);
     const activeProjects = new Set(
       entries
@@ -1,7 +1,8 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db/database';
-import { computeActualHours } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { resolveMonths } from '../../utils/monthRange';
 import {
@@ -19,14 +20,15 @@ import { CATEGORY_COLORS, AXIS_STYLE, GRID_STYLE, TOOLTIP_STYLE, LEGEND_STYLE, C
 
 export function EngineerBreakdownPanel({ onPersonClick }: { onPersonClick?: (name: string) => void } = {}) {
   const { monthFilter, selectedProject } = useFilters();
+  const aggregationVersion = useAggregationVersion();
   const config = useLiveQuery(() => db.config.get(1));
   const monthCount = resolveMonths(monthFilter ?? '').length;
   const capacity = (config?.std_monthly_capacity_hours ?? 140) * monthCount;
 
   const actualHours = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    return await computeActualHours(monthFilter, selectedProject);
-  }, [monthFilter, selectedProject]);
+    return await runAggregation('computeActualHours', monthFilter, selectedProject);
+  }, [monthFilter, selectedProject, aggregationVersion]);
 
   if (!monthFilter) {
     return (
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { ChartLoader } from '../../charts/ChartLoader';
+import { AXIS_STYLE, GRID_STYLE, CHART_MARGINS, LEGEND_STYLE, TOOLTIP_STYLE, MonthAxisTick } from '../../charts/ChartTheme';
+import { useFilters } from '../../context/ViewFilterContext';
+import { useKPIHistory } from '../../hooks/useKPIHistory';
+import { useKPISettings } from '../../hooks/useKPISettings';
+import { ENGINEER_KPI_CARDS, getKPIDefinition } from '../../aggregation/kpiRegistry';
+import { formatTargetValue } from '../../aggregation/kpiTargets';
+import type { KPICardKey } from '../../types';
+import { addMonths } from '../MonthRangePicker';
+import { formatMonth } from '../../utils/format';
+
+const HISTORY_MONTHS = 12;
+
+/**
+ * One engineer's KPI over the twelve months up to the selected month, from the
+ * per-engineer KPI history. Ratio KPIs are drawn against the team's value.
+ */
+export function EngineerKPIHistoryPanel() {
+  const { selectedMonth, selectedEngineer } = useFilters();
+  const { settings } = useKPISettings();
+  const [kpiKey, setKPIKey] = useState<KPICardKey>('totalHoursLogged');
+
+  const history = useKPIHistory(undefined, selectedEngineer);
+  const teamHistory = useKPIHistory();
+
+  if (history === undefined || teamHistory === undefined) {
+    return <ChartLoader />;
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-12 text-[var(--text-muted)]">
+        <p className="text-[13px]">No KPI history for {selectedEngineer} yet.</p>
+        <p className="text-[11px] mt-1">KPI snapshots are created automatically after each import.</p>
+      </div>
+    );
+  }
+
+  const def = getKPIDefinition(kpiKey, [], settings)!;
+  // Head counts and hour totals of the whole team aren't comparable with one person's
+  const showTeam = def.format === 'percent' || def.format === 'decimal';
+
+  const endMonth = selectedMonth ?? history[history.length - 1].month;
+  const months = Array.from({ length: HISTORY_MONTHS }, (_, i) => addMonths(endMonth, i - HISTORY_MONTHS + 1));
+  const byMonth = new Map(history.map(s => [s.month, s]));
+  const teamByMonth = new Map(teamHistory.map(s => [s.month, s]));
+
+  const chartData = months.map(month => {
+    const snap = byMonth.get(month);
+    const teamSnap = teamByMonth.get(month);
+    return {
+      month,
+      engineer: snap ? def.getValue(snap.results) : null,
+      team: showTeam && teamSnap ? def.getValue(teamSnap.results) : null,
+    };
+  });
+
+  return (
+    <div>
+      <div className="flex justify-end mb-2">
+        <select
+          value={kpiKey}
+          onChange={(e) => setKPIKey(e.target.value as KPICardKey)}
+          className="text-[12px] bg-white border border-[var(--border-input)] rounded-md px-2 py-1 text-[var(--text-secondary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-focus-ring)]"
+        >
+          {ENGINEER_KPI_CARDS.map(key => (
+            <option key={key} value={key}>{getKPIDefinition(key, [], settings)!.label}</option>
+          ))}
+        </select>
+      </div>
+      <ResponsiveContainer width="100%" height={260}>
+        <LineChart data={chartData} margin={CHART_MARGINS.vertical}>
+          <CartesianGrid {...GRID_STYLE} />
+          <XAxis
+            dataKey="month"
+            {...AXIS_STYLE}
+            tick={<MonthAxisTick monthCount={chartData.length} />}
+            interval={0}
+          />
+          <YAxis {...AXIS_STYLE} tickFormatter={(v: number) => formatTargetValue(v, def)} />
+          <Tooltip
+            {...TOOLTIP_STYLE}
+            labelFormatter={(month) => formatMonth(String(month))}
+            formatter={(value) => formatTargetValue(Number(value), def)}
+          />
+          <Legend {...LEGEND_STYLE} />
+          <Line
+            type="monotone"
+            dataKey="engineer"
+            name={selectedEngineer}
+            stroke="#2563eb"
+            strokeWidth={2}
+            dot={{ r: 3 }}
+            connectNulls
+          />
+          {showTeam && (
+            <Line
+              type="monotone"
+              dataKey="team"
+              name="Team"
+              stroke="#94a3b8"
+              strokeWidth={2}
+              strokeDasharray="5 4"
+              dot={false}
+              connectNulls
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -1,74 +1,113 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
 import {
-  BarChart,
+  ComposedChart,
   Bar,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
 } from 'recharts';
-import { computeMonthlyCategoryTotals, computeActualHours } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { CATEGORY_COLORS, AXIS_STYLE, GRID_STYLE, BAR_STYLE, CHART_MARGINS, monthAxisInterval, MonthAxisTick } from '../../charts/ChartTheme';
-import { resolveMonths } from '../../utils/monthRange';
+import { alignComparisonMonths, resolveMonths } from '../../utils/monthRange';
 import { WorkClass } from '../../types';
 import { formatMonth } from '../../utils/format';
+import { formatWeekKey } from '../../utils/weekDates';
 import { TOOLTIP_STYLE } from '../../charts/ChartTheme';
 
+interface FFRow {
+  month: string;              // Month, or week key in week mode
+  label: string;
+  firefighting: number;
+  comparisonLabel?: string;
+  comparison?: number;
+}
+
 function FFTooltip({ active, payload }: any) {
   if (!active || !payload?.length) return null;
-  const row = payload[0]?.payload as { month: string; firefighting: number } | undefined;
+  const row = payload[0]?.payload as FFRow | undefined;
   if (!row) return null;
   return (
     <div style={{
       ...TOOLTIP_STYLE.contentStyle,
     }}>
       <div style={{ fontWeight: 600, marginBottom: 4, color: '#0f172a' }}>
-        {formatMonth(row.month)}
+        {row.label}
       </div>
       <div style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#475569' }}>
         <span style={{ width: 8, height: 8, borderRadius: '50%', backgroundColor: CATEGORY_COLORS.firefighting, flexShrink: 0 }} />
         Firefighting: <b>{Math.round(row.firefighting)}h</b>
       </div>
+      {row.comparisonLabel && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#475569' }}>
+          <span style={{ width: 8, height: 8, borderRadius: '50%', backgroundColor: '#94a3b8', flexShrink: 0 }} />
+          {row.comparisonLabel}: <b>{Math.round(row.comparison ?? 0)}h</b>
+        </div>
+      )}
     </div>
   );
 }
 
 export function FirefightingTrendPanel() {
-  const { selectedProject, monthFilter, selectedEngineer } = useFilters();
+  const { selectedProject, monthFilter, weekFilter, selectedEngineer, comparisonFilter, comparisonWeekFilter, comparisonLabel } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const chartData = useLiveQuery(
-    async () => {
+    async (): Promise<FFRow[]> => {
+      // Week mode: one bar per selected week, compared week-for-week
+      if (weekFilter) {
+        const [weeks, comparisonWeeks] = await Promise.all([
+          runAggregation('computeWeeklyCategoryTotals', weekFilter, selectedProject, selectedEngineer),
+          comparisonWeekFilter
+            ? runAggregation('computeWeeklyCategoryTotals', comparisonWeekFilter, selectedProject, selectedEngineer)
+            : [],
+        ]);
+        return weeks.map((w, i) => {
+          const c = comparisonWeeks[i];
+          const row = { month: w.week, label: formatWeekKey(w.week, weekFilter.convention), firefighting: w.actual_firefighting };
+          return c
+            ? { ...row, comparisonLabel: formatWeekKey(c.week, weekFilter.convention), comparison: c.actual_firefighting }
+            : row;
+        });
+      }
+
+      // Firefighting hours per month, including the comparison months
+      const monthMap = new Map<string, number>();
       if (selectedEngineer) {
-        const actuals = await computeActualHours(monthFilter, selectedProject, selectedEngineer);
-        const monthMap = new Map<string, number>();
+        const loadMonths = monthFilter && comparisonFilter
+          ? [...resolveMonths(monthFilter), ...resolveMonths(comparisonFilter)]
+          : monthFilter;
+        const actuals = await runAggregation('computeActualHours', loadMonths, selectedProject, selectedEngineer);
         for (const a of actuals) {
           if (a.work_class === WorkClass.UnplannedFirefighting) {
             monthMap.set(a.month, (monthMap.get(a.month) ?? 0) + a.actual_hours);
           }
         }
-        let entries = [...monthMap.entries()].sort(([a], [b]) => a.localeCompare(b));
-        if (monthFilter) {
-          const months = new Set(resolveMonths(monthFilter));
-          entries = entries.filter(([m]) => months.has(m));
-        }
-        return entries.map(([month, firefighting]) => ({ month, firefighting }));
       } else {
-        const all = await computeMonthlyCategoryTotals(selectedProject);
-        let filtered = all;
-        if (monthFilter) {
-          const months = new Set(resolveMonths(monthFilter));
-          filtered = all.filter(t => months.has(t.month));
-        }
-        return filtered
-          .slice()
-          .sort((a, b) => a.month.localeCompare(b.month))
-          .map(m => ({ month: m.month, firefighting: m.actual_firefighting }));
+        const all = await runAggregation('computeMonthlyCategoryTotals', selectedProject);
+        for (const t of all) monthMap.set(t.month, t.actual_firefighting);
+      }
+
+      let months = [...monthMap.keys()].sort();
+      if (monthFilter) {
+        const selected = new Set(resolveMonths(monthFilter));
+        months = months.filter(m => selected.has(m));
       }
+      const paired = monthFilter && comparisonFilter ? alignComparisonMonths(monthFilter, comparisonFilter) : null;
+      return months.map(month => {
+        const comparisonMonth = paired?.get(month);
+        const row = { month, label: formatMonth(month), firefighting: monthMap.get(month)! };
+        return comparisonMonth
+          ? { ...row, comparisonLabel: formatMonth(comparisonMonth), comparison: monthMap.get(comparisonMonth) ?? 0 }
+          : row;
+      });
     },
-    [selectedProject, monthFilter, selectedEngineer]
+    [selectedProject, monthFilter, weekFilter, selectedEngineer, comparisonFilter, comparisonWeekFilter, aggregationVersion]
   );
 
   if (chartData === undefined) {
@@ -83,18 +122,25 @@ export function FirefightingTrendPanel() {
 
   return (
     <ResponsiveContainer width="100%" height={300}>
-      <BarChart data={chartData} margin={CHART_MARGINS.vertical}>
+      <ComposedChart data={chartData} margin={CHART_MARGINS.vertical}>
         <CartesianGrid {...GRID_STYLE} />
-        <XAxis
-          dataKey="month"
-          {...AXIS_STYLE}
-          tick={<MonthAxisTick monthCount={monthCount} />}
-          interval={monthAxisInterval(monthCount)}
-        />
+        {weekFilter ? (
+          <XAxis dataKey="label" {...AXIS_STYLE} interval={monthAxisInterval(monthCount)} />
+        ) : (
+          <XAxis
+            dataKey="month"
+            {...AXIS_STYLE}
+            tick={<MonthAxisTick monthCount={monthCount} />}
+            interval={monthAxisInterval(monthCount)}
+          />
+        )}
         <YAxis {...AXIS_STYLE} width={48} label={{ value: 'Hours', angle: -90, position: 'insideLeft', offset: 8, style: { fontSize: 12, fill: '#64748b', fontWeight: 500 } }} />
         <Tooltip content={<FFTooltip />} cursor={{ fill: 'rgba(0,0,0,0.03)' }} />
         <Bar dataKey="firefighting" fill={CATEGORY_COLORS.firefighting} name="Firefighting Hours" radius={BAR_STYLE.radius} />
-      </BarChart>
+        {(weekFilter ? comparisonWeekFilter : comparisonFilter) && (
+          <Line type="monotone" dataKey="comparison" name={`Firefighting Hours (${comparisonLabel})`} stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 4" dot={false} />
+        )}
+      </ComposedChart>
     </ResponsiveContainer>
   );
 }
@@ -1,6 +1,7 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeFocusScore } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import {
   BarChart,
@@ -21,12 +22,13 @@ function focusColor(score: number): string {
 }
 
 export function FocusScorePanel() {
-  const { monthFilter, selectedProject, selectedEngineer } = useFilters();
+  const { monthFilter, weekFilter, selectedProject, selectedEngineer } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const focusData = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    return await computeFocusScore(monthFilter, selectedProject, selectedEngineer);
-  }, [monthFilter, selectedProject, selectedEngineer]);
+    return await runAggregation('computeFocusScore', monthFilter, selectedProject, selectedEngineer, weekFilter);
+  }, [monthFilter, weekFilter, selectedProject, selectedEngineer, aggregationVersion]);
 
   if (!monthFilter) {
     return (
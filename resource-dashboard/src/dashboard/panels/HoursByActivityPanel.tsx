@@ -1,10 +1,10 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db } from '../../db/database';
 import { useFilters } from '../../context/ViewFilterContext';
 import { resolveMonths, toDbMonths } from '../../utils/monthRange';
 import { PieChart, Pie, Cell, Tooltip, Label, ResponsiveContainer } from 'recharts';
 import { formatHours } from '../../utils/format';
+import { loadMonthlyRollups } from '../../aggregation/teamScope';
 
 const ACTIVITY_COLORS: Record<string, string> = {
   'Engineering': '#2563eb',
@@ -28,11 +28,7 @@ export function HoursByActivityPanel({ activityFilter, onActivityChange }: Props
   const data = useLiveQuery(async () => {
     if (!selectedEngineer || !monthFilter) return null;
     const months = toDbMonths(resolveMonths(monthFilter));
-    const entries = await db.timesheets
-      .where('month')
-      .anyOf(months)
-      .and(t => t.full_name === selectedEngineer)
-      .toArray();
+    const entries = (await loadMonthlyRollups(months)).filter(t => t.full_name === selectedEngineer);
     const total = entries.reduce((sum, e) => sum + e.hours, 0);
     const actMap = new Map<string, number>();
     entries.forEach(e => {
@@ -1,21 +1,36 @@
+import { useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db/database';
-import { computeAllKPIs } from '../../aggregation/kpiEngine';
-import { KPI_REGISTRY, formatKPIValue, getKPIColor } from '../../aggregation/kpiRegistry';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
+import { formatKPIDelta, formatKPIValue, getKPIColor, getKPIDefinition } from '../../aggregation/kpiRegistry';
 import { KPICard } from '../../charts/KPICard';
+import { KPIDrillDownDrawer } from '../KPIDrillDownDrawer';
 import { DEFAULT_KPI_CARDS } from '../../aggregation/kpiRegistry';
-import type { KPICardKey } from '../../types';
+import { compareToTarget, formatTargetGap, formatTargetValue } from '../../aggregation/kpiTargets';
+import type { KPICardSelection } from '../../types';
+import { useCustomKPIs } from '../../hooks/useCustomKPIs';
+import { useKPISettings } from '../../hooks/useKPISettings';
 import { useFilters } from '../../context/ViewFilterContext';
 
 export function KPISummaryPanel() {
-  const { monthFilter, selectedProject } = useFilters();
+  const { monthFilter, weekFilter, selectedProject, comparisonFilter, comparisonWeekFilter, comparisonLabel } = useFilters();
+  const aggregationVersion = useAggregationVersion();
   const config = useLiveQuery(() => db.config.get(1));
-  const kpiCards: KPICardKey[] = config?.kpi_cards ?? DEFAULT_KPI_CARDS;
+  const kpiCards: KPICardSelection[] = config?.kpi_cards ?? DEFAULT_KPI_CARDS;
+  const { customKPIs } = useCustomKPIs();
+  const { settings, settingFor } = useKPISettings();
+  const [drillKey, setDrillKey] = useState<KPICardSelection | null>(null);
 
   const kpiResults = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    return await computeAllKPIs(monthFilter, selectedProject);
-  }, [monthFilter, selectedProject]);
+    return await runAggregation('computeAllKPIs', monthFilter, selectedProject, undefined, undefined, weekFilter);
+  }, [monthFilter, weekFilter, selectedProject, aggregationVersion]);
+
+  const comparisonResults = useLiveQuery(async () => {
+    if (!comparisonFilter) return null;
+    return await runAggregation('computeAllKPIs', comparisonFilter, selectedProject, undefined, undefined, comparisonWeekFilter);
+  }, [comparisonFilter, comparisonWeekFilter, selectedProject, aggregationVersion]);
 
   if (!monthFilter) {
     return (
@@ -37,7 +52,7 @@ export function KPISummaryPanel() {
 
   // Filter cards: when a single project is selected, hide non-applicable KPIs
   const visibleCards = selectedProject
-    ? kpiCards.filter(k => KPI_REGISTRY[k]?.applicableToSingleProject)
+    ? kpiCards.filter(k => getKPIDefinition(k, customKPIs)?.applicableToSingleProject)
     : kpiCards;
 
   // Determine grid columns based on card count
@@ -47,33 +62,57 @@ export function KPISummaryPanel() {
       ? 'grid-cols-2 lg:grid-cols-4'
       : 'grid-cols-2 lg:grid-cols-3 xl:grid-cols-6';
 
+  const drillDef = drillKey ? getKPIDefinition(drillKey, customKPIs, settings) : undefined;
+
   return (
-    <div className={`grid ${gridCols} gap-3`}>
-      {visibleCards.map(key => {
-        const def = KPI_REGISTRY[key];
-        if (!def) return null;
+    <>
+      <div className={`grid ${gridCols} gap-3`}>
+        {visibleCards.map(key => {
+          const def = getKPIDefinition(key, customKPIs, settings);
+          if (!def) return null;
 
-        const rawValue = def.getValue(kpiResults);
-        const displayValue = formatKPIValue(rawValue, def.format);
-        const color = getKPIColor(rawValue, def.thresholds);
+          const rawValue = def.getValue(kpiResults);
+          const displayValue = formatKPIValue(rawValue, def.format);
+          const color = getKPIColor(rawValue, def.thresholds);
+          // Targets are set per month or quarter, so they don't apply to a week selection
+          const vsTarget = weekFilter ? null : compareToTarget(rawValue, def, settingFor(key), monthFilter);
+          const delta = comparisonResults ? rawValue - def.getValue(comparisonResults) : null;
 
-        // Map registry format to KPICard format prop
-        const cardFormat: 'percent' | 'hours' | 'number' =
-          def.format === 'percent' ? 'percent'
-          : def.format === 'hours' ? 'hours'
-          : 'number';
+          // Map registry format to KPICard format prop
+          const cardFormat: 'percent' | 'hours' | 'number' =
+            def.format === 'percent' ? 'percent'
+            : def.format === 'hours' ? 'hours'
+            : 'number';
 
-        return (
-          <KPICard
-            key={key}
-            label={def.label}
-            value={displayValue}
-            format={cardFormat}
-            color={color}
-            tooltip={def.description}
-          />
-        );
-      })}
-    </div>
+          return (
+            <KPICard
+              key={key}
+              label={def.label}
+              value={displayValue}
+              format={cardFormat}
+              color={color}
+              tooltip={def.description}
+              trend={delta !== null ? {
+                direction: Math.abs(delta) < 0.0005 ? 'flat' : delta > 0 ? 'up' : 'down',
+                label: `${formatKPIDelta(delta, def.format)} vs ${comparisonLabel}`,
+              } : undefined}
+              target={vsTarget ? { label: formatTargetGap(vsTarget, def), met: vsTarget.met } : undefined}
+              onClick={() => setDrillKey(key)}
+            />
+          );
+        })}
+      </div>
+      {drillKey && drillDef && (
+        <KPIDrillDownDrawer
+          kpiKey={drillKey}
+          label={drillDef.label}
+          value={formatTargetValue(drillDef.getValue(kpiResults), drillDef)}
+          monthFilter={monthFilter}
+          weeks={weekFilter}
+          projectFilter={selectedProject}
+          onClose={() => setDrillKey(null)}
+        />
+      )}
+    </>
   );
 }
@@ -1,13 +1,41 @@
+import { useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
 import { db } from '../../db/database';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { useKPIHistory } from '../../hooks/useKPIHistory';
-import { KPI_REGISTRY, formatKPIValue } from '../../aggregation/kpiRegistry';
-import type { KPIFormat } from '../../aggregation/kpiRegistry';
+import { formatKPIValue, getKPIDefinition } from '../../aggregation/kpiRegistry';
+import type { KPIDefinition, KPIFormat } from '../../aggregation/kpiRegistry';
+import { compareToTarget, formatTargetGap, formatTargetValue, getKPITarget } from '../../aggregation/kpiTargets';
 import { Sparkline } from '../../charts/Sparkline';
-import { DEFAULT_KPI_CARDS } from '../../aggregation/kpiRegistry';
-import type { KPICardKey, KPISnapshot } from '../../types';
+import { DEFAULT_KPI_CARDS, ENGINEER_KPI_CARDS } from '../../aggregation/kpiRegistry';
+import type { KPICardSelection, KPISetting, KPISnapshot, CustomKPI } from '../../types';
+import { useCustomKPIs } from '../../hooks/useCustomKPIs';
+import { useKPISettings } from '../../hooks/useKPISettings';
 import { formatMonth } from '../../utils/format';
+import { addWeeks, formatWeekKey } from '../../utils/weekDates';
+import { AXIS_STYLE, GRID_STYLE, CHART_MARGINS, TOOLTIP_STYLE, MonthAxisTick, monthAxisInterval } from '../../charts/ChartTheme';
+import { computeIMRChart, describeViolations, SPC_MIN_POINTS } from '../../aggregation/spc';
+import type { SPCPoint } from '../../aggregation/spc';
+
+/** Weeks plotted when the picker is in week mode */
+const TREND_WEEKS = 12;
+
+/** One point of a KPI series — a monthly snapshot, or a week's KPIs keyed by week */
+type KPIPoint = Pick<KPISnapshot, 'month' | 'results'>;
 
 // ── Delta Calculation ──
 
@@ -19,12 +47,11 @@ interface Delta {
 }
 
 function computeDelta(
-  history: KPISnapshot[],
+  history: KPIPoint[],
   currentMonth: string,
-  kpiKey: KPICardKey,
+  def: KPIDefinition,
 ): Delta | null {
-  const def = KPI_REGISTRY[kpiKey];
-  if (!def || history.length < 2) return null;
+  if (history.length < 2) return null;
 
   const currentSnap = history.find(s => s.month === currentMonth);
   if (!currentSnap) return null;
@@ -71,13 +98,13 @@ function formatDelta(delta: Delta, format: KPIFormat): string {
   }
 }
 
-function getSparklineColor(kpiKey: KPICardKey): string {
-  const def = KPI_REGISTRY[kpiKey];
-  switch (def?.category) {
+function getSparklineColor(def: KPIDefinition): string {
+  switch (def.category) {
     case 'utilization': return '#2563eb';   // blue
     case 'workMix': return '#0d9488';       // teal
     case 'teamHealth': return '#7c3aed';    // purple
     case 'throughput': return '#d97706';     // amber
+    case 'custom': return '#db2777';         // pink
     default: return '#2563eb';
   }
 }
@@ -91,16 +118,194 @@ function formatCurrentValue(value: number, format: KPIFormat): string {
   }
 }
 
+// ── SPC View ──
+
+const SIGNAL_COLOR = '#dc2626';
+
+function SPCTooltip({ active, payload, def, formatPeriod }: {
+  active?: boolean;
+  payload?: { payload: SPCPoint }[];
+  def: KPIDefinition;
+  formatPeriod: (period: string) => string;
+}) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div style={TOOLTIP_STYLE.contentStyle}>
+      <div style={{ fontWeight: 600, marginBottom: 4, color: '#0f172a' }}>{formatPeriod(point.month)}</div>
+      <div style={{ color: '#475569' }}>
+        {def.shortLabel}: <b>{formatTargetValue(point.value, def)}</b>
+      </div>
+      {point.movingRange != null && (
+        <div style={{ color: '#475569' }}>
+          Moving range: <b>{formatTargetValue(point.movingRange, def)}</b>
+        </div>
+      )}
+      {point.violations.length > 0 && (
+        <div style={{ color: SIGNAL_COLOR, marginTop: 4, maxWidth: 240 }}>
+          Breaks {describeViolations(point.violations)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Individuals / moving-range chart of one KPI's history up to the selected
+ * month (or week), with points that break a Western Electric rule in red.
+ * Weekly series are labelled with `formatPeriod`; monthly ones use month ticks.
+ */
+function SPCView({ history, cards, customKPIs, settings, formatPeriod }: {
+  history: KPIPoint[];
+  cards: KPICardSelection[];
+  customKPIs: CustomKPI[];
+  settings: KPISetting[];
+  formatPeriod?: (period: string) => string;
+}) {
+  const [kpiKey, setKPIKey] = useState<KPICardSelection>(cards[0]);
+  const selectedKey = cards.includes(kpiKey) ? kpiKey : cards[0];
+  const def = selectedKey ? getKPIDefinition(selectedKey, customKPIs, settings) : undefined;
+  if (!def) return null;
+
+  const chart = computeIMRChart(history.map(s => ({ month: s.month, value: def.getValue(s.results) })));
+  const fmt = (v: number) => formatTargetValue(v, def);
+  const signals = chart?.points.filter(p => p.violations.length > 0) ?? [];
+  const monthCount = history.length;
+  const unit = formatPeriod ? 'weeks' : 'months';
+  const periodLabel = formatPeriod ?? formatMonth;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <select
+          value={selectedKey}
+          onChange={(e) => setKPIKey(e.target.value as KPICardSelection)}
+          className="text-[12px] bg-white border border-[var(--border-input)] rounded-md px-2 py-1 text-[var(--text-secondary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-focus-ring)]"
+        >
+          {cards.map(key => {
+            const d = getKPIDefinition(key, customKPIs, settings);
+            return d ? <option key={key} value={key}>{d.label}</option> : null;
+          })}
+        </select>
+        {chart && (
+          <span className="text-[11px] text-[var(--text-muted)] tabular-nums">
+            Mean {fmt(chart.mean)} · UCL {fmt(chart.ucl)} · LCL {fmt(chart.lcl)} · σ {fmt(chart.sigma)}
+          </span>
+        )}
+      </div>
+
+      {!chart ? (
+        <div className="text-center py-12 text-[var(--text-muted)] text-[13px]">
+          Control limits need at least {SPC_MIN_POINTS} {unit} of KPI history ({monthCount} so far).
+        </div>
+      ) : (
+        <>
+          {/* Individuals chart */}
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={chart.points} margin={CHART_MARGINS.vertical}>
+              <CartesianGrid {...GRID_STYLE} />
+              {formatPeriod ? (
+                <XAxis dataKey="month" {...AXIS_STYLE} tickFormatter={formatPeriod} interval={monthAxisInterval(monthCount)} />
+              ) : (
+                <XAxis
+                  dataKey="month"
+                  {...AXIS_STYLE}
+                  tick={<MonthAxisTick monthCount={monthCount} />}
+                  interval={monthAxisInterval(monthCount)}
+                />
+              )}
+              <YAxis {...AXIS_STYLE} tickFormatter={(v: number) => fmt(v)} />
+              <Tooltip content={<SPCTooltip def={def} formatPeriod={periodLabel} />} />
+              {[1, 2].map(k => [chart.mean - k * chart.sigma, chart.mean + k * chart.sigma]).flat().map(y => (
+                <ReferenceLine key={y} y={y} stroke="#e2e8f0" strokeDasharray="2 3" />
+              ))}
+              <ReferenceLine y={chart.mean} stroke="#64748b" label={{ value: 'Mean', position: 'right', fontSize: 10, fill: '#64748b' }} />
+              <ReferenceLine y={chart.ucl} stroke={SIGNAL_COLOR} strokeDasharray="4 3" ifOverflow="extendDomain" label={{ value: 'UCL', position: 'right', fontSize: 10, fill: SIGNAL_COLOR }} />
+              <ReferenceLine y={chart.lcl} stroke={SIGNAL_COLOR} strokeDasharray="4 3" ifOverflow="extendDomain" label={{ value: 'LCL', position: 'right', fontSize: 10, fill: SIGNAL_COLOR }} />
+              <Line
+                type="linear"
+                dataKey="value"
+                stroke={getSparklineColor(def)}
+                strokeWidth={2}
+                isAnimationActive={false}
+                dot={({ cx, cy, payload, index }: { cx?: number; cy?: number; payload?: SPCPoint; index?: number }) => (
+                  payload?.violations.length
+                    ? <circle key={index} cx={cx} cy={cy} r={5} fill={SIGNAL_COLOR} stroke="#fff" strokeWidth={1.5} />
+                    : <circle key={index} cx={cx} cy={cy} r={3} fill={getSparklineColor(def)} />
+                )}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+
+          {/* Moving-range chart */}
+          <ResponsiveContainer width="100%" height={120}>
+            <BarChart data={chart.points} margin={{ ...CHART_MARGINS.vertical, top: 8, bottom: 8 }}>
+              <CartesianGrid {...GRID_STYLE} />
+              <XAxis dataKey="month" hide />
+              <YAxis {...AXIS_STYLE} tickFormatter={(v: number) => fmt(v)} />
+              <Tooltip content={<SPCTooltip def={def} formatPeriod={periodLabel} />} cursor={{ fill: 'rgba(0,0,0,0.03)' }} />
+              <ReferenceLine y={chart.mrMean} stroke="#64748b" label={{ value: 'MR̄', position: 'right', fontSize: 10, fill: '#64748b' }} />
+              <ReferenceLine y={chart.mrUcl} stroke={SIGNAL_COLOR} strokeDasharray="4 3" ifOverflow="extendDomain" label={{ value: 'UCL', position: 'right', fontSize: 10, fill: SIGNAL_COLOR }} />
+              <Bar dataKey="movingRange" fill="#cbd5e1" radius={[2, 2, 0, 0]} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+
+          {/* Signals */}
+          {signals.length === 0 ? (
+            <p className="text-[12px] text-[var(--text-muted)]">
+              No rule breaks — {unit === 'weeks' ? 'week-to-week' : 'month-to-month'} movement is within normal variation.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {signals.map(p => (
+                <li key={p.month} className="text-[12px] text-[var(--text-secondary)]">
+                  <span className="font-medium" style={{ color: SIGNAL_COLOR }}>{periodLabel(p.month)}</span>
+                  {' '}({fmt(p.value)}) breaks {describeViolations(p.violations)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
 // ── Main Panel ──
 
 export function KPITrendPanel() {
-  const { selectedMonth, selectedProject } = useFilters();
+  const { selectedMonth, selectedProject, selectedEngineer, weekFilter } = useFilters();
+  const aggregationVersion = useAggregationVersion();
   const config = useLiveQuery(() => db.config.get(1));
-  const kpiCards: KPICardKey[] = config?.kpi_cards ?? DEFAULT_KPI_CARDS;
+  // An engineer's series is kept for all projects only
+  const kpiCards: KPICardSelection[] = selectedEngineer ? ENGINEER_KPI_CARDS : config?.kpi_cards ?? DEFAULT_KPI_CARDS;
+  const { customKPIs } = useCustomKPIs();
+  const { settings, settingFor } = useKPISettings();
+  const [mode, setMode] = useState<'trends' | 'spc'>('trends');
+
+  const monthlyHistory = useKPIHistory(selectedEngineer ? undefined : selectedProject, selectedEngineer);
+
+  // Week mode: KPIs of the weeks up to the last selected week, computed live
+  // (KPI history keeps monthly snapshots only). Weeks with no time logged are dropped.
+  const weeklyHistory = useLiveQuery(async (): Promise<KPIPoint[] | null> => {
+    if (!weekFilter) return null;
+    const { convention } = weekFilter;
+    const last = weekFilter.weeks[weekFilter.weeks.length - 1];
+    const weeks = Array.from({ length: TREND_WEEKS }, (_, i) => addWeeks(last, i - TREND_WEEKS + 1, convention));
+    const series = await runAggregation(
+      'computeWeeklyKPIs',
+      { convention, weeks },
+      selectedEngineer ? undefined : selectedProject,
+      selectedEngineer
+    );
+    return series.filter(s => s.results.totalHoursLogged > 0).map(s => ({ month: s.week, results: s.results }));
+  }, [weekFilter, selectedProject, selectedEngineer, aggregationVersion]);
 
-  const history = useKPIHistory(selectedProject);
+  const history = weekFilter ? weeklyHistory ?? undefined : monthlyHistory;
+  const currentPeriod = weekFilter ? weekFilter.weeks[weekFilter.weeks.length - 1] : selectedMonth;
+  const formatPeriod = weekFilter ? (week: string) => formatWeekKey(week, weekFilter.convention) : undefined;
 
-  if (!selectedMonth) {
+  if (!selectedMonth || !currentPeriod) {
     return (
       <div className="text-center py-12 text-[var(--text-muted)]">
         Select a month to view KPI trends
@@ -121,73 +326,121 @@ export function KPITrendPanel() {
   if (history.length === 0) {
     return (
       <div className="text-center py-12 text-[var(--text-muted)]">
-        <p className="text-[13px]">No KPI history available yet.</p>
-        <p className="text-[11px] mt-1">KPI snapshots are created automatically after each import.</p>
+        {weekFilter ? (
+          <p className="text-[13px]">No time logged in the {TREND_WEEKS} weeks up to {formatWeekKey(currentPeriod, weekFilter.convention)}.</p>
+        ) : (
+          <>
+            <p className="text-[13px]">No KPI history available yet.</p>
+            <p className="text-[11px] mt-1">KPI snapshots are created automatically after each import.</p>
+          </>
+        )}
       </div>
     );
   }
 
   // Filter cards: when a single project is selected, hide non-applicable KPIs
-  const visibleCards = selectedProject
-    ? kpiCards.filter(k => KPI_REGISTRY[k]?.applicableToSingleProject)
+  const visibleCards = selectedProject && !selectedEngineer
+    ? kpiCards.filter(k => getKPIDefinition(k, customKPIs)?.applicableToSingleProject)
     : kpiCards;
 
-  // Current month's snapshot
-  const currentSnap = history.find(s => s.month === selectedMonth);
+  // Current month's (or week's) snapshot
+  const currentSnap = history.find(s => s.month === currentPeriod);
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
-      {visibleCards.map(key => {
-        const def = KPI_REGISTRY[key];
-        if (!def) return null;
-
-        const currentValue = currentSnap ? def.getValue(currentSnap.results) : null;
-        const delta = computeDelta(history, selectedMonth, key);
-        const color = getSparklineColor(key);
-
-        // Build sparkline data from history
-        const sparkData = history.map(snap => ({
-          month: formatMonth(snap.month),
-          value: def.getValue(snap.results),
-        }));
-
-        return (
-          <div
-            key={key}
-            className="bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-lg p-3 flex flex-col gap-1.5"
-          >
-            {/* Header row: label + delta */}
-            <div className="flex items-center justify-between">
-              <span className="text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-wide truncate">
-                {def.shortLabel}
-              </span>
-              {delta && delta.direction !== 'flat' && (
-                <span
-                  className="text-[11px] font-semibold"
-                  style={{ color: delta.isGood ? '#16a34a' : '#dc2626' }}
-                >
-                  {formatDelta(delta, def.format)}
-                </span>
-              )}
-            </div>
-
-            {/* Current value */}
-            <div className="text-[20px] font-bold text-[var(--text-primary)] leading-none">
-              {currentValue != null
-                ? formatCurrentValue(currentValue, def.format)
-                : '—'}
-            </div>
-
-            {/* Sparkline */}
-            <Sparkline
-              data={sparkData}
-              color={color}
-              height={40}
-              format={def.format}
-            />
-          </div>
-        );
-      })}
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <div className="inline-flex rounded-lg border border-[var(--border-default)] overflow-hidden text-[11px]">
+          {(['trends', 'spc'] as const).map((m, i) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 font-medium transition-colors ${
+                mode === m
+                  ? 'bg-[var(--accent)] text-white'
+                  : 'text-[var(--text-muted)] hover:bg-[var(--bg-row-hover)]'
+              } ${i > 0 ? 'border-l border-[var(--border-default)]' : ''}`}
+            >
+              {m === 'trends' ? 'Trends' : 'Control chart'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'spc' ? (
+        <SPCView
+          history={history.filter(s => s.month <= currentPeriod)}
+          cards={visibleCards}
+          customKPIs={customKPIs}
+          settings={settings}
+          formatPeriod={formatPeriod}
+        />
+      ) : (
+        <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+          {visibleCards.map(key => {
+            const def = getKPIDefinition(key, customKPIs, settings);
+            if (!def) return null;
+
+            const setting = settingFor(key);
+            const currentValue = currentSnap ? def.getValue(currentSnap.results) : null;
+            const delta = computeDelta(history, currentPeriod, def);
+            // Targets are monthly or quarterly, so weeks are shown without them
+            const vsTarget = currentValue != null && !weekFilter ? compareToTarget(currentValue, def, setting, selectedMonth) : null;
+            const color = getSparklineColor(def);
+
+            // Build sparkline data from history, with each month's target
+            const sparkData = history.map(snap => ({
+              month: formatPeriod ? formatPeriod(snap.month) : formatMonth(snap.month),
+              value: def.getValue(snap.results),
+              target: formatPeriod ? undefined : getKPITarget(setting, snap.month)?.value,
+            }));
+
+            return (
+              <div
+                key={key}
+                className="bg-[var(--bg-panel)] border border-[var(--border-default)] rounded-lg p-3 flex flex-col gap-1.5"
+              >
+                {/* Header row: label + delta */}
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-medium text-[var(--text-muted)] uppercase tracking-wide truncate">
+                    {def.shortLabel}
+                  </span>
+                  {delta && delta.direction !== 'flat' && (
+                    <span
+                      className="text-[11px] font-semibold"
+                      style={{ color: delta.isGood ? '#16a34a' : '#dc2626' }}
+                    >
+                      {formatDelta(delta, def.format)}
+                    </span>
+                  )}
+                </div>
+
+                {/* Current value */}
+                <div className="text-[20px] font-bold text-[var(--text-primary)] leading-none">
+                  {currentValue != null
+                    ? formatCurrentValue(currentValue, def.format)
+                    : '—'}
+                </div>
+                {vsTarget && (
+                  <span
+                    className="text-[10px] font-medium"
+                    style={{ color: vsTarget.met ? '#16a34a' : '#dc2626' }}
+                  >
+                    {formatTargetGap(vsTarget, def)}
+                  </span>
+                )}
+
+                {/* Sparkline */}
+                <Sparkline
+                  data={sparkData}
+                  color={color}
+                  height={40}
+                  format={def.format}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
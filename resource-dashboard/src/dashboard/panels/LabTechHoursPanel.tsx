@@ -1,6 +1,7 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeLabTechHours, computeActualHours } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import {
   BarChart,
@@ -17,16 +18,17 @@ import { formatHours } from '../../utils/format';
 
 export function LabTechHoursPanel({ onPersonClick }: { onPersonClick?: (name: string) => void } = {}) {
   const { monthFilter, selectedProject } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const labTechHours = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    return await computeLabTechHours(monthFilter, selectedProject);
-  }, [monthFilter, selectedProject]);
+    return await runAggregation('computeLabTechHours', monthFilter, selectedProject);
+  }, [monthFilter, selectedProject, aggregationVersion]);
 
   const actualHours = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    return await computeActualHours(monthFilter, selectedProject);
-  }, [monthFilter, selectedProject]);
+    return await runAggregation('computeActualHours', monthFilter, selectedProject);
+  }, [monthFilter, selectedProject, aggregationVersion]);
 
   if (!monthFilter) {
     return (
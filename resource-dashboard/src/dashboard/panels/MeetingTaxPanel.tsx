@@ -1,6 +1,7 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeMeetingTax } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import {
   BarChart,
@@ -15,12 +16,13 @@ import {
 import { AXIS_STYLE, GRID_STYLE, TOOLTIP_STYLE, LEGEND_STYLE, BAR_STYLE, CATEGORY_COLORS, CHART_MARGINS, CHART_ROW_HEIGHT, CHART_MIN_HEIGHT, CHART_MAX_HEIGHT, truncatedYAxisTick } from '../../charts/ChartTheme';
 
 export function MeetingTaxPanel() {
-  const { monthFilter, selectedProject, selectedEngineer } = useFilters();
+  const { monthFilter, weekFilter, selectedProject, selectedEngineer } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const meetingData = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    return await computeMeetingTax(monthFilter, selectedProject, selectedEngineer);
-  }, [monthFilter, selectedProject, selectedEngineer]);
+    return await runAggregation('computeMeetingTax', monthFilter, selectedProject, selectedEngineer, weekFilter);
+  }, [monthFilter, weekFilter, selectedProject, selectedEngineer, aggregationVersion]);
 
   if (!monthFilter) {
     return (
@@ -3,7 +3,7 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db/database';
 import { ProjectType } from '../../types';
 import type { ProjectMilestone } from '../../types';
-import { getProjectParent } from '../../aggregation/projectUtils';
+import { loadProjectHierarchy } from '../../aggregation/projectUtils';
 import { useFilters } from '../../context/ViewFilterContext';
 import { ChartLoader } from '../../charts/ChartLoader';
 
@@ -122,27 +122,26 @@ export function NPDMilestonesPanel() {
   const projects = useLiveQuery(() =>
     db.projects.where('type').equals(ProjectType.NPD).toArray()
   );
+  const hierarchy = useLiveQuery(() => loadProjectHierarchy());
 
   const milestones = useLiveQuery(async () => {
-    if (!projects || projects.length === 0) return null;
+    if (!projects || projects.length === 0 || !hierarchy) return null;
     let ids = projects.map(p => p.project_id);
     if (selectedProject) {
-      ids = ids.filter(id => id === selectedProject || getProjectParent(id) === selectedProject);
+      ids = ids.filter(id => hierarchy.isWithin(id, selectedProject));
     }
     if (ids.length === 0) return [];
     const all = await db.milestones.toArray();
     return all.filter(m => ids.includes(m.project_id));
-  }, [projects, selectedProject]);
+  }, [projects, hierarchy, selectedProject]);
 
   // ─── Derived ──────────────────────────────────────────────────────────────
 
   const derived = useMemo(() => {
-    if (!projects || !milestones) return null;
+    if (!projects || !milestones || !hierarchy) return null;
 
     const visibleProjects = selectedProject
-      ? projects.filter(p =>
-          p.project_id === selectedProject ||
-          getProjectParent(p.project_id) === selectedProject)
+      ? projects.filter(p => hierarchy.isWithin(p.project_id, selectedProject))
       : projects;
 
     const allDates: number[] = [];
@@ -187,7 +186,7 @@ export function NPDMilestonesPanel() {
     });
 
     return { tStart, months, nMonths, rows };
-  }, [projects, milestones, selectedProject, today]);
+  }, [projects, hierarchy, milestones, selectedProject, today]);
 
   // ─── Early returns ────────────────────────────────────────────────────────
 
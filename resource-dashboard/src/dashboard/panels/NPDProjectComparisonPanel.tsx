@@ -1,7 +1,8 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeNPDProjectComparison } from '../../aggregation/engine';
-import { getProjectParent } from '../../aggregation/projectUtils';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
+import { loadProjectHierarchy } from '../../aggregation/projectUtils';
 import { useFilters } from '../../context/ViewFilterContext';
 import {
   BarChart,
@@ -17,19 +18,22 @@ import { CATEGORY_COLORS, AXIS_STYLE, GRID_STYLE, TOOLTIP_STYLE, CHART_MARGINS,
 import { formatHours } from '../../utils/format';
 
 export function NPDProjectComparisonPanel({ onProjectClick }: { onProjectClick?: (projectId: string) => void } = {}) {
-  const { monthFilter, selectedProject } = useFilters();
+  const { monthFilter, selectedProject, selectedBaseline } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const npdProjects = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    let data = await computeNPDProjectComparison(monthFilter);
+    let data = await runAggregation('computeNPDProjectComparison', monthFilter, selectedBaseline);
     if (selectedProject) {
+      // Rows are top-level projects: keep the ones above or below the selection
+      const hierarchy = await loadProjectHierarchy();
       data = data.filter(d =>
-        d.project_id === selectedProject || getProjectParent(d.project_id) === selectedProject
+        hierarchy.isWithin(d.project_id, selectedProject) || hierarchy.isWithin(selectedProject, d.project_id)
       );
     }
     // Filter out projects with 0 planned AND 0 actual hours
     return data.filter(d => d.planned_hours > 0 || d.actual_hours > 0);
-  }, [monthFilter, selectedProject]);
+  }, [monthFilter, selectedProject, selectedBaseline, aggregationVersion]);
 
   if (!monthFilter) {
     return (
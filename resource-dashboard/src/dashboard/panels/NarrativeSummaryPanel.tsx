@@ -1,16 +1,18 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { generateNarrativeSummary } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 
 export function NarrativeSummaryPanel() {
-  const { monthFilter, selectedMonth, selectedProject, isRange } = useFilters();
+  const { monthFilter, selectedMonth, selectedProject, isRange, comparisonFilter } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const narrative = useLiveQuery(async () => {
     // Narrative is single-month only — use selectedMonth
     if (!selectedMonth || isRange) return null;
-    return await generateNarrativeSummary(selectedMonth, selectedProject);
-  }, [selectedMonth, selectedProject, isRange]);
+    return await runAggregation('generateNarrativeSummary', selectedMonth, selectedProject, undefined, comparisonFilter);
+  }, [selectedMonth, selectedProject, isRange, comparisonFilter, aggregationVersion]);
 
   if (!monthFilter) {
     return (
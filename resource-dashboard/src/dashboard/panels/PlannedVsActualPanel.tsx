@@ -10,7 +10,8 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
-import { computeMonthlyCategoryTotals } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { CATEGORY_COLORS, AXIS_STYLE, GRID_STYLE, CHART_MARGINS, BAR_STYLE, monthAxisInterval, MonthAxisTick } from '../../charts/ChartTheme';
 import { resolveMonths } from '../../utils/monthRange';
@@ -114,16 +115,17 @@ function PVALegend() {
 // ── Main Panel ──
 
 export function PlannedVsActualPanel() {
-  const { selectedProject, monthFilter } = useFilters();
+  const { selectedProject, monthFilter, selectedBaseline } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const categoryTotals = useLiveQuery(
     async () => {
-      const all = await computeMonthlyCategoryTotals(selectedProject);
+      const all = await runAggregation('computeMonthlyCategoryTotals', selectedProject, undefined, selectedBaseline);
       if (!monthFilter) return all;
       const months = new Set(resolveMonths(monthFilter));
       return all.filter(t => months.has(t.month));
     },
-    [selectedProject, monthFilter]
+    [selectedProject, monthFilter, selectedBaseline, aggregationVersion]
   );
 
   if (categoryTotals === undefined) {
@@ -1,7 +1,8 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db/database';
-import { computeProjectTimeline } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import {
   ComposedChart,
   Bar,
@@ -18,12 +19,13 @@ import { CATEGORY_COLORS, AXIS_STYLE, GRID_STYLE, TOOLTIP_STYLE, LEGEND_STYLE, C
 import { useFilters } from '../../context/ViewFilterContext';
 
 export function ProjectBurndownPanel() {
-  const { selectedProject } = useFilters();
+  const { selectedProject, selectedBaseline } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const timeline = useLiveQuery(async () => {
     if (!selectedProject) return null;
-    return await computeProjectTimeline(selectedProject);
-  }, [selectedProject]);
+    return await runAggregation('computeProjectTimeline', selectedProject, selectedBaseline);
+  }, [selectedProject, selectedBaseline, aggregationVersion]);
 
   const milestones = useLiveQuery(async () => {
     if (!selectedProject) return null;
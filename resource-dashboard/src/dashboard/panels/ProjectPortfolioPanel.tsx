@@ -5,6 +5,7 @@ import { useFilters } from '../../context/ViewFilterContext';
 import { resolveMonths, toDbMonths } from '../../utils/monthRange';
 import { ProjectType } from '../../types';
 import { formatHours } from '../../utils/format';
+import { loadMonthlyRollups } from '../../aggregation/teamScope';
 
 const TYPE_BADGE: Record<string, { bg: string; color: string }> = {
   NPD: { bg: '#dbeafe', color: '#2563eb' },
@@ -28,11 +29,7 @@ export function ProjectPortfolioPanel({ activityFilter, onProjectClick }: Props)
     const dbMonths = toDbMonths(displayMonths);
 
     const [entries, projects, allAllocations] = await Promise.all([
-      db.timesheets
-        .where('month')
-        .anyOf(dbMonths)
-        .and(t => t.full_name === selectedEngineer)
-        .toArray(),
+      loadMonthlyRollups(dbMonths).then(rows => rows.filter(t => t.full_name === selectedEngineer)),
       db.projects.toArray(),
       db.plannedAllocations.where('engineer').equals(selectedEngineer).toArray(),
     ]);
@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback, Fragment } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db } from '../../db/database';
-import { computeCapacityForecast } from '../../aggregation/capacityForecast';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
+import { loadTeamMembers } from '../../aggregation/teamScope';
+import { useFilters } from '../../context/ViewFilterContext';
 import { formatMonth } from '../../utils/format';
+import { isEmployedInMonth } from '../../utils/capacity';
 import { PersonRole } from '../../types';
 import type {
   PlanningScenario,
@@ -205,7 +208,9 @@ export function ScenarioCapacityHeatmap({
   const [forecasts, setForecasts]     = useState<ForecastPair | null>(null);
   const [expandedCell, setExpandedCell] = useState<{ engineer: string; month: string } | null>(null);
 
-  const teamMembers = useLiveQuery(() => db.teamMembers.toArray(), []) ?? [];
+  const { selectedTeam } = useFilters();
+  const aggregationVersion = useAggregationVersion();
+  const teamMembers = useLiveQuery(() => loadTeamMembers(), []) ?? [];
 
   // ── Compute both forecast layers ──────────────────────────────────────────
 
@@ -229,8 +234,8 @@ export function ScenarioCapacityHeatmap({
         }
       }
       const [baseline, withScenario] = await Promise.all([
-        computeCapacityForecast(scenarioMonths),
-        computeCapacityForecast(scenarioMonths, undefined, overlay),
+        runAggregation('computeCapacityForecast', scenarioMonths),
+        runAggregation('computeCapacityForecast', scenarioMonths, undefined, overlay),
       ]);
       setForecasts({ baseline, withScenario });
     } finally {
@@ -246,7 +251,7 @@ export function ScenarioCapacityHeatmap({
     }
     const t = setTimeout(compute, 500);
     return () => clearTimeout(t);
-  }, [compute]);
+  }, [compute, selectedTeam, aggregationVersion]); // the forecast is scoped to the active team
 
   // Close drill-down when engineer list or months change
   useEffect(() => {
@@ -276,8 +281,10 @@ export function ScenarioCapacityHeatmap({
 
   // ── Engineers to display ──────────────────────────────────────────────────
 
+  // Only people employed during the scenario — departed members have no capacity to show
   const fullTeam = teamMembers
     .filter(m => m.role === PersonRole.Engineer && !m.exclude_from_capacity)
+    .filter(m => scenarioMonths.some(month => isEmployedInMonth(m, month)))
     .map(m => m.full_name)
     .sort();
 
@@ -5,10 +5,11 @@ import { db } from '../../db/database';
 import { skillColor } from '../../charts/ChartTheme';
 import { PersonRole, ProjectType } from '../../types';
 import type { SkillCategory } from '../../types';
-import { getProjectParent } from '../../aggregation/projectUtils';
+import { loadProjectHierarchy } from '../../aggregation/projectUtils';
 import { computeCompatibilityScores } from '../../aggregation/skillMatching';
 import { useFilters } from '../../context/ViewFilterContext';
 import { resolveMonths, toDbMonths } from '../../utils/monthRange';
+import { loadTeamMembers, loadMonthlyRollups } from '../../aggregation/teamScope';
 
 const SCORE_DEFINITIONS: Record<number, string> = {
   1: 'Basic awareness',
@@ -21,7 +22,7 @@ const SCORE_DEFINITIONS: Record<number, string> = {
 export function SkillHeatmapPanel() {
   const { monthFilter, selectedProject: dashboardProject, selectedEngineer } = useFilters();
 
-  const teamMembers = useLiveQuery(() => db.teamMembers.toArray());
+  const teamMembers = useLiveQuery(() => loadTeamMembers());
   const skills = useLiveQuery(() => db.skills.toArray());
   const skillCategories = useLiveQuery(() => db.skillCategories.toArray());
   const projects = useLiveQuery(() => db.projects.toArray());
@@ -31,10 +32,11 @@ export function SkillHeatmapPanel() {
   const projectContributors = useLiveQuery(async () => {
     if (!dashboardProject || !monthFilter) return null;
     const csvMonths = toDbMonths(resolveMonths(monthFilter));
-    const timesheets = await db.timesheets.where('month').anyOf(csvMonths).toArray();
+    const timesheets = await loadMonthlyRollups(csvMonths);
+    const hierarchy = await loadProjectHierarchy();
     const contributors = new Set(
       timesheets
-        .filter(t => getProjectParent(t.r_number) === dashboardProject || t.r_number === dashboardProject)
+        .filter(t => hierarchy.isWithin(t.r_number, dashboardProject))
         .map(t => t.full_name)
     );
     return contributors;
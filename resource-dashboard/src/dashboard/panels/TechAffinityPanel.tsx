@@ -1,19 +1,21 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeTechAffinity } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { formatHours } from '../../utils/format';
 import { useFilters } from '../../context/ViewFilterContext';
 
 export function TechAffinityPanel() {
   const { monthFilter, selectedProject, selectedEngineer } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const affinityData = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    const data = await computeTechAffinity(monthFilter, selectedProject, selectedEngineer);
+    const data = await runAggregation('computeTechAffinity', monthFilter, selectedProject, selectedEngineer);
 
     // Exclude admin/OOO codes (R0996, R0999)
     return data.filter(d => d.tech !== 'R0996' && d.tech !== 'R0999');
-  }, [monthFilter, selectedProject, selectedEngineer]);
+  }, [monthFilter, selectedProject, selectedEngineer, aggregationVersion]);
 
   if (!monthFilter) {
     return (
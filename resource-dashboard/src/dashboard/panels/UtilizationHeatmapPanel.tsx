@@ -1,6 +1,7 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computePlannedUtilization } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { Heatmap } from '../../charts/Heatmap';
 import { utilizationColor } from '../../charts/ChartTheme';
@@ -9,9 +10,10 @@ import { resolveMonths } from '../../utils/monthRange';
 
 export function UtilizationHeatmapPanel() {
   const { selectedProject, monthFilter } = useFilters();
+  const aggregationVersion = useAggregationVersion();
   const utilization = useLiveQuery(
-    () => computePlannedUtilization(selectedProject),
-    [selectedProject]
+    () => runAggregation('computePlannedUtilization', selectedProject),
+    [selectedProject, aggregationVersion]
   );
 
   if (utilization === undefined) {
@@ -3,21 +3,21 @@ import { useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db/database';
 import { useFilters } from '../../context/ViewFilterContext';
-import { resolveMonths } from '../../utils/monthRange';
+import { alignComparisonMonths, resolveMonths } from '../../utils/monthRange';
 import { formatMonth, formatHours } from '../../utils/format';
 import {
-  BarChart,
+  ComposedChart,
   Bar,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
-  ReferenceLine,
   Legend,
   ResponsiveContainer,
 } from 'recharts';
 import { AXIS_STYLE, GRID_STYLE, CHART_MARGINS, monthAxisInterval, MonthAxisTick } from '../../charts/ChartTheme';
-import { getEngineerCapacity } from '../../utils/capacity';
+import { loadCapacityCalendar } from '../../aggregation/capacityCalendar';
 
 // Distinct color palette for per-project stacked segments
 const PROJECT_COLORS = [
@@ -27,18 +27,11 @@ const PROJECT_COLORS = [
 ];
 
 export function UtilizationTrendPanel() {
-  const { selectedEngineer, monthFilter } = useFilters();
-  const config = useLiveQuery(() => db.config.get(1));
-
-  const member = useLiveQuery(async () => {
-    if (!selectedEngineer) return null;
-    return db.teamMembers.where('full_name').equals(selectedEngineer).first();
-  }, [selectedEngineer]);
-
+  const { selectedEngineer, monthFilter, comparisonFilter, comparisonLabel } = useFilters();
   const projects = useLiveQuery(() => db.projects.toArray()) ?? [];
 
   // Query allocations grouped by month + project
-  const rawAllocations = useLiveQuery(async () => {
+  const allocationData = useLiveQuery(async () => {
     if (!selectedEngineer) return null;
     const allocations = await db.plannedAllocations
       .where('engineer')
@@ -52,8 +45,28 @@ export function UtilizationTrendPanel() {
       filtered = allocations.filter(a => months.has(a.month));
     }
 
-    return filtered;
-  }, [selectedEngineer, monthFilter]);
+    // Capacity as of each month (overrides, leave and holidays then), not today's
+    const calendar = await loadCapacityCalendar();
+
+    // Planned totals of the comparison months, keyed by the month they are drawn against
+    const comparison = new Map<string, { month: string; hours: number; capacity: number }>();
+    if (monthFilter && comparisonFilter) {
+      for (const [month, comparisonMonth] of alignComparisonMonths(monthFilter, comparisonFilter)) {
+        const hours = allocations
+          .filter(a => a.month === comparisonMonth)
+          .reduce((sum, a) => sum + a.planned_hours, 0);
+        comparison.set(month, { month: comparisonMonth, hours, capacity: calendar.capacityFor(selectedEngineer, comparisonMonth) });
+      }
+    }
+
+    const capacity = new Map<string, number>();
+    for (const a of filtered) {
+      if (!capacity.has(a.month)) capacity.set(a.month, calendar.capacityFor(selectedEngineer, a.month));
+    }
+
+    return { filtered, comparison, capacity };
+  }, [selectedEngineer, monthFilter, comparisonFilter]);
+  const rawAllocations = allocationData?.filtered;
 
   // Build chart data: one row per month, one key per project
   const { chartData, projectIds } = useMemo(() => {
@@ -79,16 +92,22 @@ export function UtilizationTrendPanel() {
     const sortedProjects = [...projectSet].sort();
 
     const data = sortedMonths.map(month => {
-      const row: Record<string, any> = { month };
+      const row: Record<string, any> = { month, capacity: allocationData!.capacity.get(month) ?? 0 };
       const projectMap = monthProjectMap.get(month)!;
       for (const pid of sortedProjects) {
         row[pid] = projectMap.get(pid) ?? 0;
       }
+      const comparison = allocationData!.comparison.get(month);
+      if (comparison) {
+        row.comparisonMonth = comparison.month;
+        row.comparison = comparison.hours;
+        row.comparisonCapacity = comparison.capacity;
+      }
       return row;
     });
 
     return { chartData: data, projectIds: sortedProjects };
-  }, [rawAllocations]);
+  }, [rawAllocations, allocationData]);
 
   if (!rawAllocations) {
     return <ChartLoader />;
@@ -102,9 +121,6 @@ export function UtilizationTrendPanel() {
     );
   }
 
-  const stdCap = config?.std_monthly_capacity_hours ?? 140;
-  const capacity = member ? getEngineerCapacity(member, stdCap) : stdCap;
-
   // Build project name lookup
   const projectNameMap = new Map(projects.map(p => [p.project_id, p.project_name]));
   const getProjectLabel = (pid: string) => {
@@ -120,8 +136,10 @@ export function UtilizationTrendPanel() {
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (!active || !payload?.length) return null;
-    const total = payload.reduce((sum: number, p: any) => sum + (p.value ?? 0), 0);
-    const pct = Math.round((total / capacity) * 100);
+    const bars = payload.filter(({ dataKey }: { dataKey: string }) => dataKey !== 'comparison' && dataKey !== 'capacity');
+    const row = payload[0].payload;
+    const total = bars.reduce((sum: number, p: any) => sum + (p.value ?? 0), 0);
+    const pct = row.capacity > 0 ? Math.round((total / row.capacity) * 100) : 0;
     return (
       <div
         style={{
@@ -134,9 +152,9 @@ export function UtilizationTrendPanel() {
         }}
       >
         <p style={{ fontWeight: 600, marginBottom: 4 }}>
-          {formatMonth(label)} — {formatHours(total)}h ({pct}%)
+          {formatMonth(label)} — {formatHours(total)}h ({pct}% of {formatHours(row.capacity)}h)
         </p>
-        {payload
+        {bars
           .filter((p: any) => p.value > 0)
           .sort((a: any, b: any) => b.value - a.value)
           .map((p: any) => (
@@ -147,6 +165,11 @@ export function UtilizationTrendPanel() {
               </span>
             </div>
           ))}
+        {row.comparisonMonth && (
+          <p style={{ color: '#475569', marginTop: 4 }}>
+            {formatMonth(row.comparisonMonth)}: {formatHours(row.comparison)}h ({row.comparisonCapacity > 0 ? Math.round((row.comparison / row.comparisonCapacity) * 100) : 0}%)
+          </p>
+        )}
       </div>
     );
   };
@@ -157,7 +180,8 @@ export function UtilizationTrendPanel() {
       label: getProjectLabel(pid),
       color: colorMap.get(pid)!,
     })),
-    { label: `Monthly Capacity (${capacity}h)`, color: '#ef4444' },
+    { label: 'Monthly Capacity', color: '#ef4444' },
+    ...(comparisonFilter ? [{ label: `Planned (${comparisonLabel})`, color: '#94a3b8' }] : []),
   ];
 
   const renderLegend = () => (
@@ -174,7 +198,7 @@ export function UtilizationTrendPanel() {
   return (
     <div>
       <ResponsiveContainer width="100%" height={260}>
-        <BarChart data={chartData} margin={CHART_MARGINS.vertical} stackOffset="none">
+        <ComposedChart data={chartData} margin={CHART_MARGINS.vertical} stackOffset="none">
           <CartesianGrid {...GRID_STYLE} />
           <XAxis
             dataKey="month"
@@ -185,11 +209,6 @@ export function UtilizationTrendPanel() {
           <YAxis {...AXIS_STYLE} />
           <Tooltip content={<CustomTooltip />} />
           <Legend content={renderLegend} verticalAlign="top" align="right" />
-          <ReferenceLine
-            y={capacity}
-            stroke="#ef4444"
-            strokeDasharray="4 3"
-          />
           {projectIds.map((pid, i) => (
             <Bar
               key={pid}
@@ -199,7 +218,11 @@ export function UtilizationTrendPanel() {
               radius={i === projectIds.length - 1 ? [3, 3, 0, 0] : undefined}
             />
           ))}
-        </BarChart>
+          <Line type="step" dataKey="capacity" stroke="#ef4444" strokeWidth={1.5} strokeDasharray="4 3" dot={false} />
+          {comparisonFilter && (
+            <Line type="monotone" dataKey="comparison" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 4" dot={false} />
+          )}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
@@ -13,6 +13,8 @@ import { formatMonth } from '../../utils/format';
 import { ChartLoader } from '../../charts/ChartLoader';
 import { MonthRangePicker, addMonths as mrpAddMonths } from '../MonthRangePicker';
 import { ScenarioCapacityHeatmap } from './ScenarioCapacityHeatmap';
+import { useFilters } from '../../context/ViewFilterContext';
+import { loadTeamMembers } from '../../aggregation/teamScope';
 import type { PlanningScenario, ScenarioAllocation } from '../../types';
 
 // ─────────────────────────────────────────────────────────────
@@ -795,7 +797,8 @@ function ScenarioEditor({ scenario, onBack, onDelete }: EditorProps) {
   const [deleteConfirm, setDeleteConfirm] = useState(false);
 
   // DB data
-  const teamMembers = useLiveQuery(() => db.teamMembers.toArray(), []) ?? [];
+  const { selectedTeam } = useFilters();
+  const teamMembers = useLiveQuery(() => loadTeamMembers(), []) ?? [];
   const config = useLiveQuery(() => db.config.get(1), []);
   const stdCapacity = config?.std_monthly_capacity_hours ?? 140;
 
@@ -858,7 +861,7 @@ function ScenarioEditor({ scenario, onBack, onDelete }: EditorProps) {
         if (!cancelled) setRankLoading(false);
       });
     return () => { cancelled = true; };
-  }, [skillTags, startMonth]);
+  }, [skillTags, startMonth, selectedTeam]);
 
   // Generate 24 months from today for the single-month picker
   const singleMonthOptions = (() => {
@@ -867,10 +870,10 @@ function ScenarioEditor({ scenario, onBack, onDelete }: EditorProps) {
     return Array.from({ length: 24 }, (_, i) => mrpAddMonths(ym, i));
   })();
 
-  // Helpers to get engineer capacity
+  // Helpers to get engineer capacity, as of the scenario's start month
   function getCapacity(engineerName: string): number {
     const m = teamMembers.find(t => t.full_name === engineerName);
-    return m ? getEngineerCapacity(m, stdCapacity) : stdCapacity;
+    return m ? getEngineerCapacity(m, stdCapacity, startMonth || undefined) : stdCapacity;
   }
 
   // Add engineer to assigned list
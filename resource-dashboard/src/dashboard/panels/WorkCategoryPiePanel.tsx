@@ -1,6 +1,7 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeActualHours } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { CATEGORY_COLORS } from '../../charts/ChartTheme';
 import { formatHours } from '../../utils/format';
@@ -23,10 +24,11 @@ const COLORS: Record<string, string> = {
 
 export function WorkCategoryPiePanel() {
   const { monthFilter, selectedProject } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const data = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    const actuals = await computeActualHours(monthFilter, selectedProject);
+    const actuals = await runAggregation('computeActualHours', monthFilter, selectedProject);
 
     const totals: Record<string, number> = {
       NPD: 0,
@@ -58,7 +60,7 @@ export function WorkCategoryPiePanel() {
       .sort((a, b) => b.hours - a.hours);
 
     return { slices, total: Math.round(total * 10) / 10 };
-  }, [monthFilter, selectedProject]);
+  }, [monthFilter, selectedProject, aggregationVersion]);
 
   if (!monthFilter) {
     return (
@@ -1,6 +1,7 @@
 import { ChartLoader } from '../../charts/ChartLoader';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { computeActualHours } from '../../aggregation/engine';
+import { runAggregation } from '../../aggregation/engine';
+import { useAggregationVersion } from '../../hooks/useAggregation';
 import { useFilters } from '../../context/ViewFilterContext';
 import { PieChart, Pie, Cell, Tooltip, Label, ResponsiveContainer } from 'recharts';
 import { formatHours } from '../../utils/format';
@@ -15,10 +16,11 @@ const TYPE_META: Record<string, { label: string; color: string }> = {
 
 export function WorkMixDonutPanel() {
   const { selectedEngineer, monthFilter, selectedProject } = useFilters();
+  const aggregationVersion = useAggregationVersion();
 
   const data = useLiveQuery(async () => {
     if (!monthFilter) return null;
-    const actuals = await computeActualHours(monthFilter, selectedProject, selectedEngineer);
+    const actuals = await runAggregation('computeActualHours', monthFilter, selectedProject, selectedEngineer);
     const typeMap = new Map<string, number>();
     for (const a of actuals) {
       if (a.project_type === ProjectType.Admin || a.project_type === ProjectType.OutOfOffice) continue;
@@ -35,7 +37,7 @@ export function WorkMixDonutPanel() {
       }))
       .sort((a, b) => b.hours - a.hours);
     return { slices, total };
-  }, [selectedEngineer, monthFilter, selectedProject]);
+  }, [selectedEngineer, monthFilter, selectedProject, aggregationVersion]);
 
   if (!data) {
     return <ChartLoader />;
@@ -0,0 +1,193 @@
+import type { DBCore, DBCoreIndex, DBCoreMutateRequest, DBCoreTable, DBCoreTransaction, Middleware } from 'dexie';
+import type { AuditAction, AuditEntry } from '../types';
+
+/**
+ * Change history for planning data.
+ *
+ * A DBCore middleware (registered in database.ts) records every create,
+ * update and delete on the tables below into `auditLog`, whichever code path
+ * made the write — config tabs, hooks, config import, person merges.
+ * Transactions that name `auditLog` in their own scope (backup restore,
+ * seeding) are not recorded: they are not edits.
+ */
+
+export const AUDIT_TABLE = 'auditLog';
+
+/** Audited tables → display name and a human-readable identity for one row. */
+export const AUDITED_TABLES: Record<string, { label: string; describe: (row: Record<string, unknown>) => string }> = {
+  plannedAllocations: {
+    label: 'Resource Allocation',
+    describe: row => `${row.engineer} · ${row.project_id} · ${row.month}`,
+  },
+  plannedProjectMonths: {
+    label: 'Planned Hours',
+    describe: row => `${row.project_id} · ${row.month}`,
+  },
+  milestones: {
+    label: 'Milestone',
+    describe: row => String(row.project_id),
+  },
+  projects: {
+    label: 'Project',
+    describe: row => row.project_name ? `${row.project_id} · ${row.project_name}` : String(row.project_id),
+  },
+  projectSkillRequirements: {
+    label: 'Project Skill',
+    describe: row => `${row.project_id} · ${row.skill}`,
+  },
+  teamMembers: {
+    label: 'Team Member',
+    describe: row => String(row.full_name),
+  },
+  skills: {
+    label: 'Skill Rating',
+    describe: row => `${row.engineer} · ${row.skill}`,
+  },
+  skillCategories: {
+    label: 'Skill',
+    describe: row => String(row.name),
+  },
+  holidays: {
+    label: 'Holiday',
+    describe: row => row.name ? `${row.date} · ${row.name}` : String(row.date),
+  },
+  plannedLeave: {
+    label: 'Planned Leave',
+    describe: row => `${row.engineer} · ${row.start_date} – ${row.end_date}`,
+  },
+};
+
+let editorName = '';
+
+/**
+ * Set the editor recorded on new entries. The middleware keeps this in step
+ * with writes to config.editor_name; initializeDatabase seeds it on startup.
+ */
+export function setAuditEditor(name: string | undefined): void {
+  editorName = name?.trim() ?? '';
+}
+
+/**
+ * Fields whose values differ between two versions of a row.
+ */
+export function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields].filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+export const auditMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'auditLog',
+  create: (down) => {
+    const auditedTransactions = new WeakSet<DBCoreTransaction>();
+
+    return {
+      ...down,
+      transaction(stores, mode, options) {
+        if (mode !== 'readwrite' || stores.includes(AUDIT_TABLE) || !stores.some(s => s in AUDITED_TABLES)) {
+          return down.transaction(stores, mode, options);
+        }
+        const trans = down.transaction([...stores, AUDIT_TABLE], mode, options);
+        auditedTransactions.add(trans);
+        return trans;
+      },
+      table(name) {
+        const table = down.table(name);
+        if (name === 'config') return trackEditor(table);
+        if (!(name in AUDITED_TABLES)) return table;
+
+        return {
+          ...table,
+          mutate: async (req) => {
+            if (!auditedTransactions.has(req.trans)) return table.mutate(req);
+
+            const before = await readBefore(table, req);
+            const res = await table.mutate(req);
+            const entries = buildEntries(name, table.schema.primaryKey, req, before, res.results ?? [], res.failures);
+            if (entries.length > 0) {
+              await down.table(AUDIT_TABLE).mutate({ trans: req.trans, type: 'add', values: entries });
+            }
+            return res;
+          },
+        };
+      },
+    };
+  },
+};
+
+/** Rows a mutation is about to overwrite or delete, by primary key. */
+async function readBefore(table: DBCoreTable, req: DBCoreMutateRequest): Promise<Map<unknown, Record<string, unknown>>> {
+  const primaryKey = table.schema.primaryKey;
+  let rows: Record<string, unknown>[] = [];
+
+  if (req.type === 'deleteRange') {
+    const res = await table.query({ trans: req.trans, values: true, query: { index: primaryKey, range: req.range } });
+    rows = res.result;
+  } else if (req.type !== 'add') {
+    const keys: unknown[] = (req.type === 'delete' ? req.keys : req.keys ?? req.values.map(v => primaryKey.extractKey?.(v)))
+      .filter(k => k !== undefined);
+    if (keys.length > 0) {
+      rows = (await table.getMany({ trans: req.trans, keys })).filter(Boolean);
+    }
+  }
+
+  return new Map(rows.map(row => [primaryKey.extractKey!(row), row]));
+}
+
+function buildEntries(
+  table: string,
+  primaryKey: DBCoreIndex,
+  req: DBCoreMutateRequest,
+  before: Map<unknown, Record<string, unknown>>,
+  resultKeys: unknown[],
+  failures: Record<number, Error>
+): AuditEntry[] {
+  const timestamp = new Date().toISOString();
+  const { describe } = AUDITED_TABLES[table];
+  const entries: AuditEntry[] = [];
+
+  const push = (key: unknown, action: AuditAction, prev?: Record<string, unknown>, next?: Record<string, unknown>) => {
+    entries.push({
+      timestamp,
+      editor: editorName,
+      table,
+      entity_key: key as string | number,
+      entity_label: describe((next ?? prev)!),
+      action,
+      before: prev,
+      after: next,
+    });
+  };
+
+  if (req.type === 'add' || req.type === 'put') {
+    req.values.forEach((value: Record<string, unknown>, i) => {
+      if (failures[i]) return;
+      const key = resultKeys[i];
+      const prev = before.get(key);
+      // Auto-increment keys are only known after the write
+      const keyPath = primaryKey.keyPath;
+      const next = typeof keyPath === 'string' && value[keyPath] === undefined ? { ...value, [keyPath]: key } : value;
+      if (!prev) push(key, 'create', undefined, next);
+      else if (changedFields(prev, next).length > 0) push(key, 'update', prev, next);
+    });
+  } else {
+    for (const [key, prev] of before) push(key, 'delete', prev);
+  }
+
+  return entries;
+}
+
+/** Pick up editor_name changes without re-reading config on every write. */
+function trackEditor(table: DBCoreTable): DBCoreTable {
+  return {
+    ...table,
+    mutate: async (req) => {
+      const res = await table.mutate(req);
+      if (req.type === 'put' || req.type === 'add') {
+        const row = req.values.find((v: { id?: number }) => v.id === 1);
+        if (row) setAuditEditor(row.editor_name);
+      }
+      return res;
+    },
+  };
+}
@@ -18,9 +18,21 @@ import type {
   WeeklyUpdate,
   PlanningScenario,
   ScenarioAllocation,
+  ColumnMappingProfile,
+  ClassificationRule,
+  PersonAlias,
+  TimesheetRollup,
+  AuditEntry,
+  PlanBaseline,
+  Holiday,
+  PlannedLeave,
+  CustomKPI,
+  KPISetting,
 } from '../types';
 import type { ConfigImportLog } from '../configTransfer/configFileFormat';
 import { DEFAULT_KPI_CARDS } from '../aggregation/kpiRegistry';
+import { buildRollups } from './rollups';
+import { auditMiddleware, setAuditEditor } from './auditLog';
 
 // Full skills matrix organized by 7 categories (from Excel source)
 export const SKILL_CATEGORIES: { category: string; skills: string[] }[] = [
@@ -98,7 +110,7 @@ const SKILL_RENAME_MAP: Record<string, string> = {
   'Test fixture design': 'Test plan development',
 };
 
-class DashboardDB extends Dexie {
+export class DashboardDB extends Dexie {
   timesheets!: Table<TimesheetEntry, number>;
   teamMembers!: Table<TeamMember, number>;
   projects!: Table<Project, string>;
@@ -118,9 +130,21 @@ class DashboardDB extends Dexie {
   planningScenarios!: Table<PlanningScenario, number>;
   scenarioAllocations!: Table<ScenarioAllocation, number>;
   configImportLogs!: Table<ConfigImportLog, number>;
-
-  constructor() {
-    super('ResourceDashboard');
+  columnMappingProfiles!: Table<ColumnMappingProfile, number>;
+  classificationRules!: Table<ClassificationRule, number>;
+  personAliases!: Table<PersonAlias, number>;
+  monthlyRollups!: Table<TimesheetRollup, string>;
+  dailyRollups!: Table<TimesheetRollup, string>;
+  auditLog!: Table<AuditEntry, number>;
+  planBaselines!: Table<PlanBaseline, number>;
+  holidays!: Table<Holiday, string>;
+  plannedLeave!: Table<PlannedLeave, number>;
+  customKPIs!: Table<CustomKPI, string>;
+  kpiSettings!: Table<KPISetting, string>;
+
+  /** `name` is only overridden for scratch copies (see configTransfer/databaseBackup.ts) */
+  constructor(name = 'ResourceDashboard') {
+    super(name);
 
     // Version 1: Phase 1 tables
     this.version(1).stores({
@@ -474,6 +498,374 @@ class DashboardDB extends Dexie {
       await tx.table('planningScenarios').clear();
       await tx.table('scenarioAllocations').clear();
     });
+
+    // Version 15: Tag timesheet rows with their import batch (enables import rollback)
+    this.version(15).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter], month, project_filter, computed_at',
+      anomalyHistory: '++id, [month+project_filter], month, project_filter',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+    });
+
+    // Version 16: Saved CSV column mapping profiles for non-standard LP exports
+    this.version(16).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter], month, project_filter, computed_at',
+      anomalyHistory: '++id, [month+project_filter], month, project_filter',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+    });
+
+    // Version 17: Partition data by LP team (team switcher + all-teams roll-up)
+    this.version(17).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+    }).upgrade(async tx => {
+      // Existing snapshots were computed over every row — they become the all-teams roll-up
+      await tx.table('kpiHistory').toCollection().modify(s => { s.team_filter = ''; });
+      await tx.table('anomalyHistory').toCollection().modify(s => { s.team_filter = ''; });
+
+      // Tag each member with the teams they have logged time under
+      const teamsByPerson = new Map<number, Set<string>>();
+      await tx.table('timesheets').each((t: TimesheetEntry) => {
+        if (!t.team) return;
+        const teams = teamsByPerson.get(t.person_id) ?? new Set<string>();
+        teams.add(t.team);
+        teamsByPerson.set(t.person_id, teams);
+      });
+      await tx.table('teamMembers').toCollection().modify((m: TeamMember) => {
+        m.teams = [...(teamsByPerson.get(m.person_id) ?? [])].sort();
+      });
+    });
+
+    // Version 18: Ordered project classification rules (replace compiled-in R# tables)
+    this.version(18).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+    });
+
+    // Version 19: Aliases left behind by person identity merges
+    this.version(19).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+    });
+
+    // Version 20: Pre-aggregated timesheet rollups (see rollups.ts)
+    this.version(20).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+      monthlyRollups: 'key, month, team, [team+month]',
+      dailyRollups: 'key, month, team, [team+month]',
+    }).upgrade(async tx => {
+      const { monthly, daily } = buildRollups(await tx.table('timesheets').toArray());
+      await tx.table('monthlyRollups').bulkAdd(monthly);
+      await tx.table('dailyRollups').bulkAdd(daily);
+    });
+
+    // Version 21: Change history for planning tables (see auditLog.ts)
+    this.version(21).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+      monthlyRollups: 'key, month, team, [team+month]',
+      dailyRollups: 'key, month, team, [team+month]',
+      auditLog: '++id, timestamp, table, [table+entity_key]',
+    });
+
+    // Version 22: Frozen plan baselines
+    this.version(22).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+      monthlyRollups: 'key, month, team, [team+month]',
+      dailyRollups: 'key, month, team, [team+month]',
+      auditLog: '++id, timestamp, table, [table+entity_key]',
+      planBaselines: '++id, &name, created_at',
+    });
+
+    // Version 23: Capacity calendar (company holidays and planned leave)
+    this.version(23).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+      monthlyRollups: 'key, month, team, [team+month]',
+      dailyRollups: 'key, month, team, [team+month]',
+      auditLog: '++id, timestamp, table, [table+entity_key]',
+      planBaselines: '++id, &name, created_at',
+      holidays: 'date',
+      plannedLeave: '++id, engineer, start_date, end_date',
+    });
+
+    // Version 24: User-defined KPIs
+    this.version(24).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+      monthlyRollups: 'key, month, team, [team+month]',
+      dailyRollups: 'key, month, team, [team+month]',
+      auditLog: '++id, timestamp, table, [table+entity_key]',
+      planBaselines: '++id, &name, created_at',
+      holidays: 'date',
+      plannedLeave: '++id, engineer, start_date, end_date',
+      customKPIs: 'key',
+    });
+
+    // Version 25: KPI threshold overrides and targets
+    this.version(25).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+      monthlyRollups: 'key, month, team, [team+month]',
+      dailyRollups: 'key, month, team, [team+month]',
+      auditLog: '++id, timestamp, table, [table+entity_key]',
+      planBaselines: '++id, &name, created_at',
+      holidays: 'date',
+      plannedLeave: '++id, engineer, start_date, end_date',
+      customKPIs: 'key',
+      kpiSettings: 'key',
+    });
+
+    // Version 26: Per-engineer KPI history series
+    this.version(26).stores({
+      timesheets: 'timesheet_entry_id, date, person, full_name, activity, r_number, team, month, week, person_id, project_id, task_id, import_batch_id',
+      teamMembers: 'person_id, person, full_name, role, *teams',
+      projects: 'project_id, type, work_class',
+      milestones: 'project_id',
+      plannedAllocations: '++id, [month+project_id+engineer], month, project_id, engineer',
+      plannedProjectMonths: '++id, [month+project_id], month, project_id',
+      config: 'id',
+      importLogs: '++id, imported_at, filename, batch_id',
+      skills: '++id, [engineer+skill], engineer, skill',
+      skillCategories: 'name, category, sort_order',
+      projectSkillRequirements: '++id, [project_id+skill], project_id, skill',
+      anomalyThresholds: 'ruleId',
+      narrativeConfig: 'id',
+      kpiHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], [project_filter+team_filter+engineer_filter], month, computed_at',
+      anomalyHistory: '++id, [month+project_filter+team_filter], [project_filter+team_filter], month',
+      weeklyUpdates: '++id, &[project_id+week_ending], project_id, week_ending',
+      planningScenarios: '++id, status, created_at',
+      scenarioAllocations: '++id, scenario_id, engineer',
+      configImportLogs: '++id, imported_at, source_filename',
+      columnMappingProfiles: '++id, &name',
+      classificationRules: '++id, sort_order',
+      personAliases: 'person_id, target_person_id',
+      monthlyRollups: 'key, month, team, [team+month]',
+      dailyRollups: 'key, month, team, [team+month]',
+      auditLog: '++id, timestamp, table, [table+entity_key]',
+      planBaselines: '++id, &name, created_at',
+      holidays: 'date',
+      plannedLeave: '++id, engineer, start_date, end_date',
+      customKPIs: 'key',
+      kpiSettings: 'key',
+    }).upgrade(async tx => {
+      // Existing snapshots have no per-engineer series; clear them so App
+      // rebuilds the whole history (team and engineer series) on startup
+      await tx.table('kpiHistory').clear();
+    });
+
+    this.use(auditMiddleware);
   }
 }
 
@@ -493,6 +885,7 @@ export async function initializeDatabase(): Promise<void> {
       over_utilization_threshold_pct: 1.0,
       selected_month: '',
       selected_project: '',
+      selected_team: '',
       kpi_cards: [...DEFAULT_KPI_CARDS],
       pdf_export_sections: {
         overview: { includeKPISummary: true, includeNarrative: true, includeAlerts: false, chartPanels: ['kpi-trends'] },
@@ -505,6 +898,8 @@ export async function initializeDatabase(): Promise<void> {
     await db.config.add(defaultConfig);
   }
 
+  setAuditEditor((await db.config.get(1))?.editor_name);
+
   // Seed default skill categories if empty (38 skills across 7 categories)
   const skillCatCount = await db.skillCategories.count();
 
@@ -517,7 +912,18 @@ export async function initializeDatabase(): Promise<void> {
         sort_order: sortOrder++,
       }))
     );
-    await db.skillCategories.bulkAdd(categories);
+    // auditLog in scope: seed data is not an edit, so it stays out of the change history
+    await db.transaction('rw', db.skillCategories, db.auditLog, () => db.skillCategories.bulkAdd(categories));
+  }
+
+  // Seed default project classification rules if empty
+  const ruleCount = await db.classificationRules.count();
+
+  if (ruleCount === 0) {
+    const { DEFAULT_CLASSIFICATION_RULES } = await import('../utils/classification');
+    await db.classificationRules.bulkAdd(
+      DEFAULT_CLASSIFICATION_RULES.map((rule, i) => ({ ...rule, sort_order: i, enabled: true }))
+    );
   }
 
   // Seed default anomaly thresholds if empty
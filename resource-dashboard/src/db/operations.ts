@@ -1,11 +1,26 @@
 import { db } from './database';
 import { PersonRole } from '../types';
-import type { TimesheetEntry, TeamMember, Project, ImportLog } from '../types';
+import type {
+  TimesheetEntry,
+  TeamMember,
+  Project,
+  ImportLog,
+  ImportRollbackResult,
+  ProbableDeletion,
+  ClassificationRule,
+  ProjectReclassification,
+  AuditEntry,
+} from '../types';
+import { fromDbMonth } from '../utils/monthRange';
+import { foldEntries, rollupKey } from './rollups';
+import { changedFields } from './auditLog';
 import {
-  classifyProjectType,
-  classifyWorkClass,
+  buildClassificationInput,
+  classifyProject,
   classifyPersonRole,
   resolveProjectName,
+  FALLBACK_PROJECT_TYPE,
+  FALLBACK_WORK_CLASS,
 } from '../utils/classification';
 
 /**
@@ -30,11 +45,89 @@ export async function deduplicateEntries(
   };
 }
 
+/**
+ * Reconcile entries against the database field by field.
+ * Rows whose stored values differ are returned as `changedEntries` paired with
+ * the stored version (so the caller can restore it); the stored row's
+ * import_batch_id is carried over so rollback still targets the original import.
+ */
+export async function reconcileEntries(parsed: TimesheetEntry[]): Promise<{
+  newEntries: TimesheetEntry[];
+  changedEntries: { incoming: TimesheetEntry; previous: TimesheetEntry }[];
+  unchangedCount: number;
+}> {
+  const existing = await db.timesheets.bulkGet(parsed.map(e => e.timesheet_entry_id));
+
+  const newEntries: TimesheetEntry[] = [];
+  const changedEntries: { incoming: TimesheetEntry; previous: TimesheetEntry }[] = [];
+  let unchangedCount = 0;
+
+  parsed.forEach((entry, i) => {
+    const previous = existing[i];
+    if (!previous) {
+      newEntries.push(entry);
+    } else if (entryDiffers(entry, previous)) {
+      changedEntries.push({
+        incoming: { ...entry, import_batch_id: previous.import_batch_id },
+        previous,
+      });
+    } else {
+      unchangedCount++;
+    }
+  });
+
+  return { newEntries, changedEntries, unchangedCount };
+}
+
+/**
+ * LP fields compared when reconciling. A fixed list rather than every key, so
+ * custom fields that older versions of the importer never filled (e.g. job_type
+ * before headers were normalized) don't report every stored row as changed.
+ */
+const RECONCILED_FIELDS: (keyof TimesheetEntry)[] = [
+  'date', 'status', 'person', 'full_name', 'project', 'activity', 'hours', 'billable',
+  'timesheet_entry_note', 'task', 'folder', 'person_id', 'project_id', 'task_id',
+  'is_done', 'done_date', 'team', 'month', 'week', 'r_number',
+];
+
+/** True when any reconciled field differs; a missing value and '' count as equal. */
+function entryDiffers(incoming: TimesheetEntry, stored: TimesheetEntry): boolean {
+  return RECONCILED_FIELDS.some(key => (incoming[key] ?? '') !== (stored[key] ?? ''));
+}
+
+/**
+ * Find stored rows for the given teams within [start, end] (YYYY-MM-DD, inclusive)
+ * whose ids were not seen in the latest export. These are only reported, never deleted.
+ */
+export async function findProbableDeletions(
+  start: string,
+  end: string,
+  teams: Set<string>,
+  seenIds: Set<number>
+): Promise<ProbableDeletion[]> {
+  const stored = await db.timesheets
+    .where('date')
+    .between(start, end, true, true)
+    .toArray();
+
+  return stored
+    .filter(e => teams.has(e.team) && !seenIds.has(e.timesheet_entry_id))
+    .map(e => ({
+      timesheet_entry_id: e.timesheet_entry_id,
+      date: e.date,
+      full_name: e.full_name,
+      r_number: e.r_number,
+      hours: e.hours,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
 /**
  * Auto-discover and update team members from new entries.
+ * Returns the members added by this call.
  */
-export async function updateTeamMembers(entries: TimesheetEntry[]): Promise<string[]> {
-  const newPeople: string[] = [];
+export async function updateTeamMembers(entries: TimesheetEntry[]): Promise<TeamMember[]> {
+  const newPeople: TeamMember[] = [];
   const existingMembers = await db.teamMembers.toArray();
   const existingIds = new Set(existingMembers.map(m => m.person_id));
 
@@ -66,10 +159,11 @@ export async function updateTeamMembers(entries: TimesheetEntry[]): Promise<stri
         full_name: personEntries[0].full_name,
         role,
         capacity_override_hours: 0, // Use default
+        teams: mergeTeams([], personEntries),
       };
 
       await db.teamMembers.add(member);
-      newPeople.push(member.full_name);
+      newPeople.push(member);
     } else {
       // Existing person - re-evaluate role based on all data
       const allPersonEntries = await db.timesheets
@@ -80,20 +174,34 @@ export async function updateTeamMembers(entries: TimesheetEntry[]): Promise<stri
       const combinedEntries = [...allPersonEntries, ...personEntries];
       const newRole = classifyPersonRole(combinedEntries);
 
-      // Update role if changed
-      await db.teamMembers.update(personId, { role: newRole });
+      // Update role if changed; tag with any team they now log time under
+      const existing = existingMembers.find(m => m.person_id === personId);
+      await db.teamMembers.update(personId, {
+        role: newRole,
+        teams: mergeTeams(existing?.teams ?? [], personEntries),
+      });
     }
   }
 
   return newPeople;
 }
 
+function mergeTeams(teams: string[], entries: TimesheetEntry[]): string[] {
+  const merged = new Set(teams);
+  for (const entry of entries) {
+    if (entry.team) merged.add(entry.team);
+  }
+  return [...merged].sort();
+}
+
 /**
  * Auto-discover and update projects from new entries.
+ * New projects are typed, classed and named by the classification rules.
  */
 export async function updateProjects(entries: TimesheetEntry[]): Promise<string[]> {
   const newProjects: string[] = [];
   const existingProjects = await db.projects.toArray();
+  const rules = await loadClassificationRules();
   const existingIds = new Set(existingProjects.map(p => p.project_id));
 
   // Group entries by R# code
@@ -117,12 +225,13 @@ export async function updateProjects(entries: TimesheetEntry[]): Promise<string[
         .toArray();
 
       const combinedEntries = [...allProjectEntries, ...projectEntries];
+      const classification = classifyProject(rules, buildClassificationInput(rNumber, combinedEntries));
 
       const project: Project = {
         project_id: rNumber,
-        project_name: resolveProjectName(rNumber, combinedEntries),
-        type: classifyProjectType(rNumber, projectEntries[0].inherited_tags),
-        work_class: classifyWorkClass(rNumber),
+        project_name: classification.project_name ?? resolveProjectName(rNumber, combinedEntries),
+        type: classification.type ?? FALLBACK_PROJECT_TYPE,
+        work_class: classification.work_class ?? FALLBACK_WORK_CLASS,
       };
 
       await db.projects.add(project);
@@ -133,11 +242,164 @@ export async function updateProjects(entries: TimesheetEntry[]): Promise<string[
   return newProjects;
 }
 
+/**
+ * Classification rules in evaluation order.
+ */
+export async function loadClassificationRules(): Promise<ClassificationRule[]> {
+  return db.classificationRules.orderBy('sort_order').toArray();
+}
+
+/**
+ * What re-applying the classification rules would change on existing projects.
+ * Attributes no rule assigns keep their current (possibly hand-edited) value.
+ */
+export async function previewProjectReclassification(): Promise<ProjectReclassification[]> {
+  const [projects, rules] = await Promise.all([db.projects.toArray(), loadClassificationRules()]);
+
+  const entriesByProject = new Map<string, TimesheetEntry[]>();
+  await db.timesheets.each(entry => {
+    if (!entry.r_number) return;
+    const list = entriesByProject.get(entry.r_number) ?? [];
+    list.push(entry);
+    entriesByProject.set(entry.r_number, list);
+  });
+
+  const changes: ProjectReclassification[] = [];
+  for (const project of projects) {
+    const input = buildClassificationInput(project.project_id, entriesByProject.get(project.project_id) ?? []);
+    const classification = classifyProject(rules, input);
+    const current = { project_name: project.project_name, type: project.type, work_class: project.work_class };
+    const proposed = {
+      project_name: classification.project_name ?? project.project_name,
+      type: classification.type ?? project.type,
+      work_class: classification.work_class ?? project.work_class,
+    };
+    if (
+      proposed.project_name !== current.project_name
+      || proposed.type !== current.type
+      || proposed.work_class !== current.work_class
+    ) {
+      changes.push({ project_id: project.project_id, current, proposed });
+    }
+  }
+
+  return changes.sort((a, b) => a.project_id.localeCompare(b.project_id));
+}
+
+/**
+ * Write previewed reclassifications to the projects table.
+ */
+export async function applyProjectReclassification(changes: ProjectReclassification[]): Promise<void> {
+  await db.transaction('rw', db.projects, async () => {
+    for (const change of changes) {
+      await db.projects.update(change.project_id, change.proposed);
+    }
+  });
+}
+
 /**
  * Store new timesheet entries in bulk.
  */
 export async function storeEntries(entries: TimesheetEntry[]): Promise<void> {
-  await db.timesheets.bulkAdd(entries);
+  await db.transaction('rw', [db.timesheets, db.monthlyRollups, db.dailyRollups], async () => {
+    await db.timesheets.bulkAdd(entries);
+    await updateRollups(entries, []);
+  });
+}
+
+/**
+ * Overwrite existing timesheet entries (used for reconciled rows and to
+ * restore their previous values if the import is cancelled).
+ */
+export async function replaceEntries(entries: TimesheetEntry[]): Promise<void> {
+  await db.transaction('rw', [db.timesheets, db.monthlyRollups, db.dailyRollups], async () => {
+    const previous = await db.timesheets.bulkGet(entries.map(e => e.timesheet_entry_id));
+    await db.timesheets.bulkPut(entries);
+    await updateRollups(entries, previous.filter((e): e is TimesheetEntry => !!e));
+  });
+}
+
+/**
+ * Remove timesheet entries by primary key.
+ * Used to undo a partially-stored import when the user cancels it.
+ */
+export async function removeEntries(ids: number[]): Promise<void> {
+  await db.transaction('rw', [db.timesheets, db.monthlyRollups, db.dailyRollups], async () => {
+    const previous = await db.timesheets.bulkGet(ids);
+    await db.timesheets.bulkDelete(ids);
+    await updateRollups([], previous.filter((e): e is TimesheetEntry => !!e));
+  });
+}
+
+/**
+ * Fold timesheet rows that were just added and/or removed into the monthly
+ * and daily rollups. Call inside the transaction that wrote the rows.
+ */
+export async function updateRollups(added: TimesheetEntry[], removed: TimesheetEntry[]): Promise<void> {
+  for (const [table, daily] of [[db.monthlyRollups, false], [db.dailyRollups, true]] as const) {
+    const keys = [...new Set([...added, ...removed].map(e => rollupKey(e, daily)))];
+    if (keys.length === 0) continue;
+
+    const rollups = new Map((await table.bulkGet(keys)).filter(r => !!r).map(r => [r.key, r]));
+    foldEntries(rollups, removed, -1, daily);
+    foldEntries(rollups, added, 1, daily);
+
+    const live = [...rollups.values()].filter(r => r.entry_count > 0);
+    const emptied = [...rollups.values()].filter(r => r.entry_count <= 0).map(r => r.key);
+    await table.bulkPut(live);
+    await table.bulkDelete(emptied);
+  }
+}
+
+/**
+ * Delete every timesheet row stored by an import batch, plus any team members
+ * or projects that batch discovered and that no remaining row still references.
+ * Removes the import log itself. Derived history is left to the caller.
+ */
+export async function deleteImportBatch(logId: number): Promise<ImportRollbackResult> {
+  const log = await db.importLogs.get(logId);
+  if (!log?.batch_id) {
+    throw new Error('This import predates batch tracking and cannot be rolled back');
+  }
+  const batchId = log.batch_id;
+
+  const tables = [db.timesheets, db.monthlyRollups, db.dailyRollups, db.teamMembers, db.projects, db.importLogs];
+  return db.transaction('rw', tables, async () => {
+    const rows = await db.timesheets.where('import_batch_id').equals(batchId).toArray();
+    await db.timesheets.bulkDelete(rows.map(r => r.timesheet_entry_id));
+    await updateRollups([], rows);
+
+    const peopleRemoved: string[] = [];
+    for (const personId of log.discovered_person_ids ?? []) {
+      const remaining = await db.timesheets.where('person_id').equals(personId).count();
+      if (remaining > 0) continue;
+      const member = await db.teamMembers.get(personId);
+      if (member) {
+        await db.teamMembers.delete(personId);
+        peopleRemoved.push(member.full_name);
+      }
+    }
+
+    const projectsRemoved: string[] = [];
+    for (const projectId of log.discovered_project_ids ?? []) {
+      const remaining = await db.timesheets.where('r_number').equals(projectId).count();
+      if (remaining > 0) continue;
+      if (await db.projects.get(projectId)) {
+        await db.projects.delete(projectId);
+        projectsRemoved.push(projectId);
+      }
+    }
+
+    await db.importLogs.delete(logId);
+
+    return {
+      rowsRemoved: rows.length,
+      hoursRemoved: rows.reduce((sum, r) => sum + r.hours, 0),
+      peopleRemoved,
+      projectsRemoved,
+      affectedMonths: [...new Set(rows.map(r => fromDbMonth(r.month)))].sort(),
+    };
+  });
 }
 
 /**
@@ -285,3 +547,28 @@ export async function updateConfigFromImport(
     }
   }
 }
+
+/**
+ * Undo one change-history entry. Updates only restore the fields that entry
+ * changed, so later edits to other fields survive. The revert is itself an
+ * edit and lands in the change history.
+ */
+export async function revertAuditEntry(entry: AuditEntry): Promise<void> {
+  const table = db.table(entry.table);
+
+  await db.transaction('rw', table, async () => {
+    const current = await table.get(entry.entity_key);
+
+    if (entry.action === 'create') {
+      if (current) await table.delete(entry.entity_key);
+    } else if (entry.action === 'delete' || !current) {
+      await table.put(entry.before);
+    } else {
+      const changes: Record<string, unknown> = {};
+      for (const field of changedFields(entry.before!, entry.after!)) {
+        changes[field] = entry.before![field];
+      }
+      await table.update(entry.entity_key, changes);
+    }
+  });
+}
@@ -0,0 +1,251 @@
+import { db } from './database';
+import { updateRollups } from './operations';
+import type {
+  TeamMember,
+  TimesheetEntry,
+  DuplicatePersonCandidate,
+  PersonMergeResult,
+} from '../types';
+
+// ============================================================
+// MERGING
+// ============================================================
+
+/**
+ * Fold one team member into another. Timesheet rows move by person_id; every
+ * table that joins on full_name (allocations, skills, planned leave, scenario
+ * allocations, weekly-update action owners, project owners) is renamed to the survivor.
+ * Where both identities hold a row for the same slot (e.g. the same skill),
+ * the survivor's row is kept and the merged one dropped.
+ *
+ * The merged identity is recorded as an alias so later imports of its
+ * LP account land on the survivor too.
+ */
+export async function mergePeople(fromId: number, intoId: number): Promise<PersonMergeResult> {
+  if (fromId === intoId) {
+    throw new Error('Cannot merge a person into themselves');
+  }
+
+  const tables = [
+    db.teamMembers, db.timesheets, db.monthlyRollups, db.dailyRollups, db.plannedAllocations, db.skills,
+    db.plannedLeave, db.scenarioAllocations, db.weeklyUpdates, db.projects, db.personAliases,
+  ];
+
+  return db.transaction('rw', tables, async () => {
+    const from = await db.teamMembers.get(fromId);
+    const into = await db.teamMembers.get(intoId);
+    if (!from || !into) {
+      throw new Error('Both people must still exist to be merged');
+    }
+    const oldName = from.full_name;
+    const newName = into.full_name;
+
+    const moved = await db.timesheets.where('person_id').equals(fromId).toArray();
+    const renamed = moved.map(t => ({ ...t, person_id: intoId, person: into.person, full_name: newName }));
+    await db.timesheets.bulkPut(renamed);
+    await updateRollups(renamed, moved);
+
+    const result: PersonMergeResult = {
+      timesheetRows: moved.length,
+      allocations: 0,
+      skills: 0,
+      leave: 0,
+      scenarioAllocations: 0,
+      weeklyUpdates: 0,
+      projects: 0,
+    };
+
+    if (oldName !== newName) {
+      for (const allocation of await db.plannedAllocations.where('engineer').equals(oldName).toArray()) {
+        const clash = await db.plannedAllocations
+          .where('[month+project_id+engineer]').equals([allocation.month, allocation.project_id, newName])
+          .first();
+        if (clash) await db.plannedAllocations.delete(allocation.id!);
+        else await db.plannedAllocations.update(allocation.id!, { engineer: newName });
+        result.allocations++;
+      }
+
+      for (const rating of await db.skills.where('engineer').equals(oldName).toArray()) {
+        const clash = await db.skills.where('[engineer+skill]').equals([newName, rating.skill]).first();
+        if (clash) await db.skills.delete(rating.id!);
+        else await db.skills.update(rating.id!, { engineer: newName });
+        result.skills++;
+      }
+
+      result.leave = await db.plannedLeave.where('engineer').equals(oldName).modify({ engineer: newName });
+
+      const survivorScenarios = new Set(
+        (await db.scenarioAllocations.where('engineer').equals(newName).toArray()).map(a => a.scenario_id)
+      );
+      for (const allocation of await db.scenarioAllocations.where('engineer').equals(oldName).toArray()) {
+        if (survivorScenarios.has(allocation.scenario_id)) await db.scenarioAllocations.delete(allocation.id!);
+        else await db.scenarioAllocations.update(allocation.id!, { engineer: newName });
+        result.scenarioAllocations++;
+      }
+
+      result.weeklyUpdates = await db.weeklyUpdates
+        .filter(u => u.action_items.some(item => item.owner === oldName))
+        .modify(u => {
+          u.action_items = u.action_items.map(item => (item.owner === oldName ? { ...item, owner: newName } : item));
+        });
+
+      result.projects = await db.projects
+        .filter(p => p.assigned_engineer === oldName)
+        .modify({ assigned_engineer: newName });
+    }
+
+    const teams = new Set([...(into.teams ?? []), ...(from.teams ?? [])]);
+    await db.teamMembers.update(intoId, { teams: [...teams].sort() });
+    await db.teamMembers.delete(fromId);
+
+    // Aliases that pointed at the merged identity follow it to the survivor
+    await db.personAliases.where('target_person_id').equals(fromId).modify({ target_person_id: intoId });
+    await db.personAliases.put({
+      person_id: fromId,
+      person: from.person,
+      full_name: oldName,
+      target_person_id: intoId,
+      merged_at: new Date().toISOString(),
+    });
+
+    return result;
+  });
+}
+
+/**
+ * Forget an alias. Rows already merged stay merged; future imports of that
+ * LP account will create a separate team member again.
+ */
+export async function removePersonAlias(personId: number): Promise<void> {
+  await db.personAliases.delete(personId);
+}
+
+// ============================================================
+// IMPORT-TIME ALIASING
+// ============================================================
+
+/**
+ * Map of merged-away person_id → the member it was merged into.
+ */
+export async function loadAliasTargets(): Promise<Map<number, TeamMember>> {
+  const aliases = await db.personAliases.toArray();
+  const members = await db.teamMembers.bulkGet(aliases.map(a => a.target_person_id));
+
+  const targets = new Map<number, TeamMember>();
+  aliases.forEach((alias, i) => {
+    const member = members[i];
+    if (member) targets.set(alias.person_id, member);
+  });
+  return targets;
+}
+
+/**
+ * Rewrite rows logged under a merged-away identity onto its target, in place.
+ * Runs before dedup/reconcile so re-imported rows compare equal to stored ones.
+ */
+export function applyPersonAliases(entries: TimesheetEntry[], targets: Map<number, TeamMember>): void {
+  if (targets.size === 0) return;
+  for (const entry of entries) {
+    const target = targets.get(entry.person_id);
+    if (!target) continue;
+    entry.person_id = target.person_id;
+    entry.person = target.person;
+    entry.full_name = target.full_name;
+  }
+}
+
+// ============================================================
+// DUPLICATE DETECTION
+// ============================================================
+
+/**
+ * Lowercase, strip accents and punctuation, and turn "Last, First" into "first last".
+ */
+function nameTokens(fullName: string): string[] {
+  let name = fullName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const comma = name.indexOf(',');
+  if (comma >= 0) name = `${name.slice(comma + 1)} ${name.slice(0, comma)}`;
+  return name.replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Why two members look like the same person, or null.
+ * The weaker name heuristics only count when the two never logged time in the
+ * same month — one person switching accounts, not two people with similar names.
+ */
+function duplicateReason(a: TeamMember, b: TeamMember, overlapping: boolean): string | null {
+  if (a.person && a.person.toLowerCase() === b.person.toLowerCase()) {
+    return 'Same LP username';
+  }
+
+  const tokensA = nameTokens(a.full_name);
+  const tokensB = nameTokens(b.full_name);
+  if (tokensA.length === 0 || tokensB.length === 0) return null;
+  if ([...tokensA].sort().join(' ') === [...tokensB].sort().join(' ')) {
+    return 'Same name';
+  }
+  if (overlapping) return null;
+
+  const firstA = tokensA[0];
+  const firstB = tokensB[0];
+  if (tokensA[tokensA.length - 1] === tokensB[tokensB.length - 1]
+    && (firstA.startsWith(firstB) || firstB.startsWith(firstA))) {
+    return 'Same surname, matching first name or initial, never active in the same month';
+  }
+
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+  const distance = editDistance(joinedA, joinedB);
+  if (Math.min(joinedA.length, joinedB.length) >= 6 && distance <= 2) {
+    return `Names differ by ${distance} ${distance === 1 ? 'character' : 'characters'}, never active in the same month`;
+  }
+  return null;
+}
+
+/**
+ * Pairs of team members that are probably one person. The member with the
+ * most recent timesheet activity is suggested as the survivor.
+ */
+export async function findLikelyDuplicates(): Promise<DuplicatePersonCandidate[]> {
+  const members = await db.teamMembers.toArray();
+
+  const lastDate = new Map<number, string>();
+  const months = new Map<number, Set<string>>();
+  await db.timesheets.each(t => {
+    if ((lastDate.get(t.person_id) ?? '') < t.date) lastDate.set(t.person_id, t.date);
+    const personMonths = months.get(t.person_id) ?? new Set<string>();
+    personMonths.add(t.month);
+    months.set(t.person_id, personMonths);
+  });
+
+  const candidates: DuplicatePersonCandidate[] = [];
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const a = members[i];
+      const b = members[j];
+      const monthsA = months.get(a.person_id);
+      const monthsB = months.get(b.person_id);
+      const overlapping = !!monthsA && !!monthsB && [...monthsA].some(m => monthsB.has(m));
+
+      const reason = duplicateReason(a, b, overlapping);
+      if (!reason) continue;
+
+      const aIsNewer = (lastDate.get(a.person_id) ?? '') >= (lastDate.get(b.person_id) ?? '');
+      candidates.push(aIsNewer ? { keep: a, merge: b, reason } : { keep: b, merge: a, reason });
+    }
+  }
+
+  return candidates.sort((x, y) => x.keep.full_name.localeCompare(y.keep.full_name));
+}
@@ -0,0 +1,93 @@
+import type { TimesheetEntry, TimesheetRollup } from '../types';
+
+/**
+ * Pure folding logic for the monthlyRollups / dailyRollups tables.
+ * Writers live in operations.ts (updateRollups); the v20 upgrade uses buildRollups.
+ */
+
+/** Primary key of the rollup a row folds into. */
+export function rollupKey(entry: TimesheetEntry, daily: boolean): string {
+  const period = daily ? entry.date : entry.month;
+  return `${period}|${entry.team}|${entry.person_id}|${entry.r_number}|${entry.activity}`;
+}
+
+/**
+ * Fold rows into `rollups` in place: sign 1 adds them, -1 subtracts them.
+ * Rollups whose entry_count drops to 0 are left in the map for the caller to delete.
+ */
+export function foldEntries(
+  rollups: Map<string, TimesheetRollup>,
+  entries: TimesheetEntry[],
+  sign: 1 | -1,
+  daily: boolean
+): void {
+  for (const entry of entries) {
+    const key = rollupKey(entry, daily);
+    let rollup = rollups.get(key);
+    if (!rollup) {
+      rollup = {
+        key,
+        month: entry.month,
+        date: daily ? entry.date : '',
+        team: entry.team,
+        person_id: entry.person_id,
+        full_name: entry.full_name,
+        r_number: entry.r_number,
+        activity: entry.activity,
+        hours: 0,
+        meeting_hours: 0,
+        entry_count: 0,
+        ...(daily ? {} : { tasks: {} }),
+      };
+      rollups.set(key, rollup);
+    }
+
+    if (sign > 0) rollup.full_name = entry.full_name;
+    rollup.hours = roundHours(rollup.hours + sign * entry.hours);
+    if (entry.task?.toLowerCase().includes('meeting')) {
+      rollup.meeting_hours = roundHours(rollup.meeting_hours + sign * entry.hours);
+    }
+    rollup.entry_count += sign;
+
+    if (rollup.tasks && entry.task_id) {
+      const counts = rollup.tasks[entry.task_id] ?? [0, 0];
+      counts[0] += sign;
+      if (entry.is_done) counts[1] += sign;
+      if (counts[0] > 0) rollup.tasks[entry.task_id] = counts;
+      else delete rollup.tasks[entry.task_id];
+    }
+  }
+}
+
+/**
+ * Build both rollup tables from scratch.
+ */
+export function buildRollups(entries: TimesheetEntry[]): { monthly: TimesheetRollup[]; daily: TimesheetRollup[] } {
+  const monthly = new Map<string, TimesheetRollup>();
+  const daily = new Map<string, TimesheetRollup>();
+  foldEntries(monthly, entries, 1, false);
+  foldEntries(daily, entries, 1, true);
+  return { monthly: [...monthly.values()], daily: [...daily.values()] };
+}
+
+/**
+ * Copies of daily rollups with the task tallies a monthly rollup would carry,
+ * counted from the rows behind them — for task measures over a week selection.
+ */
+export function withTaskTallies(rollups: TimesheetRollup[], entries: TimesheetEntry[]): TimesheetRollup[] {
+  const tallied = new Map(rollups.map(r => [r.key, { ...r, tasks: {} as Record<number, [number, number]> }]));
+  for (const entry of entries) {
+    const rollup = tallied.get(rollupKey(entry, true));
+    if (!rollup || !entry.task_id) continue;
+    const counts = rollup.tasks[entry.task_id] ?? [0, 0];
+    counts[0]++;
+    if (entry.is_done) counts[1]++;
+    rollup.tasks[entry.task_id] = counts;
+  }
+  return [...tallied.values()];
+}
+
+/** Adding and subtracting floats drifts; hours are logged to at most a few decimals. */
+function roundHours(hours: number): number {
+  return Math.round(hours * 10000) / 10000;
+}
@@ -3,7 +3,8 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
 import { exportExecutivePDF } from './executivePDFExport';
 import type { ExportContext } from './executivePDFExport';
-import { formatMonthFilterLabel } from './exportUtils';
+import { formatMonthFilterLabel, formatWeekFilterLabel } from './exportUtils';
+import { useFilters } from '../context/ViewFilterContext';
 import type { PDFExportSections, ExportViewType } from '../types';
 import type { MonthFilter } from '../utils/monthRange';
 
@@ -49,7 +50,10 @@ const PANEL_LABELS: Record<string, string> = {
   'discipline-donut':      'Hours by Discipline',
   'capacity-forecast':     'Team Utilization / Capacity Forecast',
   'what-if-planner':       'What-If Scenario Planner',
+  'baseline-variance':     'Plan Baseline Variance',
   // Engineer panels
+  'kpi-trends-engineer':            'KPI Trends',
+  'kpi-history-engineer':           'KPI History (12 Months)',
   'hours-by-activity':              'Hours by Activity',
   'work-mix':                       'NPD / Sustaining / Sprint Split',
   'utilization-trend':              'Planned Utilization Trend',
@@ -81,6 +85,7 @@ const CHART_PANEL_IDS = [
   'discipline-donut',
   'capacity-forecast',
   'what-if-planner',
+  'baseline-variance',
 ];
 
 export function ExportConfigModal({ isOpen, onClose, monthFilter, rangeLabel, availablePanels, viewName, availability = [], exportContext }: ExportConfigModalProps) {
@@ -90,6 +95,8 @@ export function ExportConfigModal({ isOpen, onClose, monthFilter, rangeLabel, av
   const [exportError, setExportError] = useState('');
 
   const config = useLiveQuery(() => db.config.get(1));
+  const { weekFilter } = useFilters();
+  const periodLabel = weekFilter ? formatWeekFilterLabel(weekFilter) : formatMonthFilterLabel(monthFilter, rangeLabel);
 
   const viewType: ExportViewType = exportContext?.viewType ?? 'overview';
 
@@ -164,6 +171,7 @@ export function ExportConfigModal({ isOpen, onClose, monthFilter, rangeLabel, av
         rangeLabel,
       };
       if (!ctx.rangeLabel) ctx.rangeLabel = rangeLabel;
+      ctx.weekFilter = weekFilter;
 
       await exportExecutivePDF(
         monthFilter,
@@ -205,7 +213,7 @@ export function ExportConfigModal({ isOpen, onClose, monthFilter, rangeLabel, av
           <div className="flex items-center justify-between mb-4">
             <div>
               <h2 className="text-lg font-semibold text-[var(--text-primary)]">
-                Export{viewName ? ` ${viewName}` : ''} Report{exportContext?.engineerName ? `: ${exportContext.engineerName}` : ''} — {formatMonthFilterLabel(monthFilter, rangeLabel)}
+                Export{viewName ? ` ${viewName}` : ''} Report{exportContext?.engineerName ? `: ${exportContext.engineerName}` : ''} — {periodLabel}
               </h2>
               <p className="text-[12px] text-[var(--text-muted)] mt-0.5">Generate a professional report as PDF</p>
             </div>
@@ -239,7 +247,7 @@ export function ExportConfigModal({ isOpen, onClose, monthFilter, rangeLabel, av
               <div>
                 <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-1">Date Range</label>
                 <div className="text-[13px] text-[var(--text-secondary)] bg-[var(--bg-table-header)] px-3 py-2 rounded-md border border-[var(--border-subtle)]">
-                  {formatMonthFilterLabel(monthFilter, rangeLabel) || 'No date selected'}
+                  {periodLabel || 'No date selected'}
                 </div>
               </div>
 
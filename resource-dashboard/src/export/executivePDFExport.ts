@@ -2,13 +2,15 @@ import { db } from '../db/database';
 import { computeAllKPIs } from '../aggregation/kpiEngine';
 import { generateNarrativeSummary } from '../aggregation/narrative';
 import { computeAnomalies } from '../aggregation/anomalies';
-import { KPI_REGISTRY, formatKPIValue, getKPIColor } from '../aggregation/kpiRegistry';
+import { formatKPIValue, getKPIColor, getKPIDefinition } from '../aggregation/kpiRegistry';
+import { compareToTarget, formatTargetAttainment } from '../aggregation/kpiTargets';
 import { DEFAULT_KPI_CARDS } from '../aggregation/kpiRegistry';
 import { generateExecutivePDF } from './pdfGenerator';
 import { captureChartForExport } from './chartCapture';
-import { formatExportDate, formatMonthFilterLabel, formatMonthFilterFilename } from './exportUtils';
-import type { KPICardKey, PDFExportSections } from '../types';
-import type { MonthFilter } from '../utils/monthRange';
+import { formatExportDate, formatMonthFilterLabel, formatMonthFilterFilename, formatWeekFilterLabel, formatWeekFilterFilename } from './exportUtils';
+import type { CustomKPI, KPICardSelection, KPISetting, PDFExportSections } from '../types';
+import type { PDFExportOptions } from './pdfGenerator';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
 import { resolveMonths } from '../utils/monthRange';
 
 // Panel ID → display title mapping
@@ -35,7 +37,10 @@ const PANEL_TITLES: Record<string, string> = {
   'discipline-donut': 'Hours by Discipline',
   'capacity-forecast': 'Team Utilization / Capacity Forecast',
   'what-if-planner': 'What-If Scenario Planner',
+  'baseline-variance': 'Plan Baseline Variance',
   // Engineer panels
+  'kpi-trends-engineer': 'KPI Trends',
+  'kpi-history-engineer': 'KPI History (12 Months)',
   'hours-by-activity': 'Hours by Activity',
   'work-mix': 'NPD / Sustaining / Sprint Split',
   'utilization-trend': 'Planned Utilization Trend',
@@ -55,6 +60,8 @@ export interface ExportContext {
   viewType: 'overview' | 'team' | 'planning' | 'engineer';
   engineerName?: string;
   rangeLabel?: string;
+  /** Selected weeks when the view is in week mode; KPIs and alerts then cover just these weeks. */
+  weekFilter?: WeekFilter;
 }
 
 export async function exportExecutivePDF(
@@ -69,21 +76,25 @@ export async function exportExecutivePDF(
 
   const config = await db.config.get(1);
   const rangeLabel = context?.rangeLabel;
-  const monthLabel = formatMonthFilterLabel(monthFilter, rangeLabel);
+  const weekFilter = context?.weekFilter;
+  const monthLabel = weekFilter ? formatWeekFilterLabel(weekFilter) : formatMonthFilterLabel(monthFilter, rangeLabel);
 
   // 1. Gather KPI data
   onProgress?.('Computing KPIs...', ++step, totalSteps);
-  const kpiResults = await computeAllKPIs(monthFilter, projectFilter, context?.engineerName);
-  const kpiCards = buildKPICardData(kpiResults, config?.kpi_cards, projectFilter);
+  const kpiResults = await computeAllKPIs(monthFilter, projectFilter, context?.engineerName, undefined, weekFilter);
+  const customKPIs = await db.customKPIs.toArray();
+  const kpiSettings = await db.kpiSettings.toArray();
+  const kpiCards = buildKPICardData(kpiResults, config?.kpi_cards, customKPIs, kpiSettings, monthFilter, projectFilter, weekFilter);
 
-  // 2. Gather narrative
+  // 2. Gather narrative — monthly only, so in week mode it is titled with its months
   onProgress?.('Generating narrative...', ++step, totalSteps);
   const narrative = await generateNarrativeSummary(monthFilter, projectFilter, context?.engineerName);
+  const narrativeTitle = weekFilter ? `Monthly Summary — ${formatMonthFilterLabel(monthFilter)}` : undefined;
 
   // 3. Gather alerts (if selected)
   let alerts: { title: string; detail: string; severity: 'alert' | 'warning' | 'info' }[] = [];
   if (sections.includeAlerts) {
-    const anomalies = await computeAnomalies(monthFilter, projectFilter);
+    const anomalies = await computeAnomalies(monthFilter, projectFilter, undefined, undefined, weekFilter);
     alerts = anomalies.slice(0, 8).map(a => ({
       title: a.title,
       detail: a.detail,
@@ -102,7 +113,8 @@ export async function exportExecutivePDF(
   // 5. Build PDF title based on context
   const months = resolveMonths(monthFilter);
   let reportTitle = 'Monthly Resource Report';
-  if (months.length > 1) reportTitle = 'Resource Report';
+  if (weekFilter) reportTitle = weekFilter.weeks.length === 1 ? 'Weekly Resource Report' : 'Resource Report';
+  else if (months.length > 1) reportTitle = 'Resource Report';
   if (context?.viewType === 'engineer' && context.engineerName) {
     reportTitle = `Engineer Report: ${context.engineerName}`;
   }
@@ -121,13 +133,16 @@ export async function exportExecutivePDF(
     kpiCards,
     narrativeText: narrative?.paragraph ?? '',
     narrativeHighlights: narrative?.highlights ?? [],
+    narrativeTitle,
     alerts,
     chartImages,
     reportTitle,
   });
 
   // 7. Download
-  const fileDatePart = formatMonthFilterFilename(monthFilter, rangeLabel);
+  const fileDatePart = weekFilter
+    ? formatWeekFilterFilename(weekFilter)
+    : formatMonthFilterFilename(monthFilter, rangeLabel);
   let filename: string;
   if (context?.viewType === 'engineer' && context.engineerName) {
     const safeName = context.engineerName.replace(/[^a-zA-Z0-9]/g, '_');
@@ -140,23 +155,29 @@ export async function exportExecutivePDF(
 
 function buildKPICardData(
   kpiResults: Awaited<ReturnType<typeof computeAllKPIs>>,
-  configCards: KPICardKey[] | undefined,
-  projectFilter: string | undefined
-): { label: string; value: string; color: 'green' | 'yellow' | 'red' | 'neutral' }[] {
+  configCards: KPICardSelection[] | undefined,
+  customKPIs: CustomKPI[],
+  kpiSettings: KPISetting[],
+  monthFilter: MonthFilter,
+  projectFilter: string | undefined,
+  weekFilter: WeekFilter | undefined
+): PDFExportOptions['kpiCards'] {
   const selectedCards = configCards ?? DEFAULT_KPI_CARDS;
 
   // When project is selected, only show applicable KPIs
   const visibleCards = projectFilter
-    ? selectedCards.filter(k => KPI_REGISTRY[k]?.applicableToSingleProject)
+    ? selectedCards.filter(k => getKPIDefinition(k, customKPIs, kpiSettings)?.applicableToSingleProject)
     : selectedCards;
 
   return visibleCards.map(key => {
-    const def = KPI_REGISTRY[key];
+    const def = getKPIDefinition(key, customKPIs, kpiSettings);
     if (!def) return { label: key, value: '—', color: 'neutral' as const };
 
     const rawValue = def.getValue(kpiResults);
     const displayValue = formatKPIValue(rawValue, def.format);
     const color = getKPIColor(rawValue, def.thresholds);
+    // Targets are monthly, so they aren't compared against a week's values
+    const vsTarget = weekFilter ? null : compareToTarget(rawValue, def, kpiSettings.find(s => s.key === key), monthFilter);
 
     // Add unit suffix for display
     let valueWithUnit = displayValue;
@@ -167,6 +188,7 @@ function buildKPICardData(
       label: def.label,
       value: valueWithUnit,
       color,
+      target: vsTarget ? { label: formatTargetAttainment(vsTarget, def), met: vsTarget.met } : undefined,
     };
   });
 }
@@ -1,5 +1,6 @@
-import type { MonthFilter } from '../utils/monthRange';
+import type { MonthFilter, WeekFilter } from '../utils/monthRange';
 import { resolveMonths } from '../utils/monthRange';
+import { computeWeekLabel } from '../utils/weekDates';
 
 /**
  * Format a date for display in exports.
@@ -60,3 +61,23 @@ export function formatMonthFilterFilename(
   const last = months[months.length - 1].replace('-', '');
   return `${first}-${last}`;
 }
+
+/**
+ * Format a WeekFilter into a display label for export headers.
+ * Single week: "W07 '26" or "w/e Feb 13 '26"
+ * Range: "W05 '26 — W08 '26"
+ */
+export function formatWeekFilterLabel(weekFilter: WeekFilter): string {
+  return computeWeekLabel(weekFilter.weeks[0], weekFilter.weeks[weekFilter.weeks.length - 1], weekFilter.convention);
+}
+
+/**
+ * Generate a filename-safe string for a WeekFilter.
+ * Single week: "2026-W07" (ISO) or "2026-02-13" (Friday-ending)
+ * Range: "2026-W05_2026-W08"
+ */
+export function formatWeekFilterFilename(weekFilter: WeekFilter): string {
+  const first = weekFilter.weeks[0];
+  const last = weekFilter.weeks[weekFilter.weeks.length - 1];
+  return first === last ? first : `${first}_${last}`;
+}
@@ -16,9 +16,15 @@ export interface PDFExportOptions {
   includeCharts: string[];     // panel IDs to include
 
   // Data
-  kpiCards: { label: string; value: string; color: 'green' | 'yellow' | 'red' | 'neutral' }[];
+  kpiCards: {
+    label: string;
+    value: string;
+    color: 'green' | 'yellow' | 'red' | 'neutral';
+    target?: { label: string; met: boolean };   // "Target 85%: met"
+  }[];
   narrativeText: string;
   narrativeHighlights: string[];
+  narrativeTitle?: string;     // Defaults to "Monthly Summary"
   alerts: { title: string; detail: string; severity: 'alert' | 'warning' | 'info' }[];
   chartImages: { panelId: string; title: string; dataUrl: string; aspectRatio: number }[];
 }
@@ -81,7 +87,7 @@ export async function generateExecutivePDF(options: PDFExportOptions): Promise<j
   // 3. Narrative
   if (options.includeNarrative && options.narrativeText) {
     y = checkPageBreak(doc, y, 40);
-    y = renderNarrative(doc, y, options.narrativeText, options.narrativeHighlights);
+    y = renderNarrative(doc, y, options.narrativeText, options.narrativeHighlights, options.narrativeTitle);
   }
 
   // 4. Alerts
@@ -204,20 +210,42 @@ function renderKPISummary(
     doc.setFontSize(FONTS.kpiLabelSize);
     doc.setTextColor(...COLORS.textMuted);
     doc.text(card.label, x + 6, cardY + 20);
+
+    // Target attainment — top right
+    if (card.target) {
+      doc.setFontSize(FONTS.smallSize - 1);
+      doc.setTextColor(...(card.target.met ? COLORS.green : COLORS.red));
+      const targetWidth = doc.getTextWidth(card.target.label);
+      doc.text(card.target.label, x + cardWidth - 4 - targetWidth, cardY + 6);
+    }
   }
 
   const totalRows = Math.ceil(cards.length / cardsPerRow);
-  return y + totalRows * (cardHeight + cardGap) + 6;
+  y += totalRows * (cardHeight + cardGap);
+
+  // Target attainment summary
+  const withTargets = cards.filter(c => c.target);
+  if (withTargets.length > 0) {
+    const met = withTargets.filter(c => c.target!.met).length;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(FONTS.smallSize);
+    doc.setTextColor(...COLORS.textMuted);
+    doc.text(`Targets met: ${met} of ${withTargets.length} KPIs with a target this period`, PAGE.marginLeft, y + 2);
+    y += 5;
+  }
+
+  return y + 6;
 }
 
 function renderNarrative(
   doc: jsPDF,
   y: number,
   text: string,
-  highlights: string[]
+  highlights: string[],
+  title = 'Monthly Summary'
 ): number {
   // Section title
-  y = renderSectionTitle(doc, y, 'Monthly Summary');
+  y = renderSectionTitle(doc, y, title);
 
   // Paragraph text with word-wrap
   doc.setFont('helvetica', 'normal');
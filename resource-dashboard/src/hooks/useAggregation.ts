@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getAggregationVersion, subscribeToAggregations } from '../aggregation/aggregationClient';
+
+/**
+ * Current aggregation cache version. Add it to the deps of any useLiveQuery
+ * that awaits runAggregation so the panel refreshes when data changes.
+ */
+export function useAggregationVersion(): number {
+  return useSyncExternalStore(subscribeToAggregations, getAggregationVersion);
+}
+
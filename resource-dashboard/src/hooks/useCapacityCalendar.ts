@@ -0,0 +1,46 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+import type { Holiday, PlannedLeave } from '../types';
+import { refreshKPIHistory } from '../aggregation/kpiHistory';
+
+/**
+ * Hook for the capacity calendar: company holidays and per-person planned leave.
+ * Every change alters capacity, so KPI history is refreshed afterwards.
+ */
+export function useCapacityCalendar() {
+  const holidays = useLiveQuery(() => db.holidays.orderBy('date').toArray(), []);
+  const leave = useLiveQuery(() => db.plannedLeave.orderBy('start_date').toArray(), []);
+
+  /** Add or rename holidays; returns how many dates were new */
+  async function saveHolidays(entries: Holiday[]): Promise<number> {
+    const existing = new Set(await db.holidays.where('date').anyOf(entries.map(h => h.date)).primaryKeys());
+    await db.holidays.bulkPut(entries);
+    refreshKPIHistory();
+    return entries.filter(h => !existing.has(h.date)).length;
+  }
+
+  async function deleteHoliday(date: string): Promise<void> {
+    await db.holidays.delete(date);
+    refreshKPIHistory();
+  }
+
+  async function addLeave(entry: Omit<PlannedLeave, 'id'>): Promise<void> {
+    await db.plannedLeave.add(entry);
+    refreshKPIHistory();
+  }
+
+  async function deleteLeave(id: number): Promise<void> {
+    await db.plannedLeave.delete(id);
+    refreshKPIHistory();
+  }
+
+  return {
+    holidays: holidays ?? [],
+    leave: leave ?? [],
+    loading: holidays === undefined || leave === undefined,
+    saveHolidays,
+    deleteHoliday,
+    addLeave,
+    deleteLeave,
+  };
+}
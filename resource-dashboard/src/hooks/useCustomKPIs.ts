@@ -0,0 +1,40 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+import type { CustomKPI, CustomKPIKey } from '../types';
+import { refreshKPIHistory } from '../aggregation/kpiHistory';
+
+/**
+ * Hook for user-defined KPIs.
+ * Saving or deleting one refreshes KPI history so sparklines include it.
+ */
+export function useCustomKPIs() {
+  const customKPIs = useLiveQuery(() => db.customKPIs.toArray(), []);
+
+  /** Create or replace a custom KPI; returns its key */
+  async function saveCustomKPI(kpi: Omit<CustomKPI, 'key'> & { key?: CustomKPIKey }): Promise<CustomKPIKey> {
+    const key = kpi.key ?? `custom:${Date.now().toString(36)}`;
+    await db.customKPIs.put({ ...kpi, key });
+    refreshKPIHistory();
+    return key;
+  }
+
+  /** Delete a custom KPI, its targets, and drop it from the selected KPI cards */
+  async function deleteCustomKPI(key: CustomKPIKey): Promise<void> {
+    await db.transaction('rw', [db.customKPIs, db.kpiSettings, db.config], async () => {
+      await db.customKPIs.delete(key);
+      await db.kpiSettings.delete(key);
+      const config = await db.config.get(1);
+      if (config?.kpi_cards.includes(key)) {
+        await db.config.update(1, { kpi_cards: config.kpi_cards.filter(k => k !== key) });
+      }
+    });
+    refreshKPIHistory();
+  }
+
+  return {
+    customKPIs: customKPIs ?? [],
+    loading: customKPIs === undefined,
+    saveCustomKPI,
+    deleteCustomKPI,
+  };
+}
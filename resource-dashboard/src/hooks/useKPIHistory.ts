@@ -1,17 +1,20 @@
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
+import { getActiveTeam } from '../aggregation/teamScope';
 import type { KPISnapshot } from '../types';
 
 /**
  * Reactive hook for KPI history snapshots.
- * Returns all snapshots for a given project filter, sorted by month.
+ * Returns all snapshots for a given project filter and the active team, sorted by month —
+ * the team series, or one engineer's series when `engineer` is given.
  */
-export function useKPIHistory(projectFilter?: string): KPISnapshot[] | undefined {
+export function useKPIHistory(projectFilter?: string, engineer?: string): KPISnapshot[] | undefined {
   return useLiveQuery(async () => {
     const filter = projectFilter ?? '';
+    const team = await getActiveTeam();
     return await db.kpiHistory
-      .where('project_filter')
-      .equals(filter)
+      .where('[project_filter+team_filter+engineer_filter]')
+      .equals([filter, team, engineer ?? ''])
       .sortBy('month');
-  }, [projectFilter]);
+  }, [projectFilter, engineer]);
 }
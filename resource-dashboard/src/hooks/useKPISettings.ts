@@ -0,0 +1,27 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+import type { KPICardSelection, KPISetting } from '../types';
+
+/**
+ * Hook for per-KPI threshold overrides and targets.
+ * These only change how values are judged, so KPI history needs no refresh.
+ */
+export function useKPISettings() {
+  const settings = useLiveQuery(() => db.kpiSettings.toArray(), []);
+
+  /** Save a KPI's settings; a setting with nothing left in it is removed */
+  async function saveKPISetting(setting: KPISetting): Promise<void> {
+    if (!setting.thresholds && !setting.target_mode && setting.targets.length === 0) {
+      await db.kpiSettings.delete(setting.key);
+    } else {
+      await db.kpiSettings.put(setting);
+    }
+  }
+
+  return {
+    settings: settings ?? [],
+    loading: settings === undefined,
+    settingFor: (key: KPICardSelection) => settings?.find(s => s.key === key),
+    saveKPISetting,
+  };
+}
@@ -53,11 +53,17 @@ export function usePanelDataCheck(panelId: string): boolean {
       }
 
       case 'npd-project-comp': {
-        const [allocCount, tsCount] = await Promise.all([
+        const [allocCount, baselineCount, tsCount] = await Promise.all([
           db.plannedAllocations.count(),
+          db.planBaselines.count(),
           db.timesheets.count(),
         ]);
-        return allocCount > 0 && tsCount > 0;
+        return (allocCount > 0 || baselineCount > 0) && tsCount > 0;
+      }
+
+      case 'baseline-variance': {
+        const count = await db.planBaselines.count();
+        return count > 0;
       }
 
       case 'project-timeline': {
@@ -0,0 +1,60 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+
+/**
+ * Hook for frozen plan baselines.
+ * Provides the reactive list (newest first) and imperative mutation helpers.
+ */
+export function usePlanBaselines() {
+  const baselines = useLiveQuery(
+    () => db.planBaselines.orderBy('created_at').reverse().toArray(),
+    [],
+  );
+
+  /** Freeze the current allocations and planned project hours under `name`; returns the new id */
+  async function createBaseline(name: string, description: string): Promise<number> {
+    return db.transaction('rw', db.planBaselines, db.plannedAllocations, db.plannedProjectMonths, db.config, async () => {
+      const [allocations, projectMonths, config] = await Promise.all([
+        db.plannedAllocations.toArray(),
+        db.plannedProjectMonths.toArray(),
+        db.config.get(1),
+      ]);
+      return db.planBaselines.add({
+        name: name.trim(),
+        description: description.trim(),
+        created_at: new Date().toISOString(),
+        created_by: config?.editor_name ?? '',
+        allocations: allocations.map(a => ({
+          month: a.month,
+          project_id: a.project_id,
+          engineer: a.engineer,
+          allocation_pct: a.allocation_pct,
+          planned_hours: a.planned_hours,
+        })),
+        project_months: projectMonths.map(m => ({
+          month: m.month,
+          project_id: m.project_id,
+          total_planned_hours: m.total_planned_hours,
+        })),
+      });
+    });
+  }
+
+  /** Delete a baseline; views comparing against it fall back to the current plan */
+  async function deleteBaseline(id: number): Promise<void> {
+    await db.transaction('rw', db.planBaselines, db.config, async () => {
+      await db.planBaselines.delete(id);
+      const config = await db.config.get(1);
+      if (config?.selected_baseline_id === id) {
+        await db.config.update(1, { selected_baseline_id: undefined });
+      }
+    });
+  }
+
+  return {
+    baselines: baselines ?? [],
+    loading: baselines === undefined,
+    createBaseline,
+    deleteBaseline,
+  };
+}
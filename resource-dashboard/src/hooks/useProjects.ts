@@ -11,8 +11,8 @@ export function useProjects() {
 
   const updateProject = async (projectId: string, updates: Partial<Project>) => {
     await db.projects.update(projectId, updates);
-    // Reclassifying type/work_class changes historical KPIs — refresh snapshots
-    if ('type' in updates || 'work_class' in updates) {
+    // Reclassifying type/work_class or moving a project in the tree changes historical KPIs — refresh snapshots
+    if ('type' in updates || 'work_class' in updates || 'parent_id' in updates) {
       refreshKPIHistory();
     }
   };
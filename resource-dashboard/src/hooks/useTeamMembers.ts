@@ -3,6 +3,8 @@ import { db } from '../db/database';
 import { PersonRole } from '../types';
 import type { TeamMember } from '../types';
 import { refreshKPIHistory } from '../aggregation/kpiHistory';
+import { getActiveTeam } from '../aggregation/teamScope';
+import { mergePeople } from '../db/personIdentity';
 
 /**
  * Hook for team member CRUD operations.
@@ -12,14 +14,26 @@ export function useTeamMembers() {
 
   const updateMember = async (personId: number, updates: Partial<TeamMember>) => {
     await db.teamMembers.update(personId, updates);
-    // Role or capacity changes affect KPI calculations
-    if ('role' in updates || 'capacity_override_hours' in updates) {
+    // Role, capacity or employment changes affect KPI calculations
+    if (
+      'role' in updates || 'capacity_override_hours' in updates || 'capacity_changes' in updates ||
+      'start_date' in updates || 'end_date' in updates
+    ) {
       refreshKPIHistory();
     }
   };
 
   const addMember = async (member: Omit<TeamMember, 'person_id'> & { person_id: number }) => {
-    await db.teamMembers.add(member);
+    // Manually added people join the team the dashboard is scoped to
+    const team = await getActiveTeam();
+    await db.teamMembers.add(team ? { ...member, teams: [team] } : member);
+  };
+
+  const mergeMember = async (fromId: number, intoId: number) => {
+    const result = await mergePeople(fromId, intoId);
+    // Hours and allocations now sit under one engineer
+    refreshKPIHistory();
+    return result;
   };
 
   // Get sorted list: engineers first, then techs, alphabetically within each group
@@ -36,6 +50,7 @@ export function useTeamMembers() {
     teamMembers: sortedMembers,
     updateMember,
     addMember,
+    mergeMember,
     loading: teamMembers === undefined,
   };
 }
@@ -0,0 +1,178 @@
+import Papa from 'papaparse';
+import type { TimesheetEntry, ColumnMap, ColumnMappingProfile } from '../types';
+
+/**
+ * Built-in mapping for our LiquidPlanner workspace, including its custom fields.
+ * Keys are the exact export headers; matching goes through `normalizeHeader`,
+ * so spacing quirks like 'Job Type ' or 'Source/ Facility' don't matter.
+ */
+export const CSV_COLUMN_MAP: ColumnMap = {
+  'date': 'date',
+  'status': 'status',
+  'person': 'person',
+  'full_name': 'full_name',
+  'client': 'client',
+  'project': 'project',
+  'activity': 'activity',
+  'hours': 'hours',
+  'billable': 'billable',
+  'timesheet_entry_note': 'timesheet_entry_note',
+  'task': 'task',
+  'task_reference': 'task_reference',
+  'folder': 'folder',
+  'package': 'package',
+  'person_id': 'person_id',
+  'client_id': 'client_id',
+  'project_id': 'project_id',
+  'activity_id': 'activity_id',
+  'task_id': 'task_id',
+  'folder_id': 'folder_id',
+  'package_id': 'package_id',
+  'timesheet_entry_id': 'timesheet_entry_id',
+  'person_reference': 'person_reference',
+  'client_reference': 'client_reference',
+  'project_reference': 'project_reference',
+  'is_done': 'is_done',
+  'done_date': 'done_date',
+  'team': 'team',
+  'month': 'month',
+  'week': 'week',
+  'tags': 'tags',
+  'inherited_tags': 'inherited_tags',
+  'max_effort': 'max_effort',
+  'R #': 'r_number',                       // NOTE: space before #
+  'Work Order Group': 'work_order_group',
+  'Project Stage/Type': 'project_stage_type',
+  'Drawing Number & Rev': 'drawing_number_rev',
+  'Work Order Status': 'work_order_status',
+  'Part Code': 'part_code',
+  'Test Day': 'test_day',
+  'Source/ Facility': 'source_facility',    // NOTE: space before /
+  'JN/ Order #': 'jn_order',               // NOTE: space before /
+  'Job Type ': 'job_type',                  // NOTE: trailing space
+  'Sourcing Category': 'sourcing_category',
+  'PO#': 'po_number',
+  'Supplier': 'supplier',
+  'Due Date': 'due_date',
+  'CPR#': 'cpr_number',
+  'Region': 'region',
+  'Major Market': 'major_market',
+  'Department Code': 'department_code',
+  'Approved Date': 'approved_date',
+  'Approval': 'approval',
+  'Cost': 'cost',
+  'Project Phase': 'project_phase',
+  'Order': 'order',
+  'Dependency Satisfied Date': 'dependency_satisfied_date',
+  'Market': 'market',
+  'Task Approved Date': 'task_approved_date',
+  'Rework': 'rework',
+  'Original Deadline': 'original_deadline',
+  'Test Type': 'test_type',
+  'Andon': 'andon',
+  'Number of Tests': 'number_of_tests',
+};
+
+export const BUILTIN_PROFILE_NAME = 'LiquidPlanner (built-in)';
+
+/** Fields without which an import can't produce usable rows. */
+export const REQUIRED_FIELDS: (keyof TimesheetEntry)[] = [
+  'timesheet_entry_id',
+  'date',
+  'person_id',
+  'full_name',
+  'activity',
+  'hours',
+];
+
+/** Every field a CSV column can be mapped to, in CSV_COLUMN_MAP order. */
+export const MAPPABLE_FIELDS: (keyof TimesheetEntry)[] = [...new Set(Object.values(CSV_COLUMN_MAP))];
+
+/**
+ * The mapping chosen for a file, plus what it leaves unmapped.
+ */
+export interface ColumnMappingSelection {
+  profileName: string;
+  /** Actual file header → field, ready to hand to the parser */
+  columnMap: ColumnMap;
+  missingRequired: (keyof TimesheetEntry)[];
+  /** Header-set similarity in [0, 1] */
+  score: number;
+}
+
+/** Case-, space- and punctuation-insensitive header key. */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Resolve a profile's mappings against the headers actually present in a file.
+ * Returns file header → field for every header the profile recognises.
+ */
+export function resolveColumnMap(headers: string[], mappings: ColumnMap): ColumnMap {
+  const byKey = new Map(
+    Object.entries(mappings).map(([header, field]) => [normalizeHeader(header), field])
+  );
+
+  const resolved: ColumnMap = {};
+  for (const header of headers) {
+    const field = byKey.get(normalizeHeader(header));
+    if (field) resolved[header] = field;
+  }
+  return resolved;
+}
+
+/** Required fields that no column in the map feeds. */
+export function findMissingRequired(columnMap: ColumnMap): (keyof TimesheetEntry)[] {
+  const mapped = new Set(Object.values(columnMap));
+  return REQUIRED_FIELDS.filter(f => !mapped.has(f));
+}
+
+/**
+ * Pick the best mapping for a file's headers from the built-in map and any saved
+ * profiles. Profiles that cover every required field win; ties go to the
+ * higher Jaccard similarity between the file's headers and the profile's.
+ */
+export function selectColumnMapping(
+  headers: string[],
+  profiles: ColumnMappingProfile[]
+): ColumnMappingSelection {
+  const candidates = [
+    { name: BUILTIN_PROFILE_NAME, mappings: CSV_COLUMN_MAP },
+    ...profiles.map(p => ({ name: p.name, mappings: p.mappings })),
+  ];
+  const fileKeys = new Set(headers.map(normalizeHeader));
+
+  let best: ColumnMappingSelection | null = null;
+  for (const candidate of candidates) {
+    const columnMap = resolveColumnMap(headers, candidate.mappings);
+    const missingRequired = findMissingRequired(columnMap);
+
+    const profileKeys = new Set(Object.keys(candidate.mappings).map(normalizeHeader));
+    const shared = [...profileKeys].filter(k => fileKeys.has(k)).length;
+    const union = new Set([...profileKeys, ...fileKeys]).size;
+    const score = union > 0 ? shared / union : 0;
+
+    const selection = { profileName: candidate.name, columnMap, missingRequired, score };
+    if (
+      !best ||
+      missingRequired.length < best.missingRequired.length ||
+      (missingRequired.length === best.missingRequired.length && score > best.score)
+    ) {
+      best = selection;
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Read just the header row of a CSV file (BOM stripped, trimmed).
+ */
+export async function readCSVHeaders(file: File): Promise<string[]> {
+  const head = await file.slice(0, 64 * 1024).text();
+  const parsed = Papa.parse<string[]>(head, { preview: 1 });
+  return (parsed.data[0] ?? [])
+    .map(h => h.replace(/^\uFEFF/, '').trim())
+    .filter(h => h.length > 0);
+}
@@ -0,0 +1,320 @@
+import { parseCSVChunked, parseFilename } from './csvParser';
+import { normalizeEntries } from './normalizer';
+import {
+  deduplicateEntries,
+  reconcileEntries,
+  findProbableDeletions,
+  updateTeamMembers,
+  updateProjects,
+  storeEntries,
+  replaceEntries,
+  removeEntries,
+  logImport,
+  updateConfigFromImport,
+} from '../db/operations';
+import { db } from '../db/database';
+import { loadAliasTargets, applyPersonAliases } from '../db/personIdentity';
+import { ProjectType, ImportMode } from '../types';
+import type { ImportResult, ImportProgress, TimesheetEntry, ColumnMap, ImportValidationReport } from '../types';
+import { refreshKPIHistory } from '../aggregation/kpiHistory';
+import { refreshAnomalyHistory } from '../aggregation/anomalyHistory';
+import { fromDbMonth } from '../utils/monthRange';
+import { createValidationReport, addToValidationReport } from './importValidation';
+
+export interface TimesheetImportOptions {
+  onProgress?: (progress: ImportProgress) => void;
+  signal?: AbortSignal;
+  mode?: ImportMode;            // Defaults to Reconcile
+  columnMap?: ColumnMap;        // File header → field; defaults to the built-in LP map
+  dryRun?: boolean;             // Validate and count only — nothing is written
+}
+
+/**
+ * Runs the full timesheet import pipeline. Designed to run inside the import
+ * worker (see importWorker.ts) but has no DOM dependencies, so it also runs inline.
+ *
+ * Stream chunks: Parse → Normalize → Alias → Deduplicate/Reconcile → Store
+ * Then once:     Flag probable deletions → Update derived entities → Log → Refresh history
+ *
+ * In Reconcile mode, rows that already exist are compared field by field and
+ * overwritten when LiquidPlanner values changed; in SkipExisting mode they are
+ * left alone. Cancelling mid-stream deletes the rows stored so far and restores
+ * any overwritten ones, leaving the database exactly as it was before the import.
+ *
+ * A dry run stops after probable-deletion detection: it writes nothing and
+ * returns the would-be counts plus a validation report for the preview step.
+ */
+export async function runTimesheetImport(
+  file: File,
+  options: TimesheetImportOptions = {}
+): Promise<ImportResult> {
+  const { onProgress, signal, mode = ImportMode.Reconcile, columnMap, dryRun = false } = options;
+
+  const result: ImportResult = {
+    success: false,
+    filename: file.name,
+    team: '',
+    dateRangeStart: '',
+    dateRangeEnd: '',
+    totalRowsParsed: 0,
+    newRowsInserted: 0,
+    duplicateRowsSkipped: 0,
+    rowsUpdated: 0,
+    probableDeletions: [],
+    newPeopleDiscovered: [],
+    newProjectsDiscovered: [],
+    totalHoursImported: 0,
+    errors: [],
+  };
+  if (dryRun) result.dryRun = true;
+
+  // Every row stored by this run carries the batch id so the import can be rolled back later
+  const batchId = crypto.randomUUID();
+
+  // Entries stored during this run — needed for discovery and for rollback on cancel or failure
+  const newEntries: TimesheetEntry[] = [];
+  const updatedEntries: TimesheetEntry[] = [];
+  const replacedEntries: TimesheetEntry[] = [];
+  let validEntryCount = 0;
+  // Once logged, the batch can be rolled back from Import History instead
+  let logged = false;
+
+  // Undo the rows this run stored or overwrote
+  const discardStoredRows = async () => {
+    if (dryRun) return;
+    if (newEntries.length > 0) {
+      await removeEntries(newEntries.map(e => e.timesheet_entry_id));
+    }
+    if (replacedEntries.length > 0) {
+      await replaceEntries(replacedEntries);
+    }
+  };
+
+  // Everything the export contains, for probable-deletion detection
+  const seenIds = new Set<number>();
+  const seenTeams = new Set<string>();
+  let minDate = '';
+  let maxDate = '';
+
+  const validation = createValidationReport();
+
+  try {
+    // Extract metadata from filename
+    const filenameMeta = parseFilename(file.name);
+    if (!filenameMeta) {
+      result.errors.push(
+        'Filename does not match expected pattern: Victaulic.timesheets.{TEAM}.{START} to {END}.csv'
+      );
+    } else {
+      result.team = filenameMeta.team;
+      result.dateRangeStart = filenameMeta.startDate;
+      result.dateRangeEnd = filenameMeta.endDate;
+    }
+
+    const range = filenameMeta ? { start: filenameMeta.startDate, end: filenameMeta.endDate } : undefined;
+
+    // LP accounts that were merged into another team member
+    const aliasTargets = await loadAliasTargets();
+
+    // Steps 1–4: Parse, normalize, deduplicate/reconcile and store, one chunk at a time
+    const { errors: parseErrors, aborted } = await parseCSVChunked(
+      file,
+      async (chunk) => {
+        result.errors.push(...chunk.errors);
+        result.totalRowsParsed += chunk.entries.length;
+
+        const { entries: normalized, errors: normalizeErrors } = normalizeEntries(chunk.entries);
+        result.errors.push(...normalizeErrors);
+        applyPersonAliases(normalized, aliasTargets);
+        validEntryCount += normalized.length;
+        addToValidationReport(validation, normalized, range);
+
+        for (const entry of normalized) {
+          // Rows exported without a Team value belong to the file's team
+          if (!entry.team && filenameMeta) entry.team = filenameMeta.team;
+          seenIds.add(entry.timesheet_entry_id);
+          seenTeams.add(entry.team);
+          if (!minDate || entry.date < minDate) minDate = entry.date;
+          if (!maxDate || entry.date > maxDate) maxDate = entry.date;
+        }
+
+        let chunkNew: TimesheetEntry[];
+        if (mode === ImportMode.Reconcile) {
+          const reconciled = await reconcileEntries(normalized);
+          chunkNew = reconciled.newEntries;
+          result.duplicateRowsSkipped += reconciled.unchangedCount;
+
+          if (reconciled.changedEntries.length > 0) {
+            const incoming = reconciled.changedEntries.map(c => c.incoming);
+            if (!dryRun) await replaceEntries(incoming);
+            updatedEntries.push(...incoming);
+            replacedEntries.push(...reconciled.changedEntries.map(c => c.previous));
+          }
+        } else {
+          const deduped = await deduplicateEntries(normalized);
+          chunkNew = deduped.newEntries;
+          result.duplicateRowsSkipped += deduped.duplicateCount;
+        }
+
+        if (chunkNew.length > 0) {
+          for (const entry of chunkNew) entry.import_batch_id = batchId;
+          if (!dryRun) await storeEntries(chunkNew);
+          newEntries.push(...chunkNew);
+        }
+
+        onProgress?.({
+          phase: 'parsing',
+          rowsProcessed: result.totalRowsParsed,
+          bytesProcessed: chunk.bytesProcessed,
+          totalBytes: file.size,
+        });
+      },
+      { signal, columnMap }
+    );
+    result.errors.push(...parseErrors);
+
+    if (aborted || signal?.aborted) {
+      await discardStoredRows();
+      result.cancelled = true;
+      result.errors.push('Import cancelled — no rows were kept');
+      return result;
+    }
+
+    result.newRowsInserted = newEntries.length;
+    result.rowsUpdated = updatedEntries.length;
+
+    if (result.totalRowsParsed === 0) {
+      result.errors.push('No data rows found in CSV');
+      return result;
+    }
+
+    if (validEntryCount === 0) {
+      result.errors.push('No valid entries after normalization');
+      return result;
+    }
+
+    // Step 5: Flag stored rows the export no longer contains (reported only, never deleted)
+    if (mode === ImportMode.Reconcile) {
+      const rangeStart = result.dateRangeStart || minDate;
+      const rangeEnd = result.dateRangeEnd || maxDate;
+      result.probableDeletions = await findProbableDeletions(rangeStart, rangeEnd, seenTeams, seenIds);
+    }
+
+    if (dryRun) {
+      await previewDiscovery(validation, [...newEntries, ...updatedEntries]);
+      result.totalHoursImported = newEntries.reduce((sum, e) => sum + e.hours, 0);
+      result.validation = validation;
+      result.success = true;
+      return result;
+    }
+
+    if (newEntries.length === 0 && updatedEntries.length === 0) {
+      result.success = true;
+      result.errors.push('All entries already exist in database (0 new entries)');
+      return result;
+    }
+
+    onProgress?.({
+      phase: 'finalizing',
+      rowsProcessed: result.totalRowsParsed,
+      bytesProcessed: file.size,
+      totalBytes: file.size,
+    });
+
+    // Corrected rows can point at an R# (or person) never seen before
+    const changedEntries = [...newEntries, ...updatedEntries];
+
+    // Step 6: Update team members (auto-discover new people)
+    const newPeople = await updateTeamMembers(changedEntries);
+    result.newPeopleDiscovered = newPeople.map(m => m.full_name);
+
+    // Step 7: Update projects (auto-discover new R# codes)
+    const newProjects = await updateProjects(changedEntries);
+    result.newProjectsDiscovered = newProjects;
+
+    // Step 8: Calculate total hours imported
+    result.totalHoursImported = newEntries.reduce((sum, e) => sum + e.hours, 0);
+
+    // Step 9: Update config if this is the first import
+    if (result.team) {
+      // Get the first NPD project for config
+      const projects = await db.projects.where('type').equals(ProjectType.NPD).toArray();
+      const firstNPDProject = projects.length > 0 ? projects[0].project_id : '';
+
+      // Extract month from the first entry
+      const month = changedEntries[0] ? fromDbMonth(changedEntries[0].month) : '';
+
+      await updateConfigFromImport(result.team, month, firstNPDProject);
+    }
+
+    // Step 10: Log the import
+    await logImport({
+      filename: file.name,
+      imported_at: new Date().toISOString(),
+      team: result.team,
+      date_range_start: result.dateRangeStart,
+      date_range_end: result.dateRangeEnd,
+      total_rows: result.totalRowsParsed,
+      new_rows: result.newRowsInserted,
+      duplicate_rows: result.duplicateRowsSkipped,
+      updated_rows: result.rowsUpdated,
+      people_count: result.newPeopleDiscovered.length,
+      total_hours: result.totalHoursImported,
+      batch_id: batchId,
+      discovered_person_ids: newPeople.map(m => m.person_id),
+      discovered_project_ids: newProjects,
+    });
+    logged = true;
+
+    // Step 11: Refresh KPI history snapshots
+    await refreshKPIHistory();
+
+    // Step 12: Refresh anomaly history for all imported months (a corrected row may have moved month)
+    const importedMonths = [...new Set(
+      [...changedEntries, ...replacedEntries].map(e => fromDbMonth(e.month))
+    )];
+    for (const m of importedMonths) {
+      await refreshAnomalyHistory(m);
+    }
+
+    result.success = true;
+  } catch (error) {
+    result.errors.push(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    result.success = false;
+
+    if (!logged && !dryRun) {
+      try {
+        await discardStoredRows();
+        result.errors.push('No rows were kept');
+      } catch (cleanupError) {
+        result.errors.push(
+          `Could not remove the rows already stored: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * People and R# codes the import would auto-discover (see updateTeamMembers /
+ * updateProjects), without writing them.
+ */
+async function previewDiscovery(
+  validation: ImportValidationReport,
+  entries: TimesheetEntry[]
+): Promise<void> {
+  const knownPeople = new Set(await db.teamMembers.toCollection().primaryKeys());
+  const knownProjects = new Set(await db.projects.toCollection().primaryKeys());
+
+  const people = new Map<number, string>();
+  const projects = new Set<string>();
+  for (const entry of entries) {
+    if (!knownPeople.has(entry.person_id)) people.set(entry.person_id, entry.full_name);
+    if (entry.r_number && !knownProjects.has(entry.r_number)) projects.add(entry.r_number);
+  }
+
+  validation.newPeople = [...people.values()].sort();
+  validation.newProjects = [...projects].sort();
+}
@@ -1,78 +1,11 @@
 import Papa from 'papaparse';
 import { ActivityType } from '../types';
-import type { TimesheetEntry } from '../types';
-
-// CSV column header to TypeScript field mapping
-const CSV_COLUMN_MAP: Record<string, keyof TimesheetEntry> = {
-  'date': 'date',
-  'status': 'status',
-  'person': 'person',
-  'full_name': 'full_name',
-  'client': 'client',
-  'project': 'project',
-  'activity': 'activity',
-  'hours': 'hours',
-  'billable': 'billable',
-  'timesheet_entry_note': 'timesheet_entry_note',
-  'task': 'task',
-  'task_reference': 'task_reference',
-  'folder': 'folder',
-  'package': 'package',
-  'person_id': 'person_id',
-  'client_id': 'client_id',
-  'project_id': 'project_id',
-  'activity_id': 'activity_id',
-  'task_id': 'task_id',
-  'folder_id': 'folder_id',
-  'package_id': 'package_id',
-  'timesheet_entry_id': 'timesheet_entry_id',
-  'person_reference': 'person_reference',
-  'client_reference': 'client_reference',
-  'project_reference': 'project_reference',
-  'is_done': 'is_done',
-  'done_date': 'done_date',
-  'team': 'team',
-  'month': 'month',
-  'week': 'week',
-  'tags': 'tags',
-  'inherited_tags': 'inherited_tags',
-  'max_effort': 'max_effort',
-  'R #': 'r_number',                       // NOTE: space before #
-  'Work Order Group': 'work_order_group',
-  'Project Stage/Type': 'project_stage_type',
-  'Drawing Number & Rev': 'drawing_number_rev',
-  'Work Order Status': 'work_order_status',
-  'Part Code': 'part_code',
-  'Test Day': 'test_day',
-  'Source/ Facility': 'source_facility',    // NOTE: space before /
-  'JN/ Order #': 'jn_order',               // NOTE: space before /
-  'Job Type ': 'job_type',                  // NOTE: trailing space
-  'Sourcing Category': 'sourcing_category',
-  'PO#': 'po_number',
-  'Supplier': 'supplier',
-  'Due Date': 'due_date',
-  'CPR#': 'cpr_number',
-  'Region': 'region',
-  'Major Market': 'major_market',
-  'Department Code': 'department_code',
-  'Approved Date': 'approved_date',
-  'Approval': 'approval',
-  'Cost': 'cost',
-  'Project Phase': 'project_phase',
-  'Order': 'order',
-  'Dependency Satisfied Date': 'dependency_satisfied_date',
-  'Market': 'market',
-  'Task Approved Date': 'task_approved_date',
-  'Rework': 'rework',
-  'Original Deadline': 'original_deadline',
-  'Test Type': 'test_type',
-  'Andon': 'andon',
-  'Number of Tests': 'number_of_tests',
-};
+import type { TimesheetEntry, ColumnMap } from '../types';
+import { CSV_COLUMN_MAP, resolveColumnMap } from './columnMapping';
 
 /**
  * Extract team name and date range from LP export filename.
- * Pattern: Victaulic.timesheets.{TEAM}.{START} to {END}.csv
+ * Pattern: Victaulic.timesheets.{TEAM}.{START} to {END}.csv (or .xlsx/.xls when re-saved in Excel)
  * Also accepts legacy underscore pattern for backward compatibility.
  */
 export function parseFilename(filename: string): {
@@ -82,7 +15,7 @@ export function parseFilename(filename: string): {
 } | null {
   // Primary pattern: Victaulic.timesheets.{TEAM}.{START} to {END}.csv
   const dotMatch = filename.match(
-    /^Victaulic\.timesheets\.(.+)\.(\d{4}-\d{2}-\d{2}) to (\d{4}-\d{2}-\d{2})\.csv$/
+    /^Victaulic\.timesheets\.(.+)\.(\d{4}-\d{2}-\d{2}) to (\d{4}-\d{2}-\d{2})\.(?:csv|xlsx?)$/i
   );
   if (dotMatch) {
     return { team: dotMatch[1], startDate: dotMatch[2], endDate: dotMatch[3] };
@@ -90,7 +23,7 @@ export function parseFilename(filename: string): {
 
   // Legacy pattern: Victaulic_timesheets_{TEAM}_{START}_to_{END}.csv
   const underscoreMatch = filename.match(
-    /^Victaulic_timesheets_(.+)_(\d{4}-\d{2}-\d{2})_to_(\d{4}-\d{2}-\d{2})\.csv$/
+    /^Victaulic_timesheets_(.+)_(\d{4}-\d{2}-\d{2})_to_(\d{4}-\d{2}-\d{2})\.(?:csv|xlsx?)$/i
   );
   if (underscoreMatch) {
     return { team: underscoreMatch[1], startDate: underscoreMatch[2], endDate: underscoreMatch[3] };
@@ -99,40 +32,92 @@ export function parseFilename(filename: string): {
   return null;
 }
 
+/** Default streaming chunk size — large enough to amortize Dexie round-trips. */
+const DEFAULT_CHUNK_BYTES = 512 * 1024;
+
 /**
- * Parse and validate a CSV file into TimesheetEntry objects.
+ * One parsed slice of a streamed CSV file.
  */
-export async function parseCSV(file: File): Promise<{
+export interface CSVChunk {
   entries: Partial<TimesheetEntry>[];
   errors: string[];
-}> {
-  return new Promise((resolve) => {
+  /** Approximate bytes consumed so far (Papa cursor, clamped to file size) */
+  bytesProcessed: number;
+}
+
+/**
+ * Stream a CSV file in chunks, mapping each row to a TimesheetEntry.
+ * Parsing pauses while `onChunk` runs so downstream async work (dedup, store)
+ * applies back-pressure. Aborting the signal stops after the current chunk.
+ *
+ * `columnMap` maps this file's headers to fields (see columnMapping.ts); without
+ * one, the built-in LiquidPlanner map is resolved against the file's headers.
+ */
+export async function parseCSVChunked(
+  file: File,
+  onChunk: (chunk: CSVChunk) => Promise<void>,
+  options: { chunkSize?: number; signal?: AbortSignal; columnMap?: ColumnMap } = {}
+): Promise<{ errors: string[]; aborted: boolean }> {
+  const { chunkSize = DEFAULT_CHUNK_BYTES, signal } = options;
+
+  return new Promise((resolve, reject) => {
     const errors: string[] = [];
-    const entries: Partial<TimesheetEntry>[] = [];
+    let columnMap = options.columnMap ?? null;
+    let rowIndex = 0;
+    let aborted = false;
+    let failure: unknown = null;
 
     Papa.parse<Record<string, string>>(file, {
       header: true,
       skipEmptyLines: true,
+      chunkSize,
       transformHeader: (header: string) => {
         // Remove BOM if present and trim
         return header.replace(/^\uFEFF/, '').trim();
       },
-      complete: (results) => {
-        for (let i = 0; i < results.data.length; i++) {
-          const row = results.data[i];
+      chunk: (results, parser) => {
+        const entries: Partial<TimesheetEntry>[] = [];
+        const chunkErrors: string[] = [];
+
+        if (!columnMap) {
+          columnMap = resolveColumnMap(results.meta.fields ?? [], CSV_COLUMN_MAP);
+        }
+
+        for (const row of results.data) {
+          rowIndex++;
           try {
-            const entry = mapRowToEntry(row);
-            entries.push(entry);
+            entries.push(mapRowToEntry(row, columnMap));
           } catch (error) {
-            errors.push(`Row ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+            chunkErrors.push(`Row ${rowIndex}: ${error instanceof Error ? error.message : String(error)}`);
           }
         }
 
-        resolve({ entries, errors });
+        parser.pause();
+        onChunk({
+          entries,
+          errors: chunkErrors,
+          bytesProcessed: Math.min(results.meta.cursor, file.size),
+        })
+          .then(() => {
+            if (signal?.aborted) {
+              aborted = true;
+              parser.abort();
+            } else {
+              parser.resume();
+            }
+          })
+          .catch(error => {
+            failure = error;
+            parser.abort();
+          });
+      },
+      complete: () => {
+        if (failure) reject(failure);
+        else resolve({ errors, aborted });
       },
       error: (error) => {
         errors.push(`Parse error: ${error.message}`);
-        resolve({ entries, errors });
+        resolve({ errors, aborted });
       },
     });
   });
@@ -141,10 +126,10 @@ export async function parseCSV(file: File): Promise<{
 /**
  * Map a CSV row to a TimesheetEntry object with proper type coercion.
  */
-function mapRowToEntry(row: Record<string, string>): Partial<TimesheetEntry> {
+function mapRowToEntry(row: Record<string, string>, columnMap: ColumnMap): Partial<TimesheetEntry> {
   const entry: Partial<TimesheetEntry> = {};
 
-  for (const [csvColumn, tsField] of Object.entries(CSV_COLUMN_MAP)) {
+  for (const [csvColumn, tsField] of Object.entries(columnMap)) {
     const value = row[csvColumn];
 
     // Handle missing/empty values
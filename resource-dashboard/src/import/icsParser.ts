@@ -0,0 +1,70 @@
+import { addDays, eachDayOfInterval, format, isValid, parse } from 'date-fns';
+import type { Holiday } from '../types';
+
+/**
+ * Parse company holidays out of an iCalendar (.ics) file.
+ *
+ * Each VEVENT becomes one holiday per day it covers. All-day events
+ * (`DTSTART;VALUE=DATE:20261225`) use DTEND as an exclusive end, per RFC 5545;
+ * timed events count on their start date. Events without a date are skipped.
+ */
+export function parseICSHolidays(text: string): Holiday[] {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const holidays = new Map<string, Holiday>();
+  let event: Record<string, string> | null = null;
+
+  for (const raw of lines) {
+    const line = raw.trimEnd();
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (event) {
+        for (const h of eventToHolidays(event)) {
+          if (!holidays.has(h.date)) holidays.set(h.date, h);
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    // Property name without parameters: "DTSTART;VALUE=DATE" → "DTSTART"
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    event[name] = line.slice(colon + 1);
+  }
+
+  return [...holidays.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function eventToHolidays(event: Record<string, string>): Holiday[] {
+  const start = parseICSDate(event.DTSTART);
+  if (!start) return [];
+
+  const name = unescapeText(event.SUMMARY ?? '').trim() || 'Holiday';
+  const isAllDay = /^\d{8}$/.test(event.DTSTART.trim());
+  const end = isAllDay ? parseICSDate(event.DTEND) : null;
+  const lastDay = end && end > start ? addDays(end, -1) : start;
+
+  return eachDayOfInterval({ start, end: lastDay }).map(d => ({
+    date: format(d, 'yyyy-MM-dd'),
+    name,
+  }));
+}
+
+/** "20261225" or "20261225T090000Z" → local date at midnight */
+function parseICSDate(value: string | undefined): Date | null {
+  const match = value?.trim().match(/^(\d{8})/);
+  if (!match) return null;
+  const date = parse(match[1], 'yyyyMMdd', new Date());
+  return isValid(date) ? date : null;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? ' ' : c));
+}
@@ -1,142 +1,257 @@
-import { parseCSV, parseFilename } from './csvParser';
-import { normalizeEntries } from './normalizer';
-import {
-  deduplicateEntries,
-  updateTeamMembers,
-  updateProjects,
-  storeEntries,
-  logImport,
-  updateConfigFromImport,
-} from '../db/operations';
 import { db } from '../db/database';
-import { ProjectType } from '../types';
-import type { ImportResult } from '../types';
+import { deleteImportBatch } from '../db/operations';
+import type { ImportResult, ImportProgress, ImportRollbackResult, ImportMode, ColumnMap } from '../types';
 import { refreshKPIHistory } from '../aggregation/kpiHistory';
 import { refreshAnomalyHistory } from '../aggregation/anomalyHistory';
+import { ALL_TEAMS, getActiveTeam, listTeams } from '../aggregation/teamScope';
+import { toDbMonth } from '../utils/monthRange';
 import {
   detectCSVType,
   parseFeedbackCSV,
   type FeedbackImportResult,
 } from './feedbackParser';
-import { fromDbMonth } from '../utils/monthRange';
+import { readCSVHeaders, selectColumnMapping, type ColumnMappingSelection } from './columnMapping';
+import type { TimesheetImportOptions } from './csvImportPipeline';
+import type { WorkBook } from 'xlsx';
+import type { WorkbookSheet } from './xlsxReader';
+import type { ImportWorkerRequest, ImportWorkerResponse } from './importWorker';
 
 /**
- * Orchestrates the full import process:
- * Parse → Normalize → Deduplicate → Store → Update derived entities → Log
+ * Import a LiquidPlanner timesheet CSV.
+ * The parse → normalize → dedup → store pipeline runs in a dedicated worker so
+ * large exports don't lock the UI; progress streams back via `onProgress`.
+ * Falls back to running inline where workers are unavailable.
  */
-export async function importCSVFile(file: File): Promise<ImportResult> {
-  const result: ImportResult = {
+export async function importCSVFile(
+  file: File,
+  options: TimesheetImportOptions = {}
+): Promise<ImportResult> {
+  if (typeof Worker === 'undefined') {
+    const { runTimesheetImport } = await import('./csvImportPipeline');
+    return runTimesheetImport(file, options);
+  }
+
+  const { onProgress, signal, mode, columnMap, dryRun } = options;
+  const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<ImportResult>((resolve) => {
+    const onAbort = () => {
+      worker.postMessage({ type: 'cancel' } satisfies ImportWorkerRequest);
+    };
+
+    const finish = (result: ImportResult) => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve(result);
+    };
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish(message.result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish(failedImportResult(file.name, `Import failed: ${event.message || 'import worker crashed'}`));
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    worker.postMessage({ type: 'import', file, mode, columnMap, dryRun } satisfies ImportWorkerRequest);
+    if (signal?.aborted) onAbort();
+  });
+}
+
+/** An ImportResult for a file that never reached the pipeline. */
+function failedImportResult(filename: string, error: string): ImportResult {
+  return {
     success: false,
-    filename: file.name,
+    filename,
     team: '',
     dateRangeStart: '',
     dateRangeEnd: '',
     totalRowsParsed: 0,
     newRowsInserted: 0,
     duplicateRowsSkipped: 0,
+    rowsUpdated: 0,
+    probableDeletions: [],
     newPeopleDiscovered: [],
     newProjectsDiscovered: [],
     totalHoursImported: 0,
-    errors: [],
+    errors: [error],
   };
+}
 
-  try {
-    // Extract metadata from filename
-    const filenameMeta = parseFilename(file.name);
-    if (!filenameMeta) {
-      result.errors.push(
-        'Filename does not match expected pattern: Victaulic.timesheets.{TEAM}.{START} to {END}.csv'
-      );
-    } else {
-      result.team = filenameMeta.team;
-      result.dateRangeStart = filenameMeta.startDate;
-      result.dateRangeEnd = filenameMeta.endDate;
-    }
+/**
+ * Asks the user to map columns when no profile covers the required fields.
+ * Resolve with null to skip the file.
+ */
+export type ColumnMappingResolver = (
+  file: File,
+  headers: string[],
+  suggestion: ColumnMappingSelection
+) => Promise<{ columnMap: ColumnMap; profileName: string } | null>;
 
-    // Step 1: Parse CSV
-    const { entries: rawEntries, errors: parseErrors } = await parseCSV(file);
-    result.errors.push(...parseErrors);
-    result.totalRowsParsed = rawEntries.length;
+/**
+ * Asks the user which worksheet of a multi-sheet workbook holds the timesheet.
+ * Resolve with null to skip the file.
+ */
+export type SheetResolver = (file: File, sheets: WorkbookSheet[]) => Promise<string | null>;
 
-    if (rawEntries.length === 0) {
-      result.errors.push('No data rows found in CSV');
-      return result;
-    }
+/** True for .xlsx / .xls workbooks. */
+export function isExcelFile(file: File): boolean {
+  return /\.xlsx?$/i.test(file.name);
+}
 
-    // Step 2: Normalize entries
-    const { entries: normalizedEntries, errors: normalizeErrors } =
-      normalizeEntries(rawEntries);
-    result.errors.push(...normalizeErrors);
+/** A workbook open for sheet listing and conversion, in a worker when available. */
+interface WorkbookReader {
+  listSheets(): Promise<WorkbookSheet[]>;
+  convertSheet(sheetName: string): Promise<string>;
+  close(): void;
+}
 
-    if (normalizedEntries.length === 0) {
-      result.errors.push('No valid entries after normalization');
-      return result;
-    }
+/**
+ * Open a workbook in an import worker, started on first use, which keeps it
+ * parsed between the sheet listing and the conversion. Falls back to parsing
+ * inline where workers are unavailable.
+ */
+function openWorkbook(file: File): WorkbookReader {
+  if (typeof Worker === 'undefined') {
+    let workbook: Promise<[typeof import('./xlsxReader'), WorkBook]> | null = null;
+    const load = () => (workbook ??= Promise.all([import('./xlsxReader'), file.arrayBuffer()])
+      .then(([reader, data]) => [reader, reader.parseWorkbook(data)]));
+    return {
+      listSheets: async () => {
+        const [reader, book] = await load();
+        return reader.listWorkbookSheets(book);
+      },
+      convertSheet: async (sheetName) => {
+        const [reader, book] = await load();
+        return reader.sheetToCSV(book, sheetName);
+      },
+      close: () => {},
+    };
+  }
 
-    // Step 3: Deduplicate against existing database
-    const { newEntries, duplicateCount } = await deduplicateEntries(normalizedEntries);
-    result.duplicateRowsSkipped = duplicateCount;
-    result.newRowsInserted = newEntries.length;
+  let worker: Worker | null = null;
+  const send = (request: ImportWorkerRequest) => new Promise<ImportWorkerResponse>((resolve, reject) => {
+    worker ??= new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      if (event.data.type === 'error') reject(new Error(event.data.error));
+      else resolve(event.data);
+    };
+    worker.onerror = (event) => reject(new Error(event.message || 'import worker crashed'));
+    worker.postMessage(request);
+  });
+
+  return {
+    listSheets: async () => {
+      const response = await send({ type: 'listSheets', file });
+      return response.type === 'sheets' ? response.sheets : [];
+    },
+    convertSheet: async (sheetName) => {
+      const response = await send({ type: 'convertSheet', file, sheetName });
+      return response.type === 'csv' ? response.csv : '';
+    },
+    close: () => worker?.terminate(),
+  };
+}
 
-    if (newEntries.length === 0) {
-      result.success = true;
-      result.errors.push('All entries already exist in database (0 new entries)');
-      return result;
-    }
+// Sheet listings and CSV conversions per sheet, keyed by the source file.
+// Preview and confirm then hand the pipeline the very same File object, so
+// anything keyed by File (e.g. interactively chosen column mappings) still matches.
+const sheetCache = new WeakMap<File, WorkbookSheet[]>();
+const convertedCache = new WeakMap<File, Map<string, File>>();
 
-    // Step 4: Store new entries
-    await storeEntries(newEntries);
+/**
+ * Convert an Excel workbook to an in-memory CSV file from one of its sheets.
+ * A single non-empty sheet is used as-is; otherwise the user picks, falling
+ * back to the first sheet that looks like a timesheet when nobody can be asked.
+ * The workbook is parsed in an import worker; the CSV File keeps the
+ * workbook's name.
+ */
+async function workbookToCSV(file: File, resolveSheet?: SheetResolver): Promise<File | null> {
+  const reader = openWorkbook(file);
+  try {
+    let sheets = sheetCache.get(file);
+    if (!sheets) {
+      sheets = await reader.listSheets();
+      sheetCache.set(file, sheets);
+    }
+    const nonEmpty = sheets.filter(s => s.rowCount > 0);
 
-    // Step 5: Update team members (auto-discover new people)
-    const newPeople = await updateTeamMembers(newEntries);
-    result.newPeopleDiscovered = newPeople;
+    let sheetName: string | null;
+    if (nonEmpty.length <= 1) {
+      sheetName = (nonEmpty[0] ?? sheets[0])?.name ?? null;
+    } else if (resolveSheet) {
+      sheetName = await resolveSheet(file, sheets);
+    } else {
+      sheetName = (nonEmpty.find(s => s.looksLikeTimesheet) ?? nonEmpty[0]).name;
+    }
+    if (!sheetName) return null;
 
-    // Step 6: Update projects (auto-discover new R# codes)
-    const newProjects = await updateProjects(newEntries);
-    result.newProjectsDiscovered = newProjects;
+    let converted = convertedCache.get(file);
+    if (!converted) {
+      converted = new Map();
+      convertedCache.set(file, converted);
+    }
+    let csvFile = converted.get(sheetName);
+    if (!csvFile) {
+      const csv = await reader.convertSheet(sheetName);
+      csvFile = new File([csv], file.name, { type: 'text/csv', lastModified: file.lastModified });
+      converted.set(sheetName, csvFile);
+    }
+    return csvFile;
+  } finally {
+    reader.close();
+  }
+}
 
-    // Step 7: Calculate total hours imported
-    result.totalHoursImported = newEntries.reduce((sum, e) => sum + e.hours, 0);
+/**
+ * Pick a column mapping for a timesheet file from its header row: the best
+ * matching saved profile, or — when required columns are missing — whatever
+ * the user maps interactively.
+ */
+async function chooseColumnMapping(
+  file: File,
+  resolveMapping?: ColumnMappingResolver
+): Promise<{ columnMap: ColumnMap; profileName: string } | null> {
+  const headers = await readCSVHeaders(file);
+  const profiles = await db.columnMappingProfiles.toArray();
+  const selection = selectColumnMapping(headers, profiles);
+
+  if (selection.missingRequired.length === 0 || !resolveMapping) {
+    return { columnMap: selection.columnMap, profileName: selection.profileName };
+  }
+  return resolveMapping(file, headers, selection);
+}
 
-    // Step 8: Update config if this is the first import
-    if (result.team) {
-      // Get the first NPD project for config
-      const projects = await db.projects.where('type').equals(ProjectType.NPD).toArray();
-      const firstNPDProject = projects.length > 0 ? projects[0].project_id : '';
+/**
+ * Roll back a logged timesheet import: removes the rows it stored and anything
+ * only it discovered, then refreshes KPI history and the anomaly history of
+ * every month the batch touched.
+ */
+export async function rollbackImport(logId: number): Promise<ImportRollbackResult> {
+  const result = await deleteImportBatch(logId);
 
-      // Extract month from the first entry
-      const month = newEntries[0] ? fromDbMonth(newEntries[0].month) : '';
+  // Fall back to the all-teams view if the active team has no data left
+  const activeTeam = await getActiveTeam();
+  if (activeTeam && !(await listTeams()).includes(activeTeam)) {
+    await db.config.update(1, { selected_team: ALL_TEAMS });
+  }
 
-      await updateConfigFromImport(result.team, month, firstNPDProject);
-    }
+  await refreshKPIHistory();
 
-    // Step 9: Log the import
-    await logImport({
-      filename: file.name,
-      imported_at: new Date().toISOString(),
-      team: result.team,
-      date_range_start: result.dateRangeStart,
-      date_range_end: result.dateRangeEnd,
-      total_rows: result.totalRowsParsed,
-      new_rows: result.newRowsInserted,
-      duplicate_rows: result.duplicateRowsSkipped,
-      people_count: result.newPeopleDiscovered.length,
-      total_hours: result.totalHoursImported,
-    });
-
-    // Step 10: Refresh KPI history snapshots
-    await refreshKPIHistory();
-
-    // Step 11: Refresh anomaly history for all imported months
-    const importedMonths = [...new Set(newEntries.map(e => fromDbMonth(e.month)))];
-    for (const m of importedMonths) {
-      await refreshAnomalyHistory(m);
+  for (const month of result.affectedMonths) {
+    const remaining = await db.timesheets.where('month').equals(toDbMonth(month)).count();
+    if (remaining > 0) {
+      await refreshAnomalyHistory(month);
+    } else {
+      // No data left for the month — drop its snapshot rather than store an empty one
+      await db.anomalyHistory.where('month').equals(month).delete();
     }
-
-    result.success = true;
-  } catch (error) {
-    result.errors.push(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
-    result.success = false;
   }
 
   return result;
@@ -221,42 +336,87 @@ export type AnyImportResult = ImportResult | FeedbackImportResult;
 
 /**
  * Detect CSV type by reading the first line of headers.
+ * Only the head of the file is read — full-year exports are tens of MB.
  */
 async function detectFileType(file: File): Promise<'timesheet' | 'feedback' | 'unknown'> {
-  const text = await file.text();
+  const text = await file.slice(0, 64 * 1024).text();
   const firstLine = text.split('\n')[0] ?? '';
   const headers = firstLine.split(',').map(h => h.replace(/"/g, '').trim());
   return detectCSVType(headers);
 }
 
 /**
- * Import multiple CSV files sequentially. Auto-detects timesheet vs feedback.
+ * Import multiple CSV or Excel files sequentially. Auto-detects timesheet vs feedback.
+ * Excel workbooks are converted to CSV from the chosen sheet first, so they
+ * produce identical rows and share dedup, logging and history refresh.
+ * Aborting `options.signal` cancels the file in progress and skips the rest.
+ * With `options.dryRun`, timesheets are only validated and feedback files are
+ * skipped (they have no preview).
  */
 export async function importMultipleCSVFiles(
   files: File[],
-  onProgress?: (current: number, total: number, filename: string) => void
+  onProgress?: (current: number, total: number, filename: string) => void,
+  options: {
+    onRowProgress?: (progress: ImportProgress) => void;
+    signal?: AbortSignal;
+    mode?: ImportMode;
+    resolveColumnMapping?: ColumnMappingResolver;
+    resolveSheet?: SheetResolver;
+    dryRun?: boolean;
+  } = {}
 ): Promise<AnyImportResult[]> {
   const results: AnyImportResult[] = [];
+  const timesheetOptions: TimesheetImportOptions = {
+    onProgress: options.onRowProgress,
+    signal: options.signal,
+    mode: options.mode,
+    dryRun: options.dryRun,
+  };
 
   for (let i = 0; i < files.length; i++) {
-    const file = files[i];
+    if (options.signal?.aborted) break;
+
+    let file = files[i];
 
     if (onProgress) {
       onProgress(i + 1, files.length, file.name);
     }
 
+    if (isExcelFile(file)) {
+      try {
+        const csvFile = await workbookToCSV(file, options.resolveSheet);
+        if (!csvFile) {
+          results.push(failedImportResult(file.name, 'Import skipped — no worksheet selected'));
+          continue;
+        }
+        file = csvFile;
+      } catch (error) {
+        results.push(failedImportResult(
+          file.name,
+          `Could not read workbook: ${error instanceof Error ? error.message : String(error)}`
+        ));
+        continue;
+      }
+    }
+
     const fileType = await detectFileType(file);
 
     if (fileType === 'feedback') {
+      if (options.dryRun) continue;
       const result = await importFeedbackFile(file);
       results.push(result);
-    } else if (fileType === 'timesheet') {
-      const result = await importCSVFile(file);
-      results.push(result);
     } else {
-      // Unknown type — try as timesheet (original behavior), report error if it fails
-      const result = await importCSVFile(file);
-      if (!result.success && result.errors.length > 0) {
+      // Timesheet, or unknown type — try as timesheet (original behavior); a
+      // sister team's export with renamed columns lands here too
+      const mapping = await chooseColumnMapping(file, options.resolveColumnMapping);
+      if (!mapping) {
+        results.push(failedImportResult(file.name, 'Import skipped — required columns were not mapped'));
+        continue;
+      }
+
+      const result = await importCSVFile(file, { ...timesheetOptions, columnMap: mapping.columnMap });
+      result.columnProfile = mapping.profileName;
+      if (fileType === 'unknown' && !result.success && !result.cancelled && result.errors.length > 0) {
         result.errors.unshift('Could not detect CSV type. Expected LiquidPlanner timesheet or Microsoft Forms feedback export.');
       }
       results.push(result);
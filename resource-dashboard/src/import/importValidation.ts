@@ -0,0 +1,72 @@
+import { ActivityType } from '../types';
+import type { TimesheetEntry, ImportValidationReport, ValidationIssue } from '../types';
+
+/** Rows kept per issue for display — counts are always exact. */
+const MAX_ISSUE_SAMPLES = 20;
+
+const KNOWN_ACTIVITIES = new Set<string>(Object.values(ActivityType));
+
+export function createValidationReport(): ImportValidationReport {
+  return {
+    unknownActivities: [],
+    unknownRNumber: { count: 0, samples: [] },
+    nonPositiveHours: { count: 0, samples: [] },
+    outOfRangeDates: { count: 0, samples: [] },
+    newPeople: [],
+    newProjects: [],
+  };
+}
+
+/**
+ * Fold one chunk of normalized entries into the report.
+ * `range` is the filename's date range (YYYY-MM-DD); omit it to skip the range check.
+ */
+export function addToValidationReport(
+  report: ImportValidationReport,
+  entries: TimesheetEntry[],
+  range?: { start: string; end: string }
+): void {
+  const activityCounts = new Map(report.unknownActivities.map(a => [a.value, a.count]));
+
+  for (const entry of entries) {
+    if (!KNOWN_ACTIVITIES.has(entry.activity)) {
+      const value = entry.activity || '(blank)';
+      activityCounts.set(value, (activityCounts.get(value) ?? 0) + 1);
+    }
+    if (entry.r_number === 'UNKNOWN') {
+      addIssue(report.unknownRNumber, entry);
+    }
+    if (entry.hours <= 0) {
+      addIssue(report.nonPositiveHours, entry);
+    }
+    if (range && (entry.date < range.start || entry.date > range.end)) {
+      addIssue(report.outOfRangeDates, entry);
+    }
+  }
+
+  report.unknownActivities = [...activityCounts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** True when the report found anything the user should look at before importing. */
+export function hasValidationIssues(report: ImportValidationReport): boolean {
+  return report.unknownActivities.length > 0
+    || report.unknownRNumber.count > 0
+    || report.nonPositiveHours.count > 0
+    || report.outOfRangeDates.count > 0;
+}
+
+function addIssue(issue: ValidationIssue, entry: TimesheetEntry): void {
+  issue.count++;
+  if (issue.samples.length < MAX_ISSUE_SAMPLES) {
+    issue.samples.push({
+      timesheet_entry_id: entry.timesheet_entry_id,
+      date: entry.date,
+      full_name: entry.full_name,
+      r_number: entry.r_number,
+      activity: entry.activity,
+      hours: entry.hours,
+    });
+  }
+}
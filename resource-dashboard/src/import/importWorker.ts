@@ -0,0 +1,76 @@
+/**
+ * Import worker — runs the timesheet import pipeline off the main thread.
+ * Dexie works inside workers, and liveQuery observers in the page pick up
+ * the writes automatically. Excel workbooks are parsed here too: the page
+ * opens a workbook, lists its sheets, then converts the chosen one to CSV.
+ */
+import type { WorkBook } from 'xlsx';
+import { runTimesheetImport } from './csvImportPipeline';
+import { db } from '../db/database';
+import { setAuditEditor } from '../db/auditLog';
+import type { ImportResult, ImportProgress, ImportMode, ColumnMap } from '../types';
+import type { WorkbookSheet } from './xlsxReader';
+
+/** Messages the page sends to the worker. */
+export type ImportWorkerRequest =
+  | { type: 'import'; file: File; mode?: ImportMode; columnMap?: ColumnMap; dryRun?: boolean }
+  | { type: 'listSheets'; file: File }
+  | { type: 'convertSheet'; file: File; sheetName: string }
+  | { type: 'cancel' };
+
+/** Messages the worker sends back to the page. */
+export type ImportWorkerResponse =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'result'; result: ImportResult }
+  | { type: 'sheets'; sheets: WorkbookSheet[] }
+  | { type: 'csv'; csv: string }
+  | { type: 'error'; error: string };
+
+let controller: AbortController | null = null;
+/** Workbook parsed by the last listSheets request, reused by convertSheet */
+let workbook: WorkBook | null = null;
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  if (request.type === 'listSheets' || request.type === 'convertSheet') {
+    try {
+      // SheetJS is loaded on demand so CSV imports never download it
+      const { parseWorkbook, listWorkbookSheets, sheetToCSV } = await import('./xlsxReader');
+      if (request.type === 'listSheets') {
+        workbook = parseWorkbook(await request.file.arrayBuffer());
+        self.postMessage({ type: 'sheets', sheets: listWorkbookSheets(workbook) } satisfies ImportWorkerResponse);
+      } else {
+        workbook ??= parseWorkbook(await request.file.arrayBuffer());
+        self.postMessage({ type: 'csv', csv: sheetToCSV(workbook, request.sheetName) } satisfies ImportWorkerResponse);
+      }
+    } catch (error) {
+      self.postMessage({
+        type: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      } satisfies ImportWorkerResponse);
+    }
+    return;
+  }
+
+  // The page never writes config in this context, so pick up the editor per import
+  setAuditEditor((await db.config.get(1))?.editor_name);
+  controller = new AbortController();
+  const result = await runTimesheetImport(request.file, {
+    mode: request.mode,
+    columnMap: request.columnMap,
+    dryRun: request.dryRun,
+    signal: controller.signal,
+    onProgress: (progress) => {
+      self.postMessage({ type: 'progress', progress } satisfies ImportWorkerResponse);
+    },
+  });
+  controller = null;
+
+  self.postMessage({ type: 'result', result } satisfies ImportWorkerResponse);
+};
@@ -71,7 +71,7 @@ function normalizeEntry(raw: Partial<TimesheetEntry>): TimesheetEntry {
     is_done: raw.is_done || false,
     done_date: raw.done_date || '',
     team: raw.team || '',
-    month: raw.month || '',
+    month: raw.month || raw.date.slice(0, 7).replace('-', '/'), // YYYY/MM; derived when the export has no month column
     week: raw.week || 0,
     tags: raw.tags || '',
     inherited_tags: raw.inherited_tags || '',
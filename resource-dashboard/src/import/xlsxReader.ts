@@ -0,0 +1,82 @@
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+import { format } from 'date-fns';
+import { detectCSVType } from './feedbackParser';
+import { normalizeHeader } from './columnMapping';
+
+/**
+ * One worksheet in an Excel workbook, summarised for sheet selection.
+ */
+export interface WorkbookSheet {
+  name: string;
+  rowCount: number;             // Data rows (excluding the header)
+  looksLikeTimesheet: boolean;  // Header row matches the LP timesheet signature
+}
+
+export function parseWorkbook(data: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(data, { type: 'array', cellDates: true });
+}
+
+/**
+ * Cell text for a column, as it would appear in LP's CSV export. Excel types
+ * anything date-like as a date on re-save — including the "2026/01" month
+ * column — so date cells are only rewritten as dates in date columns; the
+ * month column gets its YYYY/MM back and everything else keeps Excel's
+ * formatted text.
+ */
+function cellText(cell: XLSX.CellObject | undefined, header: string): string {
+  if (!cell || cell.v == null) return '';
+  if (cell.v instanceof Date) {
+    if (header.endsWith('date')) return format(cell.v, 'yyyy-MM-dd');
+    if (header === 'month') return format(cell.v, 'yyyy/MM');
+    return cell.w ?? format(cell.v, 'yyyy-MM-dd');
+  }
+  // Raw numbers: General-formatted ids would otherwise come out as 1.23E+11
+  if (cell.t === 'n') return String(cell.v);
+  return cell.w ?? String(cell.v);
+}
+
+function sheetRows(sheet: XLSX.WorkSheet): string[][] {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const rows: string[][] = [];
+  let headers: string[] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })], headers[c - range.s.c] ?? ''));
+    }
+    if (row.every(cell => cell === '')) continue;
+    if (rows.length === 0) headers = row.map(normalizeHeader);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * List the worksheets in a workbook with enough detail to pick the timesheet.
+ */
+export function listWorkbookSheets(workbook: XLSX.WorkBook): WorkbookSheet[] {
+  return workbook.SheetNames.map(name => {
+    const rows = sheetRows(workbook.Sheets[name]);
+    const headers = (rows[0] ?? []).map(cell => cell.trim());
+    return {
+      name,
+      rowCount: Math.max(rows.length - 1, 0),
+      looksLikeTimesheet: detectCSVType(headers) === 'timesheet',
+    };
+  });
+}
+
+/**
+ * Convert one worksheet to CSV text in LP's export format, so it runs through
+ * the exact same parse → normalize → dedup → log path as a CSV export.
+ */
+export function sheetToCSV(workbook: XLSX.WorkBook, sheetName: string): string {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+  return Papa.unparse(sheetRows(sheet));
+}
@@ -12,6 +12,11 @@ import { AlertRulesConfig } from '../config/AlertRulesConfig';
 import { NarrativeConfigPanel } from '../config/NarrativeConfig';
 import { KPICardsConfig } from '../config/KPICardsConfig';
 import { ConfigTransferTab } from '../config/ConfigTransferTab';
+import { ColumnMappingsConfig } from '../config/ColumnMappingsConfig';
+import { ClassificationRulesConfig } from '../config/ClassificationRulesConfig';
+import { ChangeHistoryConfig } from '../config/ChangeHistoryConfig';
+import { PlanBaselinesConfig } from '../config/PlanBaselinesConfig';
+import { CapacityCalendarConfig } from '../config/CapacityCalendarConfig';
 
 type ConfigTab =
   | 'global'
@@ -23,7 +28,12 @@ type ConfigTab =
   | 'alert-rules'
   | 'narrative-summary'
   | 'kpi-cards'
-  | 'export-import';
+  | 'export-import'
+  | 'column-mappings'
+  | 'classification-rules'
+  | 'change-history'
+  | 'plan-baselines'
+  | 'capacity-calendar';
 
 interface TabDef {
   id: ConfigTab;
@@ -50,6 +60,7 @@ const CATEGORIES: CategoryDef[] = [
       { id: 'kpi-cards', label: 'KPI Cards', description: 'Choose which KPI cards appear on the dashboard, apply presets, and reorder' },
       { id: 'narrative-summary', label: 'Narrative Summary', description: 'Configure the monthly narrative observations, tone, and framing' },
       { id: 'alert-rules', label: 'Alert Rules', description: 'Configure anomaly detection thresholds and severity levels' },
+      { id: 'change-history', label: 'Change History', description: 'Who changed projects, milestones, team members, skills and allocations — and revert individual changes' },
     ],
   },
   {
@@ -60,6 +71,7 @@ const CATEGORIES: CategoryDef[] = [
     tabs: [
       { id: 'projects', label: 'Projects', description: 'Manage project registry and classifications' },
       { id: 'milestones', label: 'Milestones', description: 'Configure gate review dates for NPD projects' },
+      { id: 'classification-rules', label: 'Classification Rules', description: 'Ordered rules that set project type, work class and name from R#, tags, folder or client' },
     ],
   },
   {
@@ -71,6 +83,8 @@ const CATEGORIES: CategoryDef[] = [
       { id: 'team', label: 'Team Members', description: 'Manage team roster and role assignments' },
       { id: 'skills', label: 'Skills Matrix', description: 'Rate engineer skills on a 0-5 scale' },
       { id: 'allocations', label: 'Resource Allocations', description: 'Assign engineers to projects with allocation percentages' },
+      { id: 'capacity-calendar', label: 'Capacity Calendar', description: 'Company holidays, planned leave and working hours per day that set each person\'s monthly capacity' },
+      { id: 'plan-baselines', label: 'Plan Baselines', description: 'Freeze the current plan under a name so actuals and later re-plans can be compared against it' },
     ],
   },
   {
@@ -80,6 +94,7 @@ const CATEGORIES: CategoryDef[] = [
     defaultTab: 'export-import' as ConfigTab,
     tabs: [
       { id: 'export-import' as ConfigTab, label: 'Export / Import', description: 'Export configuration as a shareable file or import from another dashboard' },
+      { id: 'column-mappings', label: 'CSV Column Mappings', description: 'Map timesheet CSV headers from other LiquidPlanner workspaces to dashboard fields' },
     ],
   },
 ];
@@ -206,6 +221,11 @@ export function ConfigPage() {
           {activeTab === 'narrative-summary' && <NarrativeConfigPanel />}
           {activeTab === 'kpi-cards' && <KPICardsConfig />}
           {activeTab === 'export-import' && <ConfigTransferTab />}
+          {activeTab === 'column-mappings' && <ColumnMappingsConfig />}
+          {activeTab === 'classification-rules' && <ClassificationRulesConfig />}
+          {activeTab === 'change-history' && <ChangeHistoryConfig />}
+          {activeTab === 'plan-baselines' && <PlanBaselinesConfig />}
+          {activeTab === 'capacity-calendar' && <CapacityCalendarConfig />}
         </div>
       </div>
     </div>
@@ -22,9 +22,14 @@ import { SkillHeatmapPanel } from '../dashboard/panels/SkillHeatmapPanel';
 import { WorkMixDonutPanel } from '../dashboard/panels/WorkMixDonutPanel';
 import { AllocationCompliancePanel } from '../dashboard/panels/AllocationCompliancePanel';
 import { FirefightingTrendPanel } from '../dashboard/panels/FirefightingTrendPanel';
+import { KPITrendPanel } from '../dashboard/panels/KPITrendPanel';
+import { EngineerKPIHistoryPanel } from '../dashboard/panels/EngineerKPIHistoryPanel';
 import { PersonRole } from '../types';
+import { loadTeamMembers } from '../aggregation/teamScope';
 
 const ENGINEER_CHART_PANELS = [
+  'kpi-trends-engineer',
+  'kpi-history-engineer',
   'hours-by-activity',
   'work-mix',
   'utilization-trend',
@@ -61,7 +66,7 @@ function EngineerViewProvider({
 
 /** Team roster shown when no engineer is selected. */
 function TeamRoster({ onSelect }: { onSelect: (name: string) => void }) {
-  const members = useLiveQuery(() => db.teamMembers.toArray());
+  const members = useLiveQuery(() => loadTeamMembers());
 
   if (!members) {
     return <ChartLoader height="h-32" />;
@@ -174,6 +179,19 @@ function EngineerPageContent({
           {/* Row 1: Header card (full width) */}
           <EmployeeHeaderCard />
 
+          {/* KPI cards with sparklines, then a 12-month trend of one KPI (full width) */}
+          <PanelWrapper id="kpi-trends-engineer" title="KPI Trends">
+            <PanelErrorBoundary panelId="kpi-trends-engineer">
+              <KPITrendPanel />
+            </PanelErrorBoundary>
+          </PanelWrapper>
+
+          <PanelWrapper id="kpi-history-engineer" title="KPI History (12 Months)">
+            <PanelErrorBoundary panelId="kpi-history-engineer">
+              <EngineerKPIHistoryPanel />
+            </PanelErrorBoundary>
+          </PanelWrapper>
+
           {/* Row 2: 2-col grid — activity donut + work mix donut */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
             <PanelWrapper id="hours-by-activity" title="Hours by Activity">
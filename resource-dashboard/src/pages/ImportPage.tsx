@@ -1,5 +1,6 @@
 import { ImportPanel } from '../components/ImportPanel';
 import { ImportStatus } from '../components/ImportStatus';
+import { ImportHistory } from '../components/ImportHistory';
 import { ConfigStatus } from '../components/ConfigStatus';
 import { usePageTitle } from '../hooks/usePageTitle';
 
@@ -11,13 +12,14 @@ export function ImportPage() {
         Import Data
       </h1>
       <p className="text-[13px] text-[var(--text-muted)] mb-6">
-        Upload LiquidPlanner timesheet exports, Microsoft Forms feedback exports, or dashboard configuration files.
+        Upload LiquidPlanner timesheet exports (CSV or Excel), Microsoft Forms feedback exports, or dashboard configuration files.
       </p>
 
       <ImportPanel />
 
       <div className="mt-6 space-y-6">
         <ImportStatus />
+        <ImportHistory />
         <ConfigStatus />
       </div>
     </div>
@@ -16,6 +16,7 @@ import { NPDProjectComparisonPanel } from '../dashboard/panels/NPDProjectCompari
 import { NPDMilestonesPanel } from '../dashboard/panels/NPDMilestonesPanel';
 import { ProjectBurndownPanel } from '../dashboard/panels/ProjectBurndownPanel';
 import { WhatIfPlannerPanel } from '../dashboard/panels/WhatIfPlannerPanel';
+import { BaselineVariancePanel } from '../dashboard/panels/BaselineVariancePanel';
 
 const FULL_WIDTH = 'lg:col-span-2';
 
@@ -24,6 +25,7 @@ const PLANNING_CHART_PANELS = [
   'firefighting-trend',
   'capacity-forecast',
   'npd-project-comp',
+  'baseline-variance',
   'milestone-timeline',
   'project-timeline',
   'what-if-planner',
@@ -65,6 +67,7 @@ export function PlanningPage() {
 
   const showCapacity = usePanelDataCheck('capacity-forecast');
   const showNpdComp = usePanelDataCheck('npd-project-comp');
+  const showBaselineVariance = usePanelDataCheck('baseline-variance');
   const showMilestones = usePanelDataCheck('milestone-timeline');
   const showProjectTimeline = usePanelDataCheck('project-timeline');
 
@@ -75,6 +78,7 @@ export function PlanningPage() {
         onProjectChange={handleProjectChange}
         onExport={() => setShowExport(true)}
         pickerMode="both"
+        showBaselineFilter
       />
       <ExportConfigModal
         isOpen={showExport}
@@ -116,6 +120,17 @@ export function PlanningPage() {
           </PanelWrapper>
         )}
 
+        {showBaselineVariance && (
+          <PanelWrapper
+            id="baseline-variance"
+            title="Plan Baseline Variance"
+          >
+            <PanelErrorBoundary panelId="baseline-variance">
+              <BaselineVariancePanel onProjectClick={handleProjectClick} />
+            </PanelErrorBoundary>
+          </PanelWrapper>
+        )}
+
         {showCapacity && (
           <PanelWrapper
             id="capacity-forecast"
@@ -6,7 +6,7 @@ import { ProjectType } from '../types';
 import type { WeeklyAutoSummary, WeeklyUpdate } from '../types';
 import { getAvailableWeeks, getWeekRange } from '../utils/weekDates';
 import { computeWeeklyAutoSummary } from '../aggregation/weeklyAutoSummary';
-import { getProjectParent } from '../aggregation/projectUtils';
+import { buildProjectHierarchy } from '../aggregation/projectUtils';
 import { useWeeklyUpdates } from '../hooks/useWeeklyUpdates';
 import { UpdatesHeader } from '../updates/UpdatesHeader';
 import { ProjectUpdateCard } from '../updates/ProjectUpdateCard';
@@ -60,11 +60,12 @@ export function UpdatesPage() {
     // Load all projects for name/type lookup
     const allProjects = await db.projects.toArray();
     const projectMap = new Map(allProjects.map(p => [p.project_id, p]));
+    const hierarchy = buildProjectHierarchy(allProjects);
 
-    // Aggregate by parent project
+    // Aggregate by top-level project
     const hoursByProject = new Map<string, { hours: number; rNumbers: Set<string> }>();
     for (const entry of entries) {
-      const parent = getProjectParent(entry.r_number);
+      const parent = hierarchy.rootOf(entry.r_number);
       const existing = hoursByProject.get(parent) ?? { hours: 0, rNumbers: new Set() };
       existing.hours += entry.hours;
       existing.rNumbers.add(entry.r_number);
@@ -35,6 +35,23 @@ export const PersonRole = {
 
 export type PersonRole = typeof PersonRole[keyof typeof PersonRole];
 
+export const ImportMode = {
+  SkipExisting: "skip_existing", // Rows already stored are left untouched
+  Reconcile: "reconcile",        // Rows already stored are updated when LP values changed
+} as const;
+
+export type ImportMode = typeof ImportMode[keyof typeof ImportMode];
+
+export const RuleMatchField = {
+  RNumberPrefix: "r_number_prefix", // R# starts with the pattern
+  RNumberRegex: "r_number_regex",   // R# matches the pattern as a regular expression
+  InheritedTag: "inherited_tag",    // Any row's inherited tags include the pattern
+  FolderPath: "folder_path",        // Any row's folder breadcrumb contains the pattern
+  Client: "client",                 // Any row's LP client equals the pattern
+} as const;
+
+export type RuleMatchField = typeof RuleMatchField[keyof typeof RuleMatchField];
+
 // ============================================================
 // RAW IMPORT
 // ============================================================
@@ -108,6 +125,42 @@ export interface TimesheetEntry {
   test_type: string;
   andon: string;
   number_of_tests: string;
+  import_batch_id?: string;     // ImportLog.batch_id of the import that stored this row (absent on pre-v15 rows)
+}
+
+/**
+ * Timesheet hours pre-aggregated per person × R# × activity × month (monthlyRollups)
+ * or × day (dailyRollups), within one team. Field names mirror TimesheetEntry so
+ * aggregations can read rollups in place of raw rows.
+ */
+export interface TimesheetRollup {
+  key: string;                  // PRIMARY KEY — period|team|person_id|r_number|activity
+  month: string;                // YYYY/MM
+  date: string;                 // YYYY-MM-DD on daily rollups, '' on monthly rollups
+  team: string;
+  person_id: number;
+  full_name: string;            // From the most recently added row
+  r_number: string;
+  activity: ActivityType;
+  hours: number;
+  meeting_hours: number;        // Hours on tasks with "meeting" in the name
+  entry_count: number;          // Rows folded in; the rollup is deleted when this reaches 0
+  tasks?: Record<number, [number, number]>; // Monthly only (see withTaskTallies): task_id → [rows, rows marked done]
+}
+
+/** CSV header → TimesheetEntry field. Headers are matched case- and punctuation-insensitively. */
+export type ColumnMap = Record<string, keyof TimesheetEntry>;
+
+/**
+ * A saved column mapping profile, for timesheet exports from LP workspaces
+ * whose custom fields are named differently from ours.
+ */
+export interface ColumnMappingProfile {
+  id?: number;
+  name: string;
+  mappings: ColumnMap;
+  created_at: string;           // ISO datetime
+  updated_at: string;
 }
 
 // ============================================================
@@ -123,8 +176,55 @@ export interface TeamMember {
   person: string;               // Username
   full_name: string;
   role: PersonRole;             // Manually set in config; default heuristic below
-  capacity_override_hours: number; // 0 = use default (140 hrs/month from params)
+  capacity_override_hours: number; // 0 = use default (140 hrs/month from params); before any capacity_changes
+  capacity_changes?: CapacityChange[]; // Effective-dated overrides, sorted by effective_from
   exclude_from_capacity?: boolean; // If true, excluded from team capacity planning views
+  teams?: string[];             // LP teams this person has logged time under
+  start_date?: string;          // YYYY-MM-DD first working day (unset = always employed)
+  end_date?: string;            // YYYY-MM-DD last working day (unset = still employed)
+}
+
+/**
+ * A capacity override that takes effect from a month onward,
+ * e.g. going part-time in June. Earlier months keep the previous value.
+ */
+export interface CapacityChange {
+  effective_from: string;       // YYYY-MM
+  capacity_hours: number;       // 0 = use default
+}
+
+/**
+ * An identity that was merged into another team member (renamed person,
+ * re-issued LP account). Imports rewrite its rows onto the target member.
+ */
+export interface PersonAlias {
+  person_id: number;            // PRIMARY KEY — the merged-away LP person id
+  person: string;               // Its username
+  full_name: string;            // Its display name
+  target_person_id: number;     // FK → TeamMember.person_id it now belongs to
+  merged_at: string;            // ISO datetime
+}
+
+/**
+ * Two team members that are probably the same person.
+ */
+export interface DuplicatePersonCandidate {
+  keep: TeamMember;             // Suggested survivor (most recent timesheet activity)
+  merge: TeamMember;            // Suggested identity to fold into `keep`
+  reason: string;
+}
+
+/**
+ * What a person merge rewrote, per table.
+ */
+export interface PersonMergeResult {
+  timesheetRows: number;
+  allocations: number;
+  skills: number;
+  leave: number;
+  scenarioAllocations: number;
+  weeklyUpdates: number;
+  projects: number;
 }
 
 /**
@@ -136,6 +236,7 @@ export interface Project {
   project_name: string;         // Human-readable name
   type: ProjectType;            // NPD, Sustaining, Admin, OOO
   work_class: WorkClass;        // Planned or Unplanned/Firefighting
+  parent_id?: string;           // Explicit parent ('' = top level); unset = dot rule (R1337.1 → R1337)
   // Optional metadata (Weekly Updates / project tracker)
   product_category?: string;      // e.g., "Couplings", "Valves"
   mendix_score?: number;          // 1-10 priority
@@ -145,6 +246,32 @@ export interface Project {
   estimated_lab_hours?: number;
 }
 
+/**
+ * An ordered project classification rule, applied when a project is discovered
+ * (and on demand to existing projects). For each of type, work class and name,
+ * the first enabled matching rule that assigns it wins.
+ */
+export interface ClassificationRule {
+  id?: number;
+  sort_order: number;
+  enabled: boolean;
+  match_field: RuleMatchField;
+  pattern: string;
+  assign_type?: ProjectType;
+  assign_work_class?: WorkClass;
+  assign_name?: string;
+  note?: string;                // Why the rule exists, e.g. "EP Support"
+}
+
+/**
+ * A change the classification rules would make to an existing project.
+ */
+export interface ProjectReclassification {
+  project_id: string;
+  current: Pick<Project, 'project_name' | 'type' | 'work_class'>;
+  proposed: Pick<Project, 'project_name' | 'type' | 'work_class'>;
+}
+
 /**
  * Milestone dates for NPD projects (gate reviews).
  * Manually entered in configuration.
@@ -181,6 +308,41 @@ export interface PlannedProjectMonth {
   total_planned_hours: number;
 }
 
+/**
+ * A named, frozen copy of the plan (e.g., "FY26 Budget", "Q2 re-plan").
+ * Planned-vs-actual views can compare against a baseline instead of the live plan.
+ */
+export interface PlanBaseline {
+  id?: number;
+  name: string;
+  description: string;
+  created_at: string;           // ISO datetime
+  created_by: string;           // DashboardConfig.editor_name at capture time
+  allocations: PlannedAllocation[];
+  project_months: PlannedProjectMonth[];
+}
+
+/**
+ * A company holiday: a day nobody is expected to work.
+ * Imported from an ICS calendar or entered by hand.
+ */
+export interface Holiday {
+  date: string;                 // YYYY-MM-DD (PRIMARY KEY)
+  name: string;
+}
+
+/**
+ * A block of planned leave (PTO, training, parental leave) for one person.
+ * Working days inside the range come off that person's monthly capacity.
+ */
+export interface PlannedLeave {
+  id?: number;
+  engineer: string;             // Person's full_name
+  start_date: string;           // YYYY-MM-DD, inclusive
+  end_date: string;             // YYYY-MM-DD, inclusive
+  note: string;
+}
+
 /**
  * Global configuration parameters.
  */
@@ -204,8 +366,31 @@ export type DateRangePreset = 'single' | 'quarter' | 'year' | 'ytd' | 'all' | 'r
 
 export interface DateRange {
   type: DateRangePreset;
-  months: string[];         // Resolved list of YYYY-MM month strings
-  label: string;            // Display label: "Q1 2026", "2025", "Jan '26"
+  months: string[];         // Resolved list of YYYY-MM month strings (for a week range: the months it touches)
+  label: string;            // Display label: "Q1 2026", "2025", "Jan '26", "W07 '26"
+  weeks?: string[];         // Week keys when the range was picked by week (see WeekConvention)
+}
+
+/** Whether the dashboard period is picked and plotted by month or by week */
+export type PeriodGranularity = 'month' | 'week';
+
+/**
+ * How timesheet days are grouped into weeks: ISO weeks run Monday–Sunday and
+ * are keyed "2026-W07"; Friday-ending weeks run Saturday–Friday and are keyed
+ * by their Friday, "2026-02-13".
+ */
+export type WeekConvention = 'iso' | 'friday';
+
+/**
+ * What the dashboard compares the selected period against:
+ * the equally long period just before it, the same months a year earlier,
+ * or an explicit range of YYYY-MM months.
+ */
+export type ComparisonMode = 'previous_period' | 'previous_year' | 'custom';
+
+export interface ComparisonSelection {
+  mode: ComparisonMode;
+  months?: string[];        // Custom range only
 }
 
 export interface DashboardConfig {
@@ -215,8 +400,14 @@ export interface DashboardConfig {
   over_utilization_threshold_pct: number; // Default: 1.0 (100%)
   selected_month: string;       // YYYY-MM for dashboard filter (primary month)
   selected_project: string;     // R# for project drill-down
+  selected_team?: string;       // LP team the dashboard is scoped to ('' = all teams)
   selected_date_range?: DateRange; // Overrides selected_month when set
-  kpi_cards: KPICardKey[];      // Ordered list of KPI cards to display
+  week_convention?: WeekConvention; // How week ranges are keyed (unset = ISO weeks)
+  editor_name?: string;         // Recorded as the editor on change-history entries
+  selected_baseline_id?: number; // Plan baseline that planned-vs-actual views compare against (unset = current plan)
+  selected_comparison?: ComparisonSelection; // Period KPI deltas and ghost series compare against (unset = no comparison)
+  hours_per_day?: number;       // Working hours in a full day (unset = std_monthly_capacity_hours / 20)
+  kpi_cards: KPICardSelection[]; // Ordered list of KPI cards to display
   pdf_export_sections: PerViewExportSections;
 }
 
@@ -233,8 +424,57 @@ export interface ImportLog {
   total_rows: number;
   new_rows: number;             // After dedup
   duplicate_rows: number;
+  updated_rows?: number;        // Existing rows whose values changed (reconcile mode)
   people_count: number;
   total_hours: number;
+  batch_id?: string;            // Stamped on every row this import stored (absent on pre-v15 logs)
+  discovered_person_ids?: number[];  // Team members first seen in this import
+  discovered_project_ids?: string[]; // R# codes first seen in this import
+}
+
+/**
+ * Outcome of rolling back a single import batch.
+ */
+export interface ImportRollbackResult {
+  rowsRemoved: number;
+  hoursRemoved: number;
+  peopleRemoved: string[];          // full_names no longer backed by any timesheet row
+  projectsRemoved: string[];        // R# codes no longer backed by any timesheet row
+  affectedMonths: string[];         // YYYY-MM
+}
+
+/**
+ * A stored timesheet row that falls inside a re-imported file's date range and
+ * team but is absent from the export — most likely deleted in LiquidPlanner.
+ */
+export type ProbableDeletion = Pick<
+  TimesheetEntry,
+  'timesheet_entry_id' | 'date' | 'full_name' | 'r_number' | 'hours'
+>;
+
+/**
+ * A row flagged by the import dry run.
+ */
+export type ValidationSampleRow = Pick<
+  TimesheetEntry,
+  'timesheet_entry_id' | 'date' | 'full_name' | 'r_number' | 'activity' | 'hours'
+>;
+
+export interface ValidationIssue {
+  count: number;
+  samples: ValidationSampleRow[];   // First few offending rows
+}
+
+/**
+ * What a dry run found in a timesheet file, beyond the row counts in ImportResult.
+ */
+export interface ImportValidationReport {
+  unknownActivities: { value: string; count: number }[]; // Not an ActivityType
+  unknownRNumber: ValidationIssue;  // No R# — stored as 'UNKNOWN'
+  nonPositiveHours: ValidationIssue;
+  outOfRangeDates: ValidationIssue; // Outside the filename's date range
+  newPeople: string[];              // full_names that would be auto-discovered
+  newProjects: string[];            // R# codes that would be auto-discovered
 }
 
 /**
@@ -248,11 +488,27 @@ export interface ImportResult {
   dateRangeEnd: string;
   totalRowsParsed: number;
   newRowsInserted: number;
-  duplicateRowsSkipped: number;
+  duplicateRowsSkipped: number;     // Already stored and left untouched (reconcile: unchanged rows)
+  rowsUpdated: number;              // Already stored, overwritten with corrected LP values
+  probableDeletions: ProbableDeletion[]; // Stored rows in the file's range that the export no longer contains
   newPeopleDiscovered: string[];    // full_names
   newProjectsDiscovered: string[];  // R# codes
   totalHoursImported: number;
   errors: string[];                 // Any parse errors or warnings
+  cancelled?: boolean;              // True when the user aborted mid-file (nothing kept)
+  columnProfile?: string;           // Name of the column mapping profile used
+  dryRun?: boolean;                 // Nothing was written; row counts are what an import would do
+  validation?: ImportValidationReport; // Dry runs only
+}
+
+/**
+ * Row-level progress reported while a timesheet file streams through the import worker.
+ */
+export interface ImportProgress {
+  phase: 'parsing' | 'finalizing';  // finalizing = discovery, logging, history refresh
+  rowsProcessed: number;
+  bytesProcessed: number;
+  totalBytes: number;
 }
 
 // ============================================================
@@ -325,6 +581,17 @@ export interface MonthlyCategoryTotals {
   lab_tech_total: number;       // Total lab-testing hours across all engineers
 }
 
+/**
+ * Actual category totals of one week, keyed like WeekFilter weeks.
+ */
+export interface WeeklyCategoryTotals {
+  week: string;
+  actual_npd: number;
+  actual_sustaining: number;
+  actual_sprint: number;
+  actual_firefighting: number;  // Subset of sustaining where work_class = Unplanned
+}
+
 /**
  * Planned utilization heatmap cell.
  */
@@ -348,6 +615,18 @@ export interface NPDProjectComparison {
   delta_pct: number;          // (actual - planned) / planned
 }
 
+/**
+ * Planned hours for one top-level project in two versions of the plan.
+ */
+export interface BaselineVariance {
+  project_id: string;         // Top-level R# code
+  project_name: string;
+  from_hours: number;         // Planned hours in the earlier plan
+  to_hours: number;           // Planned hours in the later plan
+  delta: number;              // to - from
+  delta_pct: number;          // (to - from) / from; 0 when from is 0
+}
+
 /**
  * Engineer-Tech collaboration affinity.
  */
@@ -403,6 +682,72 @@ export type KPICardKey =
   | 'deepWorkRatio'
   | 'sprintLoad';
 
+/** Key of a user-defined KPI, as stored in kpi_cards alongside the built-in keys */
+export type CustomKPIKey = `custom:${string}`;
+
+/** A KPI card the dashboard can show: built-in or user-defined */
+export type KPICardSelection = KPICardKey | CustomKPIKey;
+
+export type KPIFormat = 'percent' | 'hours' | 'count' | 'decimal';
+
+/** What a custom KPI term adds up over the matching monthly rollups */
+export type CustomKPIMeasure = 'hours' | 'meeting_hours' | 'people' | 'projects' | 'tasks' | 'completed_tasks';
+
+/**
+ * One named input to a custom KPI formula: a measure over the timesheet
+ * rollups that pass every filter set on it. Empty filters match everything.
+ */
+export interface CustomKPITerm {
+  name: string;                 // Identifier used in the formula, e.g. "lab"
+  measure: CustomKPIMeasure;
+  project_types?: ProjectType[];
+  work_classes?: WorkClass[];
+  r_numbers?: string[];         // Matches each project and its sub-projects
+  activities?: ActivityType[];
+  roles?: PersonRole[];
+}
+
+/**
+ * A user-defined KPI: an arithmetic formula over its terms and the built-in
+ * KPI values, e.g. "lab / npd" or "sales / totalHoursLogged".
+ */
+export interface CustomKPI {
+  key: CustomKPIKey;            // PRIMARY KEY
+  label: string;
+  description: string;
+  format: KPIFormat;
+  formula: string;
+  terms: CustomKPITerm[];
+  thresholds: {
+    green: number;
+    yellow: number;
+    invertColor?: boolean;
+  };
+}
+
+/** A goal for a KPI over one month (YYYY-MM) or quarter (YYYY-Qn, e.g. "2026-Q3") */
+export interface KPITarget {
+  period: string;
+  value: number;
+}
+
+/** Whether a KPI meets its target by reaching it or by staying under it */
+export type KPITargetMode = 'at_least' | 'at_most';
+
+/**
+ * Team-specific settings for a built-in or custom KPI card:
+ * color threshold overrides and period targets.
+ */
+export interface KPISetting {
+  key: KPICardSelection;        // PRIMARY KEY
+  thresholds?: {                // Replaces the KPI's own green/yellow thresholds
+    green: number;
+    yellow: number;
+  };
+  target_mode?: KPITargetMode;  // Defaults from the KPI's thresholds
+  targets: KPITarget[];
+}
+
 export interface KPIResults {
   // Current 6
   teamUtilization: number;
@@ -432,6 +777,9 @@ export interface KPIResults {
   sustainingHours: number;
   sprintHours: number;
   firefightingHours: number;
+
+  // User-defined KPI values by key (absent on snapshots taken before any were defined)
+  custom?: Record<CustomKPIKey, number>;
 }
 
 // ============================================================
@@ -446,6 +794,8 @@ export interface KPISnapshot {
   id?: number;                   // auto-increment
   month: string;                 // "2026-01"
   project_filter: string;        // "" for all-projects, or "R1518" etc.
+  team_filter: string;           // "" for the all-teams roll-up, or an LP team name
+  engineer_filter: string;       // "" for the whole team, or an engineer's full_name
   computed_at: string;           // ISO datetime
   results: KPIResults;           // The full KPI results object
 }
@@ -478,6 +828,7 @@ export interface AnomalySnapshot {
   id?: number;                // auto-increment
   month: string;              // "2026-01"
   project_filter: string;     // "" for all-projects
+  team_filter: string;        // "" for the all-teams roll-up
   computed_at: string;        // ISO datetime
   anomalies: StoredAnomaly[];
 }
@@ -635,3 +986,21 @@ export interface WeeklyUpdate {
   updated_at: string;
   updated_by: string;
 }
+
+/**
+ * One create/update/delete of a planning-table row (auditLog table).
+ * Written by the audit middleware in db/auditLog.ts, never by callers.
+ */
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditEntry {
+  id?: number;
+  timestamp: string;         // ISO datetime
+  editor: string;            // DashboardConfig.editor_name at the time ('' = not set)
+  table: string;             // Dexie table name (see AUDITED_TABLES)
+  entity_key: string | number; // Primary key of the changed row
+  entity_label: string;      // Human-readable row identity, e.g. "Jane Doe · R1527 · 2025-03"
+  action: AuditAction;
+  before?: Record<string, unknown>; // Row before the change (update/delete)
+  after?: Record<string, unknown>;  // Row after the change (create/update)
+}
@@ -1,11 +1,68 @@
+import { eachDayOfInterval, endOfMonth, format, isWeekend, parseISO } from 'date-fns';
 import type { TeamMember } from '../types';
 
+/** Working days in the "standard" month that std_monthly_capacity_hours describes */
+export const STD_WORKING_DAYS_PER_MONTH = 20;
+
+/**
+ * The capacity override in force for a member in a YYYY-MM month: the latest
+ * capacity change effective on or before it, else capacity_override_hours.
+ * Without a month, the override in force today.
+ */
+export function getCapacityOverride(member: TeamMember, month?: string): number {
+  const target = month ?? format(new Date(), 'yyyy-MM');
+  let override = member.capacity_override_hours;
+  for (const change of member.capacity_changes ?? []) {
+    if (change.effective_from <= target) override = change.capacity_hours;
+  }
+  return override;
+}
+
 /**
  * Get the effective monthly capacity for a team member.
- * Uses capacity_override_hours when set; falls back to the global standard.
+ * Uses the capacity override in force in `month` when set; falls back to the global standard.
+ */
+export function getEngineerCapacity(member: TeamMember, stdCapacity: number, month?: string): number {
+  const override = getCapacityOverride(member, month);
+  return override > 0 ? override : stdCapacity;
+}
+
+/**
+ * Fraction of a full-time schedule a member works in a month (0.5 for a 70h
+ * override against a 140h standard). 1 when no override is in force.
+ */
+export function getCapacityFactor(member: TeamMember | undefined, stdCapacity: number, month?: string): number {
+  if (!member || stdCapacity <= 0) return 1;
+  return getEngineerCapacity(member, stdCapacity, month) / stdCapacity;
+}
+
+/**
+ * Whether a member works at any point in a YYYY-MM month, per their
+ * start and end dates. Members without dates are always employed.
+ */
+export function isEmployedInMonth(member: TeamMember, month: string): boolean {
+  if (member.start_date && member.start_date.slice(0, 7) > month) return false;
+  if (member.end_date && member.end_date.slice(0, 7) < month) return false;
+  return true;
+}
+
+/**
+ * Working hours in a full day. Falls back to the standard monthly capacity
+ * spread over STD_WORKING_DAYS_PER_MONTH days.
+ */
+export function getHoursPerDay(hoursPerDay: number | undefined, stdCapacity: number): number {
+  return hoursPerDay && hoursPerDay > 0
+    ? hoursPerDay
+    : stdCapacity / STD_WORKING_DAYS_PER_MONTH;
+}
+
+/**
+ * Weekdays (YYYY-MM-DD) in a YYYY-MM month that are not company holidays.
  */
-export function getEngineerCapacity(member: TeamMember, stdCapacity: number): number {
-  return member.capacity_override_hours > 0
-    ? member.capacity_override_hours
-    : stdCapacity;
+export function getWorkingDates(month: string, holidays: Set<string>): string[] {
+  const start = parseISO(`${month}-01`);
+  return eachDayOfInterval({ start, end: endOfMonth(start) })
+    .filter(d => !isWeekend(d))
+    .map(d => format(d, 'yyyy-MM-dd'))
+    .filter(date => !holidays.has(date));
 }
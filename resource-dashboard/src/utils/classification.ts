@@ -1,88 +1,150 @@
-import { ProjectType, WorkClass, PersonRole } from '../types';
-import type { TimesheetEntry } from '../types';
-
-// Known project names from the Excel template
-export const KNOWN_PROJECTS: Record<string, string> = {
-  'R1337.1': 'K4.0 Resi Concealed Sidewall',
-  'R1337.2': 'K8.0 Resi Concealed Sidewall ECLH',
-  'R1337.3': 'K5.6 Resi Concealed Sidewall',
-  'R1430.1A': 'K11.2 Low Profile In Rack Storage Sprinkler',
-  'R1430.1B': 'K8.0 Low Profile In Rack Storage Sprinkler',
-  'R1430.1C': 'K5.6 Low Profile In Rack Storage Sprinkler',
-  'R1514.1': 'K4.9 Resi Concealed Pendent',
-  'R1514.2': 'K3.0 Resi Concealed Pendent',
-  'R1517': 'K22/K25 ESFR High Pressure',
-  'R1517.1': 'K17 ESFR High Pressure',
-  'R1518': 'Universal Cleanroom',
-  'R1527': 'UL Listing for Vortex',
-  'S0001': 'V10 Spray Nozzle Kfactor Noncompliance',
-  'S0057': 'VicFlex Double Window VB5 Data Center Bracket',
-  'S0013': 'General Sustaining Support',
-  'S0062': 'VTI 300 Bar Cylinder Valve',
-  'R0999': 'Out of Office (PTO/Holiday)',
-  'R0996': 'Administrative Work',
-  'S0004': 'Regulatory Support / Industry Committee Work',
-  'R0992': 'Applications / Sales Support',
-  'S0002': 'EP Support',
-  'S0005': 'Manufacturing Support',
-  'R0991': 'Lab 5S Support',
-  'S0006': 'Submittal Modifications',
-  'S0082': 'Vortex Sustaining',
-  'R0751': 'QA / PER Support',
-  'S0008': 'Drawing Maintenance',
-  'S0003': 'Reliability Growth',
-};
-
-// These R#s are known "Unplanned/Firefighting" from the Excel template
-const FIREFIGHTING_CODES = new Set([
-  'R0992',  // Applications / Sales Support
-  'S0002',  // EP Support
-  'S0005',  // Manufacturing Support
-  'R0991',  // Lab 5S Support
-  'R0751',  // QA / PER Support
-  'S0008',  // Drawing Maintenance
-  'S0003',  // Reliability Growth
-  'S0001',  // V10 Spray Nozzle (reactive)
-  'R0993',  // Misc sustaining support
-]);
+import { ProjectType, WorkClass, PersonRole, RuleMatchField } from '../types';
+import type { TimesheetEntry, ClassificationRule, Project } from '../types';
+
+type RuleSeed = Omit<ClassificationRule, 'id' | 'sort_order' | 'enabled'>;
+
+/** Regex matching exactly one R# code (sub-projects excluded). */
+function exactCode(code: string): string {
+  return `^${code.replace(/\./g, '\\.')}$`;
+}
+
+function namedProject(code: string, name: string, extra: Partial<RuleSeed> = {}): RuleSeed {
+  return { match_field: RuleMatchField.RNumberRegex, pattern: exactCode(code), assign_name: name, note: name, ...extra };
+}
+
+const firefighting = { assign_work_class: WorkClass.UnplannedFirefighting };
 
 /**
- * Classify project type based on R# code and inherited tags.
+ * Rules seeded into an empty rules table — the project names and firefighting
+ * codes from the Excel template, then the R# prefix/tag conventions for type.
  */
-export function classifyProjectType(rNumber: string, inheritedTags: string): ProjectType {
+export const DEFAULT_CLASSIFICATION_RULES: RuleSeed[] = [
   // Admin and OOO are fixed codes
-  if (rNumber === 'R0996') return ProjectType.Admin;
-  if (rNumber === 'R0999') return ProjectType.OutOfOffice;
-
-  // T-prefix = Sprint
-  if (rNumber.startsWith('T')) return ProjectType.Sprint;
-
-  // Check inherited tags for explicit signals
-  const tags = inheritedTags.split(',').map(t => t.trim().toLowerCase());
-  if (tags.includes('npd')) return ProjectType.NPD;
-  if (tags.includes('sustaineng')) return ProjectType.Sustaining;
-
-  // S-prefix R#s are typically Sustaining
-  if (rNumber.startsWith('S')) return ProjectType.Sustaining;
-
-  // R-prefix with numeric suffix > R0999 are typically NPD
-  const rMatch = rNumber.match(/^R(\d+)/);
-  if (rMatch) {
-    const num = parseInt(rMatch[1]);
-    if (num > 999 && num !== 996 && num !== 999) return ProjectType.NPD;
-    // R0991, R0992, R0993, R0751 = Sustaining support
-    return ProjectType.Sustaining;
+  namedProject('R0996', 'Administrative Work', { assign_type: ProjectType.Admin }),
+  namedProject('R0999', 'Out of Office (PTO/Holiday)', { assign_type: ProjectType.OutOfOffice }),
+
+  // Known project names from the Excel template (support codes are Unplanned/Firefighting)
+  namedProject('R1337.1', 'K4.0 Resi Concealed Sidewall'),
+  namedProject('R1337.2', 'K8.0 Resi Concealed Sidewall ECLH'),
+  namedProject('R1337.3', 'K5.6 Resi Concealed Sidewall'),
+  namedProject('R1430.1A', 'K11.2 Low Profile In Rack Storage Sprinkler'),
+  namedProject('R1430.1B', 'K8.0 Low Profile In Rack Storage Sprinkler'),
+  namedProject('R1430.1C', 'K5.6 Low Profile In Rack Storage Sprinkler'),
+  namedProject('R1514.1', 'K4.9 Resi Concealed Pendent'),
+  namedProject('R1514.2', 'K3.0 Resi Concealed Pendent'),
+  namedProject('R1517', 'K22/K25 ESFR High Pressure'),
+  namedProject('R1517.1', 'K17 ESFR High Pressure'),
+  namedProject('R1518', 'Universal Cleanroom'),
+  namedProject('R1527', 'UL Listing for Vortex'),
+  namedProject('S0001', 'V10 Spray Nozzle Kfactor Noncompliance', firefighting),
+  namedProject('S0057', 'VicFlex Double Window VB5 Data Center Bracket'),
+  namedProject('S0013', 'General Sustaining Support'),
+  namedProject('S0062', 'VTI 300 Bar Cylinder Valve'),
+  namedProject('S0004', 'Regulatory Support / Industry Committee Work'),
+  namedProject('R0992', 'Applications / Sales Support', firefighting),
+  namedProject('S0002', 'EP Support', firefighting),
+  namedProject('S0005', 'Manufacturing Support', firefighting),
+  namedProject('R0991', 'Lab 5S Support', firefighting),
+  namedProject('S0006', 'Submittal Modifications'),
+  namedProject('S0082', 'Vortex Sustaining'),
+  namedProject('R0751', 'QA / PER Support', firefighting),
+  namedProject('S0008', 'Drawing Maintenance', firefighting),
+  namedProject('S0003', 'Reliability Growth', firefighting),
+  { match_field: RuleMatchField.RNumberRegex, pattern: exactCode('R0993'), note: 'Misc sustaining support', ...firefighting },
+
+  // Project type conventions
+  { match_field: RuleMatchField.RNumberPrefix, pattern: 'T', assign_type: ProjectType.Sprint, note: 'T-prefix = Sprint' },
+  { match_field: RuleMatchField.InheritedTag, pattern: 'npd', assign_type: ProjectType.NPD, note: 'Explicit LP tag' },
+  { match_field: RuleMatchField.InheritedTag, pattern: 'sustaineng', assign_type: ProjectType.Sustaining, note: 'Explicit LP tag' },
+  { match_field: RuleMatchField.RNumberPrefix, pattern: 'S', assign_type: ProjectType.Sustaining, note: 'S-prefix R#s are typically Sustaining' },
+  { match_field: RuleMatchField.RNumberRegex, pattern: '^R0*[1-9]\\d{3,}', assign_type: ProjectType.NPD, note: 'R# above R0999 are typically NPD' },
+  { match_field: RuleMatchField.RNumberRegex, pattern: '^R\\d', assign_type: ProjectType.Sustaining, note: 'Remaining R#s are sustaining support' },
+];
+
+/** Applied when no rule assigns a type or work class to a newly discovered project. */
+export const FALLBACK_PROJECT_TYPE: ProjectType = ProjectType.Sustaining;
+export const FALLBACK_WORK_CLASS: WorkClass = WorkClass.Planned;
+
+/**
+ * What the rules see of a project: its R# plus the distinct tag, folder
+ * and client values across all of its timesheet rows.
+ */
+export interface ClassificationInput {
+  r_number: string;
+  inherited_tags: string[];     // Lower-cased
+  folders: string[];
+  clients: string[];
+}
+
+export function buildClassificationInput(rNumber: string, entries: TimesheetEntry[]): ClassificationInput {
+  const tags = new Set<string>();
+  const folders = new Set<string>();
+  const clients = new Set<string>();
+  for (const entry of entries) {
+    for (const tag of (entry.inherited_tags ?? '').split(',')) {
+      const t = tag.trim().toLowerCase();
+      if (t) tags.add(t);
+    }
+    if (entry.folder) folders.add(entry.folder);
+    if (entry.client) clients.add(entry.client);
   }
+  return { r_number: rNumber, inherited_tags: [...tags], folders: [...folders], clients: [...clients] };
+}
+
+/**
+ * Why a rule's pattern can't be used, or null when it is valid.
+ */
+export function validateRulePattern(rule: Pick<ClassificationRule, 'match_field' | 'pattern'>): string | null {
+  if (!rule.pattern.trim()) return 'Pattern is empty';
+  if (rule.match_field === RuleMatchField.RNumberRegex) {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (e) {
+      return e instanceof Error ? e.message : 'Invalid regular expression';
+    }
+  }
+  return null;
+}
 
-  return ProjectType.Sustaining; // Safe default
+export function ruleMatches(rule: ClassificationRule, input: ClassificationInput): boolean {
+  if (validateRulePattern(rule)) return false;
+  const pattern = rule.pattern.trim().toLowerCase();
+
+  switch (rule.match_field) {
+    case RuleMatchField.RNumberPrefix:
+      return input.r_number.toLowerCase().startsWith(pattern);
+    case RuleMatchField.RNumberRegex:
+      return new RegExp(rule.pattern, 'i').test(input.r_number);
+    case RuleMatchField.InheritedTag:
+      return input.inherited_tags.includes(pattern);
+    case RuleMatchField.FolderPath:
+      return input.folders.some(f => f.toLowerCase().includes(pattern));
+    case RuleMatchField.Client:
+      return input.clients.some(c => c.toLowerCase() === pattern);
+    default:
+      return false;
+  }
 }
 
 /**
- * Classify work class based on R# code.
+ * Run the rule table against a project. Each attribute is taken from the first
+ * enabled matching rule that assigns it; attributes no rule assigns are left undefined.
  */
-export function classifyWorkClass(rNumber: string): WorkClass {
-  if (FIREFIGHTING_CODES.has(rNumber)) return WorkClass.UnplannedFirefighting;
-  return WorkClass.Planned;
+export function classifyProject(
+  rules: ClassificationRule[],
+  input: ClassificationInput
+): Partial<Pick<Project, 'project_name' | 'type' | 'work_class'>> {
+  const result: Partial<Pick<Project, 'project_name' | 'type' | 'work_class'>> = {};
+  const ordered = rules.filter(r => r.enabled).sort((a, b) => a.sort_order - b.sort_order);
+
+  for (const rule of ordered) {
+    if (!ruleMatches(rule, input)) continue;
+    if (result.type === undefined && rule.assign_type) result.type = rule.assign_type;
+    if (result.work_class === undefined && rule.assign_work_class) result.work_class = rule.assign_work_class;
+    if (result.project_name === undefined && rule.assign_name?.trim()) result.project_name = rule.assign_name.trim();
+    if (result.type && result.work_class && result.project_name) break;
+  }
+  return result;
 }
 
 /**
@@ -105,16 +167,11 @@ export function classifyPersonRole(_entries: TimesheetEntry[]): PersonRole {
 }
 
 /**
- * When auto-discovering a project, pick the most common LP project name
- * for that R# code. If there's a tie, prefer the shortest name.
+ * When auto-discovering a project no rule names, pick the most common LP
+ * project name for that R# code. If there's a tie, prefer the shortest name.
  * Users can override in config.
  */
 export function resolveProjectName(rNumber: string, entries: TimesheetEntry[]): string {
-  // Check if we have a known project name first
-  if (KNOWN_PROJECTS[rNumber]) {
-    return KNOWN_PROJECTS[rNumber];
-  }
-
   const projectEntries = entries.filter(e => e.r_number === rNumber);
   const nameCounts = new Map<string, number>();
 
@@ -3,6 +3,9 @@
  * across the aggregation layer.
  */
 
+import type { WeekConvention } from '../types';
+import { weekKeyOf, weekKeyRange } from './weekDates';
+
 /** A month filter can be a single YYYY-MM string or an array of them. */
 export type MonthFilter = string | string[];
 
@@ -25,3 +28,53 @@ export function toDbMonth(month: string): string {
 export function fromDbMonth(month: string): string {
   return month.replace('/', '-');
 }
+
+/**
+ * Pair each selected month with the comparison month in the same position,
+ * for drawing a comparison period as a ghost series. Months past the end of
+ * a shorter comparison range have no pair.
+ */
+export function alignComparisonMonths(filter: MonthFilter, comparison: MonthFilter): Map<string, string> {
+  const comparisonMonths = resolveMonths(comparison);
+  return new Map(
+    resolveMonths(filter)
+      .map((month, i): [string, string] => [month, comparisonMonths[i]])
+      .filter(([, paired]) => paired !== undefined)
+  );
+}
+
+/**
+ * A run of whole weeks, narrowing a MonthFilter of the months they touch.
+ * Aggregations that take one keep only rows dated inside the weeks.
+ */
+export interface WeekFilter {
+  convention: WeekConvention;
+  weeks: string[];          // Week keys, sorted
+}
+
+/** First and last date (YYYY-MM-DD) covered by a week filter */
+export function weekWindow(filter: WeekFilter): { start: string; end: string } {
+  return {
+    start: weekKeyRange(filter.weeks[0], filter.convention).start,
+    end: weekKeyRange(filter.weeks[filter.weeks.length - 1], filter.convention).end,
+  };
+}
+
+/** Display months (YYYY-MM) a week filter touches, sorted */
+export function weekFilterMonths(filter: WeekFilter): string[] {
+  const { start, end } = weekWindow(filter);
+  const months: string[] = [];
+  let cur = start.slice(0, 7);
+  while (cur <= end.slice(0, 7)) {
+    months.push(cur);
+    const [y, m] = cur.split('-').map(Number);
+    cur = m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, '0')}`;
+  }
+  return months;
+}
+
+/** Keep dated rows (daily rollups, timesheet rows) that fall in the filter's weeks */
+export function filterToWeeks<T extends { date: string }>(rows: T[], filter: WeekFilter): T[] {
+  const weeks = new Set(filter.weeks);
+  return rows.filter(r => !!r.date && weeks.has(weekKeyOf(r.date, filter.convention)));
+}
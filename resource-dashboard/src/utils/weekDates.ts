@@ -1,4 +1,5 @@
-import { startOfISOWeek, addDays, format, parseISO, getISOWeek } from 'date-fns';
+import { startOfISOWeek, addDays, format, parseISO, getISOWeek, getDay } from 'date-fns';
+import type { WeekConvention } from '../types';
 
 /**
  * Get the Friday date for the ISO week containing the given date.
@@ -54,3 +55,61 @@ export function formatWeekLabel(fridayDate: string): string {
   const friLabel = format(friday, 'MMM d, yyyy');
   return `${monLabel} – ${friLabel}`;
 }
+
+// ── Dashboard week keys ──
+
+/** Monday of ISO week `key` ("2026-W07") */
+function isoWeekMonday(key: string): Date {
+  const [year, week] = key.split('-W').map(Number);
+  // Jan 4th is always in ISO week 1
+  return addDays(startOfISOWeek(new Date(year, 0, 4)), (week - 1) * 7);
+}
+
+/**
+ * Key of the week containing a YYYY-MM-DD date: "2026-W07" for ISO weeks,
+ * the week's Friday ("2026-02-13") for Friday-ending weeks, where weekend
+ * days count toward the following Friday.
+ */
+export function weekKeyOf(date: string, convention: WeekConvention): string {
+  const d = parseISO(date);
+  if (convention === 'iso') return format(d, "RRRR-'W'II");
+  return format(addDays(d, (5 - getDay(d) + 7) % 7), 'yyyy-MM-dd');
+}
+
+/** First and last date (YYYY-MM-DD) of a week key */
+export function weekKeyRange(key: string, convention: WeekConvention): { start: string; end: string } {
+  const start = convention === 'iso' ? isoWeekMonday(key) : addDays(parseISO(key), -6);
+  return { start: format(start, 'yyyy-MM-dd'), end: format(addDays(start, 6), 'yyyy-MM-dd') };
+}
+
+export function addWeeks(key: string, delta: number, convention: WeekConvention): string {
+  const { start } = weekKeyRange(key, convention);
+  return weekKeyOf(format(addDays(parseISO(start), delta * 7), 'yyyy-MM-dd'), convention);
+}
+
+/** Week keys from `from` through `to`, inclusive */
+export function weeksBetween(from: string, to: string, convention: WeekConvention): string[] {
+  const result: string[] = [];
+  let cur = from;
+  while (cur <= to) {
+    result.push(cur);
+    cur = addWeeks(cur, 1, convention);
+  }
+  return result;
+}
+
+/** Short week label: "W07 '26" for ISO weeks, "w/e Feb 13 '26" for Friday-ending weeks */
+export function formatWeekKey(key: string, convention: WeekConvention): string {
+  if (convention === 'iso') {
+    const [year, week] = key.split('-W');
+    return `W${week} '${year.slice(2)}`;
+  }
+  return `w/e ${format(parseISO(key), "MMM d ''yy")}`;
+}
+
+/** Picker label for a run of weeks: "W05 '26 — W08 '26" */
+export function computeWeekLabel(from: string | null, to: string | null, convention: WeekConvention): string {
+  if (!from && !to) return 'All Time';
+  if (!from || !to || from === to) return formatWeekKey((from ?? to)!, convention);
+  return `${formatWeekKey(from, convention)} — ${formatWeekKey(to, convention)}`;
+}